@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // The e2e suite needs Postgres and Redis; run it with npm run test:e2e
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/e2e/'],
+  setupFiles: ['<rootDir>/src/__tests__/unit/setup-env.ts'],
+};
@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/e2e/**/*.test.ts'],
+  globalSetup: '<rootDir>/src/__tests__/e2e/global-setup.ts',
+  globalTeardown: '<rootDir>/src/__tests__/e2e/global-teardown.ts',
+  testTimeout: 60000,
+  // The API, worker and queue keep Redis connections open for the life of the process
+  forceExit: true,
+};
@@ -0,0 +1,40 @@
+-- Migration: Role Templates
+-- Created: 2026-10-19
+-- Description: Saved bundles of role, product access and project filter for repeat onboarding
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Role templates table
+CREATE TABLE role_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id VARCHAR(255) NOT NULL, -- ACC Account ID the template belongs to
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    -- Assignment settings
+    role_id VARCHAR(100) NOT NULL, -- Role ID from the account roles list
+    role_name VARCHAR(255),
+    products JSONB NOT NULL DEFAULT '[]', -- [{ key, access }] sent to the Admin API
+    project_filter JSONB, -- Optional { projectIds, nameContains, platform }
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (account_id, name)
+);
+
+CREATE INDEX idx_role_templates_account_id ON role_templates(account_id);
+
+-- Track which template (if any) an execution was created from
+ALTER TABLE job_executions
+    ADD COLUMN template_id UUID REFERENCES role_templates(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_role_templates_updated_at BEFORE UPDATE ON role_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,16 @@
+-- Migration: Access Levels
+-- Created: 2026-10-19
+-- Description: Records the requested access level and per-product access on executions and results
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE job_executions
+    ADD COLUMN access_level VARCHAR(20), -- admin | user
+    ADD COLUMN products JSONB; -- Per-product overrides [{ key, access }]
+
+ALTER TABLE job_results
+    ADD COLUMN access_level VARCHAR(20), -- Access level assigned/attempted
+    ADD COLUMN products JSONB, -- Resolved product access sent to the API
+    ADD COLUMN previous_access_level VARCHAR(20); -- If user already had access
@@ -0,0 +1,17 @@
+-- Migration: Job Cancellation
+-- Created: 2026-10-19
+-- Description: Lets users cancel running executions; the worker stops between batches
+
+-- ============================================================================
+-- ENUMS
+-- ============================================================================
+
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'job_cancelled';
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE job_executions
+    ADD COLUMN cancel_requested_at TIMESTAMP, -- Set by the cancel route, checked by the worker
+    ADD COLUMN cancelled_by UUID REFERENCES users(id) ON DELETE SET NULL;
@@ -0,0 +1,43 @@
+-- Migration: Job Retries
+-- Created: 2026-10-19
+-- Description: Links retry executions to the execution they re-run
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE job_executions
+    ADD COLUMN account_id VARCHAR(255), -- ACC Account the job ran against
+    ADD COLUMN parent_execution_id UUID REFERENCES job_executions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_job_executions_parent_execution_id ON job_executions(parent_execution_id);
+
+ALTER TABLE job_results
+    ADD COLUMN company_id VARCHAR(255); -- Company from spreadsheet imports
+
+-- ============================================================================
+-- VIEWS
+-- ============================================================================
+
+-- Retries need the project and assignment details of each failed operation
+DROP VIEW IF EXISTS v_failed_operations;
+
+CREATE VIEW v_failed_operations AS
+SELECT
+    jr.id,
+    jr.execution_id,
+    jr.project_id,
+    jr.project_name,
+    jr.user_email,
+    jr.assigned_role,
+    jr.access_level,
+    jr.company_id,
+    jr.error_message,
+    jr.error_code,
+    je.retry_count,
+    jr.created_at
+FROM job_results jr
+JOIN job_executions je ON jr.execution_id = je.id
+WHERE jr.status = 'failed'
+  AND je.retry_count < 3
+ORDER BY jr.created_at DESC;
@@ -0,0 +1,15 @@
+-- Migration: Scheduled Jobs
+-- Created: 2026-10-19
+-- Description: Start and end dates for assignments; expiry runs as a scheduled removal
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE job_executions
+    ADD COLUMN scheduled_for TIMESTAMP, -- Job stays pending until this time
+    ADD COLUMN expires_at TIMESTAMP, -- Access granted by the job is removed at this time
+    ADD COLUMN expiry_execution_id UUID REFERENCES job_executions(id) ON DELETE SET NULL; -- Removal queued for expires_at
+
+CREATE INDEX idx_job_executions_scheduled_for ON job_executions(scheduled_for)
+    WHERE status = 'pending';
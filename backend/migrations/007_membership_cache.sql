@@ -0,0 +1,43 @@
+-- Migration: Membership Cache
+-- Created: 2026-10-19
+-- Description: Caches project members so previews and reports avoid listing users from APS
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- One row per member per project, replaced wholesale when the project syncs
+CREATE TABLE project_memberships (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id VARCHAR(255) NOT NULL,
+    project_id VARCHAR(255) NOT NULL,
+
+    project_user_id VARCHAR(255) NOT NULL, -- APS project user ID, used for updates and removals
+    email VARCHAR(255) NOT NULL, -- Stored lowercase
+    name VARCHAR(255),
+    autodesk_id VARCHAR(255),
+    company_id VARCHAR(255),
+    company_name VARCHAR(500),
+    role_ids TEXT[] DEFAULT '{}',
+    products JSONB DEFAULT '[]',
+    access_level VARCHAR(20), -- Derived from products
+
+    synced_at TIMESTAMP DEFAULT NOW(),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (project_id, email)
+);
+
+CREATE INDEX idx_project_memberships_account_email ON project_memberships(account_id, email);
+CREATE INDEX idx_project_memberships_project_id ON project_memberships(project_id);
+
+CREATE TRIGGER update_project_memberships_updated_at BEFORE UPDATE ON project_memberships
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Members are cached per project; NULL means the project has never been synced
+ALTER TABLE projects
+    ADD COLUMN memberships_synced_at TIMESTAMP,
+    ADD COLUMN memberships_sync_error TEXT;
+
+CREATE INDEX idx_projects_memberships_synced_at ON projects(account_id, memberships_synced_at);
@@ -0,0 +1,37 @@
+-- Migration: Multi-Role Assignments
+-- Created: 2026-10-19
+-- Description: Lets assignments grant several roles with a replace/add/remove mode and records role sets per result
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+-- Roles the job was asked to apply and how they combine with a member's current roles
+-- assigned_role keeps the first requested role for older readers
+ALTER TABLE job_executions
+    ADD COLUMN assigned_roles TEXT[],
+    ADD COLUMN role_mode VARCHAR(20); -- replace | add | remove
+
+-- Role sets before and after each operation
+ALTER TABLE job_results
+    ADD COLUMN previous_roles TEXT[], -- If user already had access
+    ADD COLUMN resulting_roles TEXT[]; -- Set once the operation completes
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Earlier jobs granted a single role, replacing whatever the member held
+UPDATE job_executions
+SET assigned_roles = ARRAY[assigned_role],
+    role_mode = 'replace'
+WHERE assigned_role IS NOT NULL;
+
+UPDATE job_results
+SET previous_roles = ARRAY[previous_role]
+WHERE previous_role IS NOT NULL;
+
+UPDATE job_results
+SET resulting_roles = ARRAY[assigned_role]
+WHERE assigned_role IS NOT NULL
+  AND status IN ('success', 'skipped');
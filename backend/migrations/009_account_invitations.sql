@@ -0,0 +1,12 @@
+-- Migration: Account Invitations
+-- Created: 2026-10-19
+-- Description: Lets assignment and import jobs invite emails that are not yet account members
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+-- Kept on the execution so retries invite the same way
+ALTER TABLE job_executions
+    ADD COLUMN invite_to_account BOOLEAN DEFAULT false,
+    ADD COLUMN invitations JSONB; -- [{ email, firstName, lastName, companyId, jobTitle }]
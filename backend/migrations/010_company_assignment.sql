@@ -0,0 +1,12 @@
+-- Migration: Company Assignment
+-- Created: 2026-10-19
+-- Description: Records the companies chosen per email and whether a job may fall back to the account's first company
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+-- Kept on the execution so retries resolve companies the same way
+ALTER TABLE job_executions
+    ADD COLUMN companies JSONB, -- { "<email>": "<company id>" }
+    ADD COLUMN allow_default_company BOOLEAN DEFAULT false;
@@ -0,0 +1,33 @@
+-- Migration: Project Metadata
+-- Created: 2026-10-19
+-- Description: Stores project details from the ACC Admin projects endpoint so projects can be filtered by them
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE projects
+    ADD COLUMN job_number VARCHAR(255),
+    ADD COLUMN address_line1 VARCHAR(500),
+    ADD COLUMN address_line2 VARCHAR(500),
+    ADD COLUMN city VARCHAR(255),
+    ADD COLUMN state_or_province VARCHAR(255),
+    ADD COLUMN postal_code VARCHAR(50),
+    ADD COLUMN country VARCHAR(255),
+    ADD COLUMN business_unit_id VARCHAR(255),
+    ADD COLUMN business_unit_name VARCHAR(500),
+    ADD COLUMN timezone VARCHAR(100),
+    ADD COLUMN construction_type VARCHAR(255),
+    ADD COLUMN delivery_method VARCHAR(255),
+    ADD COLUMN contract_type VARCHAR(255),
+    ADD COLUMN current_phase VARCHAR(255),
+    ADD COLUMN start_date DATE,
+    ADD COLUMN end_date DATE,
+    ADD COLUMN details_synced_at TIMESTAMP; -- NULL until the details sync has seen the project
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX idx_projects_business_unit ON projects(account_id, business_unit_name);
+CREATE INDEX idx_projects_current_phase ON projects(account_id, current_phase);
@@ -0,0 +1,38 @@
+-- Migration: Project Groups
+-- Created: 2026-10-19
+-- Description: Saved project selections, either fixed project lists or filters over synced project details
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Project groups table
+CREATE TABLE project_groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id VARCHAR(255) NOT NULL, -- ACC Account ID the group belongs to
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    group_type VARCHAR(20) NOT NULL DEFAULT 'static', -- static, dynamic
+    project_ids TEXT[] NOT NULL DEFAULT '{}', -- Static groups: the projects
+    filter JSONB, -- Dynamic groups: { nameContains, businessUnit, currentPhase, status, platform, city, activeFrom, activeTo }
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (account_id, name)
+);
+
+CREATE INDEX idx_project_groups_account_id ON project_groups(account_id);
+
+-- Groups an execution's projects came from, as expanded when it was created
+ALTER TABLE job_executions
+    ADD COLUMN project_groups JSONB; -- [{ id, name, type, projectIds }]
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_project_groups_updated_at BEFORE UPDATE ON project_groups
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
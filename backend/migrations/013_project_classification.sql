@@ -0,0 +1,16 @@
+-- Migration: Project Classification
+-- Created: 2026-10-19
+-- Description: Stores the ACC Admin classification so template projects are told apart without guessing from names
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE projects
+    ADD COLUMN classification VARCHAR(50); -- production, template, component, sample; NULL when unknown
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX idx_projects_classification ON projects(account_id, classification);
@@ -0,0 +1,13 @@
+-- Migration: Job Results Paging
+-- Created: 2026-10-19
+-- Description: Keyset index for paging and filtering an execution's results
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Pages walk results in creation order; id breaks ties between rows created together
+CREATE INDEX idx_job_results_execution_page ON job_results(execution_id, created_at, id);
+
+-- Status tabs and their counts
+CREATE INDEX idx_job_results_execution_status ON job_results(execution_id, status);
@@ -0,0 +1,44 @@
+-- Migration: Clone Access
+-- Created: 2026-10-19
+-- Description: Jobs that copy one member's project roles and products to other emails, optionally handing over by removing the source
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE job_executions
+    ADD COLUMN source_email VARCHAR(255), -- Member whose access a clone copies
+    ADD COLUMN remove_source BOOLEAN DEFAULT false, -- Handover: remove the source where every target got access
+    ADD COLUMN handover_execution_id UUID REFERENCES job_executions(id) ON DELETE SET NULL; -- Removal queued for the source
+
+ALTER TABLE job_results
+    ADD COLUMN assigned_roles TEXT[]; -- Roles requested for this row; import and clone rows differ
+
+-- ============================================================================
+-- VIEWS
+-- ============================================================================
+
+-- Clone retries need each row's roles and products
+DROP VIEW IF EXISTS v_failed_operations;
+
+CREATE VIEW v_failed_operations AS
+SELECT
+    jr.id,
+    jr.execution_id,
+    jr.project_id,
+    jr.project_name,
+    jr.user_email,
+    jr.assigned_role,
+    jr.assigned_roles,
+    jr.access_level,
+    jr.products,
+    jr.company_id,
+    jr.error_message,
+    jr.error_code,
+    je.retry_count,
+    jr.created_at
+FROM job_results jr
+JOIN job_executions je ON jr.execution_id = je.id
+WHERE jr.status = 'failed'
+  AND je.retry_count < 3
+ORDER BY jr.created_at DESC;
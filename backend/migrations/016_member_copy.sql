@@ -0,0 +1,11 @@
+-- Migration: Member Copy
+-- Created: 2026-10-19
+-- Description: Jobs that copy a project's members, with their roles, to other projects
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE job_executions
+    ADD COLUMN source_project_id VARCHAR(255), -- Project whose members a copy reads
+    ADD COLUMN member_filter JSONB; -- { roleIds, companyIds } limiting the members copied
@@ -0,0 +1,71 @@
+-- Migration: Access Manifests
+-- Created: 2026-10-19
+-- Description: Versioned desired-state access manifests, reconcile executions and drift reports from scheduled plans
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Access manifests table
+CREATE TABLE access_manifests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id VARCHAR(255) NOT NULL, -- ACC Account ID the manifest describes
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    current_version INTEGER NOT NULL DEFAULT 1,
+
+    -- Scheduled plans
+    drift_check_hours INTEGER, -- Hours between scheduled plans; NULL turns them off
+    last_checked_at TIMESTAMP,
+    last_check_error TEXT, -- Why the last scheduled plan could not run
+    drift_detected_at TIMESTAMP, -- Set while the last scheduled plan found differences
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL, -- Scheduled plans use this user's token
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (account_id, name)
+);
+
+CREATE INDEX idx_access_manifests_account_id ON access_manifests(account_id);
+
+-- Every saved manifest body; versions are never edited
+CREATE TABLE access_manifest_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    manifest_id UUID NOT NULL REFERENCES access_manifests(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    format VARCHAR(10) NOT NULL DEFAULT 'yaml', -- yaml, json
+    content TEXT NOT NULL,
+    comment TEXT, -- What changed in this version
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (manifest_id, version)
+);
+
+-- Scheduled plans that found differences from live access
+CREATE TABLE access_drift_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    manifest_id UUID NOT NULL REFERENCES access_manifests(id) ON DELETE CASCADE,
+    manifest_version INTEGER NOT NULL,
+    add_count INTEGER NOT NULL DEFAULT 0,
+    update_count INTEGER NOT NULL DEFAULT 0,
+    remove_count INTEGER NOT NULL DEFAULT 0,
+    changes JSONB NOT NULL, -- [{ action, email, projectId, projectName, currentRoles, desiredRoles, accessLevel }]
+    checked_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_access_drift_reports_manifest ON access_drift_reports(manifest_id, checked_at DESC);
+
+-- Manifest version a reconcile execution applied
+ALTER TABLE job_executions
+    ADD COLUMN manifest_id UUID REFERENCES access_manifests(id) ON DELETE SET NULL,
+    ADD COLUMN manifest_version INTEGER;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_access_manifests_updated_at BEFORE UPDATE ON access_manifests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
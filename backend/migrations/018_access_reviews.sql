@@ -0,0 +1,80 @@
+-- Migration: Access Reviews
+-- Created: 2026-10-19
+-- Description: Periodic access review campaigns; reviewers keep or revoke snapshotted memberships and closing removes the revoked ones
+
+-- ============================================================================
+-- ENUMS
+-- ============================================================================
+
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'review_campaign_created';
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'review_decision';
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'review_campaign_closed';
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Access review campaigns table
+CREATE TABLE access_review_campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id VARCHAR(255) NOT NULL, -- ACC Account ID
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'open', -- open, closed
+    due_date DATE,
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    closed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    closed_at TIMESTAMP,
+    removal_execution_id UUID REFERENCES job_executions(id) ON DELETE SET NULL, -- Removes the revoked memberships
+
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_access_review_campaigns_account ON access_review_campaigns(account_id, created_at DESC);
+
+-- Projects a campaign covers and who reviews each
+CREATE TABLE access_review_projects (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_id UUID NOT NULL REFERENCES access_review_campaigns(id) ON DELETE CASCADE,
+    project_id VARCHAR(255) NOT NULL,
+    project_name VARCHAR(500),
+    reviewer_email VARCHAR(255) NOT NULL, -- Signed-in user allowed to decide this project's rows
+
+    UNIQUE (campaign_id, project_id)
+);
+
+CREATE INDEX idx_access_review_projects_reviewer ON access_review_projects(LOWER(reviewer_email));
+
+-- Memberships as they were when the campaign started, one row per member and project
+CREATE TABLE access_review_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_id UUID NOT NULL REFERENCES access_review_campaigns(id) ON DELETE CASCADE,
+    project_id VARCHAR(255) NOT NULL,
+    user_email VARCHAR(255) NOT NULL,
+    user_name VARCHAR(255),
+    company_name VARCHAR(255),
+    roles JSONB NOT NULL DEFAULT '[]', -- [{ id, name }]
+    access_level VARCHAR(20), -- admin, user
+
+    decision VARCHAR(10), -- keep, revoke; NULL until reviewed
+    note TEXT,
+    decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP,
+
+    UNIQUE (campaign_id, project_id, user_email)
+);
+
+CREATE INDEX idx_access_review_items_project ON access_review_items(campaign_id, project_id);
+
+-- Campaign whose revoked rows a removal execution carries out
+ALTER TABLE job_executions
+    ADD COLUMN review_campaign_id UUID REFERENCES access_review_campaigns(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_access_review_campaigns_updated_at BEFORE UPDATE ON access_review_campaigns
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,17 @@
+-- Migration: Audit Log Search
+-- Created: 2026-10-19
+-- Description: Indexes for paging a user's own audit log and searching it by free text
+
+-- Trigram indexes let ILIKE '%term%' use an index
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Each user pages through their own entries, newest first
+CREATE INDEX idx_audit_logs_user_page ON audit_logs(user_id, created_at DESC, id DESC);
+
+-- Free-text search over details and the error message
+CREATE INDEX idx_audit_logs_details_trgm ON audit_logs USING GIN ((details::text) gin_trgm_ops);
+CREATE INDEX idx_audit_logs_error_message_trgm ON audit_logs USING GIN (error_message gin_trgm_ops);
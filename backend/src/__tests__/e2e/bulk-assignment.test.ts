@@ -0,0 +1,1091 @@
+import { AxiosInstance } from 'axios';
+import { Application } from 'express';
+import { Server } from 'http';
+import { createMockApsServer } from '../../mock-aps/server';
+import { createMockApsState, MOCK_ACCOUNT_ID, MockApsState } from '../../mock-aps/fixtures';
+import { getDb } from '../../db';
+import projectGroupService from '../../services/groups/project-group.service';
+import { wait } from '../../utils/helpers';
+import { login, readStatusStream, syncAccount, waitForApi, waitForExecution } from './helpers';
+
+// Boots the API server and, through it, the BullMQ worker
+import '../../app';
+
+const PAT = 'pat.manager@example.com';
+const SAM = 'sam.architect@design.example';
+// An account the signed-in user's templates and groups don't belong to
+const OTHER_ACCOUNT_ID = 'f0000000-0000-4000-8000-0000000000ff';
+
+let mockAps: Application;
+let mockServer: Server;
+let api: AxiosInstance;
+
+const mockState = (): MockApsState => mockAps.locals.state;
+const projectId = (name: string): string => mockState().projects.find((p) => p.name === name)!.id;
+const roleId = (name: string): string => mockState().roles.find((r) => r.name === name)!.id;
+const userId = (email: string): string => mockState().users.find((u) => u.email === email)!.id;
+const requestsTo = (method: string, path: string) =>
+  mockState().requestLog.filter((r) => r.method === method && r.path === path);
+
+async function jobResults(executionId: string): Promise<any[]> {
+  const result = await getDb().query(
+    'SELECT * FROM job_results WHERE execution_id = $1 ORDER BY project_name, user_email',
+    [executionId]
+  );
+  return result.rows;
+}
+
+async function assign(userEmails: string[], projectNames: string[], roleName: string): Promise<string> {
+  const res = await api.post('/api/bulk/assign', {
+    accountId: MOCK_ACCOUNT_ID,
+    userEmails,
+    projectIds: projectNames.map(projectId),
+    roles: [roleId(roleName)],
+  });
+  expect(res.status).toBe(200);
+  return res.data.executionId;
+}
+
+beforeAll(async () => {
+  mockAps = createMockApsServer();
+  mockServer = mockAps.listen(parseInt(process.env.E2E_MOCK_APS_PORT!, 10));
+  await waitForApi();
+  api = await login();
+});
+
+beforeEach(async () => {
+  mockAps.locals.state = createMockApsState();
+  // Cached memberships would describe the previous test's mock state
+  await getDb().query('TRUNCATE project_memberships, projects');
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => mockServer.close(resolve));
+});
+
+describe('bulk assignment pipeline', () => {
+  it('previews adds, updates and unchanged members', async () => {
+    const res = await api.post('/api/bulk/preview', {
+      accountId: MOCK_ACCOUNT_ID,
+      userEmails: [PAT, SAM],
+      projectIds: [projectId('Harbor Tower'), projectId('Riverside Clinic')],
+      roles: [roleId('Architect')],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.data.summary).toEqual({
+      totalOperations: 4,
+      newUsers: 2,
+      updates: 1,
+      unchanged: 1,
+      withoutCompany: 0,
+    });
+
+    const patHarbor = res.data.preview.find(
+      (p: any) => p.userEmail === PAT && p.projectName === 'Harbor Tower'
+    );
+    expect(patHarbor.willBeUpdated).toBe(true);
+    expect(patHarbor.currentAccess.roles.map((r: any) => r.name)).toEqual(['Project Manager']);
+    expect(patHarbor.resultingRoles.map((r: any) => r.name)).toEqual(['Architect']);
+
+    const audit = await getDb().query(
+      `SELECT details FROM audit_logs
+       WHERE action = 'user_preview'
+       ORDER BY created_at DESC LIMIT 1`
+    );
+    expect(audit.rows[0].details).toEqual({ userCount: 2, projectCount: 2 });
+  });
+
+  it('assigns, reports progress through status polling and records results', async () => {
+    const executionId = await assign([PAT, SAM], ['Harbor Tower', 'Riverside Clinic'], 'Architect');
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.status).toBe('completed');
+    expect(status.progress).toMatchObject({ total: 4, completed: 4, success: 4, failed: 0, percentage: 100 });
+
+    const results = await jobResults(executionId);
+    expect(results.map((r) => [r.project_name, r.user_email, r.status, r.action_taken])).toEqual([
+      ['Harbor Tower', PAT, 'success', 'updated'],
+      ['Harbor Tower', SAM, 'success', 'added'],
+      ['Riverside Clinic', PAT, 'success', 'added'],
+      ['Riverside Clinic', SAM, 'skipped', 'skipped'],
+    ]);
+
+    const harbor = mockState().projects.find((p) => p.name === 'Harbor Tower')!;
+    expect(harbor.members.find((m) => m.userId === userId(PAT))!.roleIds).toEqual([roleId('Architect')]);
+    expect(harbor.members.find((m) => m.userId === userId(SAM))!.roleIds).toEqual([roleId('Architect')]);
+
+    const audit = await getDb().query(
+      `SELECT details FROM audit_logs WHERE execution_id = $1 AND action = 'job_created'`,
+      [executionId]
+    );
+    expect(audit.rows).toHaveLength(1);
+    expect(audit.rows[0].details).toMatchObject({
+      userCount: 2,
+      projectCount: 2,
+      totalOperations: 4,
+      roleMode: 'replace',
+    });
+  });
+
+  it('streams a snapshot, then result deltas, until the job is done', async () => {
+    const executionId = await assign([PAT, SAM], ['Harbor Tower', 'Riverside Clinic'], 'Architect');
+
+    const events = await readStatusStream(api, executionId);
+
+    expect(events[0].event).toBe('snapshot');
+    expect(events[events.length - 1]).toMatchObject({
+      event: 'done',
+      data: { status: 'completed', progress: { total: 4, completed: 4, percentage: 100 } },
+    });
+
+    // Deltas carry only finished results
+    const deltas = events.filter((e) => e.event === 'results').flatMap((e) => e.data);
+    deltas.forEach((r: any) => expect(['success', 'skipped']).toContain(r.status));
+    expect(events.filter((e) => e.event === 'counts').pop()?.data.resultCounts).toMatchObject({
+      success: 3,
+      skipped: 1,
+    });
+  });
+
+  it('pages through results and filters them', async () => {
+    const executionId = await assign([PAT, SAM], ['Harbor Tower', 'Riverside Clinic'], 'Architect');
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.results).toBeUndefined();
+    expect(status.resultCounts).toEqual({ pending: 0, processing: 0, success: 3, skipped: 1, failed: 0 });
+
+    const first = await api.get(`/api/bulk/${executionId}/results`, { params: { limit: 3 } });
+    expect(first.status).toBe(200);
+    expect(first.data.results).toHaveLength(3);
+    expect(first.data.nextCursor).toBeTruthy();
+
+    const second = await api.get(`/api/bulk/${executionId}/results`, {
+      params: { limit: 3, cursor: first.data.nextCursor },
+    });
+    expect(second.data.results).toHaveLength(1);
+    expect(second.data.nextCursor).toBeNull();
+    const ids = [...first.data.results, ...second.data.results].map((r: any) => r.id);
+    expect(new Set(ids).size).toBe(4);
+
+    const skipped = await api.get(`/api/bulk/${executionId}/results`, {
+      params: { status: 'skipped' },
+    });
+    expect(skipped.data.results.map((r: any) => [r.projectName, r.userEmail])).toEqual([
+      ['Riverside Clinic', SAM],
+    ]);
+
+    const filtered = await api.get(`/api/bulk/${executionId}/results`, {
+      params: { email: 'pat.', project: 'harbor' },
+    });
+    expect(filtered.data.results.map((r: any) => r.userEmail)).toEqual([PAT]);
+
+    const invalid = await api.get(`/api/bulk/${executionId}/results`, {
+      params: { cursor: 'not-a-cursor' },
+    });
+    expect(invalid.status).toBe(400);
+    const negative = await api.get(`/api/bulk/${executionId}/results`, { params: { limit: -5 } });
+    expect(negative.status).toBe(400);
+  });
+
+  it('copies a member\'s access and hands over by removing the source', async () => {
+    const request = {
+      accountId: MOCK_ACCOUNT_ID,
+      sourceEmail: SAM,
+      targetEmails: [PAT],
+      removeSource: true,
+    };
+
+    const preview = await api.post('/api/bulk/clone-access/preview', request);
+    expect(preview.status).toBe(200);
+    expect(preview.data.preview.map((p: any) => [p.projectName, p.userEmail, p.willBeAdded])).toEqual([
+      ['Riverside Clinic', PAT, true],
+    ]);
+    expect(preview.data.preview[0].resultingRoles.map((r: any) => r.name)).toEqual(['Architect']);
+
+    const res = await api.post('/api/bulk/clone-access', request);
+    expect(res.status).toBe(200);
+
+    const status = await waitForExecution(api, res.data.executionId);
+    expect(status).toMatchObject({ jobType: 'bulk_user_clone', status: 'completed', sourceEmail: SAM });
+    const [result] = await jobResults(res.data.executionId);
+    expect(result).toMatchObject({
+      status: 'success',
+      action_taken: 'added',
+      assigned_roles: [roleId('Architect')],
+    });
+
+    // The handover removal is queued once the copy completes
+    expect(status.handoverExecutionId).toBeTruthy();
+    const handover = await waitForExecution(api, status.handoverExecutionId);
+    expect(handover).toMatchObject({ jobType: 'bulk_user_removal', status: 'completed' });
+
+    const riverside = mockState().projects.find((p) => p.name === 'Riverside Clinic')!;
+    expect(riverside.members).toEqual([
+      expect.objectContaining({ userId: userId(PAT), roleIds: [roleId('Architect')] }),
+    ]);
+  });
+
+  it('rejects a clone whose source is also a target', async () => {
+    const res = await api.post('/api/bulk/clone-access', {
+      accountId: MOCK_ACCOUNT_ID,
+      sourceEmail: SAM,
+      targetEmails: [SAM.toUpperCase()],
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('copies project members, flagging and skipping role conflicts', async () => {
+    const ADMIN = 'admin@example.com';
+    mockState()
+      .projects.find((p) => p.name === 'Riverside Clinic')!
+      .members.push({ userId: userId(PAT), roleIds: [roleId('Engineer')], products: [] });
+    const request = {
+      accountId: MOCK_ACCOUNT_ID,
+      targetProjectIds: [projectId('Riverside Clinic')],
+      filter: { roleIds: [roleId('Project Manager')] },
+    };
+    const copyPath = `/api/projects/${projectId('Harbor Tower')}/copy-members`;
+
+    const preview = await api.post(`${copyPath}/preview`, request);
+    expect(preview.status).toBe(200);
+    expect(preview.data.memberCount).toBe(2);
+    expect(preview.data.summary).toMatchObject({ newUsers: 1, updates: 1, conflicts: 1 });
+    expect(preview.data.preview.find((p: any) => p.userEmail === PAT).conflict).toBe(true);
+
+    const res = await api.post(copyPath, { ...request, skipConflicts: true });
+    expect(res.status).toBe(200);
+    expect(res.data.totalProjects).toBe(1);
+
+    const status = await waitForExecution(api, res.data.executionId);
+    expect(status).toMatchObject({ jobType: 'bulk_member_copy', status: 'completed' });
+
+    const riverside = mockState().projects.find((p) => p.name === 'Riverside Clinic')!;
+    expect(riverside.members.find((m) => m.userId === userId(ADMIN))!.roleIds).toEqual([
+      roleId('Project Manager'),
+    ]);
+    expect(riverside.members.find((m) => m.userId === userId(PAT))!.roleIds).toEqual([
+      roleId('Engineer'),
+    ]);
+  });
+
+  it('plans and applies a versioned manifest as one execution', async () => {
+    const created = await api.post('/api/manifests', {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'Harbor Tower team',
+      format: 'yaml',
+      content: [
+        'access:',
+        '  - projects: [Harbor Tower]',
+        '    members:',
+        '      - email: admin@example.com',
+        '        roles: [Project Manager]',
+      ].join('\n'),
+    });
+    expect(created.status).toBe(201);
+    const manifestId = created.data.id;
+
+    // Version 2 swaps Pat for Sam; version 1 stays readable
+    const updated = await api.put(`/api/manifests/${manifestId}`, {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'Harbor Tower team',
+      format: 'json',
+      content: JSON.stringify({
+        access: [
+          {
+            projects: ['Harbor Tower'],
+            members: [
+              { email: 'admin@example.com', roles: ['Project Manager'] },
+              { email: SAM, roles: ['Architect'] },
+            ],
+          },
+        ],
+      }),
+      comment: 'Sam replaces Pat',
+    });
+    expect(updated.status).toBe(200);
+    expect(updated.data.currentVersion).toBe(2);
+    const first = await api.get(`/api/manifests/${manifestId}/versions/1`, {
+      params: { accountId: MOCK_ACCOUNT_ID },
+    });
+    expect(first.data.format).toBe('yaml');
+    const otherAccount = await api.get(`/api/manifests/${manifestId}`, {
+      params: { accountId: 'another-account' },
+    });
+    expect(otherAccount.status).toBe(404);
+
+    const plan = await api.post('/api/reconcile/plan', { accountId: MOCK_ACCOUNT_ID, manifestId });
+    expect(plan.status).toBe(200);
+    expect(plan.data).toMatchObject({
+      manifestVersion: 2,
+      summary: { adds: 1, updates: 0, removals: 1, unchanged: 1 },
+    });
+    expect(plan.data.changes.map((c: any) => [c.action, c.email])).toEqual([
+      ['add', SAM],
+      ['remove', PAT],
+    ]);
+
+    const res = await api.post('/api/reconcile/apply', { accountId: MOCK_ACCOUNT_ID, manifestId });
+    expect(res.status).toBe(200);
+    expect(res.data.totalProjects).toBe(2);
+
+    const status = await waitForExecution(api, res.data.executionId);
+    expect(status).toMatchObject({
+      jobType: 'bulk_access_reconcile',
+      status: 'completed',
+      manifestId,
+      manifestVersion: 2,
+    });
+
+    const harbor = mockState().projects.find((p) => p.name === 'Harbor Tower')!;
+    expect(harbor.members.map((m) => m.userId).sort()).toEqual(
+      [userId('admin@example.com'), userId(SAM)].sort()
+    );
+
+    const again = await api.post('/api/reconcile/apply', { accountId: MOCK_ACCOUNT_ID, manifestId });
+    expect(again.status).toBe(400);
+  });
+
+  it('rejects manifests with unknown roles', async () => {
+    const res = await api.post('/api/reconcile/plan', {
+      accountId: MOCK_ACCOUNT_ID,
+      format: 'yaml',
+      content: [
+        'access:',
+        '  - projects: [Harbor Tower]',
+        '    members:',
+        `      - email: ${PAT}`,
+        '        roles: [Astronaut]',
+      ].join('\n'),
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.data.details).toEqual([`access[0]: unknown role "Astronaut" for ${PAT}`]);
+  });
+
+  it('runs a review campaign and removes the revoked memberships on close', async () => {
+    const created = await api.post('/api/reviews', {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'Q4 attestation',
+      projectIds: [projectId('Harbor Tower'), projectId('Riverside Clinic')],
+      reviewers: { [projectId('Riverside Clinic')]: 'someone.else@example.com' },
+      defaultReviewerEmail: 'admin@example.com',
+    });
+    expect(created.status).toBe(201);
+    expect(created.data).toMatchObject({ status: 'open', progress: { total: 3, decided: 0 } });
+    const campaignId = created.data.id;
+
+    const items = await api.get(`/api/reviews/${campaignId}/items`, {
+      params: { accountId: MOCK_ACCOUNT_ID, projectId: projectId('Harbor Tower') },
+    });
+    const itemId = (email: string) => items.data.items.find((i: any) => i.email === email).id;
+    expect(items.data.items.map((i: any) => i.email)).toEqual(['admin@example.com', PAT]);
+
+    const decided = await api.post(`/api/reviews/${campaignId}/decisions`, {
+      accountId: MOCK_ACCOUNT_ID,
+      decisions: [
+        { itemId: itemId('admin@example.com'), decision: 'keep' },
+        { itemId: itemId(PAT), decision: 'revoke', note: 'Left the project' },
+      ],
+    });
+    expect(decided.status).toBe(200);
+    expect(decided.data.campaign.progress).toEqual({ total: 3, decided: 2, revoked: 1 });
+
+    // Riverside Clinic is someone else's to review
+    const riverside = await api.get(`/api/reviews/${campaignId}/items`, {
+      params: { accountId: MOCK_ACCOUNT_ID, projectId: projectId('Riverside Clinic') },
+    });
+    const forbidden = await api.post(`/api/reviews/${campaignId}/decisions`, {
+      accountId: MOCK_ACCOUNT_ID,
+      decisions: [{ itemId: riverside.data.items[0].id, decision: 'revoke' }],
+    });
+    expect(forbidden.status).toBe(403);
+
+    // Campaigns are only visible within their account
+    const otherAccount = await api.post(`/api/reviews/${campaignId}/close`, {
+      accountId: 'another-account',
+    });
+    expect(otherAccount.status).toBe(404);
+
+    const closed = await api.post(`/api/reviews/${campaignId}/close`, {
+      accountId: MOCK_ACCOUNT_ID,
+    });
+    expect(closed.status).toBe(200);
+    expect(closed.data).toMatchObject({ revoked: 1, undecided: 1 });
+
+    const status = await waitForExecution(api, closed.data.executionId);
+    expect(status).toMatchObject({
+      jobType: 'bulk_user_removal',
+      status: 'completed',
+      progress: { total: 1, success: 1 },
+      reviewCampaignId: campaignId,
+    });
+
+    const harbor = mockState().projects.find((p) => p.name === 'Harbor Tower')!;
+    expect(harbor.members.map((m) => m.userId)).toEqual([userId('admin@example.com')]);
+
+    const audit = await getDb().query(
+      `SELECT details FROM audit_logs
+       WHERE action = 'review_decision' AND details->>'campaignId' = $1`,
+      [campaignId]
+    );
+    expect(audit.rows.map((r) => r.details.decision).sort()).toEqual(['keep', 'revoke']);
+
+    const late = await api.post(`/api/reviews/${campaignId}/decisions`, {
+      accountId: MOCK_ACCOUNT_ID,
+      decisions: [{ itemId: itemId(PAT), decision: 'keep' }],
+    });
+    expect(late.status).toBe(409);
+  });
+
+  it("filters the caller's audit log and pages through it newest first", async () => {
+    const executionId = await assign([PAT], ['Harbor Tower'], 'Architect');
+    await waitForExecution(api, executionId);
+
+    const created = await api.get('/api/audit', {
+      params: { executionId, action: 'job_created' },
+    });
+    expect(created.status).toBe(200);
+    expect(created.data.entries).toHaveLength(1);
+    expect(created.data.entries[0]).toMatchObject({
+      action: 'job_created',
+      executionId,
+      userEmail: 'admin@example.com',
+      success: true,
+      details: { userCount: 1, projectCount: 1 },
+    });
+
+    const searched = await api.get('/api/audit', { params: { executionId, search: 'PROJECTCOUNT' } });
+    expect(searched.data.entries).toHaveLength(1);
+    const missed = await api.get('/api/audit', { params: { executionId, search: 'no such text' } });
+    expect(missed.data.entries).toHaveLength(0);
+
+    const first = await api.get('/api/audit', { params: { limit: 1 } });
+    expect(first.data.entries).toHaveLength(1);
+    expect(first.data.nextCursor).toBeTruthy();
+    const second = await api.get('/api/audit', {
+      params: { limit: 1, cursor: first.data.nextCursor },
+    });
+    expect(second.data.entries[0].id).not.toBe(first.data.entries[0].id);
+    expect(Date.parse(second.data.entries[0].createdAt)).toBeLessThanOrEqual(
+      Date.parse(first.data.entries[0].createdAt)
+    );
+
+    // Other users' entries stay out of the caller's log
+    const other = await getDb().query(
+      `INSERT INTO users (aps_user_id, email, name) VALUES ('other-aps-user', 'other@example.com', 'Other User')
+       RETURNING id`
+    );
+    await getDb().query(
+      `INSERT INTO audit_logs (user_id, action, resource_type, details)
+       VALUES ($1, 'job_created', 'job', '{"note": "someone else"}')`,
+      [other.rows[0].id]
+    );
+    const hidden = await api.get('/api/audit', { params: { search: 'someone else' } });
+    expect(hidden.data.entries).toEqual([]);
+
+    const future = await api.get('/api/audit', { params: { from: '2999-01-01' } });
+    expect(future.data.entries).toEqual([]);
+
+    const invalid = await api.get('/api/audit', { params: { action: 'not_an_action' } });
+    expect(invalid.status).toBe(400);
+    const negative = await api.get('/api/audit', { params: { limit: -1 } });
+    expect(negative.status).toBe(400);
+  });
+
+  it('skips members who already have the role', async () => {
+    const executionId = await assign([SAM], ['Riverside Clinic'], 'Architect');
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.status).toBe('completed');
+    const [result] = await jobResults(executionId);
+    expect(result).toMatchObject({
+      status: 'skipped',
+      action_taken: 'skipped',
+      previous_roles: [roleId('Architect')],
+      resulting_roles: [roleId('Architect')],
+    });
+
+    const usersPath = `/construction/admin/v1/projects/${projectId('Riverside Clinic')}/users`;
+    expect(requestsTo('POST', usersPath)).toHaveLength(0);
+    expect(requestsTo('PATCH', `${usersPath}/${userId(SAM)}`)).toHaveLength(0);
+  });
+
+  it('falls back to the BIM 360 import endpoint when the ACC Admin API rejects the project', async () => {
+    const executionId = await assign([PAT], ['Legacy Warehouse'], 'Engineer');
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.status).toBe('completed');
+    const [result] = await jobResults(executionId);
+    expect(result).toMatchObject({ status: 'success', action_taken: 'added' });
+
+    const warehouseId = projectId('Legacy Warehouse');
+    expect(requestsTo('POST', `/construction/admin/v1/projects/${warehouseId}/users`)).toHaveLength(1);
+    expect(
+      requestsTo('POST', `/hq/v2/accounts/${MOCK_ACCOUNT_ID}/projects/${warehouseId}/users/import`)
+    ).toHaveLength(1);
+
+    const warehouse = mockState().projects.find((p) => p.id === warehouseId)!;
+    expect(warehouse.members).toEqual([
+      expect.objectContaining({ userId: userId(PAT), roleIds: [roleId('Engineer')] }),
+    ]);
+  });
+
+  it('finishes as partial success when the import rejects some users', async () => {
+    mockState().importFailures = [SAM];
+
+    const executionId = await assign([PAT, SAM], ['Legacy Warehouse'], 'Engineer');
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.status).toBe('partial_success');
+    expect(status.progress).toMatchObject({ success: 1, failed: 1 });
+
+    const results = await jobResults(executionId);
+    expect(results.find((r) => r.user_email === PAT)).toMatchObject({ status: 'success' });
+    expect(results.find((r) => r.user_email === SAM)).toMatchObject({ status: 'failed' });
+    expect(results.find((r) => r.user_email === SAM).error_message).toBeTruthy();
+
+    const execution = await getDb().query(
+      'SELECT status, success_count, failed_count FROM job_executions WHERE id = $1',
+      [executionId]
+    );
+    expect(execution.rows[0]).toEqual({ status: 'partial_success', success_count: 1, failed_count: 1 });
+  });
+
+  it('retries requests APS rate limits, waiting out Retry-After', async () => {
+    const usersPath = `/construction/admin/v1/projects/${projectId('Harbor Tower')}/users`;
+    mockState().faults.push({ method: 'POST', path: usersPath, status: 429, retryAfter: 1, times: 1 });
+
+    const executionId = await assign([SAM], ['Harbor Tower'], 'Architect');
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.status).toBe('completed');
+    const [result] = await jobResults(executionId);
+    expect(result).toMatchObject({ status: 'success', action_taken: 'added' });
+
+    expect(requestsTo('POST', usersPath)).toHaveLength(2);
+    expect(result.duration_ms).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('retries APS server errors', async () => {
+    const usersPath = `/construction/admin/v1/projects/${projectId('Harbor Tower')}/users`;
+    mockState().faults.push({ method: 'POST', path: usersPath, status: 503, times: 2 });
+
+    const executionId = await assign([SAM], ['Harbor Tower'], 'Architect');
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.status).toBe('completed');
+    expect(requestsTo('POST', usersPath)).toHaveLength(3);
+  });
+
+  it('runs a failed job again, reusing the result rows of the first attempt', async () => {
+    // Outlasts the request retries, so the first attempt fails after recording Harbor Tower
+    const projectPath = `/project/v1/hubs/b.${MOCK_ACCOUNT_ID}/projects/b.${projectId('Riverside Clinic')}`;
+    mockState().faults.push({ method: 'GET', path: projectPath, status: 503, times: 3 });
+
+    const executionId = await assign([PAT], ['Harbor Tower', 'Riverside Clinic'], 'Engineer');
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.status).toBe('completed');
+    expect(requestsTo('GET', projectPath)).toHaveLength(4);
+    const results = await jobResults(executionId);
+    expect(results.map((r) => r.project_name)).toEqual(['Harbor Tower', 'Riverside Clinic']);
+    expect(results.every((r) => r.status === 'success')).toBe(true);
+  });
+
+  it('previews and removes members, falling back to the HQ API for BIM 360 projects', async () => {
+    const warehouseId = projectId('Legacy Warehouse');
+    mockState().projects.find((p) => p.id === warehouseId)!.members.push(
+      { userId: userId(PAT), roleIds: [roleId('Engineer')], products: [] }
+    );
+    const request = {
+      accountId: MOCK_ACCOUNT_ID,
+      userEmails: [PAT, SAM],
+      projectIds: [projectId('Harbor Tower'), warehouseId],
+    };
+
+    const preview = await api.post('/api/bulk/remove/preview', request);
+
+    expect(preview.status).toBe(200);
+    expect(preview.data.summary).toEqual({ totalOperations: 4, removals: 2, notMembers: 2 });
+    const patHarbor = preview.data.preview.find(
+      (p: any) => p.userEmail === PAT && p.projectName === 'Harbor Tower'
+    );
+    expect(patHarbor.willBeRemoved).toBe(true);
+    expect(patHarbor.currentAccess.roles.map((r: any) => r.name)).toEqual(['Project Manager']);
+
+    const res = await api.post('/api/bulk/remove', request);
+    expect(res.status).toBe(200);
+
+    const status = await waitForExecution(api, res.data.executionId);
+
+    expect(status.status).toBe('completed');
+    const results = await jobResults(res.data.executionId);
+    expect(results.map((r) => [r.project_name, r.user_email, r.status, r.action_taken])).toEqual([
+      ['Harbor Tower', PAT, 'success', 'removed'],
+      ['Harbor Tower', SAM, 'skipped', 'not_a_member'],
+      ['Legacy Warehouse', PAT, 'success', 'removed'],
+      ['Legacy Warehouse', SAM, 'skipped', 'not_a_member'],
+    ]);
+    expect(results[0].previous_roles).toEqual([roleId('Project Manager')]);
+
+    // The ACC Admin API rejects the BIM 360 project, so the HQ API removes the member
+    const patWarehouse = `projects/${warehouseId}/users/${userId(PAT)}`;
+    expect(requestsTo('DELETE', `/construction/admin/v1/${patWarehouse}`)).toHaveLength(1);
+    expect(requestsTo('DELETE', `/hq/v1/accounts/${MOCK_ACCOUNT_ID}/${patWarehouse}`)).toHaveLength(1);
+
+    const harbor = mockState().projects.find((p) => p.name === 'Harbor Tower')!;
+    expect(harbor.members.map((m) => m.userId)).toEqual([userId('admin@example.com')]);
+    expect(mockState().projects.find((p) => p.id === warehouseId)!.members).toEqual([]);
+  });
+
+  it('stops a cancelled job after the current batch and skips the operations left', async () => {
+    // Holds the first batch open long enough to cancel before the second starts
+    mockState().faults.push({
+      method: 'POST',
+      path: '/construction/admin/v1/projects/',
+      status: 429,
+      retryAfter: 2,
+      times: 1,
+    });
+
+    const executionId = await assign(
+      ['admin@example.com', PAT, SAM],
+      ['Harbor Tower', 'Riverside Clinic'],
+      'Engineer'
+    );
+    while (mockState().faults[0].times! > 0) {
+      await wait(50);
+    }
+
+    const res = await api.post(`/api/bulk/${executionId}/cancel`);
+
+    expect(res.status).toBe(200);
+    expect(res.data).toMatchObject({ status: 'processing', cancelRequested: true });
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.status).toBe('cancelled');
+    // The default batch size runs five of the six operations before the cancel is seen
+    const results = await jobResults(executionId);
+    expect(results.filter((r) => r.status === 'success')).toHaveLength(5);
+    const skipped = results.filter((r) => r.status === 'skipped');
+    expect(skipped).toHaveLength(1);
+    expect(skipped[0]).toMatchObject({ action_taken: 'cancelled', error_code: 'CANCELLED' });
+
+    const again = await api.post(`/api/bulk/${executionId}/cancel`);
+    expect(again.status).toBe(409);
+  });
+
+  it('retries only the failed operations in a linked execution, up to the retry limit', async () => {
+    mockState().importFailures = [SAM];
+    const executionId = await assign([PAT, SAM], ['Legacy Warehouse'], 'Engineer');
+    expect((await waitForExecution(api, executionId)).status).toBe('partial_success');
+
+    mockState().importFailures = [];
+    const res = await api.post(`/api/bulk/${executionId}/retry`);
+
+    expect(res.status).toBe(200);
+    expect(res.data).toMatchObject({ parentExecutionId: executionId, retryCount: 1, totalProjects: 1 });
+
+    const status = await waitForExecution(api, res.data.executionId);
+
+    expect(status).toMatchObject({ status: 'completed', parentExecutionId: executionId, retryCount: 1 });
+    const results = await jobResults(res.data.executionId);
+    expect(results.map((r) => [r.project_name, r.user_email, r.status, r.action_taken])).toEqual([
+      ['Legacy Warehouse', SAM, 'success', 'added'],
+    ]);
+
+    // Two more retries use up the limit of three
+    await getDb().query('UPDATE job_executions SET retry_count = 3 WHERE id = $1', [executionId]);
+
+    const limited = await api.post(`/api/bulk/${executionId}/retry`);
+
+    expect(limited.status).toBe(409);
+    expect(limited.data.error).toBe('Retry limit of 3 reached for this execution');
+  });
+
+  it('runs a rescheduled job at its new time and schedules the removal its expiry needs', async () => {
+    const inAnHour = new Date(Date.now() + 60 * 60 * 1000);
+    const res = await api.post('/api/bulk/assign', {
+      accountId: MOCK_ACCOUNT_ID,
+      userEmails: [SAM],
+      projectIds: [projectId('Harbor Tower')],
+      roles: [roleId('Engineer')],
+      scheduledFor: inAnHour.toISOString(),
+      expiresAt: new Date(inAnHour.getTime() + 60 * 60 * 1000).toISOString(),
+    });
+    expect(res.status).toBe(200);
+    const { executionId } = res.data;
+
+    const scheduled = await api.get('/api/bulk/scheduled');
+    expect(scheduled.data.executions.map((e: any) => e.id)).toEqual([executionId]);
+    expect(new Date(scheduled.data.executions[0].scheduledFor)).toEqual(inAnHour);
+
+    // An expiry before the start time is rejected
+    const invalid = await api.patch(`/api/bulk/${executionId}/schedule`, {
+      expiresAt: new Date(inAnHour.getTime() - 1000).toISOString(),
+    });
+    expect(invalid.status).toBe(400);
+
+    const expiresAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    const rescheduled = await api.patch(`/api/bulk/${executionId}/schedule`, {
+      scheduledFor: new Date(Date.now() + 1000).toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    });
+    expect(rescheduled.status).toBe(200);
+
+    let status = await waitForExecution(api, executionId);
+    // The expiry is queued just after the job finishes
+    while (!status.expiryExecutionId) {
+      await wait(100);
+      status = (await api.get(`/api/bulk/status/${executionId}`)).data;
+    }
+
+    expect(status.status).toBe('completed');
+    expect(new Date(status.expiresAt)).toEqual(expiresAt);
+
+    // Only the member this job added is removed when the access expires
+    const removal = await api.get(`/api/bulk/status/${status.expiryExecutionId}`);
+    expect(removal.data).toMatchObject({ jobType: 'bulk_user_removal', status: 'pending' });
+    expect(new Date(removal.data.scheduledFor)).toEqual(expiresAt);
+    const removals = await api.get('/api/bulk/scheduled');
+    expect(removals.data.executions).toEqual([
+      expect.objectContaining({
+        id: status.expiryExecutionId,
+        userEmails: [SAM],
+        projectIds: [projectId('Harbor Tower')],
+        expiryOf: executionId,
+      }),
+    ]);
+
+    // Moving the removal moves the expiry shown on the assignment
+    const later = new Date(expiresAt.getTime() + 60 * 60 * 1000);
+    const moved = await api.patch(`/api/bulk/${status.expiryExecutionId}/schedule`, {
+      scheduledFor: later.toISOString(),
+    });
+    expect(moved.status).toBe(200);
+    const assignment = await api.get(`/api/bulk/status/${executionId}`);
+    expect(new Date(assignment.data.expiresAt)).toEqual(later);
+
+    const cancelled = await api.post(`/api/bulk/${status.expiryExecutionId}/cancel`);
+    expect(cancelled.data.status).toBe('cancelled');
+  });
+
+  it('rejects retrying a job whose access has already expired', async () => {
+    mockState().importFailures = [SAM];
+    const executionId = await assign([SAM], ['Legacy Warehouse'], 'Engineer');
+    expect((await waitForExecution(api, executionId)).status).toBe('failed');
+
+    await getDb().query(
+      `UPDATE job_executions SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1`,
+      [executionId]
+    );
+
+    const res = await api.post(`/api/bulk/${executionId}/retry`);
+
+    expect(res.status).toBe(400);
+    expect(res.data.error).toBe('Access from this job has expired; start a new job instead');
+  });
+
+  it('saves a role template and applies it to users in one step', async () => {
+    const created = await api.post('/api/templates', {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'Site engineer',
+      roleId: roleId('Engineer'),
+      products: [{ key: 'docs', access: 'member' }],
+      projectFilter: { platform: 'BIM360' },
+    });
+
+    expect(created.status).toBe(201);
+    expect(created.data).toMatchObject({ name: 'Site engineer', roleName: 'Engineer' });
+    const templateId = created.data.id;
+
+    const updated = await api.put(`/api/templates/${templateId}`, {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'BIM 360 site engineer',
+      roleId: roleId('Engineer'),
+      products: [{ key: 'docs', access: 'member' }],
+      projectFilter: { platform: 'BIM360' },
+    });
+    expect(updated.status).toBe(200);
+
+    const list = await api.get('/api/templates', { params: { accountId: MOCK_ACCOUNT_ID } });
+    expect(list.data.templates.map((t: any) => t.name)).toContain('BIM 360 site engineer');
+
+    // The filter picks the BIM 360 project
+    const res = await api.post(`/api/templates/${templateId}/apply`, {
+      accountId: MOCK_ACCOUNT_ID,
+      userEmails: [SAM],
+    });
+    expect(res.status).toBe(200);
+
+    const status = await waitForExecution(api, res.data.executionId);
+
+    expect(status.status).toBe('completed');
+    const results = await jobResults(res.data.executionId);
+    expect(results.map((r) => [r.project_name, r.user_email, r.status])).toEqual([
+      ['Legacy Warehouse', SAM, 'success'],
+    ]);
+    const execution = await getDb().query(
+      'SELECT template_id FROM job_executions WHERE id = $1',
+      [res.data.executionId]
+    );
+    expect(execution.rows[0].template_id).toBe(templateId);
+
+    const deleted = await api.delete(`/api/templates/${templateId}`, {
+      params: { accountId: MOCK_ACCOUNT_ID },
+    });
+    expect(deleted.status).toBe(200);
+    const gone = await api.get(`/api/templates/${templateId}`, { params: { accountId: MOCK_ACCOUNT_ID } });
+    expect(gone.status).toBe(404);
+  });
+
+  it('keeps role templates to the account they were saved in', async () => {
+    const created = await api.post('/api/templates', {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'Design coordinator',
+      roleId: roleId('Architect'),
+    });
+    const templateId = created.data.id;
+    const otherAccount = { params: { accountId: OTHER_ACCOUNT_ID } };
+
+    expect((await api.get(`/api/templates/${templateId}`, otherAccount)).status).toBe(404);
+    const applied = await api.post(`/api/templates/${templateId}/apply`, {
+      accountId: OTHER_ACCOUNT_ID,
+      userEmails: [SAM],
+      projectIds: [projectId('Harbor Tower')],
+    });
+    expect(applied.status).toBe(404);
+    expect((await api.delete(`/api/templates/${templateId}`, otherAccount)).status).toBe(404);
+
+    const list = await api.get('/api/templates', otherAccount);
+    expect(list.data.templates).toEqual([]);
+    const own = await api.get(`/api/templates/${templateId}`, { params: { accountId: MOCK_ACCOUNT_ID } });
+    expect(own.status).toBe(200);
+  });
+
+  it('saves static and dynamic project groups and expands them when a job is created', async () => {
+    await syncAccount(api, MOCK_ACCOUNT_ID);
+
+    const staticGroup = await api.post('/api/project-groups', {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'Harbor and warehouse',
+      type: 'static',
+      projectIds: [projectId('Harbor Tower'), projectId('Legacy Warehouse')],
+    });
+    expect(staticGroup.status).toBe(201);
+
+    const dynamicGroup = await api.post('/api/project-groups', {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'West',
+      type: 'dynamic',
+      filter: { businessUnit: 'west' },
+    });
+    expect(dynamicGroup.status).toBe(201);
+
+    const list = await api.get('/api/project-groups', { params: { accountId: MOCK_ACCOUNT_ID } });
+    expect(list.data.groups.map((g: any) => [g.name, g.projectCount])).toEqual([
+      ['Harbor and warehouse', 2],
+      ['West', 2],
+    ]);
+
+    const members = await api.get(`/api/project-groups/${dynamicGroup.data.id}/projects`, {
+      params: { accountId: MOCK_ACCOUNT_ID },
+    });
+    expect(members.data.projects.map((p: any) => p.name)).toEqual(['Harbor Tower', 'Riverside Clinic']);
+
+    // Changing the filter changes the members; a static group keeps its list
+    const updated = await api.put(`/api/project-groups/${dynamicGroup.data.id}`, {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'West design',
+      type: 'dynamic',
+      filter: { businessUnit: 'West', currentPhase: 'Design' },
+    });
+    expect(updated.status).toBe(200);
+
+    const res = await api.post('/api/bulk/assign', {
+      accountId: MOCK_ACCOUNT_ID,
+      userEmails: [PAT],
+      projectIds: [projectId('Harbor Tower')],
+      projectGroupIds: [staticGroup.data.id, dynamicGroup.data.id],
+      roles: [roleId('Engineer')],
+    });
+    expect(res.status).toBe(200);
+    expect(res.data.totalProjects).toBe(3);
+
+    const status = await waitForExecution(api, res.data.executionId);
+
+    expect(status.status).toBe('completed');
+    expect(status.projectGroups).toEqual([
+      {
+        id: staticGroup.data.id,
+        name: 'Harbor and warehouse',
+        type: 'static',
+        projectIds: [projectId('Harbor Tower'), projectId('Legacy Warehouse')],
+      },
+      {
+        id: dynamicGroup.data.id,
+        name: 'West design',
+        type: 'dynamic',
+        projectIds: [projectId('Riverside Clinic')],
+      },
+    ]);
+    const results = await jobResults(res.data.executionId);
+    expect(results.map((r) => r.project_name)).toEqual([
+      'Harbor Tower',
+      'Legacy Warehouse',
+      'Riverside Clinic',
+    ]);
+
+    const deleted = await api.delete(`/api/project-groups/${staticGroup.data.id}`, {
+      params: { accountId: MOCK_ACCOUNT_ID },
+    });
+    expect(deleted.status).toBe(200);
+  });
+
+  it('keeps project groups to the account they were saved in', async () => {
+    const created = await api.post('/api/project-groups', {
+      accountId: MOCK_ACCOUNT_ID,
+      name: 'Clinic',
+      type: 'static',
+      projectIds: [projectId('Riverside Clinic')],
+    });
+    const groupId = created.data.id;
+    const otherAccount = { params: { accountId: OTHER_ACCOUNT_ID } };
+
+    expect((await api.get(`/api/project-groups/${groupId}`, otherAccount)).status).toBe(404);
+    expect((await api.get(`/api/project-groups/${groupId}/projects`, otherAccount)).status).toBe(404);
+    expect((await api.delete(`/api/project-groups/${groupId}`, otherAccount)).status).toBe(404);
+
+    const preview = await api.post('/api/bulk/preview', {
+      accountId: OTHER_ACCOUNT_ID,
+      userEmails: [SAM],
+      projectGroupIds: [groupId],
+      roles: [roleId('Engineer')],
+    });
+    expect(preview.status).toBe(400);
+    expect(preview.data.error).toBe(`Unknown project group ${groupId}`);
+
+    const own = await api.get(`/api/project-groups/${groupId}`, { params: { accountId: MOCK_ACCOUNT_ID } });
+    expect(own.status).toBe(200);
+  });
+
+  it('syncs project details so projects can be filtered on them', async () => {
+    await syncAccount(api, MOCK_ACCOUNT_ID);
+
+    const res = await api.get('/api/projects', { params: { accountId: MOCK_ACCOUNT_ID } });
+
+    expect(res.status).toBe(200);
+    expect(res.data.detailsSynced).toBe(true);
+    expect(res.data.projects.map((p: any) => p.name)).toEqual([
+      'Harbor Tower',
+      'Riverside Clinic',
+      'Legacy Warehouse',
+    ]);
+    expect(res.data.projects[0]).toMatchObject({
+      status: 'active',
+      platform: 'ACC',
+      jobNumber: 'HT-100',
+      city: 'Seattle',
+      stateOrProvince: 'WA',
+      businessUnit: 'West',
+      currentPhase: 'Construction',
+      startDate: '2026-01-05',
+      endDate: '2027-06-30',
+    });
+
+    const match = async (filter: object) =>
+      (await projectGroupService.matchProjects(MOCK_ACCOUNT_ID, filter)).map(
+        (id) => mockState().projects.find((p) => p.id === id)!.name
+      );
+
+    expect(await match({ businessUnit: 'west' })).toEqual(['Harbor Tower', 'Riverside Clinic']);
+    expect(await match({ currentPhase: 'Design' })).toEqual(['Riverside Clinic']);
+    expect(await match({ platform: 'BIM360' })).toEqual(['Legacy Warehouse']);
+    // Archived projects only match a status filter
+    expect(await match({ city: 'Boston' })).toEqual(['Legacy Warehouse']);
+    expect(await match({ city: 'Boston', status: 'archived' })).toEqual(['Old Depot']);
+    // A date range keeps projects active at some point in it and skips those without dates
+    expect(await match({ activeFrom: '2027-07-01' })).toEqual(['Riverside Clinic']);
+    expect(await match({ activeFrom: '2026-02-01', activeTo: '2026-08-31' })).toEqual(['Harbor Tower']);
+  });
+
+  it('invites an email that is not an account member before adding it to a project', async () => {
+    const newHire = 'nova.hire@design.example';
+    const designId = mockState().companies.find((c) => c.name === 'Design Partners')!.id;
+
+    const res = await api.post('/api/bulk/assign', {
+      accountId: MOCK_ACCOUNT_ID,
+      userEmails: [newHire],
+      projectIds: [projectId('Legacy Warehouse')],
+      roles: [roleId('Engineer')],
+      inviteToAccount: true,
+      invitations: [
+        {
+          email: newHire,
+          firstName: 'Nova',
+          lastName: 'Hire',
+          companyId: designId,
+          jobTitle: 'Site Engineer',
+        },
+      ],
+    });
+    expect(res.status).toBe(200);
+
+    const status = await waitForExecution(api, res.data.executionId);
+
+    expect(status.status).toBe('completed');
+    const [result] = await jobResults(res.data.executionId);
+    expect(result).toMatchObject({ status: 'success', action_taken: 'invited,added' });
+
+    const invited = mockState().users.find((u) => u.email === newHire);
+    expect(invited).toMatchObject({
+      name: 'Nova Hire',
+      jobTitle: 'Site Engineer',
+      companyId: designId,
+      status: 'pending',
+    });
+
+    // The account user exists before the project import needs it
+    const log = mockState().requestLog;
+    const inviteAt = log.findIndex(
+      (r) => r.method === 'POST' && r.path === `/hq/v1/accounts/${MOCK_ACCOUNT_ID}/users`
+    );
+    const importAt = log.findIndex((r) => r.method === 'POST' && r.path.endsWith('/users/import'));
+    expect(inviteAt).toBeGreaterThanOrEqual(0);
+    expect(inviteAt).toBeLessThan(importAt);
+
+    const warehouse = mockState().projects.find((p) => p.name === 'Legacy Warehouse')!;
+    expect(warehouse.members.map((m) => m.userId)).toEqual([invited!.id]);
+  });
+
+  it('returns role names with role IDs in status, results and history', async () => {
+    const executionId = await assign([PAT], ['Harbor Tower'], 'Architect');
+    const architect = { id: roleId('Architect'), name: 'Architect' };
+
+    const status = await waitForExecution(api, executionId);
+
+    expect(status.assignedRoles).toEqual([architect]);
+
+    const results = await api.get(`/api/bulk/${executionId}/results`);
+    expect(results.data.results).toEqual([
+      expect.objectContaining({
+        previousRoles: [{ id: roleId('Project Manager'), name: 'Project Manager' }],
+        resultingRoles: [architect],
+      }),
+    ]);
+
+    const history = await api.get('/api/bulk/history');
+    const execution = history.data.executions.find((e: any) => e.id === executionId);
+    expect(execution.assignedRoles).toEqual([architect]);
+  });
+});
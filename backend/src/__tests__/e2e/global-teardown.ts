@@ -0,0 +1,23 @@
+import { Client } from 'pg';
+import { Redis } from 'ioredis';
+
+/**
+ * Drop the database and empty the Redis database created by global-setup
+ */
+export default async function globalTeardown(): Promise<void> {
+  const databaseName = process.env.E2E_DATABASE_NAME;
+
+  if (databaseName && process.env.TEST_DATABASE_URL) {
+    const admin = new Client({ connectionString: process.env.TEST_DATABASE_URL });
+    await admin.connect();
+    // The app's pool may still hold connections when Jest force-exits
+    await admin.query(`DROP DATABASE IF EXISTS ${databaseName} WITH (FORCE)`);
+    await admin.end();
+  }
+
+  if (process.env.REDIS_URL) {
+    const redis = new Redis(process.env.REDIS_URL);
+    await redis.flushdb();
+    await redis.quit();
+  }
+}
@@ -0,0 +1,143 @@
+import axios, { AxiosInstance } from 'axios';
+import { wait } from '../../utils/helpers';
+
+const TERMINAL_STATUSES = ['completed', 'partial_success', 'failed', 'cancelled'];
+
+export function apiUrl(): string {
+  return `http://localhost:${process.env.PORT}`;
+}
+
+/**
+ * Wait until the API answers its health check
+ */
+export async function waitForApi(timeoutMs = 20000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const res = await axios.get(`${apiUrl()}/health`, { validateStatus: () => true });
+      if (res.status === 200) return;
+    } catch {
+      // Not listening yet
+    }
+    await wait(200);
+  }
+  throw new Error(`API not healthy after ${timeoutMs}ms`);
+}
+
+/**
+ * Sign in through the OAuth flow against the mock APS server
+ * @returns Client that sends the session cookie and never throws on status
+ */
+export async function login(): Promise<AxiosInstance> {
+  const { data } = await axios.get(`${apiUrl()}/api/auth/login`);
+
+  // The mock authorize endpoint redirects straight back with a code
+  const authorize = await axios.get(data.authUrl, {
+    maxRedirects: 0,
+    validateStatus: (status) => status === 302,
+  });
+  const callback = new URL(authorize.headers.location);
+
+  const res = await axios.get(`${apiUrl()}/api/auth/callback`, {
+    params: {
+      code: callback.searchParams.get('code'),
+      state: callback.searchParams.get('state'),
+    },
+  });
+  const cookie = (res.headers['set-cookie'] || [])
+    .map((c) => c.split(';')[0])
+    .join('; ');
+
+  return axios.create({
+    baseURL: apiUrl(),
+    headers: { Cookie: cookie },
+    validateStatus: () => true,
+  });
+}
+
+/**
+ * Poll an execution's status until the job finishes
+ * @returns Last status response body
+ */
+export async function waitForExecution(
+  api: AxiosInstance,
+  executionId: string,
+  timeoutMs = 45000
+): Promise<any> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const res = await api.get(`/api/bulk/status/${executionId}`);
+    if (res.status !== 200) {
+      throw new Error(`Status request failed with ${res.status}: ${JSON.stringify(res.data)}`);
+    }
+    if (TERMINAL_STATUSES.includes(res.data.status)) {
+      return res.data;
+    }
+    await wait(250);
+  }
+  throw new Error(`Execution ${executionId} did not finish within ${timeoutMs}ms`);
+}
+
+/**
+ * Run an account sync and wait for it to finish
+ * Expects an empty project cache, which the sync fills as soon as it starts
+ */
+export async function syncAccount(
+  api: AxiosInstance,
+  accountId: string,
+  timeoutMs = 45000
+): Promise<void> {
+  const res = await api.post('/api/account/sync', { accountId, force: true });
+  if (res.status !== 200) {
+    throw new Error(`Sync request failed with ${res.status}: ${JSON.stringify(res.data)}`);
+  }
+
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const status = await api.get('/api/account/sync', { params: { accountId } });
+    if (!status.data.syncInProgress && status.data.totalProjects > 0) return;
+    await wait(250);
+  }
+  throw new Error(`Account ${accountId} did not sync within ${timeoutMs}ms`);
+}
+
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Read an execution's status stream until the server ends it
+ * @returns Events in the order they were sent
+ */
+export async function readStatusStream(
+  api: AxiosInstance,
+  executionId: string,
+  timeoutMs = 45000
+): Promise<StreamEvent[]> {
+  const res = await api.get(`/api/bulk/status/${executionId}/stream`, {
+    responseType: 'stream',
+    timeout: timeoutMs,
+  });
+  if (res.status !== 200) {
+    throw new Error(`Status stream request failed with ${res.status}`);
+  }
+
+  const events: StreamEvent[] = [];
+  let buffer = '';
+  for await (const chunk of res.data) {
+    buffer += chunk.toString();
+    let end;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const message = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const event = message.match(/^event: (.*)$/m);
+      const data = message.match(/^data: (.*)$/m);
+      // Heartbeats are comment lines without an event
+      if (event && data) {
+        events.push({ event: event[1], data: JSON.parse(data[1]) });
+      }
+    }
+  }
+  return events;
+}
@@ -0,0 +1,61 @@
+import apsProjectsService from '../../services/aps/projects.service';
+import { CompanyDirectoryService } from '../../services/companies/company-directory.service';
+
+jest.mock('../../services/aps/projects.service');
+
+const mockedAps = jest.mocked(apsProjectsService);
+
+// setup-env maps design.example to Design Partners
+const DESIGN = { id: 'c-design', name: 'Design Partners' };
+const BUILDERS = { id: 'c-builders', name: 'Builders Inc' };
+
+let directory: CompanyDirectoryService;
+
+beforeEach(() => {
+  directory = new CompanyDirectoryService();
+  mockedAps.getAccountCompanies.mockResolvedValue([BUILDERS, DESIGN]);
+  mockedAps.getAccountUsers.mockResolvedValue([
+    { email: 'Member@Design.Example', companyId: 'c-builders' },
+  ] as any);
+});
+
+describe('CompanyDirectoryService.resolve', () => {
+  it('uses the company mapped to the email domain', async () => {
+    const resolved = await directory.resolve('account', ['Sam@DESIGN.example']);
+    expect(resolved.get('Sam@DESIGN.example')).toEqual({ ...DESIGN, source: 'domain' });
+  });
+
+  it('prefers the chosen company, then the member company, over the domain map', async () => {
+    const resolved = await directory.resolve(
+      'account',
+      ['chosen@design.example', 'member@design.example'],
+      { companies: { 'Chosen@design.example': 'c-builders' } }
+    );
+
+    expect(resolved.get('chosen@design.example')).toEqual({ ...BUILDERS, source: 'selected' });
+    expect(resolved.get('member@design.example')).toEqual({ ...BUILDERS, source: 'member' });
+  });
+
+  it('skips a mapped company the account does not have', async () => {
+    mockedAps.getAccountCompanies.mockResolvedValue([BUILDERS]);
+
+    const resolved = await directory.resolve('account', ['sam@design.example']);
+    expect(resolved.get('sam@design.example')).toBeNull();
+  });
+
+  it('falls back to the first company only when allowed', async () => {
+    const emails = ['pat@unmapped.example'];
+
+    expect((await directory.resolve('account', emails)).get(emails[0])).toBeNull();
+    expect(
+      (await directory.resolve('account', emails, { allowDefaultCompany: true })).get(emails[0])
+    ).toEqual({ ...BUILDERS, source: 'default' });
+  });
+
+  it('resolves from the domain map when account members cannot be loaded', async () => {
+    mockedAps.getAccountUsers.mockRejectedValue(new Error('APS unavailable'));
+
+    const resolved = await directory.resolve('account', ['member@design.example']);
+    expect(resolved.get('member@design.example')).toEqual({ ...DESIGN, source: 'domain' });
+  });
+});
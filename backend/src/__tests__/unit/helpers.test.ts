@@ -0,0 +1,147 @@
+import {
+  applyRoleMode,
+  decodeCursor,
+  encodeCursor,
+  estimateTimeRemaining,
+  getAccessLevel,
+  parsePageLimit,
+  resolveProductAccess,
+  sameRoles,
+} from '../../utils/helpers';
+
+describe('resolveProductAccess', () => {
+  it('gives admins Project Administration and Docs', () => {
+    expect(resolveProductAccess('admin')).toEqual([
+      { key: 'projectAdministration', access: 'administrator' },
+      { key: 'docs', access: 'administrator' },
+    ]);
+  });
+
+  it('gives users Docs membership when no product is granted', () => {
+    expect(resolveProductAccess('user', [{ key: 'build', access: 'none' }])).toEqual([
+      { key: 'build', access: 'none' },
+      { key: 'projectAdministration', access: 'none' },
+      { key: 'docs', access: 'member' },
+    ]);
+  });
+
+  it('keeps per-product overrides that grant access', () => {
+    expect(
+      resolveProductAccess('user', [
+        { key: 'build', access: 'member' },
+        { key: 'cost', access: 'administrator' },
+      ])
+    ).toEqual([
+      { key: 'build', access: 'member' },
+      { key: 'cost', access: 'administrator' },
+      { key: 'projectAdministration', access: 'none' },
+    ]);
+  });
+
+  it('always makes admins project administrators', () => {
+    expect(
+      resolveProductAccess('admin', [
+        { key: 'projectAdministration', access: 'none' },
+        { key: 'build', access: 'member' },
+      ])
+    ).toEqual([
+      { key: 'projectAdministration', access: 'administrator' },
+      { key: 'build', access: 'member' },
+    ]);
+  });
+});
+
+describe('getAccessLevel', () => {
+  it('is admin only for Project Administration administrators', () => {
+    expect(getAccessLevel([{ key: 'projectAdministration', access: 'administrator' }])).toBe('admin');
+    expect(getAccessLevel([{ key: 'docs', access: 'administrator' }])).toBe('user');
+    expect(getAccessLevel([{ key: 'projectAdministration', access: 'none' }])).toBe('user');
+    expect(getAccessLevel([])).toBe('user');
+  });
+});
+
+describe('applyRoleMode', () => {
+  const current = ['r-arch', 'r-eng'];
+
+  it('replaces the roles with the requested ones', () => {
+    expect(applyRoleMode(current, ['r-pm', 'r-pm'], 'replace')).toEqual(['r-pm']);
+  });
+
+  it('adds requested roles the member lacks', () => {
+    expect(applyRoleMode(current, ['r-eng', 'r-pm'], 'add')).toEqual(['r-arch', 'r-eng', 'r-pm']);
+  });
+
+  it('removes requested roles and ignores ones the member lacks', () => {
+    expect(applyRoleMode(current, ['r-eng', 'r-pm'], 'remove')).toEqual(['r-arch']);
+  });
+});
+
+describe('sameRoles', () => {
+  it('ignores order and repeats', () => {
+    expect(sameRoles(['a', 'b'], ['b', 'a'])).toBe(true);
+    expect(sameRoles(['a', 'a', 'b'], ['b', 'a'])).toBe(true);
+    expect(sameRoles([], [])).toBe(true);
+  });
+
+  it('spots added, missing and swapped roles', () => {
+    expect(sameRoles(['a'], ['a', 'b'])).toBe(false);
+    expect(sameRoles(['a', 'b'], ['a'])).toBe(false);
+    expect(sameRoles(['a', 'b'], ['a', 'c'])).toBe(false);
+  });
+});
+
+describe('estimateTimeRemaining', () => {
+  it('has no estimate before the first item or after the last', () => {
+    expect(estimateTimeRemaining(null, 3, 10)).toBeNull();
+    expect(estimateTimeRemaining(2000, 0, 10)).toBeNull();
+    expect(estimateTimeRemaining(2000, 10, 10)).toBeNull();
+  });
+
+  it('multiplies the average by the rounds left', () => {
+    expect(estimateTimeRemaining(2000, 4, 10)).toBe(12);
+    expect(estimateTimeRemaining(2000, 4, 10, 4)).toBe(4);
+    expect(estimateTimeRemaining(1250, 1, 2)).toBe(1);
+  });
+});
+
+describe('parsePageLimit', () => {
+  it('defaults when no limit is given and caps large ones', () => {
+    expect(parsePageLimit(undefined, 50, 200)).toBe(50);
+    expect(parsePageLimit('', 50, 200)).toBe(50);
+    expect(parsePageLimit('25', 50, 200)).toBe(25);
+    expect(parsePageLimit('500', 50, 200)).toBe(200);
+  });
+
+  it('rejects anything but a positive integer', () => {
+    for (const value of ['0', '-5', '2.5', 'ten', ['10', '20']]) {
+      expect(parsePageLimit(value, 50, 200)).toBeNull();
+    }
+  });
+});
+
+describe('cursors', () => {
+  const createdAt = '2026-10-19 10:00:00.123456';
+  const id = '6f1c2a9e-3b7d-4c1a-9e2f-0a1b2c3d4e5f';
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  it('round-trips the created_at text and ID', () => {
+    expect(decodeCursor(encodeCursor(createdAt, id))).toEqual([createdAt, id]);
+    expect(decodeCursor(encodeCursor('2026-10-19 10:00:00', id))).toEqual(['2026-10-19 10:00:00', id]);
+  });
+
+  it('rejects cursors that are not encoded pairs', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(encode({ createdAt, id }))).toBeNull();
+    expect(decodeCursor(encode([createdAt]))).toBeNull();
+    expect(decodeCursor(encode([createdAt, id, 'extra']))).toBeNull();
+    expect(decodeCursor(encode([1, id]))).toBeNull();
+  });
+
+  it('rejects timestamps and IDs the database would refuse', () => {
+    expect(decodeCursor(encodeCursor('yesterday', id))).toBeNull();
+    expect(decodeCursor(encodeCursor('2026-02-30 10:00:00', id))).toBeNull();
+    expect(decodeCursor(encodeCursor('2026-10-19 24:00:00', id))).toBeNull();
+    expect(decodeCursor(encodeCursor('2026-10-19T10:00:00Z', id))).toBeNull();
+    expect(decodeCursor(encodeCursor(createdAt, 'row-42'))).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import apsProjectsService from '../../services/aps/projects.service';
+import importValidationService from '../../services/import/import-validation.service';
+import { ImportRow } from '../../types';
+
+jest.mock('../../services/aps/projects.service');
+
+const mockedAps = jest.mocked(apsProjectsService);
+
+const row = (rowNumber: number, fields: Partial<ImportRow> = {}): ImportRow => ({
+  rowNumber,
+  email: 'pat@example.com',
+  project: 'Tower A',
+  role: 'Architect',
+  ...fields,
+});
+
+beforeEach(() => {
+  mockedAps.getProjects.mockResolvedValue([
+    { id: 'p-tower', name: 'Tower A' },
+    { id: 'p-garage', name: 'Garage' },
+  ] as any);
+  mockedAps.getAccountRoles.mockResolvedValue([
+    { id: 'r-arch', name: 'Architect' },
+    { id: 'r-eng', name: 'Engineer' },
+  ] as any);
+  mockedAps.getAccountCompanies.mockResolvedValue([{ id: 'c-design', name: 'Design Partners' }]);
+});
+
+describe('ImportValidationService.validateRows', () => {
+  it('resolves projects, roles and companies by name or ID', async () => {
+    const report = await importValidationService.validateRows('token', 'account', [
+      row(2, { email: ' Pat@Example.com ', project: 'b.P-TOWER', role: 'architect', company: 'design partners' }),
+      row(3, { project: 'garage', role: 'r-eng', company: 'c-design' }),
+    ]);
+
+    expect(report.summary).toEqual({ total: 2, valid: 2, invalid: 0 });
+    expect(report.rows[0]).toMatchObject({
+      email: 'pat@example.com',
+      projectId: 'p-tower',
+      roleId: 'r-arch',
+      companyId: 'c-design',
+      accessLevel: 'user',
+      valid: true,
+    });
+    expect(report.rows[1]).toMatchObject({ projectId: 'p-garage', roleId: 'r-eng', valid: true });
+  });
+
+  it('reports missing and unknown values', async () => {
+    const report = await importValidationService.validateRows('token', 'account', [
+      row(2, { email: '', project: '', role: '' }),
+      row(3, { email: 'not-an-email', project: 'Bridge', role: 'Pilot', company: 'Acme' }),
+    ]);
+
+    expect(report.summary).toEqual({ total: 2, valid: 0, invalid: 2 });
+    expect(report.rows[0].errors).toEqual(['Email is required', 'Project is required', 'Role is required']);
+    expect(report.rows[1].errors).toEqual([
+      'Invalid email address "not-an-email"',
+      'Unknown project "Bridge"',
+      'Unknown role "Pilot"',
+      'Unknown company "Acme"',
+    ]);
+  });
+
+  it('accepts access level aliases and rejects anything else', async () => {
+    const report = await importValidationService.validateRows('token', 'account', [
+      row(2, { email: 'a@example.com', accessLevel: 'Administrator' }),
+      row(3, { email: 'b@example.com', accessLevel: ' project admin ' }),
+      row(4, { email: 'c@example.com', accessLevel: 'Member' }),
+      row(5, { email: 'd@example.com', accessLevel: 'owner' }),
+    ]);
+
+    expect(report.rows.map((r) => r.accessLevel)).toEqual(['admin', 'admin', 'user', null]);
+    expect(report.rows[3].errors).toEqual(['Unknown access level "owner"']);
+  });
+
+  it('flags later rows for the same email and project as duplicates', async () => {
+    const report = await importValidationService.validateRows('token', 'account', [
+      row(2),
+      row(3, { email: 'PAT@example.com', project: 'p-tower', role: 'Engineer' }),
+      row(4, { project: 'Garage' }),
+    ]);
+
+    expect(report.rows[0].valid).toBe(true);
+    expect(report.rows[1].errors).toEqual(['Duplicate of row 2']);
+    expect(report.rows[2].valid).toBe(true);
+  });
+});
+
+describe('ImportValidationService.toAssignments', () => {
+  it('turns valid rows into assignments with resolved IDs', async () => {
+    const report = await importValidationService.validateRows('token', 'account', [
+      row(2, { company: 'Design Partners', accessLevel: 'admin' }),
+      row(3, { email: 'sam@example.com', project: 'Garage', role: 'Engineer' }),
+    ]);
+
+    expect(importValidationService.toAssignments(report.rows)).toEqual([
+      {
+        email: 'pat@example.com',
+        projectId: 'p-tower',
+        projectName: 'Tower A',
+        role: 'r-arch',
+        companyId: 'c-design',
+        accessLevel: 'admin',
+      },
+      {
+        email: 'sam@example.com',
+        projectId: 'p-garage',
+        projectName: 'Garage',
+        role: 'r-eng',
+        companyId: undefined,
+        accessLevel: 'user',
+      },
+    ]);
+  });
+});
+
+describe('ImportValidationService.toInvitations', () => {
+  it('returns one invitation per email, filling blanks from later rows', async () => {
+    const report = await importValidationService.validateRows('token', 'account', [
+      row(2, { firstName: 'Pat' }),
+      row(3, { project: 'Garage', lastName: 'Manager', company: 'Design Partners', firstName: 'Patricia' }),
+      row(4, { email: 'sam@example.com', jobTitle: ' Architect ' }),
+    ]);
+
+    expect(importValidationService.toInvitations(report.rows)).toEqual([
+      {
+        email: 'pat@example.com',
+        firstName: 'Pat',
+        lastName: 'Manager',
+        jobTitle: undefined,
+        companyId: 'c-design',
+      },
+      {
+        email: 'sam@example.com',
+        firstName: undefined,
+        lastName: undefined,
+        jobTitle: 'Architect',
+        companyId: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import apsProjectsService from '../../services/aps/projects.service';
+import { MembershipCacheService } from '../../services/cache/membership-cache.service';
+import { getDb, transaction } from '../../db';
+
+jest.mock('../../services/aps/projects.service');
+jest.mock('../../db');
+
+const mockedAps = jest.mocked(apsProjectsService);
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+// MEMBERSHIP_CACHE_TTL_MINUTES defaults to an hour
+const TTL_MS = 60 * 60 * 1000;
+
+const APS_MEMBER = {
+  id: 'pu-1',
+  email: 'Pat@Example.com',
+  name: 'Pat Manager',
+  autodeskId: 'PAT1',
+  roleIds: ['role-pm'],
+  products: [{ key: 'docs', access: 'member' }],
+};
+
+const CACHED_MEMBER = {
+  project_user_id: 'pu-2',
+  email: 'sam@example.com',
+  name: 'Sam Architect',
+  autodesk_id: 'SAM1',
+  company_id: null,
+  company_name: null,
+  role_ids: ['role-architect'],
+  products: [],
+};
+
+let cache: MembershipCacheService;
+let query: jest.Mock;
+let clientQuery: jest.Mock;
+// Projects whose memberships were synced within the TTL
+let freshProjects: string[];
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+  cache = new MembershipCacheService();
+  freshProjects = [];
+
+  query = jest.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('memberships_synced_at > $2')) {
+      const ids: string[] = Array.isArray(params[0]) ? params[0] : [params[0]];
+      return { rows: ids.filter((id) => freshProjects.includes(id)).map((id) => ({ project_id: id })) };
+    }
+    if (sql.includes('FROM project_memberships')) {
+      return { rows: [CACHED_MEMBER] };
+    }
+    if (sql.includes('SELECT project_id, project_name')) {
+      return { rows: [{ project_id: params[0][0], project_name: 'Harbor Tower' }] };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+  clientQuery = jest.fn(async () => ({ rows: [], rowCount: 1 }));
+
+  jest.mocked(getDb).mockReturnValue({ query } as any);
+  jest.mocked(transaction).mockImplementation(async (fn: any) => fn({ query: clientQuery }));
+  mockedAps.getProjectUsers.mockResolvedValue([APS_MEMBER] as any);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.clearAllMocks();
+});
+
+describe('MembershipCacheService.getProjectMembers', () => {
+  it('reads members from the cache while the project is fresh', async () => {
+    freshProjects = ['p1'];
+
+    const members = await cache.getProjectMembers('token', 'account', 'p1');
+
+    expect(members).toEqual([
+      {
+        id: 'pu-2',
+        email: 'sam@example.com',
+        name: 'Sam Architect',
+        autodeskId: 'SAM1',
+        companyId: undefined,
+        companyName: undefined,
+        roleIds: ['role-architect'],
+        products: [],
+      },
+    ]);
+    expect(mockedAps.getProjectUsers).not.toHaveBeenCalled();
+  });
+
+  it('counts memberships synced before the TTL as stale', async () => {
+    await cache.getProjectMembers('token', 'account', 'p1');
+
+    const [, params] = query.mock.calls.find(([sql]) => sql.includes('memberships_synced_at > $2'))!;
+    expect(params).toEqual(['p1', new Date(NOW.getTime() - TTL_MS)]);
+  });
+
+  it('replaces the cached members from APS once the project is stale', async () => {
+    const members = await cache.getProjectMembers('token', 'account', 'p1');
+
+    expect(members).toEqual([APS_MEMBER]);
+    expect(mockedAps.getProjectUsers).toHaveBeenCalledWith('token', 'account', 'p1');
+
+    const statements = clientQuery.mock.calls.map(([sql]) => sql.trim().split(/\s+/)[0]);
+    expect(statements).toEqual(['INSERT', 'DELETE', 'INSERT']);
+    // Emails are stored lower-cased
+    expect(clientQuery.mock.calls[2][1][3]).toBe('pat@example.com');
+  });
+
+  it('records the error and keeps the cached rows when APS fails', async () => {
+    mockedAps.getProjectUsers.mockRejectedValue(new Error('APS unavailable'));
+
+    await expect(cache.getProjectMembers('token', 'account', 'p1')).rejects.toThrow('APS unavailable');
+
+    expect(query).toHaveBeenCalledWith(
+      expect.stringContaining('memberships_sync_error = $1'),
+      ['APS unavailable', 'p1']
+    );
+    expect(transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('MembershipCacheService.syncProjects', () => {
+  const projects = [
+    { id: 'p1', name: 'Harbor Tower' },
+    { id: 'p2', name: 'Riverside Clinic' },
+  ];
+
+  it('syncs only the stale projects', async () => {
+    freshProjects = ['p1'];
+
+    const result = await cache.syncProjects('token', 'account', projects);
+
+    expect(result).toEqual({ syncedProjects: 1, skippedProjects: 1, failedProjects: [] });
+    expect(mockedAps.getProjectUsers).toHaveBeenCalledTimes(1);
+    expect(mockedAps.getProjectUsers).toHaveBeenCalledWith('token', 'account', 'p2');
+  });
+
+  it('syncs fresh projects too when forced', async () => {
+    freshProjects = ['p1'];
+
+    const result = await cache.syncProjects('token', 'account', projects, true);
+
+    expect(result).toEqual({ syncedProjects: 2, skippedProjects: 0, failedProjects: [] });
+    expect(mockedAps.getProjectUsers).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports projects that fail without stopping the rest', async () => {
+    mockedAps.getProjectUsers.mockImplementation(async (_token, _account, projectId) => {
+      if (projectId === 'p1') throw new Error('Forbidden');
+      return [APS_MEMBER] as any;
+    });
+
+    const result = await cache.syncProjects('token', 'account', projects);
+
+    expect(result).toEqual({
+      syncedProjects: 1,
+      skippedProjects: 0,
+      failedProjects: [{ projectId: 'p1', error: 'Forbidden' }],
+    });
+  });
+});
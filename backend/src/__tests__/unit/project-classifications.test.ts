@@ -0,0 +1,92 @@
+import axios from 'axios';
+import apsAuthService from '../../services/aps/auth.service';
+import { APSProjectsService } from '../../services/aps/projects.service';
+
+jest.mock('axios');
+jest.mock('../../services/aps/auth.service');
+
+const mockedAxios = jest.mocked(axios);
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+// PROJECT_DETAILS_TTL_MINUTES defaults to a day
+const TTL_MS = 24 * 60 * 60 * 1000;
+
+const ADMIN_PROJECTS = [
+  { id: 'p1', classification: 'production', status: 'active' },
+  { id: 'p2', classification: 'template', status: 'active' },
+];
+
+let service: APSProjectsService;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+  service = new APSProjectsService();
+  jest.mocked(apsAuthService.getTwoLeggedToken).mockResolvedValue('two-legged-token');
+  mockedAxios.mockResolvedValue({ data: { results: ADMIN_PROJECTS } });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.clearAllMocks();
+});
+
+describe('APSProjectsService.getProjectClassifications', () => {
+  it('maps projects to their classification and status', async () => {
+    const classifications = await service.getProjectClassifications('account');
+
+    expect(classifications).toEqual(
+      new Map([
+        ['p1', { classification: 'production', status: 'active' }],
+        ['p2', { classification: 'template', status: 'active' }],
+      ])
+    );
+    expect(mockedAxios).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: expect.stringContaining('/construction/admin/v1/accounts/account/projects'),
+      })
+    );
+  });
+
+  it('reuses the classifications until the project details TTL passes', async () => {
+    await service.getProjectClassifications('account');
+    jest.setSystemTime(NOW.getTime() + TTL_MS - 1000);
+    await service.getProjectClassifications('account');
+
+    expect(mockedAxios).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(NOW.getTime() + TTL_MS + 1000);
+    await service.getProjectClassifications('account');
+
+    expect(mockedAxios).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches each account separately', async () => {
+    await service.getProjectClassifications('account');
+    await service.getProjectClassifications('other-account');
+
+    expect(mockedAxios).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    await Promise.all([
+      service.getProjectClassifications('account'),
+      service.getProjectClassifications('account'),
+    ]);
+
+    expect(mockedAxios).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns no classifications when the Admin API fails, and asks again after a minute', async () => {
+    mockedAxios.mockRejectedValueOnce(new Error('Forbidden'));
+
+    expect((await service.getProjectClassifications('account')).size).toBe(0);
+
+    jest.setSystemTime(NOW.getTime() + 30 * 1000);
+    expect((await service.getProjectClassifications('account')).size).toBe(0);
+    expect(mockedAxios).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(NOW.getTime() + 61 * 1000);
+    expect((await service.getProjectClassifications('account')).size).toBe(2);
+    expect(mockedAxios).toHaveBeenCalledTimes(2);
+  });
+});
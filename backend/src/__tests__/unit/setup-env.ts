@@ -0,0 +1,15 @@
+/**
+ * Placeholder settings so config loads in unit tests
+ * Nothing here is used to reach a real service; tests mock what they call
+ */
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'error',
+  APS_CLIENT_ID: 'unit-client-id',
+  APS_CLIENT_SECRET: 'unit-client-secret',
+  APS_CALLBACK_URL: 'http://localhost:3001/api/auth/callback',
+  DATABASE_URL: 'postgresql://localhost:5432/unit',
+  SESSION_SECRET: 'unit-session-secret',
+  ENCRYPTION_KEY: 'unit-encryption-key-0123456789abcdef',
+  COMPANY_DOMAIN_MAP: JSON.stringify({ 'Design.Example': 'Design Partners' }),
+});
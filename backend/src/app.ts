@@ -14,6 +14,11 @@ import logger from './utils/logger';
 import authController from './controllers/auth.controller';
 import projectsController from './controllers/projects.controller';
 import bulkOperationsController from './controllers/bulk-operations.controller';
+import templatesController from './controllers/templates.controller';
+import projectGroupsController from './controllers/project-groups.controller';
+import reconcileController from './controllers/reconcile.controller';
+import reviewsController from './controllers/reviews.controller';
+import auditController from './controllers/audit.controller';
 
 // Worker - import to start job processing in same process
 import './workers/job-processor';
@@ -39,7 +44,8 @@ app.use(
     credentials: true,
   })
 );
-app.use(express.json());
+// Spreadsheet imports send up to a few thousand rows in one body
+app.use(express.json({ limit: '2mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // Session configuration
@@ -181,6 +187,16 @@ app.get(
   requireAuth,
   projectsController.getProjectRoles.bind(projectsController)
 );
+app.post(
+  '/api/projects/:projectId/copy-members/preview',
+  requireAuth,
+  bulkOperationsController.previewMemberCopy.bind(bulkOperationsController)
+);
+app.post(
+  '/api/projects/:projectId/copy-members',
+  requireAuth,
+  bulkOperationsController.copyMembers.bind(bulkOperationsController)
+);
 
 // Account routes
 app.get(
@@ -188,11 +204,31 @@ app.get(
   requireAuth,
   projectsController.getAccountMembers.bind(projectsController)
 );
+app.get(
+  '/api/account/members/:email/access',
+  requireAuth,
+  projectsController.getMemberAccess.bind(projectsController)
+);
 app.get(
   '/api/account/roles',
   requireAuth,
   projectsController.getAccountRoles.bind(projectsController)
 );
+app.get(
+  '/api/account/companies',
+  requireAuth,
+  projectsController.getAccountCompanies.bind(projectsController)
+);
+app.get(
+  '/api/account/sync',
+  requireAuth,
+  projectsController.getSyncStatus.bind(projectsController)
+);
+app.post(
+  '/api/account/sync',
+  requireAuth,
+  projectsController.syncMemberships.bind(projectsController)
+);
 
 // Bulk operations routes
 app.post(
@@ -205,16 +241,233 @@ app.post(
   requireAuth,
   bulkOperationsController.assign.bind(bulkOperationsController)
 );
+app.post(
+  '/api/bulk/remove/preview',
+  requireAuth,
+  bulkOperationsController.previewRemoval.bind(bulkOperationsController)
+);
+app.post(
+  '/api/bulk/remove',
+  requireAuth,
+  bulkOperationsController.remove.bind(bulkOperationsController)
+);
+app.post(
+  '/api/bulk/import/validate',
+  requireAuth,
+  bulkOperationsController.validateImport.bind(bulkOperationsController)
+);
+app.post(
+  '/api/bulk/import',
+  requireAuth,
+  bulkOperationsController.importAssignments.bind(bulkOperationsController)
+);
+app.post(
+  '/api/bulk/clone-access/preview',
+  requireAuth,
+  bulkOperationsController.previewClone.bind(bulkOperationsController)
+);
+app.post(
+  '/api/bulk/clone-access',
+  requireAuth,
+  bulkOperationsController.cloneAccess.bind(bulkOperationsController)
+);
 app.get(
   '/api/bulk/status/:executionId',
   requireAuth,
   bulkOperationsController.getStatus.bind(bulkOperationsController)
 );
+app.get(
+  '/api/bulk/status/:executionId/stream',
+  requireAuth,
+  bulkOperationsController.streamStatus.bind(bulkOperationsController)
+);
 app.get(
   '/api/bulk/history',
   requireAuth,
   bulkOperationsController.getHistory.bind(bulkOperationsController)
 );
+app.get(
+  '/api/bulk/scheduled',
+  requireAuth,
+  bulkOperationsController.getScheduled.bind(bulkOperationsController)
+);
+app.get(
+  '/api/bulk/:executionId/results',
+  requireAuth,
+  bulkOperationsController.getResults.bind(bulkOperationsController)
+);
+app.post(
+  '/api/bulk/:executionId/cancel',
+  requireAuth,
+  bulkOperationsController.cancel.bind(bulkOperationsController)
+);
+app.post(
+  '/api/bulk/:executionId/retry',
+  requireAuth,
+  bulkOperationsController.retry.bind(bulkOperationsController)
+);
+app.patch(
+  '/api/bulk/:executionId/schedule',
+  requireAuth,
+  bulkOperationsController.updateSchedule.bind(bulkOperationsController)
+);
+
+// Role template routes
+app.get(
+  '/api/templates',
+  requireAuth,
+  templatesController.list.bind(templatesController)
+);
+app.post(
+  '/api/templates',
+  requireAuth,
+  templatesController.create.bind(templatesController)
+);
+app.get(
+  '/api/templates/:templateId',
+  requireAuth,
+  templatesController.get.bind(templatesController)
+);
+app.put(
+  '/api/templates/:templateId',
+  requireAuth,
+  templatesController.update.bind(templatesController)
+);
+app.delete(
+  '/api/templates/:templateId',
+  requireAuth,
+  templatesController.remove.bind(templatesController)
+);
+app.post(
+  '/api/templates/:templateId/apply',
+  requireAuth,
+  templatesController.apply.bind(templatesController)
+);
+
+// Project group routes
+app.get(
+  '/api/project-groups',
+  requireAuth,
+  projectGroupsController.list.bind(projectGroupsController)
+);
+app.post(
+  '/api/project-groups',
+  requireAuth,
+  projectGroupsController.create.bind(projectGroupsController)
+);
+app.get(
+  '/api/project-groups/:groupId',
+  requireAuth,
+  projectGroupsController.get.bind(projectGroupsController)
+);
+app.put(
+  '/api/project-groups/:groupId',
+  requireAuth,
+  projectGroupsController.update.bind(projectGroupsController)
+);
+app.delete(
+  '/api/project-groups/:groupId',
+  requireAuth,
+  projectGroupsController.remove.bind(projectGroupsController)
+);
+app.get(
+  '/api/project-groups/:groupId/projects',
+  requireAuth,
+  projectGroupsController.getProjects.bind(projectGroupsController)
+);
+
+// Access manifest routes
+app.get(
+  '/api/manifests',
+  requireAuth,
+  reconcileController.listManifests.bind(reconcileController)
+);
+app.post(
+  '/api/manifests',
+  requireAuth,
+  reconcileController.createManifest.bind(reconcileController)
+);
+app.get(
+  '/api/manifests/:manifestId',
+  requireAuth,
+  reconcileController.getManifest.bind(reconcileController)
+);
+app.put(
+  '/api/manifests/:manifestId',
+  requireAuth,
+  reconcileController.updateManifest.bind(reconcileController)
+);
+app.delete(
+  '/api/manifests/:manifestId',
+  requireAuth,
+  reconcileController.deleteManifest.bind(reconcileController)
+);
+app.get(
+  '/api/manifests/:manifestId/versions',
+  requireAuth,
+  reconcileController.listVersions.bind(reconcileController)
+);
+app.get(
+  '/api/manifests/:manifestId/versions/:version',
+  requireAuth,
+  reconcileController.getVersion.bind(reconcileController)
+);
+app.get(
+  '/api/manifests/:manifestId/drift',
+  requireAuth,
+  reconcileController.listDriftReports.bind(reconcileController)
+);
+
+// Reconcile routes
+app.post(
+  '/api/reconcile/plan',
+  requireAuth,
+  reconcileController.plan.bind(reconcileController)
+);
+app.post(
+  '/api/reconcile/apply',
+  requireAuth,
+  reconcileController.apply.bind(reconcileController)
+);
+
+// Access review routes
+app.get(
+  '/api/reviews',
+  requireAuth,
+  reviewsController.listCampaigns.bind(reviewsController)
+);
+app.post(
+  '/api/reviews',
+  requireAuth,
+  reviewsController.createCampaign.bind(reviewsController)
+);
+app.get(
+  '/api/reviews/:campaignId',
+  requireAuth,
+  reviewsController.getCampaign.bind(reviewsController)
+);
+app.get(
+  '/api/reviews/:campaignId/items',
+  requireAuth,
+  reviewsController.listItems.bind(reviewsController)
+);
+app.post(
+  '/api/reviews/:campaignId/decisions',
+  requireAuth,
+  reviewsController.decide.bind(reviewsController)
+);
+app.post(
+  '/api/reviews/:campaignId/close',
+  requireAuth,
+  reviewsController.closeCampaign.bind(reviewsController)
+);
+
+// Audit log routes
+app.get(
+  '/api/audit',
+  requireAuth,
+  auditController.listAuditLogs.bind(auditController)
+);
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
@@ -17,6 +17,23 @@ function getEnvVarAsNumber(key: string, defaultValue: number): number {
   return value ? parseInt(value, 10) : defaultValue;
 }
 
+function getEnvVarAsMap(key: string): Record<string, string> {
+  const value = process.env[key];
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    // Keys are compared lower-cased
+    return Object.fromEntries(
+      Object.entries(parsed).map(([k, v]) => [k.trim().toLowerCase(), String(v)])
+    );
+  } catch {
+    throw new Error(`Environment variable ${key} must be a JSON object`);
+  }
+}
+
 export const config: AppConfig = {
   port: getEnvVarAsNumber('PORT', 3001),
   nodeEnv: getEnvVar('NODE_ENV', 'development'),
@@ -59,6 +76,16 @@ export const config: AppConfig = {
     concurrency: getEnvVarAsNumber('QUEUE_CONCURRENCY', 3),
     jobTimeoutMs: getEnvVarAsNumber('JOB_TIMEOUT_MS', 300000), // 5 minutes
     maxRetries: getEnvVarAsNumber('JOB_MAX_RETRIES', 3),
+    batchSize: getEnvVarAsNumber('QUEUE_BATCH_SIZE', 5), // Tasks a job runs at the same time
+  },
+
+  cache: {
+    membershipTtlMinutes: getEnvVarAsNumber('MEMBERSHIP_CACHE_TTL_MINUTES', 60),
+    projectDetailsTtlMinutes: getEnvVarAsNumber('PROJECT_DETAILS_TTL_MINUTES', 1440), // 24 hours
+  },
+
+  companies: {
+    domainMap: getEnvVarAsMap('COMPANY_DOMAIN_MAP'),
   },
 };
 
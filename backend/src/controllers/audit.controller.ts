@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { getDb } from '../db';
+import { decodeCursor, encodeCursor, parsePageLimit } from '../utils/helpers';
+import logger from '../utils/logger';
+import { AuditAction, AuditLogEntry } from '../types';
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  'user_login',
+  'user_logout',
+  'projects_fetched',
+  'user_preview',
+  'job_created',
+  'job_started',
+  'job_completed',
+  'job_failed',
+  'job_cancelled',
+  'user_added_to_project',
+  'user_role_updated',
+  'api_error',
+  'rate_limit_hit',
+  'review_campaign_created',
+  'review_decision',
+  'review_campaign_closed',
+];
+
+const DEFAULT_AUDIT_PAGE = 50;
+const MAX_AUDIT_PAGE = 200;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a from/to bound: a date (YYYY-MM-DD) or an ISO timestamp
+ * A date as the upper bound includes that whole day
+ * @returns Timestamp text, null if not set, or undefined if invalid
+ */
+function parseBound(value: string | undefined, isUpper: boolean): string | null | undefined {
+  if (!value) return null;
+  if (isNaN(Date.parse(value))) return undefined;
+  if (!DATE_PATTERN.test(value)) return value;
+  if (!isUpper) return value;
+
+  const nextDay = new Date(`${value}T00:00:00Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+  return nextDay.toISOString().slice(0, 10);
+}
+
+// API shape of an audit_logs row joined with its user
+function toAuditLogEntry(row: any): AuditLogEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    userName: row.user_name,
+    executionId: row.execution_id,
+    action: row.action,
+    resourceType: row.resource_type,
+    resourceId: row.resource_id,
+    details: row.details,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    success: row.success,
+    errorMessage: row.error_message,
+    createdAt: row.created_at,
+  };
+}
+
+export class AuditController {
+  /**
+   * List the signed-in user's audit log entries a page at a time, newest first
+   * Filters: action, executionId, resourceType, resourceId, from/to, success
+   * and search (free text over details and the error message)
+   * GET /api/audit?action=job_created&from=2026-10-01&limit=50&cursor=...
+   */
+  async listAuditLogs(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const {
+        action,
+        executionId,
+        resourceType,
+        resourceId,
+        from,
+        to,
+        success,
+        search,
+        cursor,
+      } = req.query as Record<string, string | undefined>;
+
+      if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+        res.status(400).json({ error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` });
+        return;
+      }
+      if (success && success !== 'true' && success !== 'false') {
+        res.status(400).json({ error: 'success must be true or false' });
+        return;
+      }
+
+      const since = parseBound(from, false);
+      const until = parseBound(to, true);
+      if (since === undefined || until === undefined) {
+        res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps' });
+        return;
+      }
+
+      const limit = parsePageLimit(req.query.limit, DEFAULT_AUDIT_PAGE, MAX_AUDIT_PAGE);
+      if (limit === null) {
+        res.status(400).json({ error: 'limit must be a positive integer' });
+        return;
+      }
+
+      const before = cursor ? decodeCursor(cursor) : null;
+      if (cursor && !before) {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+      }
+
+      const db = getDb();
+
+      // One extra row tells whether another page follows
+      const logsRow = await db.query(
+        `SELECT a.*, a.created_at::text AS cursor_created_at,
+                u.email AS user_email, u.name AS user_name
+         FROM audit_logs a
+         LEFT JOIN users u ON u.id = a.user_id
+         WHERE a.user_id = $1
+           AND ($2::text IS NULL OR a.action::text = $2)
+           AND ($3::text IS NULL OR a.execution_id::text = $3)
+           AND ($4::text IS NULL OR a.resource_type = $4)
+           AND ($5::text IS NULL OR a.resource_id = $5)
+           AND ($6::timestamp IS NULL OR a.created_at >= $6::timestamp)
+           AND ($7::timestamp IS NULL OR a.created_at < $7::timestamp)
+           AND ($8::boolean IS NULL OR a.success = $8)
+           AND ($9::text IS NULL
+                OR a.details::text ILIKE '%' || $9 || '%'
+                OR a.error_message ILIKE '%' || $9 || '%')
+           AND ($10::timestamp IS NULL OR (a.created_at, a.id) < ($10::timestamp, $11::uuid))
+         ORDER BY a.created_at DESC, a.id DESC
+         LIMIT $12`,
+        [
+          userId,
+          action || null,
+          executionId?.trim() || null,
+          resourceType?.trim() || null,
+          resourceId?.trim() || null,
+          since,
+          until,
+          success ? success === 'true' : null,
+          search?.trim() || null,
+          before?.[0] ?? null,
+          before?.[1] ?? null,
+          limit + 1,
+        ]
+      );
+
+      const rows = logsRow.rows.slice(0, limit);
+      const last = rows[rows.length - 1];
+
+      res.json({
+        entries: rows.map(toAuditLogEntry),
+        nextCursor:
+          logsRow.rows.length > limit ? encodeCursor(last.cursor_created_at, last.id) : null,
+      });
+    } catch (error) {
+      logger.error('Failed to list audit logs', { error });
+      res.status(500).json({ error: 'Failed to retrieve audit logs' });
+    }
+  }
+}
+
+export default new AuditController();
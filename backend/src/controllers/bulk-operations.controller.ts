@@ -1,19 +1,444 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import apsProjectsService from '../services/aps/projects.service';
+import membershipCacheService from '../services/cache/membership-cache.service';
+import roleDirectoryService from '../services/roles/role-directory.service';
+import companyDirectoryService from '../services/companies/company-directory.service';
+import projectGroupService from '../services/groups/project-group.service';
+import importValidationService from '../services/import/import-validation.service';
+import accessCloneService from '../services/clone/access-clone.service';
 import queueService from '../services/queue/queue.service';
 import { getDb } from '../db';
-import { decrypt, validateEmails } from '../utils/helpers';
+import { config } from '../config';
+import {
+  decrypt,
+  validateEmails,
+  validateProducts,
+  resolveProductAccess,
+  getAccessLevel,
+  hasProductAccess,
+  applyRoleMode,
+  sameRoles,
+  estimateTimeRemaining,
+  encodeCursor,
+  decodeCursor,
+  parsePageLimit,
+  ROLE_MODES,
+} from '../utils/helpers';
 import logger from '../utils/logger';
 import {
+  AccessLevel,
+  BulkImportRequest,
   BulkUserAssignmentRequest,
+  BulkUserRemovalRequest,
+  CloneAccessRequest,
+  CloneAssignment,
+  ExpandedProjectGroup,
+  ImportAssignment,
+  JobProgressData,
+  MemberCopyFilter,
+  MemberCopyRequest,
+  OperationPair,
   PreviewRequest,
   PreviewResult,
+  ReconcileRemoval,
+  RemovalPreviewResult,
+  ResultStatus,
+  RoleRef,
+  ScheduleUpdateRequest,
 } from '../types';
 
+// Upper bound on import rows and clone assignments; matches the largest assign request (50 users x 100 projects)
+const MAX_IMPORT_ROWS = 5000;
+
+const ACCESS_LEVELS: AccessLevel[] = ['admin', 'user'];
+
+const RESULT_STATUSES: ResultStatus[] = ['pending', 'processing', 'success', 'skipped', 'failed'];
+
+// Page sizes for GET /api/bulk/:executionId/results
+const DEFAULT_RESULTS_PAGE = 50;
+const MAX_RESULTS_PAGE = 200;
+
+// Matches the retry_count cut-off in v_failed_operations
+const MAX_RETRIES = 3;
+
+// Executions in these states no longer change
+const FINISHED_STATUSES = ['completed', 'partial_success', 'failed', 'cancelled'];
+
+// Status streams batch worker events and ping idle connections
+const STREAM_FLUSH_MS = 250;
+const STREAM_HEARTBEAT_MS = 15000;
+
+/**
+ * Resolve stored role IDs to {id, name} pairs; null (not recorded) stays null
+ * Executions from before account_id was recorded keep the IDs as names
+ */
+async function resolveRoles(
+  accountId: string | null,
+  roleIds: string[] | null,
+  projectId?: string
+): Promise<RoleRef[] | null> {
+  if (!roleIds) {
+    return null;
+  }
+  if (!accountId) {
+    return roleIds.map((id) => ({ id, name: id }));
+  }
+  return roleDirectoryService.resolve(accountId, roleIds, projectId);
+}
+
+// Requests may send a single role or a list of roles
+function requestedRoles(role?: string, roles?: string[]): string[] {
+  return [...new Set(roles ?? (role ? [role] : []))];
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Validate an optional start/expiry pair
+ * @returns Error message, or null if the schedule is valid
+ */
+function validateSchedule(
+  scheduledFor: Date | null,
+  expiresAt: Date | null
+): string | null {
+  if (scheduledFor && isNaN(scheduledFor.getTime())) {
+    return 'scheduledFor must be a valid date';
+  }
+  if (expiresAt && isNaN(expiresAt.getTime())) {
+    return 'expiresAt must be a valid date';
+  }
+  if (expiresAt && expiresAt <= (scheduledFor ?? new Date())) {
+    return 'expiresAt must be after the start time';
+  }
+  return null;
+}
+
+/**
+ * Check the companies chosen per email
+ * Emails must be in the request; companies may be given by ID or name
+ * @returns Company IDs keyed by lower-cased email, or an error message
+ */
+async function validateCompanies(
+  accountId: string,
+  emails: string[],
+  companies: Record<string, string> = {}
+): Promise<{ companies: Record<string, string>; error: string | null }> {
+  const resolved: Record<string, string> = {};
+
+  for (const [email, idOrName] of Object.entries(companies)) {
+    const key = email.trim().toLowerCase();
+    if (!emails.includes(key)) {
+      return { companies: resolved, error: `Company chosen for ${email}, which is not in userEmails` };
+    }
+    if (!idOrName) {
+      continue;
+    }
+
+    const company = await companyDirectoryService.find(accountId, idOrName);
+    if (!company) {
+      return { companies: resolved, error: `Unknown company "${idOrName}"` };
+    }
+    resolved[key] = company.id;
+  }
+
+  return { companies: resolved, error: null };
+}
+
+/**
+ * Combine selected projects with the projects of selected groups
+ * Groups are expanded now, so dynamic groups use the latest synced details
+ * @returns Project IDs without duplicates, the expanded groups, or an error message
+ */
+async function resolveProjectTargets(
+  accountId: string,
+  projectIds: string[] = [],
+  projectGroupIds: string[] = []
+): Promise<{ projectIds: string[]; groups: ExpandedProjectGroup[]; error: string | null }> {
+  const { groups, missing } = await projectGroupService.expand(accountId, projectGroupIds);
+  if (missing.length > 0) {
+    return { projectIds: [], groups, error: `Unknown project group ${missing.join(', ')}` };
+  }
+
+  return {
+    projectIds: [...new Set([...projectIds, ...groups.flatMap((g) => g.projectIds)])],
+    groups,
+    error: null,
+  };
+}
+
+/**
+ * Check a clone request's source, targets and the targets' companies
+ * @returns Lower-cased emails and company IDs, or an error message
+ */
+async function validateCloneRequest({
+  accountId,
+  sourceEmail,
+  targetEmails,
+  companies,
+}: CloneAccessRequest): Promise<{
+  sourceEmail: string;
+  targetEmails: string[];
+  companies: Record<string, string>;
+  error: string | null;
+  invalidEmails?: string[];
+}> {
+  const invalidRequest = (error: string, invalidEmails?: string[]) => ({
+    sourceEmail: '',
+    targetEmails: [],
+    companies: {},
+    error,
+    invalidEmails,
+  });
+
+  if (!accountId) {
+    return invalidRequest('Account ID is required');
+  }
+  if (!sourceEmail) {
+    return invalidRequest('Source email is required');
+  }
+  if (!targetEmails || targetEmails.length === 0) {
+    return invalidRequest('No target emails provided');
+  }
+
+  const { valid, invalid } = validateEmails([sourceEmail, ...targetEmails]);
+  if (invalid.length > 0) {
+    return invalidRequest('Invalid email addresses', invalid);
+  }
+
+  const [source, ...targets] = valid;
+  if (targets.includes(source)) {
+    return invalidRequest('The source cannot also be a target');
+  }
+
+  const chosenCompanies = await validateCompanies(accountId, targets, companies);
+  return {
+    sourceEmail: source,
+    targetEmails: [...new Set(targets)],
+    companies: chosenCompanies.companies,
+    error: chosenCompanies.error,
+  };
+}
+
+/**
+ * Check a member copy request's target projects and filter
+ * @returns Target project IDs without duplicates and the filter, or an error message
+ */
+function validateMemberCopyRequest(
+  sourceProjectId: string,
+  { accountId, targetProjectIds, filter = {} }: MemberCopyRequest
+): { targetProjectIds: string[]; filter: MemberCopyFilter; error: string | null } {
+  const invalidRequest = (error: string) => ({ targetProjectIds: [], filter, error });
+
+  if (!accountId) {
+    return invalidRequest('Account ID is required');
+  }
+  if (!targetProjectIds || targetProjectIds.length === 0) {
+    return invalidRequest('No target projects selected');
+  }
+  if (targetProjectIds.includes(sourceProjectId)) {
+    return invalidRequest('The source project cannot also be a target');
+  }
+  if (
+    (filter.roleIds && !Array.isArray(filter.roleIds)) ||
+    (filter.companyIds && !Array.isArray(filter.companyIds))
+  ) {
+    return invalidRequest('filter.roleIds and filter.companyIds must be lists');
+  }
+
+  return { targetProjectIds: [...new Set(targetProjectIds)], filter, error: null };
+}
+
+/**
+ * Look up project names, from the cache when the project list has been loaded
+ */
+async function toProjectRefs(
+  accessToken: string,
+  accountId: string,
+  projectIds: string[]
+): Promise<{ id: string; name: string }[]> {
+  const projectNames = await membershipCacheService.getProjectNames(projectIds);
+  const refs: { id: string; name: string }[] = [];
+  for (const id of projectIds) {
+    refs.push({
+      id,
+      name:
+        projectNames.get(id) ??
+        (await apsProjectsService.getProject(accessToken, accountId, id)).name,
+    });
+  }
+  return refs;
+}
+
+// Error for a request that ends up with no projects
+function noProjectsError(projectGroupIds?: string[]): string {
+  return projectGroupIds?.length
+    ? 'The selected project groups have no projects'
+    : 'No projects selected';
+}
+
+// Progress counts of a job_executions row
+function toProgress(execution: any): {
+  total: number;
+  completed: number;
+  success: number;
+  failed: number;
+  percentage: number;
+} {
+  return {
+    total: execution.total_projects,
+    completed: execution.completed_count,
+    success: execution.success_count,
+    failed: execution.failed_count,
+    percentage:
+      execution.total_projects > 0
+        ? Math.round((execution.completed_count / execution.total_projects) * 100)
+        : 0,
+  };
+}
+
+/**
+ * Count an execution's results per status and per error code
+ * Statuses without results count as 0
+ */
+async function readResultCounts(
+  executionId: string,
+  db: any
+): Promise<{
+  resultCounts: Record<ResultStatus, number>;
+  errorCodes: Array<{ code: string; count: number }>;
+}> {
+  const countsRow = await db.query(
+    `SELECT status, COUNT(*)::int AS count
+     FROM job_results
+     WHERE execution_id = $1
+     GROUP BY status`,
+    [executionId]
+  );
+
+  const errorCodesRow = await db.query(
+    `SELECT error_code, COUNT(*)::int AS count
+     FROM job_results
+     WHERE execution_id = $1 AND error_code IS NOT NULL
+     GROUP BY error_code
+     ORDER BY count DESC, error_code`,
+    [executionId]
+  );
+
+  const resultCounts = Object.fromEntries(
+    RESULT_STATUSES.map((status) => [status, 0])
+  ) as Record<ResultStatus, number>;
+  countsRow.rows.forEach((r: any) => {
+    resultCounts[r.status as ResultStatus] = r.count;
+  });
+
+  return {
+    resultCounts,
+    errorCodes: errorCodesRow.rows.map((r: any) => ({ code: r.error_code, count: r.count })),
+  };
+}
+
+/**
+ * Estimate seconds left from the average duration of finished results
+ * Tasks run a batch at a time, so a batch takes about one average duration
+ */
+async function estimateRemaining(execution: any, db: any): Promise<number | null> {
+  const durationRow = await db.query(
+    `SELECT AVG(duration_ms)::float AS avg_duration_ms
+     FROM job_results
+     WHERE execution_id = $1 AND duration_ms IS NOT NULL`,
+    [execution.id]
+  );
+
+  return estimateTimeRemaining(
+    durationRow.rows[0].avg_duration_ms,
+    execution.completed_count,
+    execution.total_projects,
+    config.queue.batchSize
+  );
+}
+
+// Status response entry for a job_results row
+async function toStatusResult(accountId: string | null, r: any): Promise<any> {
+  return {
+    id: r.id,
+    projectId: r.project_id,
+    projectName: r.project_name,
+    userEmail: r.user_email,
+    status: r.status,
+    previousRoles: await resolveRoles(accountId, r.previous_roles, r.project_id),
+    resultingRoles: await resolveRoles(accountId, r.resulting_roles, r.project_id),
+    previousAccessLevel: r.previous_access_level,
+    accessLevel: r.access_level,
+    products: r.products,
+    actionTaken: r.action_taken,
+    errorMessage: r.error_message,
+    completedAt: r.completed_at,
+  };
+}
+
+/**
+ * Build the status response for a job_executions row
+ * Results are only counted here; GET /api/bulk/:executionId/results pages through them
+ * Served by the status endpoint and as the first status stream event
+ */
+async function buildStatus(execution: any, db: any): Promise<any> {
+  // Retries started from this execution
+  const retriesRow = await db.query(
+    `SELECT id, status, success_count, failed_count, created_at
+     FROM job_executions
+     WHERE parent_execution_id = $1 AND user_id = $2
+     ORDER BY created_at`,
+    [execution.id, execution.user_id]
+  );
+
+  return {
+    id: execution.id,
+    jobType: execution.job_type,
+    assignedRoles: await resolveRoles(
+      execution.account_id,
+      execution.assigned_roles
+    ),
+    roleMode: execution.role_mode,
+    accessLevel: execution.access_level,
+    inviteToAccount: execution.invite_to_account,
+    projectGroups: execution.project_groups,
+    status: execution.status,
+    cancelRequested: !!execution.cancel_requested_at,
+    parentExecutionId: execution.parent_execution_id,
+    retryCount: execution.retry_count,
+    scheduledFor: execution.scheduled_for,
+    expiresAt: execution.expires_at,
+    expiryExecutionId: execution.expiry_execution_id,
+    sourceEmail: execution.source_email,
+    removeSource: execution.remove_source,
+    handoverExecutionId: execution.handover_execution_id,
+    sourceProjectId: execution.source_project_id,
+    memberFilter: execution.member_filter,
+    manifestId: execution.manifest_id,
+    manifestVersion: execution.manifest_version,
+    reviewCampaignId: execution.review_campaign_id,
+    retries: retriesRow.rows.map((r: any) => ({
+      id: r.id,
+      status: r.status,
+      successCount: r.success_count,
+      failedCount: r.failed_count,
+      createdAt: r.created_at,
+    })),
+    progress: toProgress(execution),
+    ...(await readResultCounts(execution.id, db)),
+    startedAt: execution.started_at,
+    completedAt: execution.completed_at,
+    estimatedTimeRemaining:
+      execution.status === 'processing' ? await estimateRemaining(execution, db) : null,
+  };
+}
+
 /**
  * Bulk Operations Controller
- * Handles bulk user assignment operations
+ * Handles bulk user assignment and removal operations
  */
 export class BulkOperationsController {
   /**
@@ -22,7 +447,18 @@ export class BulkOperationsController {
    */
   async preview(req: Request, res: Response): Promise<void> {
     try {
-      const { userEmails, projectIds, accountId }: PreviewRequest = req.body;
+      const {
+        userEmails,
+        projectGroupIds,
+        accountId,
+        role,
+        roles,
+        roleMode = 'replace',
+        accessLevel = 'user',
+        products,
+        companies,
+        allowDefaultCompany = false,
+      }: PreviewRequest = req.body;
       const userId = req.session.userId!;
       const db = getDb();
 
@@ -32,6 +468,25 @@ export class BulkOperationsController {
         return;
       }
 
+      if (!ACCESS_LEVELS.includes(accessLevel)) {
+        res.status(400).json({ error: `Invalid access level "${accessLevel}"` });
+        return;
+      }
+
+      if (!ROLE_MODES.includes(roleMode)) {
+        res.status(400).json({ error: `Invalid role mode "${roleMode}"` });
+        return;
+      }
+
+      const invalidProducts = products ? validateProducts(products) : [];
+      if (invalidProducts.length > 0) {
+        res.status(400).json({
+          error: 'Invalid product access',
+          invalidProducts,
+        });
+        return;
+      }
+
       // Validate emails
       const { valid, invalid } = validateEmails(userEmails);
 
@@ -43,6 +498,23 @@ export class BulkOperationsController {
         return;
       }
 
+      const chosenCompanies = await validateCompanies(accountId, valid, companies);
+      if (chosenCompanies.error) {
+        res.status(400).json({ error: chosenCompanies.error });
+        return;
+      }
+
+      const targets = await resolveProjectTargets(
+        accountId,
+        req.body.projectIds,
+        projectGroupIds
+      );
+      if (targets.error) {
+        res.status(400).json({ error: targets.error });
+        return;
+      }
+      const { projectIds } = targets;
+
       // Get user's access token
       const userRow = await db.query(
         'SELECT access_token_encrypted FROM users WHERE id = $1',
@@ -56,19 +528,34 @@ export class BulkOperationsController {
 
       const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
 
+      // Product access every user will end up with
+      const desiredProducts = resolveProductAccess(accessLevel, products);
+      const roleIds = requestedRoles(role, roles);
+      // Removing roles never adds members or changes product access
+      const rolesOnly = roleMode === 'remove';
+
+      // Company each new member would join
+      const resolvedCompanies = rolesOnly
+        ? new Map()
+        : await companyDirectoryService.resolve(accountId, valid, {
+            companies: chosenCompanies.companies,
+            allowDefaultCompany,
+          });
+
       // Check access for each user in each project
       const previewResults: PreviewResult[] = [];
 
+      const projectNames = await membershipCacheService.getProjectNames(projectIds);
+
       for (const projectId of projectIds) {
-        // Get project details
-        const project = await apsProjectsService.getProject(
-          accessToken,
-          accountId,
-          projectId
-        );
+        // Get project name, from the cache when the project list has been loaded
+        const projectName =
+          projectNames.get(projectId) ??
+          (await apsProjectsService.getProject(accessToken, accountId, projectId))
+            .name;
 
         // Get current users in project
-        const projectUsers = await apsProjectsService.getProjectUsers(
+        const projectUsers = await membershipCacheService.getProjectMembers(
           accessToken,
           accountId,
           projectId
@@ -79,16 +566,49 @@ export class BulkOperationsController {
             (u) => u.email.toLowerCase() === email.toLowerCase()
           );
 
+          const currentRoles = existingUser?.roleIds ?? [];
+          // Without requested roles, only the access level is previewed
+          const resultingRoles =
+            roleIds.length > 0
+              ? applyRoleMode(currentRoles, roleIds, roleMode)
+              : currentRoles;
+          const keepProducts = rolesOnly && !!existingUser;
+
+          // Existing members are only updated if their roles or product access differ
+          const needsUpdate =
+            !!existingUser &&
+            (!sameRoles(currentRoles, resultingRoles) ||
+              (!rolesOnly &&
+                !hasProductAccess(existingUser.products, desiredProducts)));
+
           previewResults.push({
             userEmail: email,
             projectId,
-            projectName: project.name,
+            projectName,
             currentAccess: {
               hasAccess: !!existingUser,
-              currentRole: existingUser?.roleIds[0],
+              roles: await roleDirectoryService.resolve(
+                accountId,
+                currentRoles,
+                projectId
+              ),
+              accessLevel: existingUser
+                ? getAccessLevel(existingUser.products)
+                : undefined,
+              products: existingUser?.products,
             },
-            willBeAdded: !existingUser,
-            willBeUpdated: !!existingUser,
+            resultingRoles: await roleDirectoryService.resolve(
+              accountId,
+              resultingRoles,
+              projectId
+            ),
+            accessLevel: keepProducts
+              ? getAccessLevel(existingUser.products)
+              : accessLevel,
+            products: keepProducts ? existingUser.products : desiredProducts,
+            company: resolvedCompanies.get(email) ?? null,
+            willBeAdded: !existingUser && !rolesOnly,
+            willBeUpdated: needsUpdate,
           });
         }
       }
@@ -108,10 +628,18 @@ export class BulkOperationsController {
 
       res.json({
         preview: previewResults,
+        projectGroups: targets.groups,
         summary: {
           totalOperations: previewResults.length,
           newUsers: previewResults.filter((r) => r.willBeAdded).length,
           updates: previewResults.filter((r) => r.willBeUpdated).length,
+          unchanged: previewResults.filter(
+            (r) => !r.willBeAdded && !r.willBeUpdated
+          ).length,
+          // New members BIM 360 projects will reject for lack of a company
+          withoutCompany: previewResults.filter(
+            (r) => r.willBeAdded && !r.company
+          ).length,
         },
       });
     } catch (error) {
@@ -126,10 +654,24 @@ export class BulkOperationsController {
    */
   async assign(req: Request, res: Response): Promise<void> {
     try {
-      const { userEmails, projectIds, role, accountId }: BulkUserAssignmentRequest =
-        req.body;
+      const {
+        userEmails,
+        projectGroupIds,
+        role,
+        roles,
+        roleMode = 'replace',
+        accountId,
+        accessLevel = 'user',
+        products,
+        inviteToAccount = false,
+        invitations = [],
+        companies,
+        allowDefaultCompany = false,
+      }: BulkUserAssignmentRequest = req.body;
       const userId = req.session.userId!;
       const db = getDb();
+      const scheduledFor = toDate(req.body.scheduledFor);
+      const expiresAt = toDate(req.body.expiresAt);
 
       // Validate inputs
       if (!accountId) {
@@ -142,16 +684,59 @@ export class BulkOperationsController {
         return;
       }
 
-      if (!projectIds || projectIds.length === 0) {
-        res.status(400).json({ error: 'No projects selected' });
+      const targets = await resolveProjectTargets(
+        accountId,
+        req.body.projectIds,
+        projectGroupIds
+      );
+      if (targets.error) {
+        res.status(400).json({ error: targets.error });
+        return;
+      }
+      const { projectIds } = targets;
+
+      if (projectIds.length === 0) {
+        res.status(400).json({ error: noProjectsError(projectGroupIds) });
         return;
       }
 
-      if (!role) {
+      const roleIds = requestedRoles(role, roles);
+      if (roleIds.length === 0) {
         res.status(400).json({ error: 'No role specified' });
         return;
       }
 
+      if (!ROLE_MODES.includes(roleMode)) {
+        res.status(400).json({ error: `Invalid role mode "${roleMode}"` });
+        return;
+      }
+
+      // Expiry removes the members a job added; removing roles adds nobody
+      if (roleMode === 'remove' && expiresAt) {
+        res.status(400).json({ error: 'expiresAt cannot be used when removing roles' });
+        return;
+      }
+
+      if (!ACCESS_LEVELS.includes(accessLevel)) {
+        res.status(400).json({ error: `Invalid access level "${accessLevel}"` });
+        return;
+      }
+
+      const invalidProducts = products ? validateProducts(products) : [];
+      if (invalidProducts.length > 0) {
+        res.status(400).json({
+          error: 'Invalid product access',
+          invalidProducts,
+        });
+        return;
+      }
+
+      const scheduleError = validateSchedule(scheduledFor, expiresAt);
+      if (scheduleError) {
+        res.status(400).json({ error: scheduleError });
+        return;
+      }
+
       // Validate emails
       const { valid, invalid } = validateEmails(userEmails);
 
@@ -163,6 +748,25 @@ export class BulkOperationsController {
         return;
       }
 
+      // Invitation details are matched to userEmails case-insensitively
+      const strayInvitations = invitations
+        .map((i) => i.email)
+        .filter((email) => !valid.includes((email || '').trim().toLowerCase()));
+      if (strayInvitations.length > 0) {
+        res.status(400).json({
+          error: 'Invitations must be for emails in userEmails',
+          invalidEmails: strayInvitations,
+        });
+        return;
+      }
+
+      const chosenCompanies = await validateCompanies(accountId, valid, companies);
+      if (chosenCompanies.error) {
+        res.status(400).json({ error: chosenCompanies.error });
+        return;
+      }
+      const hasChosenCompanies = Object.keys(chosenCompanies.companies).length > 0;
+
       // Get user's access token
       const userRow = await db.query(
         'SELECT access_token_encrypted FROM users WHERE id = $1',
@@ -183,22 +787,54 @@ export class BulkOperationsController {
       await db.query(
         `INSERT INTO job_executions
          (id, user_id, job_type, status, target_user_emails,
-          target_project_ids, assigned_role, total_projects)
-         VALUES ($1, $2, 'bulk_user_assignment', 'pending', $3, $4, $5, $6)`,
-        [executionId, userId, valid, projectIds, role, totalProjects]
+          target_project_ids, assigned_role, assigned_roles, role_mode,
+          total_projects, access_level, products, account_id, scheduled_for,
+          expires_at, invite_to_account, invitations, companies,
+          allow_default_company, project_groups)
+         VALUES ($1, $2, 'bulk_user_assignment', 'pending', $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
+        [
+          executionId,
+          userId,
+          valid,
+          projectIds,
+          roleIds[0],
+          roleIds,
+          roleMode,
+          totalProjects,
+          accessLevel,
+          products ? JSON.stringify(products) : null,
+          accountId,
+          scheduledFor,
+          expiresAt,
+          inviteToAccount,
+          invitations.length > 0 ? JSON.stringify(invitations) : null,
+          hasChosenCompanies ? JSON.stringify(chosenCompanies.companies) : null,
+          allowDefaultCompany,
+          targets.groups.length > 0 ? JSON.stringify(targets.groups) : null,
+        ]
       );
 
-      // Add job to queue
-      await queueService.addBulkAssignmentJob({
-        executionId,
-        userId,
-        accountId,
-        userEmails: valid,
-        projectIds,
-        role,
-        accessToken,
-        adminUserId: req.session.apsUserId,
-      });
+      // Add job to queue; scheduled jobs wait as delayed until they are due
+      await queueService.addBulkAssignmentJob(
+        {
+          executionId,
+          userId,
+          accountId,
+          userEmails: valid,
+          projectIds,
+          roles: roleIds,
+          roleMode,
+          accessToken,
+          adminUserId: req.session.apsUserId,
+          accessLevel,
+          products,
+          inviteToAccount,
+          invitations,
+          companies: chosenCompanies.companies,
+          allowDefaultCompany,
+        },
+        scheduledFor ?? undefined
+      );
 
       // Audit log
       await db.query(
@@ -212,6 +848,13 @@ export class BulkOperationsController {
             userCount: valid.length,
             projectCount: projectIds.length,
             totalOperations: totalProjects,
+            roleMode,
+            accessLevel,
+            scheduledFor,
+            expiresAt,
+            inviteToAccount,
+            allowDefaultCompany,
+            projectGroups: targets.groups.map((g) => g.name),
           }),
         ]
       );
@@ -221,13 +864,18 @@ export class BulkOperationsController {
         userId,
         userCount: valid.length,
         projectCount: projectIds.length,
+        scheduledFor,
       });
 
       res.json({
         executionId,
         status: 'pending',
         totalProjects,
-        message: 'Job queued successfully',
+        scheduledFor,
+        expiresAt,
+        message: scheduledFor
+          ? `Job scheduled for ${scheduledFor.toISOString()}`
+          : 'Job queued successfully',
       });
     } catch (error) {
       logger.error('Failed to create bulk assignment job', { error });
@@ -236,100 +884,1744 @@ export class BulkOperationsController {
   }
 
   /**
-   * Get job execution status
-   * GET /api/bulk/status/:executionId
+   * Preview bulk user removal
+   * POST /api/bulk/remove/preview
    */
-  async getStatus(req: Request, res: Response): Promise<void> {
+  async previewRemoval(req: Request, res: Response): Promise<void> {
     try {
-      const { executionId } = req.params;
+      const { userEmails, projectGroupIds, accountId }: BulkUserRemovalRequest =
+        req.body;
       const userId = req.session.userId!;
       const db = getDb();
 
-      // Get job execution
-      const executionRow = await db.query(
-        `SELECT * FROM job_executions WHERE id = $1 AND user_id = $2`,
-        [executionId, userId]
-      );
-
-      if (executionRow.rows.length === 0) {
-        res.status(404).json({ error: 'Job execution not found' });
+      // Validate accountId
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
         return;
       }
 
-      const execution = executionRow.rows[0];
+      // Validate emails
+      const { valid, invalid } = validateEmails(userEmails);
 
-      // Get job results
-      const resultsRow = await db.query(
-        `SELECT * FROM job_results WHERE execution_id = $1 ORDER BY created_at`,
-        [executionId]
+      if (invalid.length > 0) {
+        res.status(400).json({
+          error: 'Invalid email addresses',
+          invalidEmails: invalid,
+        });
+        return;
+      }
+
+      const targets = await resolveProjectTargets(
+        accountId,
+        req.body.projectIds,
+        projectGroupIds
       );
+      if (targets.error) {
+        res.status(400).json({ error: targets.error });
+        return;
+      }
+      const { projectIds } = targets;
 
-      const results = resultsRow.rows;
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
 
-      // Calculate progress
-      const percentage =
-        execution.total_projects > 0
-          ? Math.round(
-              (execution.completed_count / execution.total_projects) * 100
-            )
-          : 0;
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
 
-      res.json({
-        id: executionId,
-        status: execution.status,
-        progress: {
-          total: execution.total_projects,
-          completed: execution.completed_count,
-          success: execution.success_count,
-          failed: execution.failed_count,
-          percentage,
-        },
-        results: results.map((r: any) => ({
-          id: r.id,
-          projectId: r.project_id,
-          projectName: r.project_name,
-          userEmail: r.user_email,
-          status: r.status,
-          previousRole: r.previous_role,
-          assignedRole: r.assigned_role,
-          actionTaken: r.action_taken,
-          errorMessage: r.error_message,
-          completedAt: r.completed_at,
-        })),
-        startedAt: execution.started_at,
-        completedAt: execution.completed_at,
-        estimatedTimeRemaining: null, // TODO: Calculate based on progress
-      });
-    } catch (error) {
-      logger.error('Failed to get job status', { error });
-      res.status(500).json({ error: 'Failed to retrieve job status' });
-    }
-  }
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
 
-  /**
-   * Get user's job history
-   * GET /api/bulk/history
-   */
-  async getHistory(req: Request, res: Response): Promise<void> {
-    try {
-      const userId = req.session.userId!;
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
+      // Check membership for each user in each project
+      const previewResults: RemovalPreviewResult[] = [];
 
-      const db = getDb();
+      const projectNames = await membershipCacheService.getProjectNames(projectIds);
 
-      const historyRow = await db.query(
-        `SELECT id, status, total_projects, success_count, failed_count,
-                started_at, completed_at, created_at
-         FROM job_executions
-         WHERE user_id = $1
-         ORDER BY created_at DESC
-         LIMIT $2 OFFSET $3`,
-        [userId, limit, offset]
-      );
+      for (const projectId of projectIds) {
+        // Get project name, from the cache when the project list has been loaded
+        const projectName =
+          projectNames.get(projectId) ??
+          (await apsProjectsService.getProject(accessToken, accountId, projectId))
+            .name;
 
-      res.json({
-        executions: historyRow.rows,
+        // Get current users in project
+        const projectUsers = await membershipCacheService.getProjectMembers(
+          accessToken,
+          accountId,
+          projectId
+        );
+
+        for (const email of valid) {
+          const existingUser = projectUsers.find(
+            (u) => u.email.toLowerCase() === email.toLowerCase()
+          );
+
+          previewResults.push({
+            userEmail: email,
+            projectId,
+            projectName,
+            currentAccess: {
+              hasAccess: !!existingUser,
+              roles: await roleDirectoryService.resolve(
+                accountId,
+                existingUser?.roleIds ?? [],
+                projectId
+              ),
+            },
+            willBeRemoved: !!existingUser,
+          });
+        }
+      }
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs (user_id, action, resource_type, success, details)
+         VALUES ($1, 'user_preview', 'project', true, $2)`,
+        [
+          userId,
+          JSON.stringify({
+            jobType: 'bulk_user_removal',
+            userCount: valid.length,
+            projectCount: projectIds.length,
+          }),
+        ]
+      );
+
+      res.json({
+        preview: previewResults,
+        projectGroups: targets.groups,
+        summary: {
+          totalOperations: previewResults.length,
+          removals: previewResults.filter((r) => r.willBeRemoved).length,
+          notMembers: previewResults.filter((r) => !r.willBeRemoved).length,
+        },
+      });
+    } catch (error) {
+      logger.error('Removal preview failed', { error });
+      res.status(500).json({ error: 'Failed to generate removal preview' });
+    }
+  }
+
+  /**
+   * Execute bulk user removal
+   * POST /api/bulk/remove
+   */
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const { userEmails, projectGroupIds, accountId }: BulkUserRemovalRequest =
+        req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      // Validate inputs
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      if (!userEmails || userEmails.length === 0) {
+        res.status(400).json({ error: 'No user emails provided' });
+        return;
+      }
+
+      const targets = await resolveProjectTargets(
+        accountId,
+        req.body.projectIds,
+        projectGroupIds
+      );
+      if (targets.error) {
+        res.status(400).json({ error: targets.error });
+        return;
+      }
+      const { projectIds } = targets;
+
+      if (projectIds.length === 0) {
+        res.status(400).json({ error: noProjectsError(projectGroupIds) });
+        return;
+      }
+
+      // Validate emails
+      const { valid, invalid } = validateEmails(userEmails);
+
+      if (invalid.length > 0) {
+        res.status(400).json({
+          error: 'Invalid email addresses',
+          invalidEmails: invalid,
+        });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      // Create job execution record
+      const executionId = uuidv4();
+      const totalProjects = projectIds.length * valid.length;
+
+      await db.query(
+        `INSERT INTO job_executions
+         (id, user_id, job_type, status, target_user_emails,
+          target_project_ids, total_projects, account_id, project_groups)
+         VALUES ($1, $2, 'bulk_user_removal', 'pending', $3, $4, $5, $6, $7)`,
+        [
+          executionId,
+          userId,
+          valid,
+          projectIds,
+          totalProjects,
+          accountId,
+          targets.groups.length > 0 ? JSON.stringify(targets.groups) : null,
+        ]
+      );
+
+      // Add job to queue
+      await queueService.addBulkRemovalJob({
+        executionId,
+        userId,
+        accountId,
+        userEmails: valid,
+        projectIds,
+        accessToken,
+      });
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, success, details)
+         VALUES ($1, $2, 'job_created', 'job', true, $3)`,
+        [
+          userId,
+          executionId,
+          JSON.stringify({
+            jobType: 'bulk_user_removal',
+            userCount: valid.length,
+            projectCount: projectIds.length,
+            totalOperations: totalProjects,
+            projectGroups: targets.groups.map((g) => g.name),
+          }),
+        ]
+      );
+
+      logger.info('Bulk removal job created', {
+        executionId,
+        userId,
+        userCount: valid.length,
+        projectCount: projectIds.length,
+      });
+
+      res.json({
+        executionId,
+        status: 'pending',
+        totalProjects,
+        message: 'Job queued successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to create bulk removal job', { error });
+      res.status(500).json({ error: 'Failed to create removal job' });
+    }
+  }
+
+  /**
+   * Validate spreadsheet rows for bulk assignment
+   * POST /api/bulk/import/validate
+   */
+  async validateImport(req: Request, res: Response): Promise<void> {
+    try {
+      const { rows, accountId }: BulkImportRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      // Validate inputs
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      if (!rows || rows.length === 0) {
+        res.status(400).json({ error: 'No rows provided' });
+        return;
+      }
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({
+          error: `Cannot import more than ${MAX_IMPORT_ROWS} rows at once`,
+        });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      const report = await importValidationService.validateRows(
+        accessToken,
+        accountId,
+        rows
+      );
+
+      res.json(report);
+    } catch (error) {
+      logger.error('Import validation failed', { error });
+      res.status(500).json({ error: 'Failed to validate import' });
+    }
+  }
+
+  /**
+   * Execute bulk assignment from validated spreadsheet rows
+   * POST /api/bulk/import
+   */
+  async importAssignments(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        rows,
+        accountId,
+        inviteToAccount = false,
+        allowDefaultCompany = false,
+      }: BulkImportRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      // Validate inputs
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      if (!rows || rows.length === 0) {
+        res.status(400).json({ error: 'No rows provided' });
+        return;
+      }
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({
+          error: `Cannot import more than ${MAX_IMPORT_ROWS} rows at once`,
+        });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      // Re-validate server side; nothing is queued unless every row resolves
+      const report = await importValidationService.validateRows(
+        accessToken,
+        accountId,
+        rows
+      );
+
+      if (report.summary.invalid > 0) {
+        res.status(400).json({
+          error: 'Import contains invalid rows',
+          report,
+        });
+        return;
+      }
+
+      const assignments = importValidationService.toAssignments(report.rows);
+      const invitations = inviteToAccount
+        ? importValidationService.toInvitations(report.rows)
+        : [];
+      const userEmails = [...new Set(assignments.map((a) => a.email))];
+      const projectIds = [...new Set(assignments.map((a) => a.projectId))];
+
+      // Create job execution record
+      const executionId = uuidv4();
+      const totalProjects = assignments.length;
+
+      await db.query(
+        `INSERT INTO job_executions
+         (id, user_id, job_type, status, target_user_emails,
+          target_project_ids, total_projects, account_id, invite_to_account,
+          invitations, allow_default_company)
+         VALUES ($1, $2, 'bulk_user_import', 'pending', $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          executionId,
+          userId,
+          userEmails,
+          projectIds,
+          totalProjects,
+          accountId,
+          inviteToAccount,
+          invitations.length > 0 ? JSON.stringify(invitations) : null,
+          allowDefaultCompany,
+        ]
+      );
+
+      // Add job to queue
+      await queueService.addBulkImportJob({
+        executionId,
+        userId,
+        accountId,
+        assignments,
+        accessToken,
+        adminUserId: req.session.apsUserId,
+        inviteToAccount,
+        invitations,
+        allowDefaultCompany,
+      });
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, success, details)
+         VALUES ($1, $2, 'job_created', 'job', true, $3)`,
+        [
+          userId,
+          executionId,
+          JSON.stringify({
+            jobType: 'bulk_user_import',
+            userCount: userEmails.length,
+            projectCount: projectIds.length,
+            totalOperations: totalProjects,
+            inviteToAccount,
+            allowDefaultCompany,
+          }),
+        ]
+      );
+
+      logger.info('Bulk import job created', {
+        executionId,
+        userId,
+        rowCount: assignments.length,
+      });
+
+      res.json({
+        executionId,
+        status: 'pending',
+        totalProjects,
+        message: 'Job queued successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to create bulk import job', { error });
+      res.status(500).json({ error: 'Failed to create import job' });
+    }
+  }
+
+  /**
+   * Preview copying a member's project access to other emails
+   * POST /api/bulk/clone-access/preview
+   */
+  async previewClone(req: Request, res: Response): Promise<void> {
+    try {
+      const body: CloneAccessRequest = req.body;
+      const { accountId, allowDefaultCompany = false } = body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const request = await validateCloneRequest(body);
+      if (request.error) {
+        res.status(400).json({
+          error: request.error,
+          invalidEmails: request.invalidEmails,
+        });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      const plan = await accessCloneService.plan(
+        accessToken,
+        accountId,
+        request.sourceEmail,
+        request.targetEmails,
+        request.companies
+      );
+      const previewResults = await accessCloneService.preview(
+        accessToken,
+        accountId,
+        plan.assignments,
+        { companies: request.companies, allowDefaultCompany }
+      );
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs (user_id, action, resource_type, success, details)
+         VALUES ($1, 'user_preview', 'project', true, $2)`,
+        [
+          userId,
+          JSON.stringify({
+            sourceEmail: request.sourceEmail,
+            userCount: request.targetEmails.length,
+            projectCount: plan.projects.length,
+          }),
+        ]
+      );
+
+      res.json({
+        sourceEmail: request.sourceEmail,
+        preview: previewResults,
+        // Projects whose members could not be read; the source may belong to them
+        failedProjects: plan.failedProjects,
+        summary: {
+          totalOperations: previewResults.length,
+          newUsers: previewResults.filter((r) => r.willBeAdded).length,
+          updates: previewResults.filter((r) => r.willBeUpdated).length,
+          unchanged: previewResults.filter(
+            (r) => !r.willBeAdded && !r.willBeUpdated
+          ).length,
+          withoutCompany: previewResults.filter(
+            (r) => r.willBeAdded && !r.company
+          ).length,
+        },
+      });
+    } catch (error) {
+      logger.error('Clone preview failed', { error });
+      res.status(500).json({ error: 'Failed to generate clone preview' });
+    }
+  }
+
+  /**
+   * Copy a member's project access to other emails
+   * Optionally removes the source afterwards, for handovers
+   * POST /api/bulk/clone-access
+   */
+  async cloneAccess(req: Request, res: Response): Promise<void> {
+    try {
+      const body: CloneAccessRequest = req.body;
+      const {
+        accountId,
+        removeSource = false,
+        inviteToAccount = false,
+        allowDefaultCompany = false,
+      } = body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const request = await validateCloneRequest(body);
+      if (request.error) {
+        res.status(400).json({
+          error: request.error,
+          invalidEmails: request.invalidEmails,
+        });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      // Re-read the source's access; it may have changed since the preview
+      const plan = await accessCloneService.plan(
+        accessToken,
+        accountId,
+        request.sourceEmail,
+        request.targetEmails,
+        request.companies
+      );
+
+      if (plan.assignments.length === 0) {
+        res.status(400).json({
+          error: `${request.sourceEmail} is not a member of any project`,
+          failedProjects: plan.failedProjects,
+        });
+        return;
+      }
+
+      if (plan.assignments.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({
+          error: `Cannot clone more than ${MAX_IMPORT_ROWS} assignments at once`,
+        });
+        return;
+      }
+
+      const { sourceEmail, targetEmails } = request;
+      const projectIds = plan.projects.map((p) => p.projectId);
+
+      // Create job execution record
+      const executionId = uuidv4();
+      const totalProjects = plan.assignments.length;
+
+      await db.query(
+        `INSERT INTO job_executions
+         (id, user_id, job_type, status, target_user_emails,
+          target_project_ids, total_projects, account_id, invite_to_account,
+          companies, allow_default_company, source_email, remove_source)
+         VALUES ($1, $2, 'bulk_user_clone', 'pending', $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          executionId,
+          userId,
+          targetEmails,
+          projectIds,
+          totalProjects,
+          accountId,
+          inviteToAccount,
+          Object.keys(request.companies).length > 0
+            ? JSON.stringify(request.companies)
+            : null,
+          allowDefaultCompany,
+          sourceEmail,
+          removeSource,
+        ]
+      );
+
+      // Add job to queue
+      await queueService.addBulkCloneJob({
+        executionId,
+        userId,
+        accountId,
+        sourceEmail,
+        assignments: plan.assignments,
+        accessToken,
+        adminUserId: req.session.apsUserId,
+        removeSource,
+        inviteToAccount,
+        allowDefaultCompany,
+      });
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, success, details)
+         VALUES ($1, $2, 'job_created', 'job', true, $3)`,
+        [
+          userId,
+          executionId,
+          JSON.stringify({
+            jobType: 'bulk_user_clone',
+            sourceEmail,
+            userCount: targetEmails.length,
+            projectCount: projectIds.length,
+            totalOperations: totalProjects,
+            removeSource,
+            inviteToAccount,
+            allowDefaultCompany,
+            failedProjectCount: plan.failedProjects.length,
+          }),
+        ]
+      );
+
+      logger.info('Clone access job created', {
+        executionId,
+        userId,
+        sourceEmail,
+        assignmentCount: totalProjects,
+      });
+
+      res.json({
+        executionId,
+        status: 'pending',
+        totalProjects,
+        failedProjects: plan.failedProjects,
+        message: 'Job queued successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to create clone access job', { error });
+      res.status(500).json({ error: 'Failed to create clone job' });
+    }
+  }
+
+  /**
+   * Preview copying a project's members to other projects
+   * Flags conflicts: targets that already have the user with other roles
+   * POST /api/projects/:projectId/copy-members/preview
+   */
+  async previewMemberCopy(req: Request, res: Response): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const body: MemberCopyRequest = req.body;
+      const { accountId, allowDefaultCompany = false } = body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const request = validateMemberCopyRequest(projectId, body);
+      if (request.error) {
+        res.status(400).json({ error: request.error });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      const plan = await accessCloneService.planMemberCopy(
+        accessToken,
+        accountId,
+        projectId,
+        await toProjectRefs(accessToken, accountId, request.targetProjectIds),
+        request.filter
+      );
+      const previewResults = await accessCloneService.preview(
+        accessToken,
+        accountId,
+        plan.assignments,
+        { allowDefaultCompany }
+      );
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs (user_id, action, resource_type, success, details)
+         VALUES ($1, 'user_preview', 'project', true, $2)`,
+        [
+          userId,
+          JSON.stringify({
+            sourceProjectId: projectId,
+            userCount: plan.members.length,
+            projectCount: request.targetProjectIds.length,
+          }),
+        ]
+      );
+
+      res.json({
+        sourceProjectId: projectId,
+        memberCount: plan.members.length,
+        preview: previewResults,
+        summary: {
+          totalOperations: previewResults.length,
+          newUsers: previewResults.filter((r) => r.willBeAdded).length,
+          updates: previewResults.filter((r) => r.willBeUpdated).length,
+          unchanged: previewResults.filter(
+            (r) => !r.willBeAdded && !r.willBeUpdated
+          ).length,
+          withoutCompany: previewResults.filter(
+            (r) => r.willBeAdded && !r.company
+          ).length,
+          conflicts: previewResults.filter((r) => r.conflict).length,
+        },
+      });
+    } catch (error) {
+      logger.error('Member copy preview failed', { error });
+      res.status(500).json({ error: 'Failed to generate member copy preview' });
+    }
+  }
+
+  /**
+   * Copy a project's members, with their roles, to other projects
+   * POST /api/projects/:projectId/copy-members
+   */
+  async copyMembers(req: Request, res: Response): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const body: MemberCopyRequest = req.body;
+      const { accountId, skipConflicts = false, allowDefaultCompany = false } = body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const request = validateMemberCopyRequest(projectId, body);
+      if (request.error) {
+        res.status(400).json({ error: request.error });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+      const { targetProjectIds, filter } = request;
+
+      const plan = await accessCloneService.planMemberCopy(
+        accessToken,
+        accountId,
+        projectId,
+        await toProjectRefs(accessToken, accountId, targetProjectIds),
+        filter
+      );
+
+      let assignments = plan.assignments;
+      if (skipConflicts) {
+        const previewResults = await accessCloneService.preview(
+          accessToken,
+          accountId,
+          assignments,
+          { allowDefaultCompany }
+        );
+        // Preview rows follow assignment order
+        assignments = assignments.filter((_, i) => !previewResults[i].conflict);
+      }
+
+      if (assignments.length === 0) {
+        res.status(400).json({
+          error: plan.members.length === 0
+            ? 'No members of the source project match the filter'
+            : 'Every copied member conflicts with an existing role',
+        });
+        return;
+      }
+
+      if (assignments.length > MAX_IMPORT_ROWS) {
+        res.status(400).json({
+          error: `Cannot copy more than ${MAX_IMPORT_ROWS} assignments at once`,
+        });
+        return;
+      }
+
+      const userEmails = [...new Set(assignments.map((a) => a.email))];
+
+      // Create job execution record
+      const executionId = uuidv4();
+      const totalProjects = assignments.length;
+
+      await db.query(
+        `INSERT INTO job_executions
+         (id, user_id, job_type, status, target_user_emails,
+          target_project_ids, total_projects, account_id,
+          allow_default_company, source_project_id, member_filter)
+         VALUES ($1, $2, 'bulk_member_copy', 'pending', $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          executionId,
+          userId,
+          userEmails,
+          targetProjectIds,
+          totalProjects,
+          accountId,
+          allowDefaultCompany,
+          projectId,
+          filter.roleIds?.length || filter.companyIds?.length
+            ? JSON.stringify(filter)
+            : null,
+        ]
+      );
+
+      // Add job to queue
+      await queueService.addBulkMemberCopyJob({
+        executionId,
+        userId,
+        accountId,
+        sourceProjectId: projectId,
+        assignments,
+        accessToken,
+        adminUserId: req.session.apsUserId,
+        allowDefaultCompany,
+      });
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, success, details)
+         VALUES ($1, $2, 'job_created', 'job', true, $3)`,
+        [
+          userId,
+          executionId,
+          JSON.stringify({
+            jobType: 'bulk_member_copy',
+            sourceProjectId: projectId,
+            userCount: userEmails.length,
+            projectCount: targetProjectIds.length,
+            totalOperations: totalProjects,
+            filter,
+            skipConflicts,
+            skippedConflicts: plan.assignments.length - assignments.length,
+            allowDefaultCompany,
+          }),
+        ]
+      );
+
+      logger.info('Member copy job created', {
+        executionId,
+        userId,
+        sourceProjectId: projectId,
+        assignmentCount: totalProjects,
+      });
+
+      res.json({
+        executionId,
+        status: 'pending',
+        totalProjects,
+        message: 'Job queued successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to create member copy job', { error });
+      res.status(500).json({ error: 'Failed to create member copy job' });
+    }
+  }
+
+  /**
+   * Get job execution status
+   * GET /api/bulk/status/:executionId
+   */
+  async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { executionId } = req.params;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      // Get job execution
+      const executionRow = await db.query(
+        `SELECT * FROM job_executions WHERE id = $1 AND user_id = $2`,
+        [executionId, userId]
+      );
+
+      if (executionRow.rows.length === 0) {
+        res.status(404).json({ error: 'Job execution not found' });
+        return;
+      }
+
+      res.json(await buildStatus(executionRow.rows[0], db));
+    } catch (error) {
+      logger.error('Failed to get job status', { error });
+      res.status(500).json({ error: 'Failed to retrieve job status' });
+    }
+  }
+
+  /**
+   * List a job execution's results a page at a time, oldest first
+   * Filters: status, email and project (case-insensitive partial matches; project
+   * also matches an exact project ID) and errorCode
+   * GET /api/bulk/:executionId/results?status=failed&limit=50&cursor=...
+   */
+  async getResults(req: Request, res: Response): Promise<void> {
+    try {
+      const { executionId } = req.params;
+      const userId = req.session.userId!;
+      const { status, email, project, errorCode, cursor } = req.query as Record<
+        string,
+        string | undefined
+      >;
+
+      if (status && !RESULT_STATUSES.includes(status as ResultStatus)) {
+        res.status(400).json({ error: `status must be one of: ${RESULT_STATUSES.join(', ')}` });
+        return;
+      }
+
+      const limit = parsePageLimit(req.query.limit, DEFAULT_RESULTS_PAGE, MAX_RESULTS_PAGE);
+      if (limit === null) {
+        res.status(400).json({ error: 'limit must be a positive integer' });
+        return;
+      }
+
+      const after = cursor ? decodeCursor(cursor) : null;
+      if (cursor && !after) {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+      }
+
+      const db = getDb();
+
+      const executionRow = await db.query(
+        `SELECT account_id FROM job_executions WHERE id = $1 AND user_id = $2`,
+        [executionId, userId]
+      );
+
+      if (executionRow.rows.length === 0) {
+        res.status(404).json({ error: 'Job execution not found' });
+        return;
+      }
+
+      // One extra row tells whether another page follows
+      const resultsRow = await db.query(
+        `SELECT *, created_at::text AS cursor_created_at
+         FROM job_results
+         WHERE execution_id = $1
+           AND ($2::text IS NULL OR status::text = $2)
+           AND ($3::text IS NULL OR user_email ILIKE '%' || $3 || '%')
+           AND ($4::text IS NULL OR project_id = $4 OR project_name ILIKE '%' || $4 || '%')
+           AND ($5::text IS NULL OR error_code = $5)
+           AND ($6::timestamp IS NULL OR (created_at, id) > ($6::timestamp, $7::uuid))
+         ORDER BY created_at, id
+         LIMIT $8`,
+        [
+          executionId,
+          status || null,
+          email?.trim() || null,
+          project?.trim() || null,
+          errorCode || null,
+          after?.[0] ?? null,
+          after?.[1] ?? null,
+          limit + 1,
+        ]
+      );
+
+      const rows = resultsRow.rows.slice(0, limit);
+      const last = rows[rows.length - 1];
+
+      res.json({
+        results: await Promise.all(
+          rows.map((r: any) => toStatusResult(executionRow.rows[0].account_id, r))
+        ),
+        nextCursor:
+          resultsRow.rows.length > limit
+            ? encodeCursor(last.cursor_created_at, last.id)
+            : null,
+      });
+    } catch (error) {
+      logger.error('Failed to list job results', { error });
+      res.status(500).json({ error: 'Failed to retrieve job results' });
+    }
+  }
+
+  /**
+   * Stream job execution status as Server-Sent Events
+   * Sends a snapshot, then only the results and counts that change, and
+   * ends with a done event once the execution finishes
+   * GET /api/bulk/status/:executionId/stream
+   */
+  async streamStatus(req: Request, res: Response): Promise<void> {
+    const { executionId } = req.params;
+    const userId = req.session.userId!;
+    const db = getDb();
+
+    let accountId: string | null;
+    try {
+      const executionRow = await db.query(
+        `SELECT account_id FROM job_executions WHERE id = $1 AND user_id = $2`,
+        [executionId, userId]
+      );
+
+      if (executionRow.rows.length === 0) {
+        res.status(404).json({ error: 'Job execution not found' });
+        return;
+      }
+      accountId = executionRow.rows[0].account_id;
+    } catch (error) {
+      logger.error('Failed to open job status stream', { error });
+      res.status(500).json({ error: 'Failed to retrieve job status' });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Results reported since the last flush, keyed by project and email
+    const pending = new Map<string, OperationPair>();
+    let progress: JobProgressData | null = null;
+    let checkFinished = false;
+    let closed = false;
+    let timer: NodeJS.Timeout | null = null;
+
+    // Reads the execution again; it may have finished since it was looked up
+    const readExecution = async () =>
+      (await db.query(`SELECT * FROM job_executions WHERE id = $1`, [executionId])).rows[0];
+
+    const finish = (execution: any) => {
+      send('done', {
+        status: execution.status,
+        progress: toProgress(execution),
+        completedAt: execution.completed_at,
+      });
+      close();
+    };
+
+    const flush = async () => {
+      if (closed) return;
+
+      const pairs = [...pending.values()];
+      pending.clear();
+      if (pairs.length > 0) {
+        const resultsRow = await db.query(
+          `SELECT r.* FROM job_results r
+           JOIN unnest($2::text[], $3::text[]) AS p(project_id, user_email)
+             ON r.project_id = p.project_id AND r.user_email = p.user_email
+           WHERE r.execution_id = $1
+           ORDER BY r.created_at`,
+          [executionId, pairs.map((p) => p.projectId), pairs.map((p) => p.email)]
+        );
+        send(
+          'results',
+          await Promise.all(resultsRow.rows.map((r: any) => toStatusResult(accountId, r)))
+        );
+        send('counts', await readResultCounts(executionId, db));
+      }
+
+      if (progress) {
+        send('progress', {
+          total: progress.total,
+          completed: progress.completed,
+          success: progress.success,
+          failed: progress.failed,
+          percentage: progress.percentage,
+        });
+        progress = null;
+      }
+
+      if (checkFinished) {
+        checkFinished = false;
+        const execution = await readExecution();
+        if (FINISHED_STATUSES.includes(execution.status)) {
+          finish(execution);
+        }
+      }
+    };
+
+    // Flushes run one at a time, after the snapshot has been sent
+    let flushes = (async () => {
+      const execution = await readExecution();
+      send('snapshot', await buildStatus(execution, db));
+      if (FINISHED_STATUSES.includes(execution.status)) {
+        finish(execution);
+      }
+    })().catch(fail);
+
+    function fail(error: unknown) {
+      logger.error('Failed to stream job status', { executionId, error });
+      close();
+    }
+
+    const scheduleFlush = () => {
+      if (timer || closed) return;
+      timer = setTimeout(() => {
+        timer = null;
+        flushes = flushes.then(flush).catch(fail);
+      }, STREAM_FLUSH_MS);
+    };
+
+    const unsubscribe = queueService.onJobEvents(executionId, (event) => {
+      if (event.type === 'progress') {
+        const { result } = event.progress;
+        progress = event.progress;
+        pending.set(`${result.projectId}:${result.email}`, result);
+      } else {
+        checkFinished = true;
+      }
+      scheduleFlush();
+    });
+
+    // Keeps proxies from dropping the idle connection, and catches an
+    // execution that finished without a queue event
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+      checkFinished = true;
+      scheduleFlush();
+    }, STREAM_HEARTBEAT_MS);
+
+    function close() {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+      if (timer) clearTimeout(timer);
+      res.end();
+    }
+
+    req.on('close', close);
+  }
+
+  /**
+   * Cancel a job execution
+   * Queued jobs are removed outright; running jobs stop after the current batch
+   * POST /api/bulk/:executionId/cancel
+   */
+  async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      const { executionId } = req.params;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const executionRow = await db.query(
+        `SELECT status FROM job_executions
+         WHERE id = $1 AND user_id = $2`,
+        [executionId, userId]
+      );
+
+      if (executionRow.rows.length === 0) {
+        res.status(404).json({ error: 'Job execution not found' });
+        return;
+      }
+
+      const execution = executionRow.rows[0];
+
+      if (!['pending', 'processing'].includes(execution.status)) {
+        res.status(409).json({
+          error: `Job has already finished with status "${execution.status}"`,
+        });
+        return;
+      }
+
+      // Flag the execution first so a worker picking it up now still sees it
+      await db.query(
+        `UPDATE job_executions
+         SET cancel_requested_at = COALESCE(cancel_requested_at, NOW()),
+             cancelled_by = COALESCE(cancelled_by, $1)
+         WHERE id = $2`,
+        [userId, executionId]
+      );
+
+      // A job still waiting in the queue never reaches the worker
+      const removedFromQueue = await queueService.cancelJob(executionId);
+      let status = execution.status;
+
+      if (removedFromQueue) {
+        const cancelled = await db.query(
+          `UPDATE job_executions
+           SET status = 'cancelled', completed_at = NOW()
+           WHERE id = $1 AND status = 'pending'
+           RETURNING status`,
+          [executionId]
+        );
+        if (cancelled.rows.length > 0) status = 'cancelled';
+      }
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, success, details)
+         VALUES ($1, $2, 'job_cancelled', 'job', true, $3)`,
+        [
+          userId,
+          executionId,
+          JSON.stringify({ previousStatus: execution.status, removedFromQueue }),
+        ]
+      );
+
+      logger.info('Job cancellation requested', {
+        executionId,
+        userId,
+        removedFromQueue,
+      });
+
+      res.json({
+        executionId,
+        status,
+        cancelRequested: true,
+        message:
+          status === 'cancelled'
+            ? 'Job cancelled'
+            : 'Cancellation requested; the job will stop after the current batch',
+      });
+    } catch (error) {
+      logger.error('Failed to cancel job', { error });
+      res.status(500).json({ error: 'Failed to cancel job' });
+    }
+  }
+
+  /**
+   * Retry the failed operations of a finished execution
+   * Creates a child execution that re-runs only the failed user/project pairs
+   * POST /api/bulk/:executionId/retry
+   */
+  async retry(req: Request, res: Response): Promise<void> {
+    try {
+      const { executionId } = req.params;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const executionRow = await db.query(
+        `SELECT * FROM job_executions WHERE id = $1 AND user_id = $2`,
+        [executionId, userId]
+      );
+
+      if (executionRow.rows.length === 0) {
+        res.status(404).json({ error: 'Job execution not found' });
+        return;
+      }
+
+      const parent = executionRow.rows[0];
+
+      if (['pending', 'processing'].includes(parent.status)) {
+        res.status(409).json({ error: 'Job is still running' });
+        return;
+      }
+
+      if (parent.retry_count >= MAX_RETRIES) {
+        res.status(409).json({
+          error: `Retry limit of ${MAX_RETRIES} reached for this execution`,
+        });
+        return;
+      }
+
+      // The retry keeps the parent's expiry, which would already have passed
+      if (parent.expires_at && new Date(parent.expires_at) <= new Date()) {
+        res.status(400).json({ error: 'Access from this job has expired; start a new job instead' });
+        return;
+      }
+
+      const failedRow = await db.query(
+        `SELECT project_id, project_name, user_email, assigned_role,
+                assigned_roles, access_level, products, company_id
+         FROM v_failed_operations
+         WHERE execution_id = $1`,
+        [executionId]
+      );
+
+      if (failedRow.rows.length === 0) {
+        res.status(400).json({ error: 'No failed operations to retry' });
+        return;
+      }
+
+      const failed = failedRow.rows;
+
+      // Get user's access token and default account
+      const userRow = await db.query(
+        'SELECT access_token_encrypted, account_id FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+      // Executions created before account_id was recorded fall back to the user's account
+      const accountId =
+        parent.account_id || req.body?.accountId || userRow.rows[0].account_id;
+
+      if (!accountId) {
+        res.status(400).json({ error: 'accountId is required' });
+        return;
+      }
+
+      const pairs: OperationPair[] = failed.map((r: any) => ({
+        email: r.user_email,
+        projectId: r.project_id,
+      }));
+      const userEmails = [...new Set(pairs.map((p) => p.email))];
+      const projectIds = [...new Set(pairs.map((p) => p.projectId))];
+      const retryCount = parent.retry_count + 1;
+
+      // Create child execution record
+      const childId = uuidv4();
+
+      await db.query(
+        `INSERT INTO job_executions
+         (id, user_id, job_type, status, target_user_emails,
+          target_project_ids, assigned_role, assigned_roles, role_mode,
+          total_projects, template_id, access_level, products, account_id,
+          parent_execution_id, retry_count, expires_at, invite_to_account,
+          invitations, companies, allow_default_company, source_email,
+          remove_source, source_project_id, member_filter, manifest_id,
+          manifest_version, review_campaign_id)
+         VALUES ($1, $2, $3, 'pending', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27)`,
+        [
+          childId,
+          userId,
+          parent.job_type,
+          userEmails,
+          projectIds,
+          parent.assigned_role,
+          parent.assigned_roles,
+          parent.role_mode,
+          pairs.length,
+          parent.template_id,
+          parent.access_level,
+          parent.products ? JSON.stringify(parent.products) : null,
+          accountId,
+          executionId,
+          retryCount,
+          parent.expires_at,
+          parent.invite_to_account,
+          parent.invitations ? JSON.stringify(parent.invitations) : null,
+          parent.companies ? JSON.stringify(parent.companies) : null,
+          parent.allow_default_company,
+          parent.source_email,
+          parent.remove_source,
+          parent.source_project_id,
+          parent.member_filter ? JSON.stringify(parent.member_filter) : null,
+          parent.manifest_id,
+          parent.manifest_version,
+          parent.review_campaign_id,
+        ]
+      );
+
+      await db.query(
+        `UPDATE job_executions SET retry_count = $1 WHERE id = $2`,
+        [retryCount, executionId]
+      );
+
+      // Add job to queue
+      const jobBase = { executionId: childId, userId, accountId, accessToken };
+
+      if (parent.job_type === 'bulk_user_removal') {
+        await queueService.addBulkRemovalJob({
+          ...jobBase,
+          userEmails,
+          projectIds,
+          pairs,
+        });
+      } else if (parent.job_type === 'bulk_user_import') {
+        // Import rows carry their own role, company and access level
+        const assignments: ImportAssignment[] = failed.map((r: any) => ({
+          email: r.user_email,
+          projectId: r.project_id,
+          projectName: r.project_name,
+          role: r.assigned_role,
+          companyId: r.company_id ?? undefined,
+          accessLevel: r.access_level || 'user',
+        }));
+
+        await queueService.addBulkImportJob({
+          ...jobBase,
+          assignments,
+          adminUserId: req.session.apsUserId,
+          inviteToAccount: parent.invite_to_account,
+          invitations: parent.invitations || undefined,
+          allowDefaultCompany: parent.allow_default_company,
+        });
+      } else if (['bulk_user_clone', 'bulk_member_copy'].includes(parent.job_type)) {
+        // Clone and member copy rows carry the roles and products copied to them
+        const assignments: CloneAssignment[] = failed.map((r: any) => ({
+          email: r.user_email,
+          projectId: r.project_id,
+          projectName: r.project_name,
+          roles: r.assigned_roles ?? (r.assigned_role ? [r.assigned_role] : []),
+          accessLevel: r.access_level || 'user',
+          products: r.products ?? [],
+          companyId: r.company_id ?? undefined,
+        }));
+
+        if (parent.job_type === 'bulk_member_copy') {
+          await queueService.addBulkMemberCopyJob({
+            ...jobBase,
+            sourceProjectId: parent.source_project_id,
+            assignments,
+            adminUserId: req.session.apsUserId,
+            allowDefaultCompany: parent.allow_default_company,
+          });
+        } else {
+          // A handover retry removes the source from the projects it completes
+          await queueService.addBulkCloneJob({
+            ...jobBase,
+            sourceEmail: parent.source_email,
+            assignments,
+            adminUserId: req.session.apsUserId,
+            removeSource: parent.remove_source,
+            inviteToAccount: parent.invite_to_account,
+            allowDefaultCompany: parent.allow_default_company,
+          });
+        }
+      } else if (parent.job_type === 'bulk_access_reconcile') {
+        // Removal rows are the ones recorded without roles
+        const assignments: CloneAssignment[] = failed
+          .filter((r: any) => r.assigned_roles)
+          .map((r: any) => ({
+            email: r.user_email,
+            projectId: r.project_id,
+            projectName: r.project_name,
+            roles: r.assigned_roles,
+            accessLevel: r.access_level || 'user',
+            products: r.products ?? [],
+            companyId: r.company_id ?? undefined,
+          }));
+        const removals: ReconcileRemoval[] = failed
+          .filter((r: any) => !r.assigned_roles)
+          .map((r: any) => ({
+            email: r.user_email,
+            projectId: r.project_id,
+            projectName: r.project_name,
+          }));
+
+        await queueService.addBulkReconcileJob({
+          ...jobBase,
+          manifestId: parent.manifest_id ?? undefined,
+          manifestVersion: parent.manifest_version ?? undefined,
+          assignments,
+          removals,
+          adminUserId: req.session.apsUserId,
+          allowDefaultCompany: parent.allow_default_company,
+        });
+      } else {
+        await queueService.addBulkAssignmentJob({
+          ...jobBase,
+          userEmails,
+          projectIds,
+          roles: parent.assigned_roles,
+          roleMode: parent.role_mode,
+          adminUserId: req.session.apsUserId,
+          accessLevel: parent.access_level || undefined,
+          products: parent.products || undefined,
+          pairs,
+          inviteToAccount: parent.invite_to_account,
+          invitations: parent.invitations || undefined,
+          companies: parent.companies || undefined,
+          allowDefaultCompany: parent.allow_default_company,
+        });
+      }
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, success, details)
+         VALUES ($1, $2, 'job_created', 'job', true, $3)`,
+        [
+          userId,
+          childId,
+          JSON.stringify({
+            jobType: parent.job_type,
+            parentExecutionId: executionId,
+            retryCount,
+            totalOperations: pairs.length,
+          }),
+        ]
+      );
+
+      logger.info('Retry job created', {
+        executionId: childId,
+        parentExecutionId: executionId,
+        userId,
+        retryCount,
+        operationCount: pairs.length,
+      });
+
+      res.json({
+        executionId: childId,
+        parentExecutionId: executionId,
+        retryCount,
+        status: 'pending',
+        totalProjects: pairs.length,
+        message: 'Retry queued successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to retry job', { error });
+      res.status(500).json({ error: 'Failed to retry job' });
+    }
+  }
+
+  /**
+   * List the user's scheduled jobs that have not started yet
+   * Includes removals queued for assignment expiry
+   * GET /api/bulk/scheduled
+   */
+  async getScheduled(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const scheduledRow = await db.query(
+        `SELECT je.id, je.job_type, je.status, je.target_user_emails,
+                je.target_project_ids, je.assigned_roles, je.role_mode, je.access_level,
+                je.account_id, je.total_projects, je.scheduled_for, je.expires_at,
+                je.created_at, source.id AS expiry_of
+         FROM job_executions je
+         LEFT JOIN job_executions source ON source.expiry_execution_id = je.id
+         WHERE je.user_id = $1
+           AND je.status = 'pending'
+           AND je.scheduled_for IS NOT NULL
+         ORDER BY je.scheduled_for`,
+        [userId]
+      );
+
+      res.json({
+        executions: await Promise.all(scheduledRow.rows.map(async (r: any) => ({
+          id: r.id,
+          jobType: r.job_type,
+          status: r.status,
+          userEmails: r.target_user_emails,
+          projectIds: r.target_project_ids,
+          assignedRoles: await resolveRoles(r.account_id, r.assigned_roles),
+          roleMode: r.role_mode,
+          accessLevel: r.access_level,
+          totalProjects: r.total_projects,
+          scheduledFor: r.scheduled_for,
+          expiresAt: r.expires_at,
+          expiryOf: r.expiry_of,
+          createdAt: r.created_at,
+        }))),
+      });
+    } catch (error) {
+      logger.error('Failed to get scheduled jobs', { error });
+      res.status(500).json({ error: 'Failed to retrieve scheduled jobs' });
+    }
+  }
+
+  /**
+   * Change the start time or expiry of a scheduled job
+   * PATCH /api/bulk/:executionId/schedule
+   */
+  async updateSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const { executionId } = req.params;
+      const body: ScheduleUpdateRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const executionRow = await db.query(
+        `SELECT job_type, status, scheduled_for, expires_at
+         FROM job_executions
+         WHERE id = $1 AND user_id = $2`,
+        [executionId, userId]
+      );
+
+      if (executionRow.rows.length === 0) {
+        res.status(404).json({ error: 'Job execution not found' });
+        return;
+      }
+
+      const execution = executionRow.rows[0];
+
+      if (execution.status !== 'pending' || !execution.scheduled_for) {
+        res.status(409).json({ error: 'Job is not scheduled' });
+        return;
+      }
+
+      if (
+        body.expiresAt !== undefined &&
+        execution.job_type !== 'bulk_user_assignment'
+      ) {
+        res.status(400).json({ error: 'Only assignments can expire' });
+        return;
+      }
+
+      const scheduledFor =
+        body.scheduledFor !== undefined
+          ? toDate(body.scheduledFor)
+          : execution.scheduled_for;
+      const expiresAt =
+        body.expiresAt !== undefined
+          ? toDate(body.expiresAt)
+          : execution.expires_at;
+
+      if (!scheduledFor) {
+        res.status(400).json({ error: 'scheduledFor is required' });
+        return;
+      }
+
+      const scheduleError = validateSchedule(scheduledFor, expiresAt);
+      if (scheduleError) {
+        res.status(400).json({ error: scheduleError });
+        return;
+      }
+
+      if (body.scheduledFor !== undefined) {
+        const rescheduled = await queueService.rescheduleJob(
+          executionId,
+          scheduledFor
+        );
+
+        if (!rescheduled) {
+          res.status(409).json({ error: 'Job has already started' });
+          return;
+        }
+      }
+
+      await db.query(
+        `UPDATE job_executions
+         SET scheduled_for = $1, expires_at = $2
+         WHERE id = $3`,
+        [scheduledFor, expiresAt, executionId]
+      );
+
+      // Moving an expiry removal also moves the expiry shown on its assignment
+      await db.query(
+        `UPDATE job_executions SET expires_at = $1
+         WHERE expiry_execution_id = $2`,
+        [scheduledFor, executionId]
+      );
+
+      logger.info('Job schedule updated', {
+        executionId,
+        userId,
+        scheduledFor,
+        expiresAt,
+      });
+
+      res.json({
+        executionId,
+        scheduledFor,
+        expiresAt,
+        message: 'Schedule updated',
+      });
+    } catch (error) {
+      logger.error('Failed to update job schedule', { error });
+      res.status(500).json({ error: 'Failed to update schedule' });
+    }
+  }
+
+  /**
+   * Get user's job history
+   * GET /api/bulk/history
+   */
+  async getHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const db = getDb();
+
+      const historyRow = await db.query(
+        `SELECT id, job_type, status, account_id, assigned_roles, role_mode,
+                total_projects, project_groups,
+                success_count, failed_count, retry_count, parent_execution_id,
+                started_at, completed_at, created_at
+         FROM job_executions
+         WHERE user_id = $1
+         ORDER BY created_at DESC
+         LIMIT $2 OFFSET $3`,
+        [userId, limit, offset]
+      );
+
+      res.json({
+        executions: await Promise.all(historyRow.rows.map(async (r: any) => ({
+          id: r.id,
+          jobType: r.job_type,
+          status: r.status,
+          assignedRoles: await resolveRoles(r.account_id, r.assigned_roles),
+          roleMode: r.role_mode,
+          totalProjects: r.total_projects,
+          projectGroups: r.project_groups,
+          successCount: r.success_count,
+          failedCount: r.failed_count,
+          retryCount: r.retry_count,
+          parentExecutionId: r.parent_execution_id,
+          startedAt: r.started_at,
+          completedAt: r.completed_at,
+          createdAt: r.created_at,
+        }))),
         pagination: {
           limit,
           offset,
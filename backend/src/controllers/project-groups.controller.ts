@@ -0,0 +1,336 @@
+import { Request, Response } from 'express';
+import membershipCacheService from '../services/cache/membership-cache.service';
+import projectGroupService, {
+  toProjectGroup,
+} from '../services/groups/project-group.service';
+import { getDb } from '../db';
+import logger from '../utils/logger';
+import { ProjectGroupFilter, ProjectGroupRequest, ProjectGroupType } from '../types';
+
+const GROUP_TYPES: ProjectGroupType[] = ['static', 'dynamic'];
+
+const FILTER_FIELDS: (keyof ProjectGroupFilter)[] = [
+  'nameContains',
+  'businessUnit',
+  'currentPhase',
+  'status',
+  'platform',
+  'city',
+  'activeFrom',
+  'activeTo',
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate the body of a create/update request
+ * @returns Error message, or null if the request is valid
+ */
+function validateGroupRequest(body: ProjectGroupRequest): string | null {
+  if (!body.accountId) return 'Account ID is required';
+  if (!body.name || !body.name.trim()) return 'Group name is required';
+  if (!GROUP_TYPES.includes(body.type)) return `Invalid group type "${body.type}"`;
+
+  if (body.type === 'static') {
+    if (!Array.isArray(body.projectIds) || body.projectIds.length === 0) {
+      return 'Static groups need at least one project';
+    }
+    return null;
+  }
+
+  const filter = body.filter;
+  if (!filter || !FILTER_FIELDS.some((field) => filter[field])) {
+    return `Dynamic groups need a filter on ${FILTER_FIELDS.join(', ')}`;
+  }
+  for (const field of ['activeFrom', 'activeTo'] as const) {
+    const value = filter[field];
+    if (value && (!DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+      return `${field} must be a date (YYYY-MM-DD)`;
+    }
+  }
+  if (filter.activeFrom && filter.activeTo && filter.activeFrom > filter.activeTo) {
+    return 'activeFrom must not be after activeTo';
+  }
+
+  return null;
+}
+
+// Keep only known filter fields that are set
+function cleanFilter(filter: ProjectGroupFilter): ProjectGroupFilter {
+  return Object.fromEntries(
+    FILTER_FIELDS.filter((field) => filter[field]).map((field) => [
+      field,
+      String(filter[field]).trim(),
+    ])
+  );
+}
+
+// Columns for a create/update request; the unused half of static/dynamic is cleared
+function groupColumns(body: ProjectGroupRequest): [string[], string | null] {
+  return body.type === 'static'
+    ? [[...new Set(body.projectIds)], null]
+    : [[], JSON.stringify(cleanFilter(body.filter!))];
+}
+
+/**
+ * Project Groups Controller
+ * Handles saved project selections used in place of picking projects one by one
+ */
+export class ProjectGroupsController {
+  /**
+   * List groups for an account, with their current project counts
+   * GET /api/project-groups?accountId=xxx
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        `SELECT * FROM project_groups
+         WHERE account_id = $1
+         ORDER BY name ASC`,
+        [accountId]
+      );
+
+      const groups = await Promise.all(
+        result.rows.map(async (row: any) => {
+          const group = toProjectGroup(row);
+          const projectIds = await projectGroupService.getProjectIds(group);
+          return { ...group, projectCount: projectIds.length };
+        })
+      );
+
+      res.json({ groups });
+    } catch (error) {
+      logger.error('Failed to list project groups', { error });
+      res.status(500).json({ error: 'Failed to retrieve project groups' });
+    }
+  }
+
+  /**
+   * Get a single group
+   * GET /api/project-groups/:groupId?accountId=xxx
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { groupId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        'SELECT * FROM project_groups WHERE id = $1 AND account_id = $2',
+        [groupId, accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Project group not found' });
+        return;
+      }
+
+      res.json(toProjectGroup(result.rows[0]));
+    } catch (error) {
+      logger.error('Failed to get project group', { error });
+      res.status(500).json({ error: 'Failed to retrieve project group' });
+    }
+  }
+
+  /**
+   * Get a group's current projects
+   * GET /api/project-groups/:groupId/projects?accountId=xxx
+   */
+  async getProjects(req: Request, res: Response): Promise<void> {
+    try {
+      const { groupId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        'SELECT * FROM project_groups WHERE id = $1 AND account_id = $2',
+        [groupId, accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Project group not found' });
+        return;
+      }
+
+      const group = toProjectGroup(result.rows[0]);
+      const projectIds = await projectGroupService.getProjectIds(group);
+      const projectNames = await membershipCacheService.getProjectNames(projectIds);
+
+      res.json({
+        groupId: group.id,
+        projects: projectIds.map((id) => ({
+          id,
+          name: projectNames.get(id) ?? null,
+        })),
+      });
+    } catch (error) {
+      logger.error('Failed to get project group projects', { error });
+      res.status(500).json({ error: 'Failed to retrieve project group projects' });
+    }
+  }
+
+  /**
+   * Create a group
+   * POST /api/project-groups
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const body: ProjectGroupRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const validationError = validateGroupRequest(body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const [projectIds, filter] = groupColumns(body);
+
+      const result = await db.query(
+        `INSERT INTO project_groups
+         (account_id, name, description, group_type, project_ids, filter, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          body.accountId,
+          body.name.trim(),
+          body.description || null,
+          body.type,
+          projectIds,
+          filter,
+          userId,
+        ]
+      );
+
+      logger.info('Project group created', {
+        groupId: result.rows[0].id,
+        userId,
+        accountId: body.accountId,
+        type: body.type,
+      });
+
+      res.status(201).json(toProjectGroup(result.rows[0]));
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        res.status(409).json({ error: 'A project group with this name already exists' });
+        return;
+      }
+      logger.error('Failed to create project group', { error });
+      res.status(500).json({ error: 'Failed to create project group' });
+    }
+  }
+
+  /**
+   * Replace a group's settings
+   * PUT /api/project-groups/:groupId
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { groupId } = req.params;
+      const body: ProjectGroupRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const validationError = validateGroupRequest(body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const [projectIds, filter] = groupColumns(body);
+
+      const result = await db.query(
+        `UPDATE project_groups
+         SET name = $1,
+             description = $2,
+             group_type = $3,
+             project_ids = $4,
+             filter = $5
+         WHERE id = $6 AND account_id = $7
+         RETURNING *`,
+        [
+          body.name.trim(),
+          body.description || null,
+          body.type,
+          projectIds,
+          filter,
+          groupId,
+          body.accountId,
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Project group not found' });
+        return;
+      }
+
+      logger.info('Project group updated', { groupId, userId });
+
+      res.json(toProjectGroup(result.rows[0]));
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        res.status(409).json({ error: 'A project group with this name already exists' });
+        return;
+      }
+      logger.error('Failed to update project group', { error });
+      res.status(500).json({ error: 'Failed to update project group' });
+    }
+  }
+
+  /**
+   * Delete a group
+   * Executions keep the copy of the group stored when they were created
+   * DELETE /api/project-groups/:groupId?accountId=xxx
+   */
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const { groupId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        'DELETE FROM project_groups WHERE id = $1 AND account_id = $2 RETURNING id',
+        [groupId, accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Project group not found' });
+        return;
+      }
+
+      logger.info('Project group deleted', { groupId, userId });
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Failed to delete project group', { error });
+      res.status(500).json({ error: 'Failed to delete project group' });
+    }
+  }
+}
+
+export default new ProjectGroupsController();
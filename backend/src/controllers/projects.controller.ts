@@ -1,7 +1,15 @@
 import { Request, Response } from 'express';
 import apsProjectsService from '../services/aps/projects.service';
+import membershipCacheService from '../services/cache/membership-cache.service';
+import projectDetailsService from '../services/cache/project-details.service';
+import companyDirectoryService from '../services/companies/company-directory.service';
+import queueService from '../services/queue/queue.service';
 import { getDb } from '../db';
-import { decrypt, getValidAccessToken } from '../utils/helpers';
+import {
+  decrypt,
+  getValidAccessToken,
+  isValidEmail,
+} from '../utils/helpers';
 import { APSError } from '../types';
 import logger from '../utils/logger';
 
@@ -52,13 +60,15 @@ export class ProjectsController {
 
   /**
    * Get all projects for a specific account
-   * GET /api/projects?accountId=xxx
+   * GET /api/projects?accountId=xxx&includeTemplates=true&includeArchived=true
    */
   async getProjects(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.session.userId!;
       const db = getDb();
       const queryAccountId = req.query.accountId as string | undefined;
+      const includeTemplates = req.query.includeTemplates === 'true';
+      const includeArchived = req.query.includeArchived === 'true';
 
       // Get valid access token (refreshes if expired)
       let accessToken: string;
@@ -88,29 +98,21 @@ export class ProjectsController {
       // Fetch projects from APS
       const projects = await apsProjectsService.getProjects(
         accessToken,
-        finalAccountId
+        finalAccountId,
+        { includeTemplates, includeArchived }
       );
 
       // Cache projects in database
-      for (const project of projects) {
-        await db.query(
-          `INSERT INTO projects
-           (account_id, project_id, project_name, project_type, status, last_synced_at)
-           VALUES ($1, $2, $3, $4, $5, NOW())
-           ON CONFLICT (project_id)
-           DO UPDATE SET
-             project_name = EXCLUDED.project_name,
-             project_type = EXCLUDED.project_type,
-             status = EXCLUDED.status,
-             last_synced_at = NOW()`,
-          [
-            finalAccountId,
-            project.id,
-            project.name,
-            project.platform,
-            project.status,
-          ]
-        );
+      await membershipCacheService.cacheProjects(finalAccountId, projects);
+
+      // Refresh stale memberships and project details in the background
+      if (
+        (await membershipCacheService.hasStaleProjects(finalAccountId)) ||
+        (await projectDetailsService.hasStaleDetails(finalAccountId))
+      ) {
+        queueService
+          .addMembershipSyncJob({ accountId: finalAccountId, userId })
+          .catch(() => undefined); // Logged by the queue service
       }
 
       // Audit log
@@ -120,13 +122,30 @@ export class ProjectsController {
         [userId, JSON.stringify({ count: projects.length })]
       );
 
+      // Details are filled in once the account sync has read them
+      const details = await projectDetailsService.getDetails(finalAccountId);
+
       res.json({
-        projects: projects.map((p) => ({
-          id: p.id,
-          name: p.name,
-          status: p.status,
-          platform: p.platform,
-        })),
+        projects: projects.map((p) => {
+          const d = details.get(p.id);
+          return {
+            id: p.id,
+            name: p.name,
+            status: d?.status ?? p.status,
+            classification: p.classification ?? d?.classification,
+            platform: p.platform,
+            jobNumber: d?.jobNumber,
+            city: d?.city,
+            stateOrProvince: d?.stateOrProvince,
+            country: d?.country,
+            businessUnit: d?.businessUnit,
+            currentPhase: d?.currentPhase,
+            constructionType: d?.constructionType,
+            startDate: d?.startDate,
+            endDate: d?.endDate,
+          };
+        }),
+        detailsSynced: details.size > 0,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -411,6 +430,181 @@ export class ProjectsController {
       res.status(500).json({ error: 'Failed to retrieve account members' });
     }
   }
+
+  /**
+   * Get one member's projects, roles and products across the account
+   * GET /api/account/members/:email/access?accountId=xxx
+   */
+  async getMemberAccess(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const db = getDb();
+      const { email } = req.params;
+      const queryAccountId = req.query.accountId as string | undefined;
+
+      if (!isValidEmail(email)) {
+        res.status(400).json({ error: `Invalid email address "${email}"` });
+        return;
+      }
+
+      // Get valid access token (refreshes if expired)
+      let accessToken: string;
+      let storedAccountId: string | null;
+      try {
+        const tokenResult = await getValidAccessToken(db, userId);
+        accessToken = tokenResult.accessToken;
+        storedAccountId = tokenResult.accountId;
+      } catch (tokenError) {
+        logger.error('Token error in getMemberAccess', {
+          userId,
+          error: tokenError instanceof Error ? tokenError.message : String(tokenError),
+        });
+        res.status(401).json({ error: 'Session expired. Please log in again.' });
+        return;
+      }
+
+      // Use query param accountId if provided, otherwise fall back to stored
+      const accountId = queryAccountId || storedAccountId;
+      if (!accountId) {
+        res.status(400).json({
+          error: 'Account ID required. Please select an account.',
+        });
+        return;
+      }
+
+      const report = await membershipCacheService.getMemberAccess(
+        accessToken,
+        accountId,
+        email
+      );
+
+      res.json(report);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to get member access', {
+        errorMessage,
+        errorName: error instanceof Error ? error.name : 'Unknown',
+      });
+
+      if (error instanceof APSError && error.statusCode === 403) {
+        res.status(403).json({
+          error: 'Permission denied. Please ensure: 1) Your APS app is added to ACC Admin > Custom Integrations, and 2) You are an Account Admin.',
+          hint: 'Go to ACC Admin Portal > Settings > Custom Integrations > Add Custom Integration, and add your app using its Client ID.',
+        });
+        return;
+      }
+
+      res.status(500).json({ error: 'Failed to retrieve member access' });
+    }
+  }
+
+  /**
+   * Get the account's companies, for choosing where members are added
+   * GET /api/account/companies?accountId=xxx
+   */
+  async getAccountCompanies(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const db = getDb();
+      const queryAccountId = req.query.accountId as string | undefined;
+
+      const userRow = await db.query(
+        'SELECT account_id FROM users WHERE id = $1',
+        [userId]
+      );
+      const accountId = queryAccountId || userRow.rows[0]?.account_id;
+      if (!accountId) {
+        res.status(400).json({
+          error: 'Account ID required. Please select an account.',
+        });
+        return;
+      }
+
+      const companies = await companyDirectoryService.getCompanies(accountId);
+
+      res.json({
+        companies: [...companies].sort((a, b) => a.name.localeCompare(b.name)),
+      });
+    } catch (error) {
+      logger.error('Failed to get account companies', { error });
+      res.status(500).json({ error: 'Failed to retrieve companies' });
+    }
+  }
+
+  /**
+   * Get how fresh the account's membership cache is
+   * GET /api/account/sync?accountId=xxx
+   */
+  async getSyncStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const db = getDb();
+      const queryAccountId = req.query.accountId as string | undefined;
+
+      const userRow = await db.query(
+        'SELECT account_id FROM users WHERE id = $1',
+        [userId]
+      );
+      const accountId = queryAccountId || userRow.rows[0]?.account_id;
+      if (!accountId) {
+        res.status(400).json({
+          error: 'Account ID required. Please select an account.',
+        });
+        return;
+      }
+
+      const [status, syncInProgress] = await Promise.all([
+        membershipCacheService.getSyncStatus(accountId),
+        queueService.isMembershipSyncQueued(accountId),
+      ]);
+
+      res.json({ ...status, syncInProgress });
+    } catch (error) {
+      logger.error('Failed to get sync status', { error });
+      res.status(500).json({ error: 'Failed to retrieve sync status' });
+    }
+  }
+
+  /**
+   * Queue a membership cache sync for the account
+   * POST /api/account/sync
+   */
+  async syncMemberships(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const db = getDb();
+      const { accountId: bodyAccountId, force = false } = req.body as {
+        accountId?: string;
+        force?: boolean;
+      };
+
+      const userRow = await db.query(
+        'SELECT account_id FROM users WHERE id = $1',
+        [userId]
+      );
+      const accountId = bodyAccountId || userRow.rows[0]?.account_id;
+      if (!accountId) {
+        res.status(400).json({
+          error: 'Account ID required. Please select an account.',
+        });
+        return;
+      }
+
+      const jobId = await queueService.addMembershipSyncJob({
+        accountId,
+        userId,
+        force: !!force,
+      });
+
+      res.json({
+        jobId,
+        message: 'Membership sync queued',
+      });
+    } catch (error) {
+      logger.error('Failed to queue membership sync', { error });
+      res.status(500).json({ error: 'Failed to queue membership sync' });
+    }
+  }
 }
 
 export default new ProjectsController();
@@ -0,0 +1,714 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import accessReconcileService, {
+  MANIFEST_FORMATS,
+  parseManifest,
+  toAccessManifest,
+  toManifestVersion,
+} from '../services/reconcile/access-reconcile.service';
+import queueService from '../services/queue/queue.service';
+import { getDb } from '../db';
+import { decrypt } from '../utils/helpers';
+import logger from '../utils/logger';
+import {
+  AccessManifest,
+  AccessManifestRequest,
+  ManifestError,
+  ReconcileRequest,
+} from '../types';
+
+// Same upper bound as imports and clones
+const MAX_RECONCILE_OPERATIONS = 5000;
+
+// Scheduled plans run at most hourly and at least monthly
+const MAX_DRIFT_CHECK_HOURS = 720;
+
+// Drift reports returned by GET /api/manifests/:manifestId/drift
+const DRIFT_REPORT_LIMIT = 20;
+
+/**
+ * Validate the body of a create/update request, including the manifest itself
+ * @returns Error response body, or null if the request is valid
+ */
+function validateManifestRequest(
+  body: AccessManifestRequest
+): { error: string; details?: string[] } | null {
+  if (!body.accountId) return { error: 'Account ID is required' };
+  if (!body.name || !body.name.trim()) return { error: 'Manifest name is required' };
+  if (!MANIFEST_FORMATS.includes(body.format)) {
+    return { error: `Format must be one of ${MANIFEST_FORMATS.join(', ')}` };
+  }
+  if (typeof body.content !== 'string' || !body.content.trim()) {
+    return { error: 'Manifest content is required' };
+  }
+
+  const hours = body.driftCheckHours;
+  if (
+    hours !== undefined &&
+    hours !== null &&
+    (!Number.isInteger(hours) || hours < 1 || hours > MAX_DRIFT_CHECK_HOURS)
+  ) {
+    return {
+      error: `driftCheckHours must be a whole number from 1 to ${MAX_DRIFT_CHECK_HOURS}`,
+    };
+  }
+
+  try {
+    parseManifest(body.content, body.format);
+  } catch (error) {
+    if (error instanceof ManifestError) {
+      return { error: error.message, details: error.details };
+    }
+    throw error;
+  }
+
+  return null;
+}
+
+/**
+ * Read the manifest a plan or apply request refers to
+ * Stored manifests are read at the requested version; inline ones are parsed as sent
+ * @returns Parsed manifest and its stored version, or an error with its HTTP status
+ */
+async function readRequestManifest(body: ReconcileRequest): Promise<
+  | { manifest: AccessManifest; source: { manifestId: string; version: number } | null }
+  | { status: number; error: string; details?: string[] }
+> {
+  if (!body.accountId) {
+    return { status: 400, error: 'Account ID is required' };
+  }
+
+  let content = body.content;
+  let format = body.format ?? 'yaml';
+  let source: { manifestId: string; version: number } | null = null;
+
+  if (body.manifestId) {
+    const version = await accessReconcileService.getVersion(
+      body.accountId,
+      body.manifestId,
+      body.version
+    );
+    if (!version) {
+      return { status: 404, error: 'Manifest version not found' };
+    }
+    content = version.content;
+    format = version.format;
+    source = { manifestId: body.manifestId, version: version.version };
+  } else if (typeof content !== 'string' || !content.trim()) {
+    return { status: 400, error: 'manifestId or manifest content is required' };
+  } else if (!MANIFEST_FORMATS.includes(format)) {
+    return { status: 400, error: `Format must be one of ${MANIFEST_FORMATS.join(', ')}` };
+  }
+
+  try {
+    return { manifest: parseManifest(content!, format), source };
+  } catch (error) {
+    if (error instanceof ManifestError) {
+      return { status: 400, error: error.message, details: error.details };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Turn a manifest's scheduled plans on or off to match its settings
+ */
+async function syncDriftSchedule(
+  manifestId: string,
+  hours: number | null | undefined
+): Promise<void> {
+  if (hours) {
+    await queueService.scheduleDriftCheck(manifestId, hours);
+  } else {
+    await queueService.cancelDriftCheck(manifestId);
+  }
+}
+
+/**
+ * Reconcile Controller
+ * Handles versioned access manifests and applying them as one execution
+ */
+export class ReconcileController {
+  /**
+   * List manifests for an account
+   * GET /api/manifests?accountId=xxx
+   */
+  async listManifests(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        `SELECT * FROM access_manifests
+         WHERE account_id = $1
+         ORDER BY name ASC`,
+        [accountId]
+      );
+
+      res.json({ manifests: result.rows.map(toAccessManifest) });
+    } catch (error) {
+      logger.error('Failed to list manifests', { error });
+      res.status(500).json({ error: 'Failed to retrieve manifests' });
+    }
+  }
+
+  /**
+   * Get a manifest with its current version
+   * GET /api/manifests/:manifestId?accountId=xxx
+   */
+  async getManifest(req: Request, res: Response): Promise<void> {
+    try {
+      const { manifestId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        `SELECT m.*, v.version, v.format, v.content, v.comment
+         FROM access_manifests m
+         JOIN access_manifest_versions v
+           ON v.manifest_id = m.id AND v.version = m.current_version
+         WHERE m.id = $1 AND m.account_id = $2`,
+        [manifestId, accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Manifest not found' });
+        return;
+      }
+
+      const row = result.rows[0];
+      res.json({
+        ...toAccessManifest(row),
+        format: row.format,
+        content: row.content,
+        comment: row.comment,
+      });
+    } catch (error) {
+      logger.error('Failed to get manifest', { error });
+      res.status(500).json({ error: 'Failed to retrieve manifest' });
+    }
+  }
+
+  /**
+   * Create a manifest as version 1
+   * POST /api/manifests
+   */
+  async createManifest(req: Request, res: Response): Promise<void> {
+    try {
+      const body: AccessManifestRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const validationError = validateManifestRequest(body);
+      if (validationError) {
+        res.status(400).json(validationError);
+        return;
+      }
+
+      const result = await db.query(
+        `INSERT INTO access_manifests
+         (account_id, name, description, drift_check_hours, created_by, updated_by)
+         VALUES ($1, $2, $3, $4, $5, $5)
+         RETURNING *`,
+        [
+          body.accountId,
+          body.name.trim(),
+          body.description || null,
+          body.driftCheckHours ?? null,
+          userId,
+        ]
+      );
+      const manifest = toAccessManifest(result.rows[0]);
+
+      await db.query(
+        `INSERT INTO access_manifest_versions
+         (manifest_id, version, format, content, comment, created_by)
+         VALUES ($1, 1, $2, $3, $4, $5)`,
+        [manifest.id, body.format, body.content, body.comment || null, userId]
+      );
+
+      await syncDriftSchedule(manifest.id, manifest.driftCheckHours);
+
+      logger.info('Manifest created', {
+        manifestId: manifest.id,
+        userId,
+        accountId: body.accountId,
+      });
+
+      res.status(201).json(manifest);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        res.status(409).json({ error: 'A manifest with this name already exists' });
+        return;
+      }
+      logger.error('Failed to create manifest', { error });
+      res.status(500).json({ error: 'Failed to create manifest' });
+    }
+  }
+
+  /**
+   * Replace a manifest's settings
+   * Changed content is saved as a new version; earlier versions are kept
+   * PUT /api/manifests/:manifestId
+   */
+  async updateManifest(req: Request, res: Response): Promise<void> {
+    try {
+      const { manifestId } = req.params;
+      const body: AccessManifestRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const validationError = validateManifestRequest(body);
+      if (validationError) {
+        res.status(400).json(validationError);
+        return;
+      }
+
+      const current = await accessReconcileService.getVersion(body.accountId, manifestId);
+      if (!current) {
+        res.status(404).json({ error: 'Manifest not found' });
+        return;
+      }
+
+      const contentChanged =
+        current.content !== body.content || current.format !== body.format;
+      const version = contentChanged ? current.version + 1 : current.version;
+
+      if (contentChanged) {
+        await db.query(
+          `INSERT INTO access_manifest_versions
+           (manifest_id, version, format, content, comment, created_by)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [manifestId, version, body.format, body.content, body.comment || null, userId]
+        );
+      }
+
+      const result = await db.query(
+        `UPDATE access_manifests
+         SET name = $1,
+             description = $2,
+             drift_check_hours = $3,
+             current_version = $4,
+             updated_by = $5
+         WHERE id = $6 AND account_id = $7
+         RETURNING *`,
+        [
+          body.name.trim(),
+          body.description || null,
+          body.driftCheckHours ?? null,
+          version,
+          userId,
+          manifestId,
+          body.accountId,
+        ]
+      );
+      const manifest = toAccessManifest(result.rows[0]);
+
+      await syncDriftSchedule(manifest.id, manifest.driftCheckHours);
+
+      logger.info('Manifest updated', { manifestId, userId, version });
+
+      res.json(manifest);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        res.status(409).json({ error: 'A manifest with this name already exists' });
+        return;
+      }
+      logger.error('Failed to update manifest', { error });
+      res.status(500).json({ error: 'Failed to update manifest' });
+    }
+  }
+
+  /**
+   * Delete a manifest, its versions and drift reports
+   * Executions that applied it keep their version number
+   * DELETE /api/manifests/:manifestId?accountId=xxx
+   */
+  async deleteManifest(req: Request, res: Response): Promise<void> {
+    try {
+      const { manifestId } = req.params;
+      const userId = req.session.userId!;
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        'DELETE FROM access_manifests WHERE id = $1 AND account_id = $2 RETURNING id',
+        [manifestId, accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Manifest not found' });
+        return;
+      }
+
+      await queueService.cancelDriftCheck(manifestId);
+
+      logger.info('Manifest deleted', { manifestId, userId });
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Failed to delete manifest', { error });
+      res.status(500).json({ error: 'Failed to delete manifest' });
+    }
+  }
+
+  /**
+   * List a manifest's versions, newest first, without their content
+   * GET /api/manifests/:manifestId/versions?accountId=xxx
+   */
+  async listVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { manifestId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        `SELECT v.version, v.format, v.comment, v.created_by, v.created_at
+         FROM access_manifest_versions v
+         JOIN access_manifests m ON m.id = v.manifest_id
+         WHERE v.manifest_id = $1 AND m.account_id = $2
+         ORDER BY v.version DESC`,
+        [manifestId, accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Manifest not found' });
+        return;
+      }
+
+      res.json({
+        manifestId,
+        versions: result.rows.map((r: any) => ({
+          version: r.version,
+          format: r.format,
+          comment: r.comment,
+          createdBy: r.created_by,
+          createdAt: r.created_at,
+        })),
+      });
+    } catch (error) {
+      logger.error('Failed to list manifest versions', { error });
+      res.status(500).json({ error: 'Failed to retrieve manifest versions' });
+    }
+  }
+
+  /**
+   * Get one version of a manifest
+   * GET /api/manifests/:manifestId/versions/:version?accountId=xxx
+   */
+  async getVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { manifestId, version } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      if (!/^\d+$/.test(version)) {
+        res.status(400).json({ error: 'Version must be a number' });
+        return;
+      }
+
+      const result = await db.query(
+        `SELECT v.* FROM access_manifest_versions v
+         JOIN access_manifests m ON m.id = v.manifest_id
+         WHERE v.manifest_id = $1 AND v.version = $2 AND m.account_id = $3`,
+        [manifestId, Number(version), accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Manifest version not found' });
+        return;
+      }
+
+      res.json({ manifestId, ...toManifestVersion(result.rows[0]) });
+    } catch (error) {
+      logger.error('Failed to get manifest version', { error });
+      res.status(500).json({ error: 'Failed to retrieve manifest version' });
+    }
+  }
+
+  /**
+   * List drift found by a manifest's scheduled plans, newest first
+   * GET /api/manifests/:manifestId/drift?accountId=xxx
+   */
+  async listDriftReports(req: Request, res: Response): Promise<void> {
+    try {
+      const { manifestId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const manifestRow = await db.query(
+        'SELECT id FROM access_manifests WHERE id = $1 AND account_id = $2',
+        [manifestId, accountId]
+      );
+
+      if (manifestRow.rows.length === 0) {
+        res.status(404).json({ error: 'Manifest not found' });
+        return;
+      }
+
+      const result = await db.query(
+        `SELECT * FROM access_drift_reports
+         WHERE manifest_id = $1
+         ORDER BY checked_at DESC
+         LIMIT $2`,
+        [manifestId, DRIFT_REPORT_LIMIT]
+      );
+
+      res.json({
+        manifestId,
+        reports: result.rows.map((r: any) => ({
+          id: r.id,
+          manifestVersion: r.manifest_version,
+          summary: {
+            adds: r.add_count,
+            updates: r.update_count,
+            removals: r.remove_count,
+          },
+          changes: r.changes,
+          checkedAt: r.checked_at,
+        })),
+      });
+    } catch (error) {
+      logger.error('Failed to list drift reports', { error });
+      res.status(500).json({ error: 'Failed to retrieve drift reports' });
+    }
+  }
+
+  /**
+   * Diff a manifest against live project members
+   * POST /api/reconcile/plan
+   */
+  async plan(req: Request, res: Response): Promise<void> {
+    try {
+      const body: ReconcileRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const request = await readRequestManifest(body);
+      if ('status' in request) {
+        const { status, ...error } = request;
+        res.status(status).json(error);
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      const plan = await accessReconcileService.plan(
+        accessToken,
+        body.accountId,
+        request.manifest,
+        request.source
+      );
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, action, resource_type, resource_id, success, details)
+         VALUES ($1, 'user_preview', 'manifest', $2, true, $3)`,
+        [
+          userId,
+          request.source?.manifestId ?? null,
+          JSON.stringify({
+            manifestVersion: request.source?.version ?? null,
+            projectCount: plan.projectCount,
+            ...plan.summary,
+          }),
+        ]
+      );
+
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof ManifestError) {
+        res.status(400).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error('Reconcile plan failed', { error });
+      res.status(500).json({ error: 'Failed to plan manifest' });
+    }
+  }
+
+  /**
+   * Apply a manifest: re-plan it and queue every change as one execution
+   * POST /api/reconcile/apply
+   */
+  async apply(req: Request, res: Response): Promise<void> {
+    try {
+      const body: ReconcileRequest = req.body;
+      const { accountId, allowDefaultCompany = false } = body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const request = await readRequestManifest(body);
+      if ('status' in request) {
+        const { status, ...error } = request;
+        res.status(status).json(error);
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      // Planned again so the job matches live access at the time it is queued
+      const plan = await accessReconcileService.plan(
+        accessToken,
+        accountId,
+        request.manifest,
+        request.source
+      );
+      const { assignments, removals } = accessReconcileService.toJob(plan);
+      const totalProjects = assignments.length + removals.length;
+
+      if (totalProjects === 0) {
+        res.status(400).json({
+          error: 'Access already matches the manifest',
+          failedProjects: plan.failedProjects,
+        });
+        return;
+      }
+
+      if (totalProjects > MAX_RECONCILE_OPERATIONS) {
+        res.status(400).json({
+          error: `Cannot apply more than ${MAX_RECONCILE_OPERATIONS} changes at once`,
+        });
+        return;
+      }
+
+      const userEmails = [...new Set(plan.changes.map((c) => c.email))];
+      const projectIds = [...new Set(plan.changes.map((c) => c.projectId))];
+
+      // Create job execution record
+      const executionId = uuidv4();
+
+      await db.query(
+        `INSERT INTO job_executions
+         (id, user_id, job_type, status, target_user_emails,
+          target_project_ids, total_projects, account_id,
+          allow_default_company, manifest_id, manifest_version)
+         VALUES ($1, $2, 'bulk_access_reconcile', 'pending', $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          executionId,
+          userId,
+          userEmails,
+          projectIds,
+          totalProjects,
+          accountId,
+          allowDefaultCompany,
+          request.source?.manifestId ?? null,
+          request.source?.version ?? null,
+        ]
+      );
+
+      // Add job to queue
+      await queueService.addBulkReconcileJob({
+        executionId,
+        userId,
+        accountId,
+        manifestId: request.source?.manifestId,
+        manifestVersion: request.source?.version,
+        assignments,
+        removals,
+        accessToken,
+        adminUserId: req.session.apsUserId,
+        allowDefaultCompany,
+      });
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, success, details)
+         VALUES ($1, $2, 'job_created', 'job', true, $3)`,
+        [
+          userId,
+          executionId,
+          JSON.stringify({
+            jobType: 'bulk_access_reconcile',
+            manifestId: request.source?.manifestId ?? null,
+            manifestVersion: request.source?.version ?? null,
+            userCount: userEmails.length,
+            projectCount: projectIds.length,
+            totalOperations: totalProjects,
+            ...plan.summary,
+            failedProjects: plan.failedProjects.length,
+            allowDefaultCompany,
+          }),
+        ]
+      );
+
+      logger.info('Reconcile job created', {
+        executionId,
+        userId,
+        manifestId: request.source?.manifestId,
+        ...plan.summary,
+      });
+
+      res.json({
+        executionId,
+        status: 'pending',
+        totalProjects,
+        summary: plan.summary,
+        failedProjects: plan.failedProjects,
+        message: 'Job queued successfully',
+      });
+    } catch (error) {
+      if (error instanceof ManifestError) {
+        res.status(400).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error('Failed to create reconcile job', { error });
+      res.status(500).json({ error: 'Failed to create reconcile job' });
+    }
+  }
+}
+
+export default new ReconcileController();
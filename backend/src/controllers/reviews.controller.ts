@@ -0,0 +1,572 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import accessReviewService, {
+  ReviewTarget,
+  toAccessReviewItem,
+} from '../services/reviews/access-review.service';
+import apsProjectsService from '../services/aps/projects.service';
+import membershipCacheService from '../services/cache/membership-cache.service';
+import projectGroupService from '../services/groups/project-group.service';
+import queueService from '../services/queue/queue.service';
+import apsAuthService from '../services/aps/auth.service';
+import { getDb, transaction } from '../db';
+import { decrypt, isValidEmail } from '../utils/helpers';
+import logger from '../utils/logger';
+import {
+  AccessReviewRequest,
+  ReviewDecision,
+  ReviewDecisionRequest,
+} from '../types';
+
+const REVIEW_DECISIONS: ReviewDecision[] = ['keep', 'revoke'];
+
+// Each project is listed from APS when the campaign starts
+const MAX_REVIEW_PROJECTS = 500;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a campaign request and pick each project's reviewer
+ * @returns Project IDs with lower-cased reviewer emails, or an error message
+ */
+async function validateReviewRequest(
+  body: AccessReviewRequest
+): Promise<{ reviewers: Map<string, string>; error: string | null }> {
+  const invalidRequest = (error: string) => ({ reviewers: new Map(), error });
+
+  if (!body.accountId) return invalidRequest('Account ID is required');
+  if (!body.name || !body.name.trim()) return invalidRequest('Campaign name is required');
+  if (body.dueDate && (!DATE_PATTERN.test(body.dueDate) || isNaN(Date.parse(body.dueDate)))) {
+    return invalidRequest('dueDate must be a date (YYYY-MM-DD)');
+  }
+
+  const { groups, missing } = await projectGroupService.expand(
+    body.accountId,
+    body.projectGroupIds ?? []
+  );
+  if (missing.length > 0) {
+    return invalidRequest(`Unknown project group ${missing.join(', ')}`);
+  }
+
+  const projectIds = [
+    ...new Set([...(body.projectIds ?? []), ...groups.flatMap((g) => g.projectIds)]),
+  ];
+  if (projectIds.length === 0) return invalidRequest('No projects selected');
+  if (projectIds.length > MAX_REVIEW_PROJECTS) {
+    return invalidRequest(`Cannot review more than ${MAX_REVIEW_PROJECTS} projects at once`);
+  }
+
+  const reviewers = new Map<string, string>();
+  const unassigned: string[] = [];
+  for (const projectId of projectIds) {
+    const email = (body.reviewers?.[projectId] || body.defaultReviewerEmail || '').trim();
+    if (!email) {
+      unassigned.push(projectId);
+      continue;
+    }
+    if (!isValidEmail(email)) return invalidRequest(`Invalid reviewer email ${email}`);
+    reviewers.set(projectId, email.toLowerCase());
+  }
+  if (unassigned.length > 0) {
+    return invalidRequest(`No reviewer for project ${unassigned.join(', ')}`);
+  }
+
+  return { reviewers, error: null };
+}
+
+/**
+ * Reviews Controller
+ * Handles access review campaigns: reviewers keep or revoke each snapshotted
+ * membership, and closing a campaign removes the revoked ones
+ */
+export class ReviewsController {
+  /**
+   * List campaigns for an account
+   * GET /api/reviews?accountId=xxx
+   */
+  async listCampaigns(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = req.query.accountId as string | undefined;
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      res.json({ campaigns: await accessReviewService.listCampaigns(accountId) });
+    } catch (error) {
+      logger.error('Failed to list review campaigns', { error });
+      res.status(500).json({ error: 'Failed to retrieve review campaigns' });
+    }
+  }
+
+  /**
+   * Get a campaign and its projects
+   * GET /api/reviews/:campaignId?accountId=xxx
+   */
+  async getCampaign(req: Request, res: Response): Promise<void> {
+    try {
+      const { campaignId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const campaign = await accessReviewService.getCampaign(accountId, campaignId);
+      if (!campaign) {
+        res.status(404).json({ error: 'Review campaign not found' });
+        return;
+      }
+
+      res.json({
+        ...campaign,
+        projects: await accessReviewService.getProjects(campaignId),
+      });
+    } catch (error) {
+      logger.error('Failed to get review campaign', { error });
+      res.status(500).json({ error: 'Failed to retrieve review campaign' });
+    }
+  }
+
+  /**
+   * Start a campaign from the current members of the selected projects
+   * POST /api/reviews
+   */
+  async createCampaign(req: Request, res: Response): Promise<void> {
+    try {
+      const body: AccessReviewRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const { reviewers, error } = await validateReviewRequest(body);
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      const projectIds = [...reviewers.keys()];
+      const projectNames = await membershipCacheService.getProjectNames(projectIds);
+      const targets: ReviewTarget[] = [];
+      for (const id of projectIds) {
+        targets.push({
+          id,
+          name:
+            projectNames.get(id) ??
+            (await apsProjectsService.getProject(accessToken, body.accountId, id)).name,
+          reviewerEmail: reviewers.get(id)!,
+        });
+      }
+
+      const { campaign, failedProjects } = await accessReviewService.create(
+        accessToken,
+        body.accountId,
+        {
+          name: body.name.trim(),
+          description: body.description || null,
+          dueDate: body.dueDate || null,
+        },
+        targets,
+        userId
+      );
+
+      if (!campaign) {
+        res.status(400).json({
+          error: 'Could not list the members of any selected project',
+          failedProjects,
+        });
+        return;
+      }
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, action, resource_type, resource_id, success, details)
+         VALUES ($1, 'review_campaign_created', 'review_campaign', $2, true, $3)`,
+        [
+          userId,
+          campaign.id,
+          JSON.stringify({
+            name: campaign.name,
+            projectCount: targets.length - failedProjects.length,
+            memberships: campaign.progress.total,
+            reviewers: [...new Set(reviewers.values())],
+            failedProjects: failedProjects.length,
+          }),
+        ]
+      );
+
+      logger.info('Review campaign created', {
+        campaignId: campaign.id,
+        userId,
+        accountId: body.accountId,
+        memberships: campaign.progress.total,
+      });
+
+      res.status(201).json({ ...campaign, failedProjects });
+    } catch (error) {
+      logger.error('Failed to create review campaign', { error });
+      res.status(500).json({ error: 'Failed to create review campaign' });
+    }
+  }
+
+  /**
+   * List the memberships of a campaign, optionally for one project
+   * GET /api/reviews/:campaignId/items?accountId=xxx&projectId=xxx
+   */
+  async listItems(req: Request, res: Response): Promise<void> {
+    try {
+      const { campaignId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const projectId = req.query.projectId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const campaign = await accessReviewService.getCampaign(accountId, campaignId);
+      if (!campaign) {
+        res.status(404).json({ error: 'Review campaign not found' });
+        return;
+      }
+
+      const result = await db.query(
+        `SELECT * FROM access_review_items
+         WHERE campaign_id = $1 AND ($2::text IS NULL OR project_id = $2)
+         ORDER BY project_id, user_email`,
+        [campaignId, projectId ?? null]
+      );
+
+      res.json({ campaignId, items: result.rows.map(toAccessReviewItem) });
+    } catch (error) {
+      logger.error('Failed to list review items', { error });
+      res.status(500).json({ error: 'Failed to retrieve review items' });
+    }
+  }
+
+  /**
+   * Keep or revoke memberships; decisions can change until the campaign closes
+   * Only a project's reviewer decides its memberships
+   * POST /api/reviews/:campaignId/decisions
+   */
+  async decide(req: Request, res: Response): Promise<void> {
+    try {
+      const { campaignId } = req.params;
+      const { accountId, decisions }: ReviewDecisionRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+      if (!Array.isArray(decisions) || decisions.length === 0) {
+        res.status(400).json({ error: 'No decisions provided' });
+        return;
+      }
+      const invalid = decisions.find(
+        (d) => !d?.itemId || !REVIEW_DECISIONS.includes(d.decision)
+      );
+      if (invalid) {
+        res.status(400).json({
+          error: `Each decision needs an itemId and one of ${REVIEW_DECISIONS.join(', ')}`,
+        });
+        return;
+      }
+
+      const campaign = await accessReviewService.getCampaign(accountId, campaignId);
+      if (!campaign) {
+        res.status(404).json({ error: 'Review campaign not found' });
+        return;
+      }
+      if (campaign.status !== 'open') {
+        res.status(409).json({ error: 'Review campaign is closed' });
+        return;
+      }
+
+      const userRow = await db.query('SELECT email FROM users WHERE id = $1', [userId]);
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      const reviewerEmail = userRow.rows[0].email.toLowerCase();
+
+      // Items of this campaign with the reviewer of their project
+      const itemIds = [...new Set(decisions.map((d) => d.itemId))];
+      const items = await db.query(
+        `SELECT i.id, i.project_id, i.user_email, i.decision, p.reviewer_email
+         FROM access_review_items i
+         JOIN access_review_projects p
+           ON p.campaign_id = i.campaign_id AND p.project_id = i.project_id
+         WHERE i.campaign_id = $1 AND i.id = ANY($2::uuid[])`,
+        [campaignId, itemIds]
+      );
+      const byId = new Map<string, any>(items.rows.map((r: any) => [r.id, r]));
+
+      const unknown = itemIds.filter((id) => !byId.has(id));
+      if (unknown.length > 0) {
+        res.status(404).json({ error: `Unknown review item ${unknown.join(', ')}` });
+        return;
+      }
+      const notReviewer = items.rows.filter(
+        (r: any) => r.reviewer_email.toLowerCase() !== reviewerEmail
+      );
+      if (notReviewer.length > 0) {
+        res.status(403).json({
+          error: 'Only the assigned reviewer can decide these memberships',
+          projectIds: [...new Set(notReviewer.map((r: any) => r.project_id))],
+        });
+        return;
+      }
+
+      for (const { itemId, decision, note } of decisions) {
+        const item = byId.get(itemId);
+
+        await db.query(
+          `UPDATE access_review_items
+           SET decision = $1, note = $2, decided_by = $3, decided_at = NOW()
+           WHERE id = $4`,
+          [decision, note?.trim() || null, userId, itemId]
+        );
+
+        // Audit log, one entry per decision
+        await db.query(
+          `INSERT INTO audit_logs
+           (user_id, action, resource_type, resource_id, success, details)
+           VALUES ($1, 'review_decision', 'review_item', $2, true, $3)`,
+          [
+            userId,
+            itemId,
+            JSON.stringify({
+              campaignId,
+              projectId: item.project_id,
+              email: item.user_email,
+              decision,
+              previousDecision: item.decision,
+              note: note?.trim() || null,
+            }),
+          ]
+        );
+      }
+
+      logger.info('Review decisions recorded', {
+        campaignId,
+        userId,
+        count: decisions.length,
+      });
+
+      res.json({
+        updated: decisions.length,
+        campaign: await accessReviewService.getCampaign(accountId, campaignId),
+      });
+    } catch (error) {
+      logger.error('Failed to record review decisions', { error });
+      res.status(500).json({ error: 'Failed to record review decisions' });
+    }
+  }
+
+  /**
+   * Close a campaign and remove the revoked memberships as one execution
+   * Undecided memberships are kept. Only the campaign's creator or an admin of
+   * its account may close it
+   * POST /api/reviews/:campaignId/close
+   */
+  async closeCampaign(req: Request, res: Response): Promise<void> {
+    try {
+      const { campaignId } = req.params;
+      const { accountId } = req.body as { accountId?: string };
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const campaign = await accessReviewService.getCampaign(accountId, campaignId);
+      if (!campaign) {
+        res.status(404).json({ error: 'Review campaign not found' });
+        return;
+      }
+      if (campaign.status !== 'open') {
+        res.status(409).json({ error: 'Review campaign is already closed' });
+        return;
+      }
+
+      // Get user's access token
+      const userRow = await db.query(
+        'SELECT aps_user_id, access_token_encrypted FROM users WHERE id = $1',
+        [userId]
+      );
+
+      if (userRow.rows.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      const accessToken = decrypt(userRow.rows[0].access_token_encrypted);
+
+      if (
+        campaign.createdBy !== userId &&
+        !(await apsAuthService.isAccountAdmin(
+          accessToken,
+          accountId,
+          userRow.rows[0].aps_user_id
+        ))
+      ) {
+        res.status(403).json({
+          error: 'Only the campaign creator or an account admin can close it',
+        });
+        return;
+      }
+
+      // Closing and creating the removal execution commit together; the
+      // status = 'open' guard lets only one request close the campaign
+      const closing = await transaction(async (client) => {
+        const closed = await client.query(
+          `UPDATE access_review_campaigns
+           SET status = 'closed', closed_by = $1, closed_at = NOW()
+           WHERE id = $2 AND status = 'open'`,
+          [userId, campaignId]
+        );
+        if (closed.rowCount === 0) {
+          return null;
+        }
+
+        const revoked = await accessReviewService.getRevoked(campaignId, client);
+        const userEmails = [...new Set(revoked.map((p) => p.email))];
+        const projectIds = [...new Set(revoked.map((p) => p.projectId))];
+        if (revoked.length === 0) {
+          return { pairs: revoked, userEmails, projectIds, executionId: null };
+        }
+
+        const removalExecutionId = uuidv4();
+        await client.query(
+          `INSERT INTO job_executions
+           (id, user_id, job_type, status, target_user_emails,
+            target_project_ids, total_projects, account_id, review_campaign_id)
+           VALUES ($1, $2, 'bulk_user_removal', 'pending', $3, $4, $5, $6, $7)`,
+          [
+            removalExecutionId,
+            userId,
+            userEmails,
+            projectIds,
+            revoked.length,
+            campaign.accountId,
+            campaignId,
+          ]
+        );
+
+        await client.query(
+          'UPDATE access_review_campaigns SET removal_execution_id = $1 WHERE id = $2',
+          [removalExecutionId, campaignId]
+        );
+
+        return { pairs: revoked, userEmails, projectIds, executionId: removalExecutionId };
+      });
+
+      if (!closing) {
+        res.status(409).json({ error: 'Review campaign is already closed' });
+        return;
+      }
+
+      const { pairs, userEmails, projectIds, executionId } = closing;
+
+      if (executionId) {
+        // Add job to queue; only the revoked pairs are removed
+        try {
+          await queueService.addBulkRemovalJob({
+            executionId,
+            userId,
+            accountId: campaign.accountId,
+            userEmails,
+            projectIds,
+            accessToken,
+            pairs,
+          });
+        } catch (error) {
+          // Reopen the campaign so closing it again queues the removal
+          await transaction(async (client) => {
+            await client.query(
+              `UPDATE access_review_campaigns
+               SET status = 'open', closed_by = NULL, closed_at = NULL, removal_execution_id = NULL
+               WHERE id = $1`,
+              [campaignId]
+            );
+            await client.query('DELETE FROM job_executions WHERE id = $1', [executionId]);
+          });
+          throw error;
+        }
+
+        await db.query(
+          `INSERT INTO audit_logs
+           (user_id, execution_id, action, resource_type, success, details)
+           VALUES ($1, $2, 'job_created', 'job', true, $3)`,
+          [
+            userId,
+            executionId,
+            JSON.stringify({
+              jobType: 'bulk_user_removal',
+              reviewCampaignId: campaignId,
+              userCount: userEmails.length,
+              projectCount: projectIds.length,
+              totalOperations: pairs.length,
+            }),
+          ]
+        );
+      }
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, resource_id, success, details)
+         VALUES ($1, $2, 'review_campaign_closed', 'review_campaign', $3, true, $4)`,
+        [
+          userId,
+          executionId,
+          campaignId,
+          JSON.stringify({
+            memberships: campaign.progress.total,
+            kept: campaign.progress.decided - campaign.progress.revoked,
+            revoked: pairs.length,
+            undecided: campaign.progress.total - campaign.progress.decided,
+          }),
+        ]
+      );
+
+      logger.info('Review campaign closed', {
+        campaignId,
+        userId,
+        executionId,
+        revoked: pairs.length,
+      });
+
+      res.json({
+        campaign: await accessReviewService.getCampaign(accountId, campaignId),
+        executionId,
+        revoked: pairs.length,
+        undecided: campaign.progress.total - campaign.progress.decided,
+      });
+    } catch (error) {
+      logger.error('Failed to close review campaign', { error });
+      res.status(500).json({ error: 'Failed to close review campaign' });
+    }
+  }
+}
+
+export default new ReviewsController();
@@ -0,0 +1,522 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import apsProjectsService from '../services/aps/projects.service';
+import queueService from '../services/queue/queue.service';
+import { getDb } from '../db';
+import {
+  getAccessLevel,
+  getValidAccessToken,
+  validateEmails,
+  validateProducts,
+} from '../utils/helpers';
+import logger from '../utils/logger';
+import {
+  APSProject,
+  ApplyTemplateRequest,
+  ProjectFilter,
+  RoleTemplate,
+  RoleTemplateRequest,
+} from '../types';
+
+/**
+ * Map a role_templates row to the API shape
+ */
+function toRoleTemplate(row: any): RoleTemplate {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    name: row.name,
+    description: row.description,
+    roleId: row.role_id,
+    roleName: row.role_name,
+    products: row.products || [],
+    projectFilter: row.project_filter,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Check a project against a template's project filter
+ * All filter fields that are set must match
+ */
+function matchesProjectFilter(project: APSProject, filter: ProjectFilter): boolean {
+  const cleanId = (id: string) => id.replace(/^b\./, '');
+
+  if (
+    filter.projectIds &&
+    filter.projectIds.length > 0 &&
+    !filter.projectIds.some((id) => cleanId(id) === cleanId(project.id))
+  ) {
+    return false;
+  }
+
+  if (
+    filter.nameContains &&
+    !project.name.toLowerCase().includes(filter.nameContains.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (
+    filter.platform &&
+    project.platform.toLowerCase() !== filter.platform.toLowerCase()
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate the body of a create/update request
+ * @returns Error message, or null if the request is valid
+ */
+function validateTemplateRequest(body: RoleTemplateRequest): string | null {
+  if (!body.accountId) return 'Account ID is required';
+  if (!body.name || !body.name.trim()) return 'Template name is required';
+  if (!body.roleId) return 'No role specified';
+
+  if (body.products !== undefined) {
+    if (!Array.isArray(body.products)) return 'Products must be an array';
+
+    const invalidProducts = validateProducts(body.products);
+    if (invalidProducts.length > 0) return invalidProducts.join('; ');
+  }
+
+  const filter = body.projectFilter;
+  if (filter) {
+    if (filter.projectIds !== undefined && !Array.isArray(filter.projectIds)) {
+      return 'Project filter projectIds must be an array';
+    }
+    if (
+      !filter.projectIds?.length &&
+      !filter.nameContains &&
+      !filter.platform
+    ) {
+      return 'Project filter must set projectIds, nameContains or platform';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Role Templates Controller
+ * Handles saved role/product/project bundles and applying them to users
+ */
+export class TemplatesController {
+  /**
+   * List templates for an account
+   * GET /api/templates?accountId=xxx
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        `SELECT * FROM role_templates
+         WHERE account_id = $1
+         ORDER BY name ASC`,
+        [accountId]
+      );
+
+      res.json({ templates: result.rows.map(toRoleTemplate) });
+    } catch (error) {
+      logger.error('Failed to list templates', { error });
+      res.status(500).json({ error: 'Failed to retrieve templates' });
+    }
+  }
+
+  /**
+   * Get a single template
+   * GET /api/templates/:templateId?accountId=xxx
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        'SELECT * FROM role_templates WHERE id = $1 AND account_id = $2',
+        [templateId, accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+
+      res.json(toRoleTemplate(result.rows[0]));
+    } catch (error) {
+      logger.error('Failed to get template', { error });
+      res.status(500).json({ error: 'Failed to retrieve template' });
+    }
+  }
+
+  /**
+   * Create a template
+   * POST /api/templates
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const body: RoleTemplateRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const validationError = validateTemplateRequest(body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const roleName = await this.resolveRoleName(req, res, body);
+      if (roleName === undefined) return;
+
+      const result = await db.query(
+        `INSERT INTO role_templates
+         (account_id, name, description, role_id, role_name, products,
+          project_filter, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          body.accountId,
+          body.name.trim(),
+          body.description || null,
+          body.roleId,
+          roleName,
+          JSON.stringify(body.products || []),
+          body.projectFilter ? JSON.stringify(body.projectFilter) : null,
+          userId,
+        ]
+      );
+
+      logger.info('Role template created', {
+        templateId: result.rows[0].id,
+        userId,
+        accountId: body.accountId,
+      });
+
+      res.status(201).json(toRoleTemplate(result.rows[0]));
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        res.status(409).json({ error: 'A template with this name already exists' });
+        return;
+      }
+      logger.error('Failed to create template', { error });
+      res.status(500).json({ error: 'Failed to create template' });
+    }
+  }
+
+  /**
+   * Replace a template's settings
+   * PUT /api/templates/:templateId
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const body: RoleTemplateRequest = req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      const validationError = validateTemplateRequest(body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const roleName = await this.resolveRoleName(req, res, body);
+      if (roleName === undefined) return;
+
+      const result = await db.query(
+        `UPDATE role_templates
+         SET name = $1,
+             description = $2,
+             role_id = $3,
+             role_name = $4,
+             products = $5,
+             project_filter = $6
+         WHERE id = $7 AND account_id = $8
+         RETURNING *`,
+        [
+          body.name.trim(),
+          body.description || null,
+          body.roleId,
+          roleName,
+          JSON.stringify(body.products || []),
+          body.projectFilter ? JSON.stringify(body.projectFilter) : null,
+          templateId,
+          body.accountId,
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+
+      logger.info('Role template updated', { templateId, userId });
+
+      res.json(toRoleTemplate(result.rows[0]));
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        res.status(409).json({ error: 'A template with this name already exists' });
+        return;
+      }
+      logger.error('Failed to update template', { error });
+      res.status(500).json({ error: 'Failed to update template' });
+    }
+  }
+
+  /**
+   * Delete a template
+   * DELETE /api/templates/:templateId?accountId=xxx
+   */
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const accountId = req.query.accountId as string | undefined;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      const result = await db.query(
+        'DELETE FROM role_templates WHERE id = $1 AND account_id = $2 RETURNING id',
+        [templateId, accountId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+
+      logger.info('Role template deleted', { templateId, userId });
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Failed to delete template', { error });
+      res.status(500).json({ error: 'Failed to delete template' });
+    }
+  }
+
+  /**
+   * Apply a template to a list of users
+   * Resolves the template's project filter and queues an assignment job
+   * POST /api/templates/:templateId/apply
+   */
+  async apply(req: Request, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const { accountId, userEmails, projectIds }: ApplyTemplateRequest =
+        req.body;
+      const userId = req.session.userId!;
+      const db = getDb();
+
+      // Validate inputs
+      if (!accountId) {
+        res.status(400).json({ error: 'Account ID is required' });
+        return;
+      }
+
+      if (!userEmails || userEmails.length === 0) {
+        res.status(400).json({ error: 'No user emails provided' });
+        return;
+      }
+
+      const { valid, invalid } = validateEmails(userEmails);
+
+      if (invalid.length > 0) {
+        res.status(400).json({
+          error: 'Invalid email addresses',
+          invalidEmails: invalid,
+        });
+        return;
+      }
+
+      const templateRow = await db.query(
+        'SELECT * FROM role_templates WHERE id = $1 AND account_id = $2',
+        [templateId, accountId]
+      );
+
+      if (templateRow.rows.length === 0) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+
+      const template = toRoleTemplate(templateRow.rows[0]);
+
+      let accessToken: string;
+      try {
+        accessToken = (await getValidAccessToken(db, userId)).accessToken;
+      } catch (tokenError) {
+        logger.error('Token error in apply template', {
+          userId,
+          error: tokenError instanceof Error ? tokenError.message : String(tokenError),
+        });
+        res.status(401).json({ error: 'Session expired. Please log in again.' });
+        return;
+      }
+
+      // Explicit projects win; otherwise resolve the template's filter
+      let targetProjectIds: string[];
+      if (projectIds && projectIds.length > 0) {
+        targetProjectIds = projectIds;
+      } else if (template.projectFilter) {
+        const projects = await apsProjectsService.getProjects(
+          accessToken,
+          accountId
+        );
+        targetProjectIds = projects
+          .filter((p) => matchesProjectFilter(p, template.projectFilter!))
+          .map((p) => p.id);
+      } else {
+        targetProjectIds = [];
+      }
+
+      if (targetProjectIds.length === 0) {
+        res.status(400).json({
+          error: template.projectFilter
+            ? 'No projects match the template filter'
+            : 'No projects selected',
+        });
+        return;
+      }
+
+      // Create job execution record
+      const executionId = uuidv4();
+      const totalProjects = targetProjectIds.length * valid.length;
+
+      // Templates that grant Project Administration apply as admin
+      const accessLevel = getAccessLevel(template.products);
+
+      await db.query(
+        `INSERT INTO job_executions
+         (id, user_id, job_type, status, target_user_emails,
+          target_project_ids, assigned_role, assigned_roles, role_mode,
+          total_projects, template_id, access_level, products, account_id)
+         VALUES ($1, $2, 'bulk_user_assignment', 'pending', $3, $4, $5, $6, 'replace', $7, $8, $9, $10, $11)`,
+        [
+          executionId,
+          userId,
+          valid,
+          targetProjectIds,
+          template.roleId,
+          [template.roleId],
+          totalProjects,
+          template.id,
+          accessLevel,
+          JSON.stringify(template.products),
+          accountId,
+        ]
+      );
+
+      // Add job to queue
+      await queueService.addBulkAssignmentJob({
+        executionId,
+        userId,
+        accountId,
+        userEmails: valid,
+        projectIds: targetProjectIds,
+        roles: [template.roleId],
+        roleMode: 'replace',
+        accessToken,
+        adminUserId: req.session.apsUserId,
+        accessLevel,
+        products: template.products,
+      });
+
+      // Audit log
+      await db.query(
+        `INSERT INTO audit_logs
+         (user_id, execution_id, action, resource_type, success, details)
+         VALUES ($1, $2, 'job_created', 'job', true, $3)`,
+        [
+          userId,
+          executionId,
+          JSON.stringify({
+            templateId: template.id,
+            templateName: template.name,
+            userCount: valid.length,
+            projectCount: targetProjectIds.length,
+            totalOperations: totalProjects,
+          }),
+        ]
+      );
+
+      logger.info('Template assignment job created', {
+        executionId,
+        templateId: template.id,
+        userId,
+        userCount: valid.length,
+        projectCount: targetProjectIds.length,
+      });
+
+      res.json({
+        executionId,
+        status: 'pending',
+        totalProjects,
+        message: 'Job queued successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to apply template', { error });
+      res.status(500).json({ error: 'Failed to apply template' });
+    }
+  }
+
+  /**
+   * Look up the template's role in the account roles list
+   * Sends the error response and returns undefined if the role can't be resolved
+   */
+  private async resolveRoleName(
+    req: Request,
+    res: Response,
+    body: RoleTemplateRequest
+  ): Promise<string | undefined> {
+    const db = getDb();
+
+    let accessToken: string;
+    try {
+      accessToken = (await getValidAccessToken(db, req.session.userId!))
+        .accessToken;
+    } catch (tokenError) {
+      logger.error('Token error in template role lookup', {
+        userId: req.session.userId,
+        error: tokenError instanceof Error ? tokenError.message : String(tokenError),
+      });
+      res.status(401).json({ error: 'Session expired. Please log in again.' });
+      return undefined;
+    }
+
+    const roles = await apsProjectsService.getAccountRoles(
+      accessToken,
+      body.accountId
+    );
+    const role = roles.find((r) => r.id === body.roleId);
+
+    if (!role) {
+      res.status(400).json({ error: 'Role not found in account roles' });
+      return undefined;
+    }
+
+    return role.name;
+  }
+}
+
+export default new TemplatesController();
@@ -0,0 +1,249 @@
+import { ProductAccess } from '../types';
+
+/**
+ * In-memory data behind the mock APS server
+ * IDs follow APS conventions: account and project IDs are UUIDs without
+ * the "b." prefix the Data Management API adds
+ */
+
+export type MockPlatform = 'acc' | 'bim360';
+
+export interface MockAccountUser {
+  id: string;
+  uid: string; // Autodesk ID
+  email: string;
+  name: string;
+  firstName?: string;
+  lastName?: string;
+  jobTitle?: string;
+  status: 'active' | 'pending' | 'inactive';
+  role: 'account_admin' | 'account_user';
+  companyId?: string;
+}
+
+export interface MockProjectMember {
+  userId: string;
+  roleIds: string[];
+  products: ProductAccess[];
+}
+
+export interface MockProject {
+  id: string;
+  name: string;
+  platform: MockPlatform;
+  classification: 'production' | 'template' | 'component' | 'sample';
+  status: 'active' | 'pending' | 'archived' | 'suspended';
+  jobNumber?: string;
+  city?: string;
+  stateOrProvince?: string;
+  country?: string;
+  businessUnitId?: string;
+  currentPhase?: string;
+  constructionType?: string;
+  startDate?: string;
+  endDate?: string;
+  members: MockProjectMember[];
+}
+
+export interface MockCompany {
+  id: string;
+  name: string;
+}
+
+export interface MockRole {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/**
+ * A forced response for matching requests
+ * Faults are checked before routing; each use counts down `times`
+ */
+export interface MockFault {
+  method?: string; // Any method when omitted
+  path: string; // Matches when the request path contains it
+  status: number;
+  retryAfter?: number; // Seconds, sent as Retry-After (429 only)
+  body?: unknown;
+  times?: number; // Unlimited when omitted
+}
+
+export interface MockApsState {
+  accountId: string;
+  accountName: string;
+  region: string;
+  adminUserId: string; // Account user returned by the user profile endpoint
+  users: MockAccountUser[];
+  companies: MockCompany[];
+  roles: MockRole[];
+  businessUnits: MockCompany[];
+  projects: MockProject[];
+  importFailures: string[]; // Emails the BIM 360 import endpoint rejects
+  faults: MockFault[];
+  pageSize: number; // Data Management project page size
+  requestLog: Array<{ method: string; path: string }>;
+}
+
+export const MOCK_ACCOUNT_ID = '8f3c1c2e-6a1d-4c3e-9b1f-0a2b3c4d5e6f';
+
+const ROLE_IDS = {
+  projectManager: '11111111-1111-4111-8111-111111111111',
+  architect: '22222222-2222-4222-8222-222222222222',
+  engineer: '33333333-3333-4333-8333-333333333333',
+};
+
+const COMPANY_IDS = {
+  builders: 'c0000000-0000-4000-8000-000000000001',
+  design: 'c0000000-0000-4000-8000-000000000002',
+};
+
+const DOCS_USER: ProductAccess[] = [{ key: 'docs', access: 'member' }];
+
+/**
+ * Create a fresh copy of the seed data
+ * One account with ACC and BIM 360 projects, a template and an archived
+ * project, two companies, three roles and a handful of members
+ */
+export function createMockApsState(): MockApsState {
+  const users: MockAccountUser[] = [
+    {
+      id: 'a0000000-0000-4000-8000-000000000001',
+      uid: 'MOCKADMIN01',
+      email: 'admin@example.com',
+      name: 'Alex Admin',
+      firstName: 'Alex',
+      lastName: 'Admin',
+      status: 'active',
+      role: 'account_admin',
+      companyId: COMPANY_IDS.builders,
+    },
+    {
+      id: 'a0000000-0000-4000-8000-000000000002',
+      uid: 'MOCKUSER02',
+      email: 'pat.manager@example.com',
+      name: 'Pat Manager',
+      firstName: 'Pat',
+      lastName: 'Manager',
+      status: 'active',
+      role: 'account_user',
+      companyId: COMPANY_IDS.builders,
+    },
+    {
+      id: 'a0000000-0000-4000-8000-000000000003',
+      uid: 'MOCKUSER03',
+      email: 'sam.architect@design.example',
+      name: 'Sam Architect',
+      firstName: 'Sam',
+      lastName: 'Architect',
+      status: 'active',
+      role: 'account_user',
+      companyId: COMPANY_IDS.design,
+    },
+    {
+      id: 'a0000000-0000-4000-8000-000000000004',
+      uid: 'MOCKUSER04',
+      email: 'no.company@example.com',
+      name: 'Nico Company',
+      status: 'pending',
+      role: 'account_user',
+    },
+  ];
+
+  return {
+    accountId: MOCK_ACCOUNT_ID,
+    accountName: 'Mock Construction Co',
+    region: 'US',
+    adminUserId: users[0].id,
+    users,
+    companies: [
+      { id: COMPANY_IDS.builders, name: 'Example Builders' },
+      { id: COMPANY_IDS.design, name: 'Design Partners' },
+    ],
+    roles: [
+      { id: ROLE_IDS.projectManager, name: 'Project Manager' },
+      { id: ROLE_IDS.architect, name: 'Architect' },
+      { id: ROLE_IDS.engineer, name: 'Engineer' },
+    ],
+    businessUnits: [
+      { id: 'bu000000-0000-4000-8000-000000000001', name: 'West' },
+      { id: 'bu000000-0000-4000-8000-000000000002', name: 'East' },
+    ],
+    projects: [
+      {
+        id: 'p0000000-0000-4000-8000-000000000001',
+        name: 'Harbor Tower',
+        platform: 'acc',
+        classification: 'production',
+        status: 'active',
+        jobNumber: 'HT-100',
+        city: 'Seattle',
+        stateOrProvince: 'WA',
+        country: 'United States',
+        businessUnitId: 'bu000000-0000-4000-8000-000000000001',
+        currentPhase: 'Construction',
+        constructionType: 'New Construction',
+        startDate: '2026-01-05',
+        endDate: '2027-06-30',
+        members: [
+          { userId: users[0].id, roleIds: [ROLE_IDS.projectManager], products: DOCS_USER },
+          { userId: users[1].id, roleIds: [ROLE_IDS.projectManager], products: DOCS_USER },
+        ],
+      },
+      {
+        id: 'p0000000-0000-4000-8000-000000000002',
+        name: 'Riverside Clinic',
+        platform: 'acc',
+        classification: 'production',
+        status: 'active',
+        jobNumber: 'RC-200',
+        city: 'Portland',
+        stateOrProvince: 'OR',
+        country: 'United States',
+        businessUnitId: 'bu000000-0000-4000-8000-000000000001',
+        currentPhase: 'Design',
+        startDate: '2026-09-01',
+        endDate: '2028-03-31',
+        members: [
+          { userId: users[2].id, roleIds: [ROLE_IDS.architect], products: DOCS_USER },
+        ],
+      },
+      {
+        id: 'p0000000-0000-4000-8000-000000000003',
+        name: 'Legacy Warehouse',
+        platform: 'bim360',
+        classification: 'production',
+        status: 'active',
+        jobNumber: 'LW-300',
+        city: 'Boston',
+        stateOrProvince: 'MA',
+        country: 'United States',
+        businessUnitId: 'bu000000-0000-4000-8000-000000000002',
+        currentPhase: 'Closeout',
+        members: [],
+      },
+      {
+        id: 'p0000000-0000-4000-8000-000000000004',
+        name: 'Standard Project Template',
+        platform: 'acc',
+        classification: 'template',
+        status: 'active',
+        members: [],
+      },
+      {
+        id: 'p0000000-0000-4000-8000-000000000005',
+        name: 'Old Depot',
+        platform: 'acc',
+        classification: 'production',
+        status: 'archived',
+        city: 'Boston',
+        businessUnitId: 'bu000000-0000-4000-8000-000000000002',
+        members: [],
+      },
+    ],
+    importFailures: [],
+    faults: [],
+    pageSize: 2,
+    requestLog: [],
+  };
+}
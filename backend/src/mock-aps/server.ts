@@ -0,0 +1,567 @@
+import express, { Application, NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
+import {
+  createMockApsState,
+  MockAccountUser,
+  MockApsState,
+  MockFault,
+  MockProject,
+  MockProjectMember,
+} from './fixtures';
+import logger from '../utils/logger';
+
+/**
+ * Mock APS Server
+ * Stands in for developer.api.autodesk.com so the app can run offline:
+ * point APS_BASE_URL at it and sign in, list projects and assign users
+ * against the seed data in ./fixtures
+ *
+ * Control endpoints under /__mock inspect and reset the state and inject
+ * faults (429 with Retry-After, 5xx, import failures)
+ */
+
+// APS error body; the projects service reads errors[].detail first
+function sendError(res: Response, status: number, detail: string, code?: string): void {
+  res.status(status).json({ code, errors: [{ code, title: detail, detail }] });
+}
+
+// limit/offset paging as used by the HQ and ACC Admin APIs
+function paginate<T>(items: T[], req: Request, defaultLimit = 100): { page: T[]; limit: number; offset: number } {
+  const limit = parseInt(String(req.query.limit ?? defaultLimit), 10) || defaultLimit;
+  const offset = parseInt(String(req.query.offset ?? 0), 10) || 0;
+  return { page: items.slice(offset, offset + limit), limit, offset };
+}
+
+function stripPrefix(id: string): string {
+  return id.replace(/^b\./, '');
+}
+
+function toHqUser(state: MockApsState, u: MockAccountUser) {
+  return {
+    id: u.id,
+    uid: u.uid,
+    email: u.email,
+    name: u.name,
+    first_name: u.firstName,
+    last_name: u.lastName,
+    job_title: u.jobTitle,
+    status: u.status,
+    role: u.role,
+    company_id: u.companyId,
+    company_name: state.companies.find((c) => c.id === u.companyId)?.name,
+  };
+}
+
+function toAdminProjectUser(state: MockApsState, m: MockProjectMember) {
+  const u = state.users.find((user) => user.id === m.userId)!;
+  return {
+    id: u.id,
+    email: u.email,
+    name: u.name,
+    firstName: u.firstName,
+    lastName: u.lastName,
+    autodeskId: u.uid,
+    companyId: u.companyId,
+    companyName: state.companies.find((c) => c.id === u.companyId)?.name,
+    roleIds: m.roleIds,
+    roles: m.roleIds.map((id) => ({
+      id,
+      name: state.roles.find((r) => r.id === id)?.name ?? id,
+    })),
+    accessLevels: {
+      accountAdmin: u.role === 'account_admin',
+      projectAdmin: m.products.some(
+        (p) => p.key === 'projectAdministration' && p.access === 'administrator'
+      ),
+    },
+    products: m.products,
+  };
+}
+
+function toDmProject(p: MockProject) {
+  return {
+    type: 'projects',
+    id: `b.${p.id}`,
+    attributes: {
+      name: p.name,
+      scopes: ['b360project.' + p.id],
+      extension: { data: { projectType: p.platform === 'bim360' ? 'BIM360' : 'ACC' } },
+    },
+  };
+}
+
+function toAdminProject(state: MockApsState, p: MockProject) {
+  return {
+    id: p.id,
+    accountId: state.accountId,
+    name: p.name,
+    platform: p.platform,
+    classification: p.classification,
+    status: p.status,
+    jobNumber: p.jobNumber ?? null,
+    city: p.city ?? null,
+    stateOrProvince: p.stateOrProvince ?? null,
+    country: p.country ?? null,
+    businessUnitId: p.businessUnitId ?? null,
+    currentPhase: p.currentPhase ?? null,
+    constructionType: p.constructionType ?? null,
+    startDate: p.startDate ?? null,
+    endDate: p.endDate ?? null,
+  };
+}
+
+// Create an account user the way ACC does when an unknown email is added
+function addAccountUser(
+  state: MockApsState,
+  email: string,
+  details: { companyId?: string; firstName?: string; lastName?: string; jobTitle?: string }
+): MockAccountUser {
+  const user: MockAccountUser = {
+    id: crypto.randomUUID(),
+    uid: crypto.randomBytes(6).toString('hex').toUpperCase(),
+    email,
+    name: [details.firstName, details.lastName].filter(Boolean).join(' ') || email,
+    firstName: details.firstName,
+    lastName: details.lastName,
+    jobTitle: details.jobTitle,
+    status: 'pending',
+    role: 'account_user',
+    companyId: details.companyId,
+  };
+  state.users.push(user);
+  return user;
+}
+
+function findUserByEmail(state: MockApsState, email: string): MockAccountUser | undefined {
+  return state.users.find((u) => u.email.toLowerCase() === String(email).toLowerCase());
+}
+
+/**
+ * Create the mock server
+ * @param state - Data to serve; a fresh copy of the seed data by default
+ * @returns Express app; its current state is on app.locals.state
+ */
+export function createMockApsServer(state: MockApsState = createMockApsState()): Application {
+  const app = express();
+  app.locals.state = state;
+  const current = (): MockApsState => app.locals.state as MockApsState;
+
+  app.use(express.json({ limit: '5mb' }));
+  app.use(express.urlencoded({ extended: true }));
+
+  // ==========================================================================
+  // Control endpoints (not part of APS)
+  // ==========================================================================
+
+  app.get('/__mock/state', (_req, res) => {
+    res.json(current());
+  });
+
+  app.post('/__mock/reset', (_req, res) => {
+    app.locals.state = createMockApsState();
+    res.json({ success: true });
+  });
+
+  app.post('/__mock/faults', (req, res) => {
+    const faults: MockFault[] = Array.isArray(req.body) ? req.body : [req.body];
+    if (faults.some((f) => !f || !f.path || !f.status)) {
+      res.status(400).json({ error: 'Faults need a path and a status' });
+      return;
+    }
+    current().faults.push(...faults);
+    res.status(201).json({ faults: current().faults });
+  });
+
+  app.delete('/__mock/faults', (_req, res) => {
+    current().faults = [];
+    res.json({ success: true });
+  });
+
+  app.put('/__mock/import-failures', (req, res) => {
+    current().importFailures = (req.body?.emails || []).map((e: string) => e.toLowerCase());
+    res.json({ importFailures: current().importFailures });
+  });
+
+  // ==========================================================================
+  // Request log, fault injection and bearer token check
+  // ==========================================================================
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const s = current();
+    s.requestLog.push({ method: req.method, path: req.path });
+
+    const fault = s.faults.find(
+      (f) =>
+        (!f.method || f.method.toUpperCase() === req.method) &&
+        req.path.includes(f.path) &&
+        (f.times === undefined || f.times > 0)
+    );
+    if (fault) {
+      if (fault.times !== undefined) fault.times--;
+      if (fault.status === 429) {
+        res.setHeader('Retry-After', String(fault.retryAfter ?? 1));
+      }
+      res.setHeader('x-ads-request-id', crypto.randomUUID());
+      res.status(fault.status).json(
+        fault.body ?? {
+          errors: [{ title: fault.status === 429 ? 'Too Many Requests' : 'Mock fault', detail: `Injected ${fault.status}` }],
+        }
+      );
+      return;
+    }
+
+    if (!req.path.startsWith('/authentication/') && !req.headers.authorization?.startsWith('Bearer ')) {
+      sendError(res, 401, 'The Authorization header is missing or invalid', 'AUTH-001');
+      return;
+    }
+
+    next();
+  });
+
+  // Every account-scoped route checks the account exists
+  app.param('accountId', (_req, res, next, accountId: string) => {
+    if (accountId !== current().accountId) {
+      sendError(res, 404, `Account ${accountId} not found`, 'ERR_NOT_FOUND');
+      return;
+    }
+    next();
+  });
+
+  app.param('hubId', (_req, res, next, hubId: string) => {
+    if (hubId !== `b.${current().accountId}`) {
+      sendError(res, 404, `Hub ${hubId} not found`, 'ERR_NOT_FOUND');
+      return;
+    }
+    next();
+  });
+
+  app.param('projectId', (_req, res, next, projectId: string) => {
+    const project = current().projects.find((p) => p.id === stripPrefix(projectId));
+    if (!project) {
+      sendError(res, 404, `Project ${projectId} not found`, 'ERR_NOT_FOUND');
+      return;
+    }
+    res.locals.project = project;
+    next();
+  });
+
+  // ==========================================================================
+  // Authentication
+  // ==========================================================================
+
+  // Signs in as the account admin straight away
+  app.get('/authentication/v2/authorize', (req, res) => {
+    const redirect = new URL(String(req.query.redirect_uri));
+    redirect.searchParams.set('code', 'mock-authorization-code');
+    if (req.query.state) redirect.searchParams.set('state', String(req.query.state));
+    res.redirect(redirect.toString());
+  });
+
+  app.post('/authentication/v2/token', (req, res) => {
+    const grantType = req.body?.grant_type;
+    if (!['authorization_code', 'refresh_token', 'client_credentials'].includes(grantType)) {
+      res.status(400).json({ error: 'unsupported_grant_type' });
+      return;
+    }
+    res.json({
+      access_token: `mock-${grantType}-${crypto.randomBytes(8).toString('hex')}`,
+      refresh_token: grantType === 'client_credentials' ? undefined : 'mock-refresh-token',
+      expires_in: 3600,
+      token_type: 'Bearer',
+    });
+  });
+
+  app.post('/authentication/v2/revoke', (_req, res) => {
+    res.status(200).end();
+  });
+
+  app.get('/userprofile/v1/users/@me', (_req, res) => {
+    const s = current();
+    const admin = s.users.find((u) => u.id === s.adminUserId)!;
+    res.json({
+      userId: admin.uid,
+      userName: admin.email.split('@')[0],
+      emailId: admin.email,
+      firstName: admin.firstName,
+      lastName: admin.lastName,
+      emailVerified: true,
+      '2FaEnabled': false,
+      countryCode: s.region,
+    });
+  });
+
+  // ==========================================================================
+  // Data Management: hubs and projects
+  // ==========================================================================
+
+  app.get('/project/v1/hubs', (_req, res) => {
+    const s = current();
+    res.json({
+      data: [
+        { type: 'hubs', id: `b.${s.accountId}`, attributes: { name: s.accountName, region: s.region } },
+        // Non-ACC hubs are filtered out by the app
+        { type: 'hubs', id: 'a.fusion-team-hub', attributes: { name: 'Fusion Team', region: s.region } },
+      ],
+    });
+  });
+
+  // Pages with page[number]/page[limit] and an absolute links.next.href, like APS
+  app.get('/project/v1/hubs/:hubId/projects', (req, res) => {
+    const s = current();
+    const pageNumber = parseInt(String((req.query.page as any)?.number ?? 0), 10) || 0;
+    const pageLimit = parseInt(String((req.query.page as any)?.limit ?? s.pageSize), 10) || s.pageSize;
+    const start = pageNumber * pageLimit;
+    const data = s.projects.slice(start, start + pageLimit).map(toDmProject);
+
+    const links: { self: { href: string }; next?: { href: string } } = {
+      self: { href: `${req.protocol}://${req.get('host')}${req.originalUrl}` },
+    };
+    if (start + pageLimit < s.projects.length) {
+      const next = new URL(`${req.protocol}://${req.get('host')}${req.originalUrl}`);
+      next.search = '';
+      next.searchParams.set('page[number]', String(pageNumber + 1));
+      next.searchParams.set('page[limit]', String(pageLimit));
+      links.next = { href: next.toString() };
+    }
+
+    res.json({ jsonapi: { version: '1.0' }, links, data });
+  });
+
+  app.get('/project/v1/hubs/:hubId/projects/:projectId', (_req, res) => {
+    res.json({ jsonapi: { version: '1.0' }, data: toDmProject(res.locals.project) });
+  });
+
+  // ==========================================================================
+  // HQ API: account users, companies, roles, business units
+  // ==========================================================================
+
+  app.get('/hq/v1/accounts/:accountId/users', (req, res) => {
+    const s = current();
+    const { page } = paginate(s.users, req);
+    res.json(page.map((u) => toHqUser(s, u)));
+  });
+
+  app.post('/hq/v1/accounts/:accountId/users', (req, res) => {
+    const s = current();
+    const { email, company_id, first_name, last_name, job_title } = req.body || {};
+    if (!email) {
+      sendError(res, 400, 'email is required', 'ERR_BAD_INPUT');
+      return;
+    }
+    if (!company_id || !s.companies.some((c) => c.id === company_id)) {
+      sendError(res, 400, `company_id ${company_id} is not a company of this account`, 'ERR_BAD_INPUT');
+      return;
+    }
+    if (findUserByEmail(s, email)) {
+      sendError(res, 409, `${email} is already a member of this account`, 'ERR_CONFLICT');
+      return;
+    }
+    const user = addAccountUser(s, email, {
+      companyId: company_id,
+      firstName: first_name,
+      lastName: last_name,
+      jobTitle: job_title,
+    });
+    res.status(201).json(toHqUser(s, user));
+  });
+
+  // The app passes the Autodesk ID from the user profile
+  app.get('/hq/v1/accounts/:accountId/users/:userId', (req, res) => {
+    const s = current();
+    const user = s.users.find((u) => u.id === req.params.userId || u.uid === req.params.userId);
+    if (!user) {
+      sendError(res, 404, `User ${req.params.userId} not found`, 'ERR_NOT_FOUND');
+      return;
+    }
+    res.json(toHqUser(s, user));
+  });
+
+  app.get('/hq/v1/accounts/:accountId/companies', (req, res) => {
+    const { page } = paginate(current().companies, req);
+    res.json(page.map((c) => ({ id: c.id, name: c.name, account_id: current().accountId })));
+  });
+
+  app.get('/hq/v1/accounts/:accountId/industry_roles', (_req, res) => {
+    res.json(current().roles);
+  });
+
+  app.get('/hq/v1/accounts/:accountId/projects/:projectId/industry_roles', (_req, res) => {
+    res.json(current().roles.map((r) => ({ ...r, project_id: res.locals.project.id })));
+  });
+
+  app.get('/hq/v1/accounts/:accountId/business_units_structure', (_req, res) => {
+    res.json({ business_units: current().businessUnits });
+  });
+
+  // ==========================================================================
+  // ACC Admin API: projects and project users
+  // ==========================================================================
+
+  app.get('/construction/admin/v1/accounts/:accountId/projects', (req, res) => {
+    const s = current();
+    const { page, limit, offset } = paginate(s.projects, req, 20);
+    res.json({
+      pagination: { limit, offset, totalResults: s.projects.length },
+      results: page.map((p) => toAdminProject(s, p)),
+    });
+  });
+
+  app.get('/construction/admin/v1/projects/:projectId/users', (req, res) => {
+    const s = current();
+    const project: MockProject = res.locals.project;
+    const { page, limit, offset } = paginate(project.members, req, 20);
+    res.json({
+      pagination: { limit, offset, totalResults: project.members.length },
+      results: page.map((m) => toAdminProjectUser(s, m)),
+    });
+  });
+
+  // Rejects BIM 360 projects, so the app falls back to the HQ import endpoint
+  app.post('/construction/admin/v1/projects/:projectId/users', (req, res) => {
+    const s = current();
+    const project: MockProject = res.locals.project;
+    const { email, roleIds, products, companyId } = req.body || {};
+
+    if (project.platform === 'bim360') {
+      sendError(res, 400, 'This endpoint requires the project platform to be ACC', 'ERR_BAD_INPUT');
+      return;
+    }
+    if (!email) {
+      sendError(res, 400, 'email is required', 'ERR_BAD_INPUT');
+      return;
+    }
+    const unknownRole = (roleIds || []).find((id: string) => !s.roles.some((r) => r.id === id));
+    if (unknownRole) {
+      sendError(res, 400, `Role ${unknownRole} does not exist`, 'ERR_BAD_INPUT');
+      return;
+    }
+
+    const user = findUserByEmail(s, email) ?? addAccountUser(s, email, { companyId });
+    if (project.members.some((m) => m.userId === user.id)) {
+      sendError(res, 409, `${email} is already a member of this project`, 'ERR_CONFLICT');
+      return;
+    }
+
+    const member: MockProjectMember = { userId: user.id, roleIds: roleIds || [], products: products || [] };
+    project.members.push(member);
+    res.status(201).json(toAdminProjectUser(s, member));
+  });
+
+  app.patch('/construction/admin/v1/projects/:projectId/users/:userId', (req, res) => {
+    const s = current();
+    const project: MockProject = res.locals.project;
+    const member = project.members.find((m) => m.userId === req.params.userId);
+    if (!member) {
+      sendError(res, 404, `User ${req.params.userId} is not a member of this project`, 'ERR_NOT_FOUND');
+      return;
+    }
+    if (req.body?.roleIds) member.roleIds = req.body.roleIds;
+    if (req.body?.products) {
+      const access = new Map(member.products.map((p) => [p.key, p.access]));
+      for (const p of req.body.products) access.set(p.key, p.access);
+      member.products = Array.from(access.entries()).map(([key, value]) => ({ key, access: value }));
+    }
+    res.json(toAdminProjectUser(s, member));
+  });
+
+  app.delete('/construction/admin/v1/projects/:projectId/users/:userId', (req, res) => {
+    const project: MockProject = res.locals.project;
+    if (project.platform === 'bim360') {
+      sendError(res, 400, 'This endpoint requires the project platform to be ACC', 'ERR_BAD_INPUT');
+      return;
+    }
+    const before = project.members.length;
+    project.members = project.members.filter((m) => m.userId !== req.params.userId);
+    if (project.members.length === before) {
+      sendError(res, 404, `User ${req.params.userId} is not a member of this project`, 'ERR_NOT_FOUND');
+      return;
+    }
+    res.status(204).end();
+  });
+
+  // ==========================================================================
+  // BIM 360 HQ API: project user import and removal
+  // ==========================================================================
+
+  // success/failure are counts; the items carry the details
+  app.post('/hq/v2/accounts/:accountId/projects/:projectId/users/import', (req, res) => {
+    const s = current();
+    const project: MockProject = res.locals.project;
+
+    if (!req.headers['x-user-id']) {
+      sendError(res, 400, 'x-user-id header is required for 2-legged requests', 'ERR_BAD_INPUT');
+      return;
+    }
+    if (!Array.isArray(req.body)) {
+      sendError(res, 400, 'Request body must be an array of users', 'ERR_BAD_INPUT');
+      return;
+    }
+
+    const successItems: unknown[] = [];
+    const failureItems: unknown[] = [];
+
+    for (const item of req.body) {
+      const email = String(item?.email || '');
+      const fail = (code: string, message: string) =>
+        failureItems.push({ email, errors: [{ code, message }] });
+
+      if (!email) {
+        fail('1001', 'email is required');
+      } else if (s.importFailures.includes(email.toLowerCase())) {
+        fail('2004', `${email} could not be imported`);
+      } else if (!s.companies.some((c) => c.id === item.company_id)) {
+        fail('1004', `company_id ${item.company_id} is not valid`);
+      } else if ((item.industry_roles || []).some((id: string) => !s.roles.some((r) => r.id === id))) {
+        fail('1006', 'industry_roles contains an unknown role');
+      } else {
+        const user = findUserByEmail(s, email) ?? addAccountUser(s, email, { companyId: item.company_id });
+        if (!project.members.some((m) => m.userId === user.id)) {
+          const admin = item.services?.project_administration?.access_level === 'admin';
+          const docs = item.services?.document_management?.access_level === 'admin' ? 'administrator' : 'member';
+          project.members.push({
+            userId: user.id,
+            roleIds: item.industry_roles || [],
+            products: [
+              { key: 'projectAdministration', access: admin ? 'administrator' : 'none' },
+              { key: 'docs', access: docs },
+            ],
+          });
+        }
+        successItems.push({ email, user_id: user.id, project_id: project.id, account_id: s.accountId });
+      }
+    }
+
+    res.json({
+      success: successItems.length,
+      failure: failureItems.length,
+      success_items: successItems,
+      failure_items: failureItems,
+    });
+  });
+
+  app.delete('/hq/v1/accounts/:accountId/projects/:projectId/users/:userId', (req, res) => {
+    const project: MockProject = res.locals.project;
+    const before = project.members.length;
+    project.members = project.members.filter((m) => m.userId !== req.params.userId);
+    if (project.members.length === before) {
+      sendError(res, 404, `User ${req.params.userId} is not a member of this project`, 'ERR_NOT_FOUND');
+      return;
+    }
+    res.status(204).end();
+  });
+
+  app.use((req: Request, res: Response) => {
+    sendError(res, 404, `No mock for ${req.method} ${req.path}`, 'ERR_NOT_FOUND');
+  });
+
+  return app;
+}
+
+// Run standalone: npm run mock:aps
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_APS_PORT || '4010', 10);
+  createMockApsServer().listen(port, () => {
+    logger.info(`Mock APS server listening on http://localhost:${port}`);
+    logger.info(`Set APS_BASE_URL=http://localhost:${port} to use it`);
+  });
+}
@@ -1,25 +1,45 @@
 import axios from 'axios';
 import {
+  AccountInvitation,
   APSProject,
   APSProjectUser,
+  CompanyRef,
   APSRole,
   APSError,
   RateLimitError,
   AddUserToProjectParams,
   AddUserToProjectResult,
+  ProductAccess,
+  ProjectClassification,
+  ProjectListOptions,
 } from '../../types';
+import { config } from '../../config';
 import logger from '../../utils/logger';
-import { wait } from '../../utils/helpers';
+import {
+  wait,
+  resolveProductAccess,
+  hasProductAccess,
+  sameRoles,
+} from '../../utils/helpers';
 import apsAuthService from './auth.service';
 
+// A project's classification and status as the ACC Admin API reports them
+type ProjectAdminInfo = { classification?: ProjectClassification; status?: string };
+
+interface ClassificationEntry {
+  classifications: Map<string, ProjectAdminInfo>;
+  expiresAt: number;
+}
+
 /**
  * APS Projects and Users Management Service
  * Handles all BIM 360 / ACC API calls for projects and user management
  */
 export class APSProjectsService {
-  private readonly baseUrl = 'https://developer.api.autodesk.com';
+  private readonly baseUrl = config.aps.baseUrl;
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // 1 second
+  private classificationCache = new Map<string, Promise<ClassificationEntry>>();
 
   /**
    * Get user's ACC/BIM360 accounts (hubs)
@@ -105,7 +125,7 @@ export class APSProjectsService {
 
       while (true) {
         // Use HQ API endpoint to fetch account users
-        // Endpoint: https://developer.api.autodesk.com/hq/v1/accounts/:account_id/users
+        // Endpoint: {APS_BASE_URL}/hq/v1/accounts/:account_id/users
         const response = await this.makeRequest<
           | Array<{
               id: string;
@@ -210,13 +230,17 @@ export class APSProjectsService {
 
   /**
    * Get all projects for an account using Data Management API
+   * Projects the Admin API classifies as templates (or other non-production
+   * projects) and archived projects are left out unless requested
    * @param accessToken - Valid access token
    * @param accountId - ACC Account ID
+   * @param options - Whether to include templates and archived projects
    * @returns Array of projects
    */
   async getProjects(
     accessToken: string,
-    accountId: string
+    accountId: string,
+    options: ProjectListOptions = {}
   ): Promise<APSProject[]> {
     const allProjects: APSProject[] = [];
     // Hub ID is "b." + accountId
@@ -247,25 +271,6 @@ export class APSProjectsService {
         );
 
         const projects = (response.data || [])
-          // Filter out template projects
-          .filter((p: DMProjectResponse['data'][0]) => {
-            const scopes = p.attributes.scopes || [];
-            const projectName = p.attributes.name || '';
-            const projectType = p.attributes.extension?.data?.projectType || '';
-
-            // Check multiple indicators for templates
-            const isScopeTemplate = scopes.some(s => s.toLowerCase().includes('template'));
-            const isNameTemplate = projectName.toLowerCase().includes('template');
-            const isTypeTemplate = projectType.toLowerCase().includes('template');
-
-            const isTemplate = isScopeTemplate || isNameTemplate || isTypeTemplate;
-
-            if (isTemplate) {
-              logger.debug(`Filtering out template project: ${projectName}`, { scopes, projectType });
-            }
-
-            return !isTemplate;
-          })
           .map((p: DMProjectResponse['data'][0]) => ({
             id: p.id.replace('b.', ''), // Remove "b." prefix from project ID
             name: p.attributes.name,
@@ -278,18 +283,39 @@ export class APSProjectsService {
 
         // Check for pagination
         if (response.links?.next?.href) {
-          // Extract path from full URL
+          // Extract path from full URL, relative to the base URL (which may carry a path)
           const nextUrlObj: URL = new URL(response.links.next.href);
-          url = nextUrlObj.pathname + nextUrlObj.search;
+          const basePath = new URL(this.baseUrl).pathname.replace(/\/$/, '');
+          url = nextUrlObj.pathname.startsWith(basePath)
+            ? nextUrlObj.pathname.slice(basePath.length) + nextUrlObj.search
+            : nextUrlObj.pathname + nextUrlObj.search;
         } else {
           url = null;
         }
       }
 
+      // Templates and archived projects are told apart by the Admin API, not by name
+      const classifications = await this.getProjectClassifications(accountId);
+      const projects = allProjects
+        .map((p) => {
+          const admin = classifications.get(p.id);
+          return admin
+            ? { ...p, classification: admin.classification, status: admin.status ?? p.status }
+            : p;
+        })
+        .filter(
+          (p) =>
+            (options.includeTemplates ||
+              !p.classification ||
+              p.classification === 'production') &&
+            (options.includeArchived || p.status !== 'archived')
+        );
+
       logger.info(
-        `Retrieved ${allProjects.length} projects for account ${accountId}`
+        `Retrieved ${projects.length} of ${allProjects.length} projects for account ${accountId}`,
+        options
       );
-      return allProjects;
+      return projects;
     } catch (error) {
       const errorDetails: Record<string, unknown> = { accountId, hubId };
       if (error instanceof APSError) {
@@ -353,6 +379,210 @@ export class APSProjectsService {
     }
   }
 
+  /**
+   * Get full project details for an account from the ACC Admin API
+   * Covers ACC and BIM 360 projects, including the metadata the Data
+   * Management listing leaves out; business unit IDs are resolved to names
+   * Uses 2-legged OAuth for Admin API access
+   * @param accountId - ACC Account ID
+   * @returns Projects with their details
+   */
+  async getAccountProjectDetails(accountId: string): Promise<APSProject[]> {
+    interface AdminProject {
+      id: string;
+      name: string;
+      platform?: string;
+      status?: string;
+      classification?: ProjectClassification;
+      jobNumber?: string | null;
+      addressLine1?: string | null;
+      addressLine2?: string | null;
+      city?: string | null;
+      stateOrProvince?: string | null;
+      postalCode?: string | null;
+      country?: string | null;
+      businessUnitId?: string | null;
+      timezone?: string | null;
+      language?: string | null;
+      constructionType?: string | null;
+      deliveryMethod?: string | null;
+      contractType?: string | null;
+      currentPhase?: string | null;
+      startDate?: string | null;
+      endDate?: string | null;
+    }
+
+    const projects: AdminProject[] = [];
+    let offset = 0;
+    const limit = 200;
+
+    try {
+      const twoLeggedToken = await apsAuthService.getTwoLeggedToken();
+
+      while (true) {
+        const response = await this.makeRequest<{
+          results?: AdminProject[];
+          pagination?: { limit: number; offset: number; totalResults: number };
+        }>(
+          'get',
+          `/construction/admin/v1/accounts/${accountId}/projects`,
+          twoLeggedToken,
+          { params: { limit, offset } }
+        );
+
+        const page = response.results || [];
+        projects.push(...page);
+
+        if (page.length < limit) {
+          break;
+        }
+
+        offset += limit;
+      }
+
+      const businessUnits = await this.getBusinessUnits(accountId);
+
+      logger.info(`Retrieved details for ${projects.length} projects in account ${accountId}`);
+
+      return projects.map((p) => ({
+        id: p.id,
+        name: p.name,
+        accountId,
+        platform: p.platform === 'bim360' ? 'BIM360' : 'ACC',
+        status: p.status || 'active',
+        classification: p.classification,
+        jobNumber: p.jobNumber ?? undefined,
+        addressLine1: p.addressLine1 ?? undefined,
+        addressLine2: p.addressLine2 ?? undefined,
+        city: p.city ?? undefined,
+        stateOrProvince: p.stateOrProvince ?? undefined,
+        postalCode: p.postalCode ?? undefined,
+        country: p.country ?? undefined,
+        businessUnitId: p.businessUnitId ?? undefined,
+        businessUnit: p.businessUnitId
+          ? businessUnits.get(p.businessUnitId)
+          : undefined,
+        timezone: p.timezone ?? undefined,
+        language: p.language ?? undefined,
+        constructionType: p.constructionType ?? undefined,
+        deliveryMethod: p.deliveryMethod ?? undefined,
+        contractType: p.contractType ?? undefined,
+        currentPhase: p.currentPhase ?? undefined,
+        startDate: p.startDate ?? undefined,
+        endDate: p.endDate ?? undefined,
+      }));
+    } catch (error) {
+      const errorDetails: Record<string, unknown> = { accountId };
+      if (error instanceof APSError) {
+        errorDetails.statusCode = error.statusCode;
+        errorDetails.errorCode = error.errorCode;
+        errorDetails.message = error.message;
+      } else if (error instanceof Error) {
+        errorDetails.message = error.message;
+      }
+      logger.error('Failed to get project details', errorDetails);
+      throw error;
+    }
+  }
+
+  /**
+   * Get each project's classification and status from the ACC Admin API
+   * Cached per account for the project details TTL
+   * @param accountId - ACC Account ID
+   * @returns Keyed by project ID (empty if the Admin API can't be reached)
+   */
+  async getProjectClassifications(accountId: string): Promise<Map<string, ProjectAdminInfo>> {
+    const cached = this.classificationCache.get(accountId);
+    if (cached) {
+      const entry = await cached;
+      if (entry.expiresAt > Date.now()) {
+        return entry.classifications;
+      }
+    }
+
+    // Failures come back empty, so empty results aren't cached for long
+    const pending = this.fetchProjectClassifications(accountId).then((classifications) => ({
+      classifications,
+      expiresAt:
+        Date.now() +
+        (classifications.size > 0 ? config.cache.projectDetailsTtlMinutes * 60 * 1000 : 60 * 1000),
+    }));
+
+    this.classificationCache.set(accountId, pending);
+    return (await pending).classifications;
+  }
+
+  /**
+   * Page through the account's projects in the ACC Admin API
+   * Uses 2-legged OAuth for Admin API access
+   */
+  private async fetchProjectClassifications(
+    accountId: string
+  ): Promise<Map<string, ProjectAdminInfo>> {
+    interface AdminProject extends ProjectAdminInfo {
+      id: string;
+    }
+
+    const classifications = new Map<string, ProjectAdminInfo>();
+    let offset = 0;
+    const limit = 200;
+
+    try {
+      const twoLeggedToken = await apsAuthService.getTwoLeggedToken();
+
+      while (true) {
+        const response = await this.makeRequest<{ results?: AdminProject[] }>(
+          'get',
+          `/construction/admin/v1/accounts/${accountId}/projects`,
+          twoLeggedToken,
+          { params: { fields: 'classification,status', limit, offset } }
+        );
+
+        const page = response.results || [];
+        for (const p of page) {
+          classifications.set(p.id, { classification: p.classification, status: p.status });
+        }
+
+        if (page.length < limit) {
+          break;
+        }
+
+        offset += limit;
+      }
+    } catch (error) {
+      logger.warn(`Project classifications unavailable for ${accountId}, listing projects unclassified`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return classifications;
+  }
+
+  /**
+   * Get the account's business unit names
+   * Uses 2-legged OAuth for the HQ API
+   * @param accountId - ACC Account ID
+   * @returns Names keyed by business unit ID (empty if the lookup fails)
+   */
+  async getBusinessUnits(accountId: string): Promise<Map<string, string>> {
+    try {
+      const twoLeggedToken = await apsAuthService.getTwoLeggedToken();
+
+      const response = await this.makeRequest<{
+        business_units?: Array<{ id: string; name: string }>;
+      }>(
+        'get',
+        `/hq/v1/accounts/${accountId}/business_units_structure`,
+        twoLeggedToken
+      );
+
+      return new Map((response.business_units || []).map((b) => [b.id, b.name]));
+    } catch (error) {
+      logger.error('Failed to get business units', { accountId, error });
+      return new Map();
+    }
+  }
+
   /**
    * Get users in a project
    * Uses 2-legged OAuth for ACC Admin API access
@@ -575,27 +805,37 @@ export class APSProjectsService {
 
   /**
    * Get companies from BIM 360 account
-   * Used to get default company_id for adding users
+   * Used to resolve the company users are added to and company names in
+   * spreadsheet imports
+   * @param accountId - ACC Account ID
+   * @returns Array of companies (empty if the lookup fails)
    */
-  private async getAccountCompanies(
-    accountId: string
-  ): Promise<Array<{ id: string; name: string }>> {
+  async getAccountCompanies(accountId: string): Promise<CompanyRef[]> {
+    const companies: CompanyRef[] = [];
+    let offset = 0;
+    const limit = 100;
+
     try {
       const twoLeggedToken = await apsAuthService.getTwoLeggedToken();
 
-      const response = await this.makeRequest<
-        Array<{ id: string; name: string }> | { results?: Array<{ id: string; name: string }> }
-      >(
-        'get',
-        `/hq/v1/accounts/${accountId}/companies`,
-        twoLeggedToken
-      );
+      while (true) {
+        const response = await this.makeRequest<
+          CompanyRef[] | { results?: CompanyRef[] }
+        >(
+          'get',
+          `/hq/v1/accounts/${accountId}/companies`,
+          twoLeggedToken,
+          { params: { limit, offset } }
+        );
 
-      let companies: Array<{ id: string; name: string }>;
-      if (Array.isArray(response)) {
-        companies = response;
-      } else {
-        companies = response.results || [];
+        const page = Array.isArray(response) ? response : response.results || [];
+        companies.push(...page.map((c) => ({ id: c.id, name: c.name })));
+
+        if (page.length < limit) {
+          break;
+        }
+
+        offset += limit;
       }
 
       logger.info(`Retrieved ${companies.length} companies for account ${accountId}`);
@@ -606,9 +846,52 @@ export class APSProjectsService {
     }
   }
 
+  /**
+   * Create an account user so the email can be added to projects
+   * Uses 2-legged OAuth for the HQ API
+   * @param accountId - ACC Account ID
+   * @param invitation - Email and optional profile details
+   * @returns Account user ID and the company the user was created in
+   */
+  async inviteAccountUser(
+    accountId: string,
+    invitation: AccountInvitation
+  ): Promise<{ id: string; companyId: string }> {
+    // company_id is required; callers resolve it so nobody lands in an arbitrary company
+    const companyId = invitation.companyId;
+    if (!companyId) {
+      throw new Error(`No company found for ${invitation.email}`);
+    }
+
+    const twoLeggedToken = await apsAuthService.getTwoLeggedToken();
+
+    const userData: Record<string, string> = {
+      email: invitation.email,
+      company_id: companyId,
+    };
+    if (invitation.firstName) userData.first_name = invitation.firstName;
+    if (invitation.lastName) userData.last_name = invitation.lastName;
+    if (invitation.jobTitle) userData.job_title = invitation.jobTitle;
+
+    const response = await this.makeRequest<{ id: string }>(
+      'post',
+      `/hq/v1/accounts/${accountId}/users`,
+      twoLeggedToken,
+      { data: userData }
+    );
+
+    logger.info(`Invited ${invitation.email} to account ${accountId}`, {
+      userId: response.id,
+      companyId,
+    });
+
+    return { id: response.id, companyId };
+  }
+
   /**
    * Look up user info from account members for BIM 360 project user assignment
    * Returns user_id, company_id, and whether user was found in account
+   * The company is the member's own; there is no fallback to another company
    */
   private async getAccountUserInfo(
     accountId: string,
@@ -629,58 +912,18 @@ export class APSProjectsService {
           companyName: user.companyName,
         });
 
-        // If user has a company_id, use it
-        if (user.companyId) {
-          return {
-            userId: user.id,
-            companyId: user.companyId,
-            foundInAccount: true,
-          };
-        }
-
-        // User found but has no company - get default company from account
-        logger.warn(`User ${email} found in account but has no company_id - fetching default company`);
-        const companies = await this.getAccountCompanies(accountId);
-        if (companies.length > 0) {
-          const defaultCompany = companies[0];
-          logger.info(`Using default company for user ${email}`, {
-            companyId: defaultCompany.id,
-            companyName: defaultCompany.name,
-          });
-          return {
-            userId: user.id,
-            companyId: defaultCompany.id,
-            foundInAccount: true,
-          };
+        if (!user.companyId) {
+          logger.warn(`User ${email} found in account but has no company_id`);
         }
 
-        // No companies found - return without company_id
-        logger.warn(`No companies found in account ${accountId} for user ${email}`);
         return {
           userId: user.id,
-          companyId: null,
+          companyId: user.companyId ?? null,
           foundInAccount: true,
         };
       }
 
       logger.warn(`User ${email} NOT found in account members`);
-
-      // User not in account - try to get default company
-      const companies = await this.getAccountCompanies(accountId);
-      if (companies.length > 0) {
-        const defaultCompany = companies[0];
-        logger.info(`Will use default company for external user ${email}`, {
-          companyId: defaultCompany.id,
-          companyName: defaultCompany.name,
-        });
-        return {
-          userId: null,
-          companyId: defaultCompany.id,
-          foundInAccount: false,
-        };
-      }
-
-      logger.warn(`No companies found in account ${accountId}`);
       return { userId: null, companyId: null, foundInAccount: false };
     } catch (error) {
       logger.error('Failed to look up user info', { accountId, email, error });
@@ -689,7 +932,8 @@ export class APSProjectsService {
   }
 
   /**
-   * Add user to project with specified role
+   * Add user to project with specified roles
+   * Existing members get exactly params.roleIds, replacing the roles they hold
    * Uses 2-legged OAuth for ACC Admin API access
    * @param params - Parameters for adding user
    * @returns Result of the operation
@@ -697,62 +941,65 @@ export class APSProjectsService {
   async addUserToProject(
     params: AddUserToProjectParams
   ): Promise<AddUserToProjectResult> {
-    const { accountId, projectId, email, role, adminUserId } = params;
+    const { accountId, projectId, email, roleIds, adminUserId, companyId } = params;
+    const accessLevel = params.accessLevel || 'user';
+    const products = resolveProductAccess(accessLevel, params.products);
 
     // ACC Admin API expects UUID without "b." prefix
     const cleanProjectId = projectId.replace('b.', '');
 
-    // Validate role is a valid UUID if provided
+    // Only valid UUIDs can be sent as roles; if none of the requested roles
+    // is one (e.g. the UI's placeholder roles), roles are left unchanged
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    const isValidRoleUuid = role && uuidRegex.test(role);
+    const validRoleIds = roleIds.filter((id) => uuidRegex.test(id));
+    const canSetRoles = roleIds.length === 0 || validRoleIds.length > 0;
 
     logger.info(`Adding user ${email} to project`, {
       originalProjectId: projectId,
       cleanProjectId,
       accountId,
-      role,
-      isValidRoleUuid
+      roleIds,
+      validRoleIds,
+      accessLevel,
     });
 
     try {
       // Get 2-legged token for Admin API (required for user management)
       const twoLeggedToken = await apsAuthService.getTwoLeggedToken();
 
-      // First, check if user already exists in project
-      const existingUser = await this.checkUserInProject(
-        twoLeggedToken,
-        accountId,
-        cleanProjectId,
-        email
-      );
+      // First, check if user already exists in project (unless the caller already did)
+      const existingUser =
+        params.existingUser !== undefined
+          ? params.existingUser
+          : await this.checkUserInProject(
+              twoLeggedToken,
+              accountId,
+              cleanProjectId,
+              email
+            );
 
       if (existingUser) {
         logger.info(`User ${email} already exists in project ${cleanProjectId}`);
 
-        // Check if role needs to be updated (only if valid role UUID)
-        if (isValidRoleUuid) {
-          const hasRole = existingUser.roleIds.includes(role);
-
-          if (hasRole) {
-            return {
-              success: true,
-              userId: existingUser.id,
-            };
-          }
+        // Only send what differs
+        const needsRole =
+          canSetRoles && !sameRoles(existingUser.roleIds, validRoleIds);
+        const needsProducts =
+          !params.rolesOnly && !hasProductAccess(existingUser.products, products);
 
-          // Update user role
-          return await this.updateUserRole(
-            cleanProjectId,
-            existingUser.id,
-            role
-          );
+        if (!needsRole && !needsProducts) {
+          return {
+            success: true,
+            userId: existingUser.id,
+          };
         }
 
-        // User exists but no role to update
-        return {
-          success: true,
-          userId: existingUser.id,
-        };
+        return await this.updateProjectUser(
+          cleanProjectId,
+          existingUser.id,
+          needsRole ? validRoleIds : null,
+          needsProducts ? products : null
+        );
       }
 
       // User doesn't exist, add them
@@ -763,17 +1010,15 @@ export class APSProjectsService {
         // ACC Admin API expects: email, roleIds (optional), products (optional)
         const accRequestData: any = {
           email,
-          products: [
-            {
-              key: 'projectAdministration',
-              access: 'administrator',
-            },
-          ],
+          products,
         };
 
-        // Only include roleIds if it's a valid UUID
-        if (isValidRoleUuid) {
-          accRequestData.roleIds = [role];
+        if (validRoleIds.length > 0) {
+          accRequestData.roleIds = validRoleIds;
+        }
+
+        if (companyId) {
+          accRequestData.companyId = companyId;
         }
 
         logger.info(`Trying ACC Admin API for project ${cleanProjectId}`, { accRequestData });
@@ -796,25 +1041,34 @@ export class APSProjectsService {
         const userInfo = await this.getAccountUserInfo(accountId, email);
 
         // BIM 360 HQ API uses the /users/import endpoint (v2) with an ARRAY body
+        // Docs maps to document_management; project admins also get project_administration
+        const docsAccess = products.find((p) => p.key === 'docs')?.access;
         const userData: any = {
           email,
           services: {
             document_management: {
-              access_level: 'admin',
+              access_level: docsAccess === 'administrator' ? 'admin' : 'user',
             },
           },
         };
 
+        if (accessLevel === 'admin') {
+          userData.services.project_administration = { access_level: 'admin' };
+        }
+
         // company_id is REQUIRED for BIM 360 HQ API
-        if (userInfo.companyId) {
-          userData.company_id = userInfo.companyId;
+        // An explicitly requested company wins over the account lookup
+        if (companyId || userInfo.companyId) {
+          userData.company_id = companyId || userInfo.companyId;
         } else {
-          logger.warn(`No company_id available for ${email} - request may fail`);
+          throw new Error(
+            `No company found for ${email}. Choose a company or allow the account's default company`
+          );
         }
 
         // HQ API uses industry_roles (snake_case) instead of roleIds
-        if (isValidRoleUuid) {
-          userData.industry_roles = [role];
+        if (validRoleIds.length > 0) {
+          userData.industry_roles = validRoleIds;
         }
 
         logger.info(`Sending BIM 360 HQ API import request`, {
@@ -905,31 +1159,33 @@ export class APSProjectsService {
   }
 
   /**
-   * Update user role in project
+   * Update user role and/or product access in project
    * Uses 2-legged OAuth for ACC Admin API access
    */
-  private async updateUserRole(
+  private async updateProjectUser(
     projectId: string,
     userId: string,
-    role: string
+    roleIds: string[] | null,
+    products: ProductAccess[] | null
   ): Promise<AddUserToProjectResult> {
     try {
       // Get 2-legged token for Admin API
       const twoLeggedToken = await apsAuthService.getTwoLeggedToken();
 
+      const data: { roleIds?: string[]; products?: ProductAccess[] } = {};
+      if (roleIds) data.roleIds = roleIds;
+      if (products) data.products = products;
+
       await this.makeRequest(
         'patch',
         `/construction/admin/v1/projects/${projectId}/users/${userId}`,
         twoLeggedToken,
-        {
-          data: {
-            roleIds: [role],
-          },
-        }
+        { data }
       );
 
       logger.info(
-        `Successfully updated user ${userId} role in project ${projectId}`
+        `Successfully updated user ${userId} in project ${projectId}`,
+        { roleUpdated: !!roleIds, productsUpdated: !!products }
       );
 
       return {
@@ -943,26 +1199,45 @@ export class APSProjectsService {
 
   /**
    * Remove user from project
-   * @param accessToken - Valid access token
+   * Uses 2-legged OAuth for ACC Admin API access, falling back to the
+   * BIM 360 HQ API for projects the ACC Admin API does not accept
+   * @param _accessToken - Not used, kept for API compatibility
    * @param accountId - ACC Account ID
    * @param projectId - Project ID
-   * @param userId - User ID to remove
+   * @param userId - Project user ID to remove
    */
   async removeUserFromProject(
-    accessToken: string,
+    _accessToken: string,
     accountId: string,
     projectId: string,
     userId: string
   ): Promise<void> {
+    // ACC Admin API expects UUID without "b." prefix
+    const cleanProjectId = projectId.replace('b.', '');
+
     try {
-      await this.makeRequest(
-        'delete',
-        `/hq/v1/accounts/${accountId}/projects/${projectId}/users/${userId}`,
-        accessToken
-      );
+      const twoLeggedToken = await apsAuthService.getTwoLeggedToken();
+
+      try {
+        await this.makeRequest(
+          'delete',
+          `/construction/admin/v1/projects/${cleanProjectId}/users/${userId}`,
+          twoLeggedToken
+        );
+      } catch (accError: any) {
+        logger.info(`ACC Admin API removal failed for project ${cleanProjectId}, falling back to BIM 360 HQ API`, {
+          accError: accError?.message || '',
+        });
+
+        await this.makeRequest(
+          'delete',
+          `/hq/v1/accounts/${accountId}/projects/${cleanProjectId}/users/${userId}`,
+          twoLeggedToken
+        );
+      }
 
       logger.info(
-        `Successfully removed user ${userId} from project ${projectId}`
+        `Successfully removed user ${userId} from project ${cleanProjectId}`
       );
     } catch (error) {
       logger.error('Failed to remove user from project', {
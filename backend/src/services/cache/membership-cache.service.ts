@@ -0,0 +1,495 @@
+import apsProjectsService from '../aps/projects.service';
+import roleDirectoryService from '../roles/role-directory.service';
+import projectDetailsService from './project-details.service';
+import { config } from '../../config';
+import { getDb, transaction } from '../../db';
+import {
+  APSProject,
+  APSProjectUser,
+  MemberAccessReport,
+  MembershipSyncResult,
+  MembershipSyncStatus,
+} from '../../types';
+import logger from '../../utils/logger';
+import { getAccessLevel, mapWithConcurrency } from '../../utils/helpers';
+
+/**
+ * Project Membership Cache Service
+ * Keeps project members in PostgreSQL so previews, the access matrix and
+ * workers read memberships locally; only writes go to APS
+ */
+export class MembershipCacheService {
+  private readonly syncConcurrency = 5; // Parallel project syncs
+
+  /**
+   * Store the account's project list
+   * Unclassified projects keep the status from the last details sync
+   * @param accountId - ACC Account ID
+   * @param projects - Projects from APS
+   */
+  async cacheProjects(accountId: string, projects: APSProject[]): Promise<void> {
+    const db = getDb();
+
+    for (const project of projects) {
+      await db.query(
+        `INSERT INTO projects
+         (account_id, project_id, project_name, project_type, status,
+          classification, last_synced_at)
+         VALUES ($1, $2, $3, $4, $5, $6, NOW())
+         ON CONFLICT (project_id)
+         DO UPDATE SET
+           project_name = EXCLUDED.project_name,
+           project_type = EXCLUDED.project_type,
+           status = CASE
+             WHEN EXCLUDED.classification IS NOT NULL
+               OR projects.details_synced_at IS NULL THEN EXCLUDED.status
+             ELSE projects.status
+           END,
+           classification = COALESCE(EXCLUDED.classification, projects.classification),
+           last_synced_at = NOW()`,
+        [
+          accountId,
+          project.id,
+          project.name,
+          project.platform,
+          project.status,
+          project.classification ?? null,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Get cached project names
+   * @param projectIds - Project IDs
+   * @returns Names keyed by project ID; uncached projects are missing
+   */
+  async getProjectNames(projectIds: string[]): Promise<Map<string, string>> {
+    const result = await getDb().query(
+      'SELECT project_id, project_name FROM projects WHERE project_id = ANY($1)',
+      [projectIds]
+    );
+    return new Map(
+      result.rows.map((r: any) => [r.project_id, r.project_name] as [string, string])
+    );
+  }
+
+  /**
+   * Replace a project's cached members with the current list from APS
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param projectId - Project ID
+   * @param projectName - Used if the project has not been cached yet
+   * @returns Current project members
+   */
+  async syncProject(
+    accessToken: string,
+    accountId: string,
+    projectId: string,
+    projectName?: string
+  ): Promise<APSProjectUser[]> {
+    let users: APSProjectUser[];
+    try {
+      users = await apsProjectsService.getProjectUsers(
+        accessToken,
+        accountId,
+        projectId
+      );
+    } catch (error) {
+      await getDb().query(
+        'UPDATE projects SET memberships_sync_error = $1 WHERE project_id = $2',
+        [error instanceof Error ? error.message : String(error), projectId]
+      );
+      throw error;
+    }
+
+    // Projects not listed yet need a real name for their row
+    const name =
+      projectName ??
+      (await this.getProjectNames([projectId])).get(projectId) ??
+      (await apsProjectsService.getProject(accessToken, accountId, projectId)).name;
+
+    await transaction(async (client) => {
+      await client.query(
+        `INSERT INTO projects
+         (account_id, project_id, project_name, memberships_synced_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (project_id)
+         DO UPDATE SET
+           memberships_synced_at = NOW(),
+           memberships_sync_error = NULL`,
+        [accountId, projectId, name]
+      );
+
+      await client.query(
+        'DELETE FROM project_memberships WHERE project_id = $1',
+        [projectId]
+      );
+
+      for (const user of users) {
+        await client.query(
+          `INSERT INTO project_memberships
+           (account_id, project_id, project_user_id, email, name, autodesk_id,
+            company_id, company_name, role_ids, products, access_level)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+           ON CONFLICT (project_id, email) DO NOTHING`,
+          [
+            accountId,
+            projectId,
+            user.id,
+            user.email.toLowerCase(),
+            user.name,
+            user.autodeskId || null,
+            user.companyId ?? null,
+            user.companyName ?? null,
+            user.roleIds,
+            JSON.stringify(user.products),
+            getAccessLevel(user.products),
+          ]
+        );
+      }
+    });
+
+    logger.debug(`Cached ${users.length} members for project ${projectId}`);
+    return users;
+  }
+
+  /**
+   * Get project members, syncing from APS only if the cache is stale
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param projectId - Project ID
+   * @returns Project members
+   */
+  async getProjectMembers(
+    accessToken: string,
+    accountId: string,
+    projectId: string
+  ): Promise<APSProjectUser[]> {
+    const db = getDb();
+
+    const projectRow = await db.query(
+      `SELECT memberships_synced_at FROM projects
+       WHERE project_id = $1 AND memberships_synced_at > $2`,
+      [projectId, this.staleBefore()]
+    );
+
+    if (projectRow.rows.length === 0) {
+      return this.syncProject(accessToken, accountId, projectId);
+    }
+
+    const memberRows = await db.query(
+      'SELECT * FROM project_memberships WHERE project_id = $1',
+      [projectId]
+    );
+    return memberRows.rows.map(toProjectUser);
+  }
+
+  /**
+   * Find a member in a project
+   * Returns null if the lookup fails, like checkUserInProject, so callers
+   * still attempt the write on projects whose members cannot be listed
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param projectId - Project ID
+   * @param email - Member email
+   * @returns Member if cached or found, null otherwise
+   */
+  async findMember(
+    accessToken: string,
+    accountId: string,
+    projectId: string,
+    email: string
+  ): Promise<APSProjectUser | null> {
+    try {
+      const members = await this.getProjectMembers(
+        accessToken,
+        accountId,
+        projectId
+      );
+      return (
+        members.find((u) => u.email.toLowerCase() === email.toLowerCase()) ||
+        null
+      );
+    } catch (error) {
+      logger.error('Failed to find cached member', {
+        accountId,
+        projectId,
+        email,
+        error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Sync every stale project in the list
+   * Failures are collected so one unreadable project does not stop the rest
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param projects - Projects to check
+   * @param force - Re-sync projects that are still fresh
+   */
+  async syncProjects(
+    accessToken: string,
+    accountId: string,
+    projects: { id: string; name?: string }[],
+    force = false
+  ): Promise<Omit<MembershipSyncResult, 'accountId' | 'totalProjects'>> {
+    const freshIds = force
+      ? new Set<string>()
+      : await this.getFreshProjectIds(projects.map((p) => p.id));
+    const stale = projects.filter((p) => !freshIds.has(p.id));
+
+    const failures = await mapWithConcurrency(
+      stale,
+      this.syncConcurrency,
+      async (project) => {
+        try {
+          await this.syncProject(accessToken, accountId, project.id, project.name);
+          return null;
+        } catch (error) {
+          return {
+            projectId: project.id,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }
+    );
+    const failedProjects = failures.filter(
+      (f): f is { projectId: string; error: string } => f !== null
+    );
+
+    return {
+      syncedProjects: stale.length - failedProjects.length,
+      skippedProjects: freshIds.size,
+      failedProjects,
+    };
+  }
+
+  /**
+   * Sync the project list, project details and all stale project memberships for an account
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param force - Re-sync projects that are still fresh
+   */
+  async syncAccount(
+    accessToken: string,
+    accountId: string,
+    force = false
+  ): Promise<MembershipSyncResult> {
+    // Every project the project list can show, so none of them stays stale
+    const projects = await apsProjectsService.getProjects(accessToken, accountId, {
+      includeTemplates: true,
+      includeArchived: true,
+    });
+    await this.cacheProjects(accountId, projects);
+
+    // Details come from another API; if it fails, the last synced details stay
+    let detailsSyncedProjects = 0;
+    try {
+      detailsSyncedProjects = await projectDetailsService.syncAccount(accountId, force);
+    } catch (error) {
+      logger.warn(`Project details sync failed for account ${accountId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const result = await this.syncProjects(
+      accessToken,
+      accountId,
+      projects,
+      force
+    );
+
+    logger.info(`Membership sync finished for account ${accountId}`, {
+      totalProjects: projects.length,
+      ...result,
+      failedProjects: result.failedProjects.length,
+      detailsSyncedProjects,
+    });
+
+    return {
+      accountId,
+      totalProjects: projects.length,
+      ...result,
+      detailsSyncedProjects,
+    };
+  }
+
+  /**
+   * Mark projects stale after a write so the next read or sync refreshes them
+   * @param projectIds - Projects that were changed
+   */
+  async invalidateProjects(projectIds: string[]): Promise<void> {
+    await getDb().query(
+      'UPDATE projects SET memberships_synced_at = NULL WHERE project_id = ANY($1)',
+      [projectIds]
+    );
+  }
+
+  /**
+   * Check whether an account has projects that need syncing
+   * @param accountId - ACC Account ID
+   */
+  async hasStaleProjects(accountId: string): Promise<boolean> {
+    const result = await getDb().query(
+      `SELECT 1 FROM projects
+       WHERE account_id = $1
+         AND (memberships_synced_at IS NULL OR memberships_synced_at <= $2)
+       LIMIT 1`,
+      [accountId, this.staleBefore()]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Summarize how fresh an account's cache is
+   * @param accountId - ACC Account ID
+   */
+  async getSyncStatus(
+    accountId: string
+  ): Promise<Omit<MembershipSyncStatus, 'syncInProgress'>> {
+    const result = await getDb().query(
+      `SELECT
+         COUNT(*) AS total_projects,
+         COUNT(memberships_synced_at) AS synced_projects,
+         COUNT(*) FILTER (
+           WHERE memberships_synced_at IS NULL OR memberships_synced_at <= $2
+         ) AS stale_projects,
+         MIN(memberships_synced_at) AS oldest_synced_at,
+         MAX(memberships_synced_at) AS newest_synced_at
+       FROM projects
+       WHERE account_id = $1`,
+      [accountId, this.staleBefore()]
+    );
+    const row = result.rows[0];
+
+    return {
+      accountId,
+      totalProjects: parseInt(row.total_projects, 10),
+      syncedProjects: parseInt(row.synced_projects, 10),
+      staleProjects: parseInt(row.stale_projects, 10),
+      oldestSyncedAt: row.oldest_synced_at,
+      newestSyncedAt: row.newest_synced_at,
+    };
+  }
+
+  /**
+   * Get a member's access across every project in the account
+   * Reads the cache, syncing only stale projects; projects that fail to
+   * sync are reported instead of failing the whole request
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param email - Member email
+   * @returns Projects the member belongs to, with role names and products
+   */
+  async getMemberAccess(
+    accessToken: string,
+    accountId: string,
+    email: string
+  ): Promise<MemberAccessReport> {
+    const db = getDb();
+
+    let projectRows = await db.query(
+      'SELECT project_id, project_name, project_type FROM projects WHERE account_id = $1',
+      [accountId]
+    );
+    if (projectRows.rows.length === 0) {
+      await this.cacheProjects(
+        accountId,
+        await apsProjectsService.getProjects(accessToken, accountId, {
+          includeTemplates: true,
+          includeArchived: true,
+        })
+      );
+      projectRows = await db.query(
+        'SELECT project_id, project_name, project_type FROM projects WHERE account_id = $1',
+        [accountId]
+      );
+    }
+    const projectsById = new Map<string, any>(
+      projectRows.rows.map((p: any) => [p.project_id, p])
+    );
+
+    const [{ failedProjects }, roleNames] = await Promise.all([
+      this.syncProjects(
+        accessToken,
+        accountId,
+        projectRows.rows.map((p: any) => ({
+          id: p.project_id,
+          name: p.project_name,
+        }))
+      ),
+      roleDirectoryService.getAccountRoleNames(accountId),
+    ]);
+    const failedIds = new Set(failedProjects.map((f) => f.projectId));
+
+    const memberRows = await db.query(
+      `SELECT * FROM project_memberships
+       WHERE account_id = $1 AND email = $2`,
+      [accountId, email.toLowerCase()]
+    );
+
+    const report: MemberAccessReport = {
+      email,
+      totalProjects: projectRows.rows.length,
+      projects: memberRows.rows
+        .filter((m: any) => projectsById.has(m.project_id) && !failedIds.has(m.project_id))
+        .map((m: any) => {
+          const user = toProjectUser(m);
+          const project = projectsById.get(m.project_id);
+          return {
+            projectId: m.project_id,
+            projectName: project.project_name,
+            platform: project.project_type,
+            roleIds: user.roleIds,
+            roleNames: user.roleIds.map((id) => roleNames.get(id) || id),
+            accessLevel: getAccessLevel(user.products),
+            products: user.products,
+          };
+        }),
+      failedProjects: failedProjects.map((f) => ({
+        ...f,
+        projectName: projectsById.get(f.projectId)?.project_name ?? f.projectId,
+      })),
+    };
+
+    logger.info(`Resolved access for ${email} across ${report.totalProjects} projects`, {
+      accountId,
+      memberOf: report.projects.length,
+      failed: report.failedProjects.length,
+    });
+
+    return report;
+  }
+
+  // Synced at or before this time counts as stale
+  private staleBefore(): Date {
+    return new Date(Date.now() - config.cache.membershipTtlMinutes * 60 * 1000);
+  }
+
+  private async getFreshProjectIds(projectIds: string[]): Promise<Set<string>> {
+    const result = await getDb().query(
+      `SELECT project_id FROM projects
+       WHERE project_id = ANY($1) AND memberships_synced_at > $2`,
+      [projectIds, this.staleBefore()]
+    );
+    return new Set(result.rows.map((r: any) => r.project_id));
+  }
+}
+
+function toProjectUser(row: any): APSProjectUser {
+  return {
+    id: row.project_user_id,
+    email: row.email,
+    name: row.name || '',
+    autodeskId: row.autodesk_id || '',
+    companyId: row.company_id ?? undefined,
+    companyName: row.company_name ?? undefined,
+    roleIds: row.role_ids || [],
+    products: row.products || [],
+  };
+}
+
+export default new MembershipCacheService();
@@ -0,0 +1,148 @@
+import apsProjectsService from '../aps/projects.service';
+import { config } from '../../config';
+import { getDb } from '../../db';
+import { APSProject } from '../../types';
+import logger from '../../utils/logger';
+
+export type ProjectDetails = Omit<APSProject, 'id' | 'name' | 'accountId' | 'platform'>;
+
+/**
+ * Project Details Service
+ * Keeps ACC Admin project metadata (job number, address, business unit,
+ * phase, dates) on the cached project rows so projects can be filtered by it
+ */
+export class ProjectDetailsService {
+  /**
+   * Pull project details for the account's cached projects
+   * Projects the Data Management listing doesn't include (e.g. templates) are ignored
+   * @param accountId - ACC Account ID
+   * @param force - Sync even if the details are still fresh
+   * @returns Number of projects updated; 0 when the details were fresh
+   */
+  async syncAccount(accountId: string, force = false): Promise<number> {
+    if (!force && !(await this.hasStaleDetails(accountId))) {
+      return 0;
+    }
+
+    const projects = await apsProjectsService.getAccountProjectDetails(accountId);
+    const db = getDb();
+    let updated = 0;
+
+    for (const p of projects) {
+      const result = await db.query(
+        `UPDATE projects
+         SET status = $1,
+             classification = COALESCE($20, classification),
+             job_number = $2,
+             address_line1 = $3,
+             address_line2 = $4,
+             city = $5,
+             state_or_province = $6,
+             postal_code = $7,
+             country = $8,
+             business_unit_id = $9,
+             business_unit_name = $10,
+             timezone = $11,
+             construction_type = $12,
+             delivery_method = $13,
+             contract_type = $14,
+             current_phase = $15,
+             start_date = $16,
+             end_date = $17,
+             details_synced_at = NOW(),
+             updated_at = NOW()
+         WHERE account_id = $18 AND project_id = $19`,
+        [
+          p.status,
+          p.jobNumber ?? null,
+          p.addressLine1 ?? null,
+          p.addressLine2 ?? null,
+          p.city ?? null,
+          p.stateOrProvince ?? null,
+          p.postalCode ?? null,
+          p.country ?? null,
+          p.businessUnitId ?? null,
+          p.businessUnit ?? null,
+          p.timezone ?? null,
+          p.constructionType ?? null,
+          p.deliveryMethod ?? null,
+          p.contractType ?? null,
+          p.currentPhase ?? null,
+          p.startDate || null,
+          p.endDate || null,
+          accountId,
+          p.id,
+          p.classification ?? null,
+        ]
+      );
+      updated += result.rowCount ?? 0;
+    }
+
+    logger.info(`Synced details for ${updated} projects in account ${accountId}`);
+    return updated;
+  }
+
+  /**
+   * Get stored details for the account's projects
+   * @param accountId - ACC Account ID
+   * @returns Details keyed by project ID; projects never synced are missing
+   */
+  async getDetails(accountId: string): Promise<Map<string, ProjectDetails>> {
+    const result = await getDb().query(
+      // Dates as YYYY-MM-DD; pg would turn DATE columns into local midnights
+      `SELECT *,
+              to_char(start_date, 'YYYY-MM-DD') AS start_day,
+              to_char(end_date, 'YYYY-MM-DD') AS end_day
+       FROM projects
+       WHERE account_id = $1 AND details_synced_at IS NOT NULL`,
+      [accountId]
+    );
+
+    return new Map(
+      result.rows.map((r: any) => [r.project_id, toProjectDetails(r)] as [string, ProjectDetails])
+    );
+  }
+
+  /**
+   * Check whether any of the account's projects needs its details synced
+   * @param accountId - ACC Account ID
+   */
+  async hasStaleDetails(accountId: string): Promise<boolean> {
+    const result = await getDb().query(
+      `SELECT 1 FROM projects
+       WHERE account_id = $1
+         AND (details_synced_at IS NULL OR details_synced_at <= $2)
+       LIMIT 1`,
+      [
+        accountId,
+        new Date(Date.now() - config.cache.projectDetailsTtlMinutes * 60 * 1000),
+      ]
+    );
+    return result.rows.length > 0;
+  }
+}
+
+function toProjectDetails(row: any): ProjectDetails {
+  return {
+    status: row.status,
+    classification: row.classification ?? undefined,
+    jobNumber: row.job_number ?? undefined,
+    addressLine1: row.address_line1 ?? undefined,
+    addressLine2: row.address_line2 ?? undefined,
+    city: row.city ?? undefined,
+    stateOrProvince: row.state_or_province ?? undefined,
+    postalCode: row.postal_code ?? undefined,
+    country: row.country ?? undefined,
+    businessUnitId: row.business_unit_id ?? undefined,
+    businessUnit: row.business_unit_name ?? undefined,
+    timezone: row.timezone ?? undefined,
+    constructionType: row.construction_type ?? undefined,
+    deliveryMethod: row.delivery_method ?? undefined,
+    contractType: row.contract_type ?? undefined,
+    currentPhase: row.current_phase ?? undefined,
+    startDate: row.start_day ?? undefined,
+    endDate: row.end_day ?? undefined,
+  };
+}
+
+export default new ProjectDetailsService();
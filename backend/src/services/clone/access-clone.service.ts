@@ -0,0 +1,205 @@
+import apsProjectsService from '../aps/projects.service';
+import membershipCacheService from '../cache/membership-cache.service';
+import roleDirectoryService from '../roles/role-directory.service';
+import companyDirectoryService from '../companies/company-directory.service';
+import {
+  APSProjectUser,
+  CloneAssignment,
+  ClonePlan,
+  CompanyOptions,
+  MemberCopyFilter,
+  PreviewResult,
+} from '../../types';
+import {
+  getAccessLevel,
+  hasProductAccess,
+  resolveProductAccess,
+  sameRoles,
+} from '../../utils/helpers';
+
+/**
+ * Access Clone Service
+ * Copies project roles and products from one member to other emails, or
+ * from one project's members to other projects
+ */
+export class AccessCloneService {
+  /**
+   * Plan one assignment per target email in each project the source belongs to
+   * The source's memberships are read through the membership cache, which
+   * syncs stale projects from APS first
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param sourceEmail - Member whose access is copied
+   * @param targetEmails - Emails that receive the access
+   * @param companies - Company IDs chosen per lower-cased target email
+   * @returns Assignments with the source's roles and products per project
+   */
+  async plan(
+    accessToken: string,
+    accountId: string,
+    sourceEmail: string,
+    targetEmails: string[],
+    companies: Record<string, string> = {}
+  ): Promise<ClonePlan> {
+    const access = await membershipCacheService.getMemberAccess(
+      accessToken,
+      accountId,
+      sourceEmail
+    );
+
+    return {
+      sourceEmail,
+      projects: access.projects,
+      assignments: access.projects.flatMap((project) =>
+        targetEmails.map((email) => ({
+          email,
+          projectId: project.projectId,
+          projectName: project.projectName,
+          roles: project.roleIds,
+          accessLevel: project.accessLevel,
+          products: resolveProductAccess(project.accessLevel, project.products),
+          companyId: companies[email.toLowerCase()],
+        }))
+      ),
+      failedProjects: access.failedProjects,
+    };
+  }
+
+  /**
+   * Plan copying a project's members to other projects
+   * Members are read from APS so the copy reflects the source's current team
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param sourceProjectId - Project whose members are copied
+   * @param targetProjects - Projects that receive the members
+   * @param filter - Only copy members with one of these roles or companies
+   * @returns Copied members and one assignment per member per target project
+   */
+  async planMemberCopy(
+    accessToken: string,
+    accountId: string,
+    sourceProjectId: string,
+    targetProjects: { id: string; name: string }[],
+    filter: MemberCopyFilter = {}
+  ): Promise<{ members: APSProjectUser[]; assignments: CloneAssignment[] }> {
+    const users = await apsProjectsService.getProjectUsers(
+      accessToken,
+      accountId,
+      sourceProjectId
+    );
+
+    const members = users.filter(
+      (u) =>
+        (!filter.roleIds?.length ||
+          u.roleIds.some((id) => filter.roleIds!.includes(id))) &&
+        (!filter.companyIds?.length ||
+          (!!u.companyId && filter.companyIds.includes(u.companyId)))
+    );
+
+    return {
+      members,
+      assignments: targetProjects.flatMap((project) =>
+        members.map((member) => {
+          const accessLevel = getAccessLevel(member.products);
+          return {
+            email: member.email.toLowerCase(),
+            projectId: project.id,
+            projectName: project.name,
+            roles: member.roleIds,
+            accessLevel,
+            products: resolveProductAccess(accessLevel, member.products),
+            // New members join the company they have in the source project
+            companyId: member.companyId,
+          };
+        })
+      ),
+    };
+  }
+
+  /**
+   * Preview copied assignments against each target's current access
+   * Targets end up with exactly the copied roles and products
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param assignments - Assignments from plan() or planMemberCopy()
+   * @param options - Companies chosen per email and whether the first company may be used
+   * @returns One preview row per assignment, in assignment order
+   */
+  async preview(
+    accessToken: string,
+    accountId: string,
+    assignments: CloneAssignment[],
+    options: CompanyOptions = {}
+  ): Promise<PreviewResult[]> {
+    // Companies carried by the assignments count as chosen
+    const companies = await companyDirectoryService.resolve(
+      accountId,
+      [...new Set(assignments.map((a) => a.email))],
+      {
+        ...options,
+        companies: {
+          ...Object.fromEntries(
+            assignments
+              .filter((a) => a.companyId)
+              .map((a) => [a.email, a.companyId!])
+          ),
+          ...options.companies,
+        },
+      }
+    );
+    const projectUsers = new Map<string, APSProjectUser[]>();
+    const results: PreviewResult[] = [];
+
+    for (const assignment of assignments) {
+      const { projectId } = assignment;
+      if (!projectUsers.has(projectId)) {
+        projectUsers.set(
+          projectId,
+          await membershipCacheService.getProjectMembers(accessToken, accountId, projectId)
+        );
+      }
+
+      const existingUser = projectUsers
+        .get(projectId)!
+        .find((u) => u.email.toLowerCase() === assignment.email.toLowerCase());
+      const rolesDiffer =
+        !!existingUser && !sameRoles(existingUser.roleIds, assignment.roles);
+
+      results.push({
+        userEmail: assignment.email,
+        projectId,
+        projectName: assignment.projectName,
+        currentAccess: {
+          hasAccess: !!existingUser,
+          roles: await roleDirectoryService.resolve(
+            accountId,
+            existingUser?.roleIds ?? [],
+            projectId
+          ),
+          accessLevel: existingUser
+            ? getAccessLevel(existingUser.products)
+            : undefined,
+          products: existingUser?.products,
+        },
+        resultingRoles: await roleDirectoryService.resolve(
+          accountId,
+          assignment.roles,
+          projectId
+        ),
+        accessLevel: assignment.accessLevel,
+        products: assignment.products,
+        company: companies.get(assignment.email) ?? null,
+        willBeAdded: !existingUser,
+        willBeUpdated:
+          !!existingUser &&
+          (rolesDiffer ||
+            !hasProductAccess(existingUser.products, assignment.products)),
+        conflict: rolesDiffer,
+      });
+    }
+
+    return results;
+  }
+}
+
+export default new AccessCloneService();
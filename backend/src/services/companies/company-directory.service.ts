@@ -0,0 +1,134 @@
+import apsProjectsService from '../aps/projects.service';
+import config from '../../config';
+import { CompanyOptions, CompanyRef, ResolvedCompany } from '../../types';
+import logger from '../../utils/logger';
+
+interface CompanyDirectoryEntry {
+  companies: CompanyRef[];
+  expiresAt: number;
+}
+
+/**
+ * Company Directory Service
+ * Lists account companies and decides which company each email joins:
+ * the company chosen for it, then the member's own company, then the
+ * configured email domain map, then (only if allowed) the account's first company
+ */
+export class CompanyDirectoryService {
+  private readonly ttlMs = 10 * 60 * 1000; // 10 minutes
+  private cache = new Map<string, Promise<CompanyDirectoryEntry>>();
+
+  /**
+   * Get the account's companies
+   * @param accountId - ACC Account ID
+   * @returns Companies; empty if they can't be loaded
+   */
+  async getCompanies(accountId: string): Promise<CompanyRef[]> {
+    const cached = this.cache.get(accountId);
+    if (cached) {
+      const entry = await cached;
+      if (entry.expiresAt > Date.now()) {
+        return entry.companies;
+      }
+    }
+
+    // getAccountCompanies returns [] on failure, so empty lists aren't cached for long
+    const pending = apsProjectsService.getAccountCompanies(accountId).then((companies) => ({
+      companies,
+      expiresAt: Date.now() + (companies.length > 0 ? this.ttlMs : 60 * 1000),
+    }));
+
+    this.cache.set(accountId, pending);
+    return (await pending).companies;
+  }
+
+  /**
+   * Find a company by ID or name
+   * @returns The company, or undefined if the account has none matching
+   */
+  async find(accountId: string, idOrName: string): Promise<CompanyRef | undefined> {
+    const key = idOrName.trim().toLowerCase();
+    const companies = await this.getCompanies(accountId);
+    return (
+      companies.find((c) => c.id.toLowerCase() === key) ||
+      companies.find((c) => c.name.trim().toLowerCase() === key)
+    );
+  }
+
+  /**
+   * Resolve the company each email should join
+   * @param accountId - ACC Account ID
+   * @param emails - Emails to resolve
+   * @param options - Companies chosen per email and whether the first company may be used
+   * @returns Company per email; null when none was found
+   */
+  async resolve(
+    accountId: string,
+    emails: string[],
+    options: CompanyOptions = {}
+  ): Promise<Map<string, ResolvedCompany | null>> {
+    const companies = await this.getCompanies(accountId);
+    const byId = new Map(companies.map((c) => [c.id, c]));
+    const selected = new Map(
+      Object.entries(options.companies ?? {}).map(([email, id]) => [email.toLowerCase(), id])
+    );
+
+    // Members keep the company they already belong to
+    const memberCompanies = new Map<string, CompanyRef>();
+    try {
+      const users = await apsProjectsService.getAccountUsers('', accountId);
+      for (const u of users) {
+        if (u.companyId) {
+          memberCompanies.set(u.email.toLowerCase(), {
+            id: u.companyId,
+            name: byId.get(u.companyId)?.name ?? u.companyName ?? u.companyId,
+          });
+        }
+      }
+    } catch (error) {
+      logger.warn(`Account members unavailable for ${accountId}, resolving companies without them`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const resolved = new Map<string, ResolvedCompany | null>();
+    for (const email of emails) {
+      const key = email.toLowerCase();
+      const selectedId = selected.get(key);
+      const chosen = selectedId ? byId.get(selectedId) : undefined;
+      const member = memberCompanies.get(key);
+
+      if (chosen) {
+        resolved.set(email, { ...chosen, source: 'selected' });
+        continue;
+      }
+      if (member) {
+        resolved.set(email, { ...member, source: 'member' });
+        continue;
+      }
+
+      const domainCompany = await this.fromDomain(accountId, key);
+      if (domainCompany) {
+        resolved.set(email, { ...domainCompany, source: 'domain' });
+      } else if (options.allowDefaultCompany && companies.length > 0) {
+        resolved.set(email, { ...companies[0], source: 'default' });
+      } else {
+        resolved.set(email, null);
+      }
+    }
+
+    return resolved;
+  }
+
+  // Company configured for the email's domain, if the account has it
+  private async fromDomain(
+    accountId: string,
+    email: string
+  ): Promise<CompanyRef | undefined> {
+    const domain = email.split('@')[1];
+    const mapped = domain ? config.companies.domainMap[domain] : undefined;
+    return mapped ? this.find(accountId, mapped) : undefined;
+  }
+}
+
+export default new CompanyDirectoryService();
@@ -0,0 +1,125 @@
+import { getDb } from '../../db';
+import {
+  ExpandedProjectGroup,
+  ProjectGroup,
+  ProjectGroupFilter,
+} from '../../types';
+
+/**
+ * Map a project_groups row to the API shape
+ */
+export function toProjectGroup(row: any): ProjectGroup {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    name: row.name,
+    description: row.description,
+    type: row.group_type,
+    projectIds: row.project_ids || [],
+    filter: row.filter,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Project Group Service
+ * Expands saved groups to their current projects; dynamic groups are
+ * matched against the project details stored by the account sync
+ */
+export class ProjectGroupService {
+  /**
+   * Expand groups to their projects
+   * @param accountId - ACC Account ID
+   * @param groupIds - Group IDs
+   * @returns Groups in the order requested, and IDs the account has no group for
+   */
+  async expand(
+    accountId: string,
+    groupIds: string[]
+  ): Promise<{ groups: ExpandedProjectGroup[]; missing: string[] }> {
+    if (groupIds.length === 0) {
+      return { groups: [], missing: [] };
+    }
+
+    const result = await getDb().query(
+      'SELECT * FROM project_groups WHERE account_id = $1 AND id::text = ANY($2)',
+      [accountId, groupIds]
+    );
+    const byId = new Map(
+      result.rows.map((r: any) => [r.id, toProjectGroup(r)] as [string, ProjectGroup])
+    );
+
+    const groups: ExpandedProjectGroup[] = [];
+    const missing: string[] = [];
+    for (const id of [...new Set(groupIds)]) {
+      const group = byId.get(id);
+      if (!group) {
+        missing.push(id);
+        continue;
+      }
+      groups.push({
+        id: group.id,
+        name: group.name,
+        type: group.type,
+        projectIds: await this.getProjectIds(group),
+      });
+    }
+
+    return { groups, missing };
+  }
+
+  /**
+   * Current projects of a group
+   * Static groups keep their saved list; dynamic groups are re-matched
+   */
+  async getProjectIds(group: ProjectGroup): Promise<string[]> {
+    if (group.type === 'static') {
+      return group.projectIds;
+    }
+    return this.matchProjects(group.accountId, group.filter ?? {});
+  }
+
+  /**
+   * Find cached projects matching a filter
+   * Text fields match case-insensitively; a date range skips projects without dates
+   * Only production projects match, and archived ones only when filtering on status
+   * @param accountId - ACC Account ID
+   * @param filter - Dynamic group filter
+   * @returns Project IDs sorted by project name
+   */
+  async matchProjects(accountId: string, filter: ProjectGroupFilter): Promise<string[]> {
+    const result = await getDb().query(
+      `SELECT project_id FROM projects
+       WHERE account_id = $1
+         AND ($2::text IS NULL OR project_name ILIKE '%' || $2 || '%')
+         AND ($3::text IS NULL OR LOWER(business_unit_name) = LOWER($3))
+         AND ($4::text IS NULL OR LOWER(current_phase) = LOWER($4))
+         AND ($5::text IS NULL OR LOWER(status) = LOWER($5))
+         AND ($5::text IS NOT NULL OR COALESCE(status, 'active') <> 'archived')
+         AND COALESCE(classification, 'production') = 'production'
+         AND ($6::text IS NULL OR LOWER(project_type) = LOWER($6))
+         AND ($7::text IS NULL OR LOWER(city) = LOWER($7))
+         AND (($8::date IS NULL AND $9::date IS NULL)
+              OR ((start_date IS NOT NULL OR end_date IS NOT NULL)
+                  AND ($8::date IS NULL OR end_date IS NULL OR end_date >= $8::date)
+                  AND ($9::date IS NULL OR start_date IS NULL OR start_date <= $9::date)))
+       ORDER BY project_name`,
+      [
+        accountId,
+        filter.nameContains || null,
+        filter.businessUnit || null,
+        filter.currentPhase || null,
+        filter.status || null,
+        filter.platform || null,
+        filter.city || null,
+        filter.activeFrom || null,
+        filter.activeTo || null,
+      ]
+    );
+    return result.rows.map((r: any) => r.project_id);
+  }
+}
+
+export default new ProjectGroupService();
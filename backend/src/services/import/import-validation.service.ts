@@ -0,0 +1,190 @@
+import apsProjectsService from '../aps/projects.service';
+import {
+  AccessLevel,
+  AccountInvitation,
+  ImportAssignment,
+  ImportRow,
+  ImportRowValidation,
+  ImportValidationReport,
+} from '../../types';
+import logger from '../../utils/logger';
+import { isValidEmail } from '../../utils/helpers';
+
+// Spreadsheet values accepted for each access level
+const ACCESS_LEVEL_ALIASES: Record<string, AccessLevel> = {
+  admin: 'admin',
+  administrator: 'admin',
+  'project admin': 'admin',
+  user: 'user',
+  member: 'user',
+};
+
+/**
+ * Spreadsheet Import Validation Service
+ * Resolves uploaded assignment rows against live ACC projects, roles and companies
+ */
+export class ImportValidationService {
+  /**
+   * Validate spreadsheet rows before anything is queued
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param rows - Parsed spreadsheet rows
+   * @returns Per-row validation report with resolved IDs
+   */
+  async validateRows(
+    accessToken: string,
+    accountId: string,
+    rows: ImportRow[]
+  ): Promise<ImportValidationReport> {
+    const [projects, roles, companies] = await Promise.all([
+      apsProjectsService.getProjects(accessToken, accountId),
+      apsProjectsService.getAccountRoles(accessToken, accountId),
+      apsProjectsService.getAccountCompanies(accountId),
+    ]);
+
+    // Index lookups by ID and by lower-cased name
+    const projectsByKey = new Map<string, { id: string; name: string }>();
+    for (const p of projects) {
+      projectsByKey.set(p.id.toLowerCase(), p);
+      projectsByKey.set(p.name.trim().toLowerCase(), p);
+    }
+
+    const rolesByKey = new Map<string, { id: string; name: string }>();
+    for (const r of roles) {
+      rolesByKey.set(r.id.toLowerCase(), r);
+      rolesByKey.set(r.name.trim().toLowerCase(), r);
+    }
+
+    const companiesByKey = new Map<string, { id: string; name: string }>();
+    for (const c of companies) {
+      companiesByKey.set(c.id.toLowerCase(), c);
+      companiesByKey.set(c.name.trim().toLowerCase(), c);
+    }
+
+    // Track email/project pairs to flag duplicate rows
+    const seen = new Map<string, number>();
+
+    const validated = rows.map((row): ImportRowValidation => {
+      const errors: string[] = [];
+      const email = (row.email || '').trim().toLowerCase();
+
+      if (!email) {
+        errors.push('Email is required');
+      } else if (!isValidEmail(email)) {
+        errors.push(`Invalid email address "${row.email}"`);
+      }
+
+      const projectKey = (row.project || '').trim().replace(/^b\./, '').toLowerCase();
+      const project = projectKey ? projectsByKey.get(projectKey) : undefined;
+      if (!projectKey) {
+        errors.push('Project is required');
+      } else if (!project) {
+        errors.push(`Unknown project "${row.project}"`);
+      }
+
+      const roleKey = (row.role || '').trim().toLowerCase();
+      const role = roleKey ? rolesByKey.get(roleKey) : undefined;
+      if (!roleKey) {
+        errors.push('Role is required');
+      } else if (!role) {
+        errors.push(`Unknown role "${row.role}"`);
+      }
+
+      const companyKey = (row.company || '').trim().toLowerCase();
+      const company = companyKey ? companiesByKey.get(companyKey) : undefined;
+      if (companyKey && !company) {
+        errors.push(`Unknown company "${row.company}"`);
+      }
+
+      const accessLevelKey = (row.accessLevel || '').trim().toLowerCase();
+      const accessLevel = accessLevelKey
+        ? ACCESS_LEVEL_ALIASES[accessLevelKey] || null
+        : 'user';
+      if (!accessLevel) {
+        errors.push(`Unknown access level "${row.accessLevel}"`);
+      }
+
+      if (email && project) {
+        const pairKey = `${email}|${project.id}`;
+        const firstRow = seen.get(pairKey);
+        if (firstRow !== undefined) {
+          errors.push(`Duplicate of row ${firstRow}`);
+        } else {
+          seen.set(pairKey, row.rowNumber);
+        }
+      }
+
+      return {
+        rowNumber: row.rowNumber,
+        email,
+        projectId: project?.id ?? null,
+        projectName: project?.name ?? null,
+        roleId: role?.id ?? null,
+        roleName: role?.name ?? null,
+        companyId: company?.id ?? null,
+        companyName: company?.name ?? null,
+        accessLevel,
+        firstName: row.firstName?.trim() || null,
+        lastName: row.lastName?.trim() || null,
+        jobTitle: row.jobTitle?.trim() || null,
+        errors,
+        valid: errors.length === 0,
+      };
+    });
+
+    const validCount = validated.filter((r) => r.valid).length;
+
+    logger.info(`Validated ${rows.length} import rows for account ${accountId}`, {
+      valid: validCount,
+      invalid: rows.length - validCount,
+    });
+
+    return {
+      rows: validated,
+      summary: {
+        total: validated.length,
+        valid: validCount,
+        invalid: validated.length - validCount,
+      },
+    };
+  }
+
+  /**
+   * Convert fully valid rows into per-row job assignments
+   * @param rows - Validated rows (all must be valid)
+   * @returns Assignments ready to be queued
+   */
+  toAssignments(rows: ImportRowValidation[]): ImportAssignment[] {
+    return rows.map((r) => ({
+      email: r.email,
+      projectId: r.projectId!,
+      projectName: r.projectName!,
+      role: r.roleId!,
+      companyId: r.companyId ?? undefined,
+      accessLevel: r.accessLevel!,
+    }));
+  }
+
+  /**
+   * Collect account invitation details, one per email
+   * Later rows fill in details the first row for an email left blank
+   * @param rows - Validated rows
+   * @returns Invitations for every email in the import
+   */
+  toInvitations(rows: ImportRowValidation[]): AccountInvitation[] {
+    const byEmail = new Map<string, AccountInvitation>();
+
+    for (const r of rows) {
+      const invitation = byEmail.get(r.email) || { email: r.email };
+      invitation.firstName ??= r.firstName ?? undefined;
+      invitation.lastName ??= r.lastName ?? undefined;
+      invitation.jobTitle ??= r.jobTitle ?? undefined;
+      invitation.companyId ??= r.companyId ?? undefined;
+      byEmail.set(r.email, invitation);
+    }
+
+    return [...byEmail.values()];
+  }
+}
+
+export default new ImportValidationService();
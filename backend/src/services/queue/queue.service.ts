@@ -1,17 +1,38 @@
 import { Queue, QueueEvents } from 'bullmq';
 import { Redis } from 'ioredis';
 import { config } from '../../config';
-import { BulkAssignmentJobData } from '../../types';
+import {
+  BulkAssignmentJobData,
+  BulkCloneJobData,
+  BulkImportJobData,
+  BulkJobData,
+  BulkMemberCopyJobData,
+  BulkReconcileJobData,
+  BulkRemovalJobData,
+  JobProgressData,
+  JobQueueEvent,
+  ManifestDriftJobData,
+  MembershipSyncJobData,
+} from '../../types';
 import logger from '../../utils/logger';
 
+// Milliseconds from now until runAt; 0 runs the job immediately
+function delayUntil(runAt?: Date): number {
+  return runAt ? Math.max(0, runAt.getTime() - Date.now()) : 0;
+}
+
 /**
  * Job Queue Service using BullMQ
- * Manages async bulk user assignment operations
+ * Manages async bulk user assignment and removal operations
  */
 export class QueueService {
-  private queue: Queue<BulkAssignmentJobData>;
+  private queue: Queue<BulkJobData>;
+  private syncQueue: Queue<MembershipSyncJobData>;
+  private driftQueue: Queue<ManifestDriftJobData>;
   private queueEvents: QueueEvents;
   private redisConnection: Redis;
+  // Status streams listening to each job, keyed by job ID
+  private jobListeners = new Map<string, Set<(event: JobQueueEvent) => void>>();
 
   constructor() {
     // Create Redis connection
@@ -21,7 +42,7 @@ export class QueueService {
     });
 
     // Create queue
-    this.queue = new Queue<BulkAssignmentJobData>('bulk-user-assignment', {
+    this.queue = new Queue<BulkJobData>('bulk-user-assignment', {
       connection: this.redisConnection,
       defaultJobOptions: {
         attempts: config.queue.maxRetries,
@@ -39,6 +60,31 @@ export class QueueService {
       },
     });
 
+    // Membership syncs are deduplicated per account, so finished jobs are dropped.
+    // Each project's rows are replaced in one transaction, so retrying is safe
+    this.syncQueue = new Queue<MembershipSyncJobData>('membership-sync', {
+      connection: this.redisConnection,
+      defaultJobOptions: {
+        attempts: config.queue.maxRetries,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    });
+
+    // Scheduled manifest plans; each manifest has one job scheduler
+    this.driftQueue = new Queue<ManifestDriftJobData>('manifest-drift', {
+      connection: this.redisConnection,
+      defaultJobOptions: {
+        attempts: 1,
+        removeOnComplete: true,
+        removeOnFail: { age: 604800 },
+      },
+    });
+
     // Create queue events listener
     this.queueEvents = new QueueEvents('bulk-user-assignment', {
       connection: this.redisConnection,
@@ -52,10 +98,12 @@ export class QueueService {
   /**
    * Add a bulk assignment job to the queue
    * @param data - Job data
+   * @param runAt - Optional start time; the job waits as delayed until then
    * @returns Job ID
    */
   async addBulkAssignmentJob(
-    data: BulkAssignmentJobData
+    data: BulkAssignmentJobData,
+    runAt?: Date
   ): Promise<string> {
     try {
       const job = await this.queue.add(
@@ -63,6 +111,7 @@ export class QueueService {
         data,
         {
           jobId: data.executionId,
+          delay: delayUntil(runAt),
         }
       );
 
@@ -82,6 +131,249 @@ export class QueueService {
     }
   }
 
+  /**
+   * Add a bulk removal job to the queue
+   * @param data - Job data
+   * @param runAt - Optional start time; the job waits as delayed until then
+   * @returns Job ID
+   */
+  async addBulkRemovalJob(
+    data: BulkRemovalJobData,
+    runAt?: Date
+  ): Promise<string> {
+    try {
+      const job = await this.queue.add(
+        'bulk-removal',
+        data,
+        {
+          jobId: data.executionId,
+          delay: delayUntil(runAt),
+        }
+      );
+
+      logger.info(`Removal job added to queue: ${job.id}`, {
+        executionId: data.executionId,
+        projectCount: data.projectIds.length,
+        userCount: data.userEmails.length,
+      });
+
+      return job.id!;
+    } catch (error) {
+      logger.error('Failed to add removal job to queue', {
+        executionId: data.executionId,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a spreadsheet import job to the queue
+   * @param data - Job data with one assignment per validated row
+   * @returns Job ID
+   */
+  async addBulkImportJob(
+    data: BulkImportJobData
+  ): Promise<string> {
+    try {
+      const job = await this.queue.add(
+        'bulk-import',
+        data,
+        {
+          jobId: data.executionId,
+        }
+      );
+
+      logger.info(`Import job added to queue: ${job.id}`, {
+        executionId: data.executionId,
+        assignmentCount: data.assignments.length,
+      });
+
+      return job.id!;
+    } catch (error) {
+      logger.error('Failed to add import job to queue', {
+        executionId: data.executionId,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add an access clone job to the queue
+   * @param data - Job data with one assignment per target per source project
+   * @returns Job ID
+   */
+  async addBulkCloneJob(
+    data: BulkCloneJobData
+  ): Promise<string> {
+    try {
+      const job = await this.queue.add(
+        'bulk-clone',
+        data,
+        {
+          jobId: data.executionId,
+        }
+      );
+
+      logger.info(`Clone job added to queue: ${job.id}`, {
+        executionId: data.executionId,
+        sourceEmail: data.sourceEmail,
+        assignmentCount: data.assignments.length,
+      });
+
+      return job.id!;
+    } catch (error) {
+      logger.error('Failed to add clone job to queue', {
+        executionId: data.executionId,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a member copy job to the queue
+   * @param data - Job data with one assignment per member per target project
+   * @returns Job ID
+   */
+  async addBulkMemberCopyJob(
+    data: BulkMemberCopyJobData
+  ): Promise<string> {
+    try {
+      const job = await this.queue.add(
+        'bulk-member-copy',
+        data,
+        {
+          jobId: data.executionId,
+        }
+      );
+
+      logger.info(`Member copy job added to queue: ${job.id}`, {
+        executionId: data.executionId,
+        sourceProjectId: data.sourceProjectId,
+        assignmentCount: data.assignments.length,
+      });
+
+      return job.id!;
+    } catch (error) {
+      logger.error('Failed to add member copy job to queue', {
+        executionId: data.executionId,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a reconcile job to the queue
+   * @param data - Job data with the adds, role changes and removals of a manifest plan
+   * @returns Job ID
+   */
+  async addBulkReconcileJob(
+    data: BulkReconcileJobData
+  ): Promise<string> {
+    try {
+      const job = await this.queue.add(
+        'bulk-reconcile',
+        data,
+        {
+          jobId: data.executionId,
+        }
+      );
+
+      logger.info(`Reconcile job added to queue: ${job.id}`, {
+        executionId: data.executionId,
+        manifestId: data.manifestId,
+        assignmentCount: data.assignments.length,
+        removalCount: data.removals.length,
+      });
+
+      return job.id!;
+    } catch (error) {
+      logger.error('Failed to add reconcile job to queue', {
+        executionId: data.executionId,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Plan a manifest on a fixed interval to detect drift
+   * Replaces the manifest's existing schedule
+   * @param manifestId - Manifest ID
+   * @param hours - Hours between plans
+   */
+  async scheduleDriftCheck(manifestId: string, hours: number): Promise<void> {
+    try {
+      await this.driftQueue.upsertJobScheduler(
+        `drift-${manifestId}`,
+        { every: hours * 3600000 },
+        { name: 'manifest-drift', data: { manifestId } }
+      );
+
+      logger.info(`Drift check scheduled for manifest ${manifestId}`, { hours });
+    } catch (error) {
+      logger.error('Failed to schedule drift check', { manifestId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a manifest's scheduled plans
+   * @param manifestId - Manifest ID
+   */
+  async cancelDriftCheck(manifestId: string): Promise<void> {
+    try {
+      await this.driftQueue.removeJobScheduler(`drift-${manifestId}`);
+    } catch (error) {
+      logger.error('Failed to cancel drift check', { manifestId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a membership cache sync for an account
+   * A sync already waiting or running for the account is reused
+   * @param data - Job data
+   * @returns Job ID
+   */
+  async addMembershipSyncJob(data: MembershipSyncJobData): Promise<string> {
+    try {
+      const job = await this.syncQueue.add('membership-sync', data, {
+        jobId: `sync-${data.accountId}`,
+      });
+
+      logger.info(`Membership sync queued: ${job.id}`, {
+        accountId: data.accountId,
+        force: !!data.force,
+      });
+
+      return job.id!;
+    } catch (error) {
+      logger.error('Failed to queue membership sync', {
+        accountId: data.accountId,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a membership sync is waiting or running for an account
+   * @param accountId - ACC Account ID
+   */
+  async isMembershipSyncQueued(accountId: string): Promise<boolean> {
+    const job = await this.syncQueue.getJob(`sync-${accountId}`);
+    if (!job) {
+      return false;
+    }
+
+    const state = await job.getState();
+    return state === 'waiting' || state === 'active' || state === 'delayed';
+  }
+
   /**
    * Get job status
    * @param jobId - Job ID
@@ -116,23 +408,84 @@ export class QueueService {
   }
 
   /**
-   * Cancel a job
+   * Cancel a job that a worker has not picked up yet
+   * Active jobs are left alone; the worker stops them between batches
    * @param jobId - Job ID
+   * @returns True if the job was removed from the queue
    */
-  async cancelJob(jobId: string): Promise<void> {
+  async cancelJob(jobId: string): Promise<boolean> {
     try {
       const job = await this.queue.getJob(jobId);
 
-      if (job) {
-        await job.remove();
-        logger.info(`Job cancelled: ${jobId}`);
+      if (!job) {
+        return false;
       }
+
+      const state = await job.getState();
+      if (state === 'active' || state === 'completed' || state === 'failed') {
+        return false;
+      }
+
+      await job.remove();
+      logger.info(`Job cancelled: ${jobId}`);
+      return true;
     } catch (error) {
       logger.error('Failed to cancel job', { jobId, error });
       throw error;
     }
   }
 
+  /**
+   * Move a delayed job to a new start time
+   * @param jobId - Job ID
+   * @param runAt - New start time; past times run the job right away
+   * @returns False if the job is no longer delayed
+   */
+  async rescheduleJob(jobId: string, runAt: Date): Promise<boolean> {
+    try {
+      const job = await this.queue.getJob(jobId);
+
+      if (!job || (await job.getState()) !== 'delayed') {
+        return false;
+      }
+
+      const delay = delayUntil(runAt);
+      if (delay > 0) {
+        await job.changeDelay(delay);
+      } else {
+        await job.promote();
+      }
+
+      logger.info(`Job rescheduled: ${jobId}`, { runAt });
+      return true;
+    } catch (error) {
+      logger.error('Failed to reschedule job', { jobId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Listen for one job's progress and finish events
+   * @param jobId - Job ID
+   * @param listener - Called for each event
+   * @returns Function that stops listening
+   */
+  onJobEvents(jobId: string, listener: (event: JobQueueEvent) => void): () => void {
+    let listeners = this.jobListeners.get(jobId);
+    if (!listeners) {
+      listeners = new Set();
+      this.jobListeners.set(jobId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0) {
+        this.jobListeners.delete(jobId);
+      }
+    };
+  }
+
   /**
    * Get queue metrics
    */
@@ -182,14 +535,24 @@ export class QueueService {
   private setupEventListeners(): void {
     this.queueEvents.on('completed', ({ jobId, returnvalue }) => {
       logger.info(`Job completed: ${jobId}`, { returnvalue });
+      this.emitJobEvent(jobId, { type: 'finished' });
     });
 
     this.queueEvents.on('failed', ({ jobId, failedReason }) => {
       logger.error(`Job failed: ${jobId}`, { failedReason });
+      this.emitJobEvent(jobId, { type: 'finished' });
+    });
+
+    this.queueEvents.on('removed', ({ jobId }) => {
+      this.emitJobEvent(jobId, { type: 'finished' });
     });
 
     this.queueEvents.on('progress', ({ jobId, data }) => {
       logger.debug(`Job progress: ${jobId}`, { progress: data });
+      // Workers from before per-result progress report a bare percentage
+      if (typeof data === 'object') {
+        this.emitJobEvent(jobId, { type: 'progress', progress: data as JobProgressData });
+      }
     });
 
     this.queueEvents.on('stalled', ({ jobId }) => {
@@ -197,11 +560,17 @@ export class QueueService {
     });
   }
 
+  private emitJobEvent(jobId: string, event: JobQueueEvent): void {
+    this.jobListeners.get(jobId)?.forEach((listener) => listener(event));
+  }
+
   /**
    * Gracefully close queue connections
    */
   async close(): Promise<void> {
     await this.queue.close();
+    await this.syncQueue.close();
+    await this.driftQueue.close();
     await this.queueEvents.close();
     await this.redisConnection.quit();
     logger.info('Queue service closed');
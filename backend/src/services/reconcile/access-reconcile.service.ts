@@ -0,0 +1,540 @@
+import yaml from 'js-yaml';
+import apsProjectsService from '../aps/projects.service';
+import membershipCacheService from '../cache/membership-cache.service';
+import roleDirectoryService from '../roles/role-directory.service';
+import projectGroupService, { toProjectGroup } from '../groups/project-group.service';
+import { getDb } from '../../db';
+import {
+  AccessLevel,
+  AccessManifest,
+  AccessManifestRecord,
+  AccessManifestVersion,
+  CloneAssignment,
+  ManifestError,
+  ManifestFormat,
+  ReconcileChange,
+  ReconcilePlan,
+  ReconcileRemoval,
+} from '../../types';
+import logger from '../../utils/logger';
+import {
+  getValidAccessToken,
+  hasProductAccess,
+  isValidEmail,
+  resolveProductAccess,
+  sameRoles,
+} from '../../utils/helpers';
+
+export const MANIFEST_FORMATS: ManifestFormat[] = ['yaml', 'json'];
+
+const ACCESS_LEVELS: AccessLevel[] = ['admin', 'user'];
+
+// Access a manifest asks for in one project
+interface DesiredAccess {
+  roles: string[];
+  accessLevel: AccessLevel;
+  companyId?: string;
+}
+
+/**
+ * Map an access_manifests row to the API shape
+ */
+export function toAccessManifest(row: any): AccessManifestRecord {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    name: row.name,
+    description: row.description,
+    currentVersion: row.current_version,
+    driftCheckHours: row.drift_check_hours,
+    lastCheckedAt: row.last_checked_at,
+    lastCheckError: row.last_check_error,
+    driftDetectedAt: row.drift_detected_at,
+    createdBy: row.created_by,
+    updatedBy: row.updated_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Map an access_manifest_versions row to the API shape
+ */
+export function toManifestVersion(row: any): AccessManifestVersion {
+  return {
+    version: row.version,
+    format: row.format,
+    content: row.content,
+    comment: row.comment,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+// True for a list of non-empty strings
+function isNameList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((v) => typeof v === 'string' && v.trim().length > 0)
+  );
+}
+
+/**
+ * Parse and check the shape of a manifest
+ * Names are not resolved here; plan() checks them against the account
+ * @param content - Manifest body
+ * @param format - yaml or json
+ * @returns Manifest with lower-cased emails
+ * @throws ManifestError listing every problem found
+ */
+export function parseManifest(content: string, format: ManifestFormat): AccessManifest {
+  let parsed: any;
+  try {
+    parsed = format === 'json' ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new ManifestError(`Manifest is not valid ${format.toUpperCase()}`, [
+      error instanceof Error ? error.message : String(error),
+    ]);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.access)) {
+    throw new ManifestError('Manifest needs an "access" list');
+  }
+
+  const details: string[] = [];
+  if (parsed.prune !== undefined && typeof parsed.prune !== 'boolean') {
+    details.push('prune must be true or false');
+  }
+
+  parsed.access.forEach((entry: any, i: number) => {
+    const at = `access[${i}]`;
+    if (!entry || typeof entry !== 'object') {
+      details.push(`${at} must be a mapping`);
+      return;
+    }
+    for (const field of ['projects', 'groups']) {
+      if (entry[field] !== undefined && !isNameList(entry[field])) {
+        details.push(`${at}.${field} must be a list of names or IDs`);
+      }
+    }
+    if (!entry.projects?.length && !entry.groups?.length) {
+      details.push(`${at} needs projects or groups`);
+    }
+    if (!Array.isArray(entry.members)) {
+      details.push(`${at}.members must be a list`);
+      return;
+    }
+
+    entry.members.forEach((member: any, j: number) => {
+      const memberAt = `${at}.members[${j}]`;
+      if (!member || typeof member !== 'object') {
+        details.push(`${memberAt} must be a mapping`);
+        return;
+      }
+      if (typeof member.email !== 'string' || !isValidEmail(member.email.trim())) {
+        details.push(`${memberAt}.email must be an email address`);
+      }
+      if (!isNameList(member.roles) || member.roles.length === 0) {
+        details.push(`${memberAt}.roles must list at least one role`);
+      }
+      if (
+        member.accessLevel !== undefined &&
+        !ACCESS_LEVELS.includes(member.accessLevel)
+      ) {
+        details.push(`${memberAt}.accessLevel must be one of ${ACCESS_LEVELS.join(', ')}`);
+      }
+      if (member.company !== undefined && typeof member.company !== 'string') {
+        details.push(`${memberAt}.company must be a name or ID`);
+      }
+    });
+  });
+
+  if (details.length > 0) {
+    throw new ManifestError('Manifest is not valid', details);
+  }
+
+  return {
+    prune: parsed.prune ?? true,
+    access: parsed.access.map((entry: any) => ({
+      projects: entry.projects,
+      groups: entry.groups,
+      members: entry.members.map((m: any) => ({
+        email: m.email.trim().toLowerCase(),
+        roles: m.roles,
+        accessLevel: m.accessLevel,
+        company: m.company,
+      })),
+    })),
+  };
+}
+
+// Index records by lower-cased ID and name
+function indexByKey<T extends { id: string; name: string }>(records: T[]): Map<string, T> {
+  const byKey = new Map<string, T>();
+  for (const r of records) {
+    byKey.set(r.id.toLowerCase(), r);
+    byKey.set(r.name.trim().toLowerCase(), r);
+  }
+  return byKey;
+}
+
+/**
+ * Access Reconcile Service
+ * Compares the access a manifest declares with live project members and
+ * turns the differences into one job of adds, role changes and removals
+ */
+export class AccessReconcileService {
+  /**
+   * Load a stored manifest version
+   * @param accountId - ACC Account ID the manifest must belong to
+   * @param manifestId - Manifest ID
+   * @param version - Version number; defaults to the current version
+   * @returns Null if the manifest or version does not exist
+   */
+  async getVersion(
+    accountId: string,
+    manifestId: string,
+    version?: number
+  ): Promise<AccessManifestVersion | null> {
+    const result = await getDb().query(
+      `SELECT v.* FROM access_manifest_versions v
+       JOIN access_manifests m ON m.id = v.manifest_id
+       WHERE m.id = $1 AND m.account_id = $2
+         AND v.version = COALESCE($3, m.current_version)`,
+      [manifestId, accountId, version ?? null]
+    );
+    return result.rows.length > 0 ? toManifestVersion(result.rows[0]) : null;
+  }
+
+  /**
+   * Diff a manifest against the live members of every project it covers
+   * Members are read from APS, not the membership cache, so the plan
+   * reflects changes made outside this app
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param manifest - Parsed manifest
+   * @param source - Stored manifest version the plan was made from
+   * @returns Changes in manifest project order
+   * @throws ManifestError if projects, groups, roles or companies are unknown
+   */
+  async plan(
+    accessToken: string,
+    accountId: string,
+    manifest: AccessManifest,
+    source: { manifestId: string; version: number } | null = null
+  ): Promise<ReconcilePlan> {
+    const desired = await this.resolve(accessToken, accountId, manifest);
+    const prune = manifest.prune ?? true;
+    const changes: ReconcileChange[] = [];
+    const failedProjects: ReconcilePlan['failedProjects'] = [];
+    let unchanged = 0;
+
+    for (const [projectId, { name: projectName, members }] of desired) {
+      let users;
+      try {
+        users = await apsProjectsService.getProjectUsers(accessToken, accountId, projectId);
+      } catch (error) {
+        failedProjects.push({
+          projectId,
+          projectName,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        continue;
+      }
+
+      const roleRefs = (roleIds: string[]) =>
+        roleDirectoryService.resolve(accountId, roleIds, projectId);
+
+      for (const [email, access] of members) {
+        const existing = users.find((u) => u.email.toLowerCase() === email);
+        const products = resolveProductAccess(access.accessLevel);
+
+        if (
+          existing &&
+          sameRoles(existing.roleIds, access.roles) &&
+          hasProductAccess(existing.products, products)
+        ) {
+          unchanged++;
+          continue;
+        }
+
+        changes.push({
+          action: existing ? 'update' : 'add',
+          email,
+          projectId,
+          projectName,
+          currentRoles: await roleRefs(existing?.roleIds ?? []),
+          desiredRoles: await roleRefs(access.roles),
+          accessLevel: access.accessLevel,
+          companyId: access.companyId,
+        });
+      }
+
+      if (!prune) {
+        continue;
+      }
+
+      for (const user of users) {
+        const email = user.email.toLowerCase();
+        if (members.has(email)) {
+          continue;
+        }
+        changes.push({
+          action: 'remove',
+          email,
+          projectId,
+          projectName,
+          currentRoles: await roleRefs(user.roleIds),
+          desiredRoles: [],
+          accessLevel: null,
+        });
+      }
+    }
+
+    return {
+      manifestId: source?.manifestId ?? null,
+      manifestVersion: source?.version ?? null,
+      prune,
+      projectCount: desired.size,
+      changes,
+      summary: {
+        adds: changes.filter((c) => c.action === 'add').length,
+        updates: changes.filter((c) => c.action === 'update').length,
+        removals: changes.filter((c) => c.action === 'remove').length,
+        unchanged,
+      },
+      failedProjects,
+    };
+  }
+
+  /**
+   * Split a plan into the rows of a reconcile job
+   * @param plan - Plan from plan()
+   * @returns Assignments for adds and role changes, and removals
+   */
+  toJob(plan: ReconcilePlan): {
+    assignments: CloneAssignment[];
+    removals: ReconcileRemoval[];
+  } {
+    return {
+      assignments: plan.changes
+        .filter((c) => c.action !== 'remove')
+        .map((c) => ({
+          email: c.email,
+          projectId: c.projectId,
+          projectName: c.projectName,
+          roles: c.desiredRoles.map((r) => r.id),
+          accessLevel: c.accessLevel!,
+          products: resolveProductAccess(c.accessLevel!),
+          companyId: c.companyId,
+        })),
+      removals: plan.changes
+        .filter((c) => c.action === 'remove')
+        .map((c) => ({
+          email: c.email,
+          projectId: c.projectId,
+          projectName: c.projectName,
+        })),
+    };
+  }
+
+  /**
+   * Plan a manifest's current version and record any drift
+   * Runs on the manifest's drift check schedule with the token of the
+   * user who last saved it
+   * @param manifestId - Manifest ID
+   * @returns The plan, or null if the manifest no longer exists
+   */
+  async checkDrift(manifestId: string): Promise<ReconcilePlan | null> {
+    const db = getDb();
+    const manifestRow = await db.query(
+      `SELECT m.*, v.format, v.content
+       FROM access_manifests m
+       JOIN access_manifest_versions v
+         ON v.manifest_id = m.id AND v.version = m.current_version
+       WHERE m.id = $1`,
+      [manifestId]
+    );
+
+    if (manifestRow.rows.length === 0) {
+      return null;
+    }
+
+    const row = manifestRow.rows[0];
+
+    try {
+      const { accessToken } = await getValidAccessToken(
+        db,
+        row.updated_by ?? row.created_by
+      );
+      const plan = await this.plan(
+        accessToken,
+        row.account_id,
+        parseManifest(row.content, row.format),
+        { manifestId, version: row.current_version }
+      );
+      const drifted = plan.changes.length > 0;
+
+      if (drifted) {
+        await db.query(
+          `INSERT INTO access_drift_reports
+           (manifest_id, manifest_version, add_count, update_count, remove_count, changes)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            manifestId,
+            row.current_version,
+            plan.summary.adds,
+            plan.summary.updates,
+            plan.summary.removals,
+            JSON.stringify(plan.changes),
+          ]
+        );
+
+        logger.warn(`Access drift detected for manifest ${manifestId}`, {
+          accountId: row.account_id,
+          ...plan.summary,
+        });
+      }
+
+      // Drift stays dated from the first check that found it
+      await db.query(
+        `UPDATE access_manifests
+         SET last_checked_at = NOW(),
+             last_check_error = NULL,
+             drift_detected_at = CASE WHEN $2 THEN COALESCE(drift_detected_at, NOW()) END
+         WHERE id = $1`,
+        [manifestId, drifted]
+      );
+
+      return plan;
+    } catch (error) {
+      await db.query(
+        `UPDATE access_manifests
+         SET last_checked_at = NOW(), last_check_error = $2
+         WHERE id = $1`,
+        [manifestId, error instanceof Error ? error.message : 'Unknown error']
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve manifest names to IDs and merge entries per project
+   * @returns Desired access per lower-cased email, per project
+   */
+  private async resolve(
+    accessToken: string,
+    accountId: string,
+    manifest: AccessManifest
+  ): Promise<Map<string, { name: string; members: Map<string, DesiredAccess> }>> {
+    const usesGroups = manifest.access.some((e) => e.groups?.length);
+    const usesCompanies = manifest.access.some((e) => e.members.some((m) => m.company));
+
+    const [projects, roles, companies, groupRows] = await Promise.all([
+      apsProjectsService.getProjects(accessToken, accountId),
+      apsProjectsService.getAccountRoles(accessToken, accountId),
+      usesCompanies ? apsProjectsService.getAccountCompanies(accountId) : [],
+      usesGroups
+        ? getDb()
+            .query('SELECT * FROM project_groups WHERE account_id = $1', [accountId])
+            .then((r) => r.rows.map(toProjectGroup))
+        : [],
+    ]);
+
+    const projectsByKey = indexByKey(projects);
+    const rolesByKey = indexByKey(roles);
+    const companiesByKey = indexByKey(companies);
+    const groupsByKey = indexByKey(groupRows);
+
+    const details: string[] = [];
+    const desired = new Map<string, { name: string; members: Map<string, DesiredAccess> }>();
+    const projectNames = new Map(projects.map((p) => [p.id, p.name]));
+
+    for (const [i, entry] of manifest.access.entries()) {
+      const at = `access[${i}]`;
+      const projectIds: string[] = [];
+
+      for (const key of entry.projects ?? []) {
+        const project = projectsByKey.get(key.trim().replace(/^b\./, '').toLowerCase());
+        if (project) {
+          projectIds.push(project.id);
+        } else {
+          details.push(`${at}: unknown project "${key}"`);
+        }
+      }
+
+      for (const key of entry.groups ?? []) {
+        const group = groupsByKey.get(key.trim().toLowerCase());
+        if (group) {
+          projectIds.push(...(await projectGroupService.getProjectIds(group)));
+        } else {
+          details.push(`${at}: unknown project group "${key}"`);
+        }
+      }
+
+      const members = entry.members.map((m) => {
+        const roleIds = m.roles.flatMap((key) => {
+          const role = rolesByKey.get(key.trim().toLowerCase());
+          if (!role) {
+            details.push(`${at}: unknown role "${key}" for ${m.email}`);
+          }
+          return role ? [role.id] : [];
+        });
+        const company = m.company
+          ? companiesByKey.get(m.company.trim().toLowerCase())
+          : undefined;
+        if (m.company && !company) {
+          details.push(`${at}: unknown company "${m.company}" for ${m.email}`);
+        }
+        return {
+          email: m.email,
+          access: {
+            roles: [...new Set(roleIds)],
+            accessLevel: (m.accessLevel as AccessLevel) || 'user',
+            companyId: company?.id,
+          },
+        };
+      });
+
+      for (const projectId of projectIds) {
+        const project = desired.get(projectId) ?? {
+          name: projectNames.get(projectId) ?? projectId,
+          members: new Map<string, DesiredAccess>(),
+        };
+        desired.set(projectId, project);
+
+        for (const { email, access } of members) {
+          const listed = project.members.get(email);
+          if (
+            listed &&
+            (!sameRoles(listed.roles, access.roles) ||
+              listed.accessLevel !== access.accessLevel)
+          ) {
+            details.push(`${email} is listed twice for ${project.name} with different access`);
+          }
+          project.members.set(email, listed ?? access);
+        }
+      }
+    }
+
+    if (details.length > 0) {
+      throw new ManifestError(
+        'Manifest does not match the account',
+        [...new Set(details)]
+      );
+    }
+
+    // Group projects outside the project list (e.g. archived) are named from the cache
+    const unnamed = [...desired.keys()].filter((id) => !projectNames.has(id));
+    if (unnamed.length > 0) {
+      const cachedNames = await membershipCacheService.getProjectNames(unnamed);
+      for (const id of unnamed) {
+        desired.get(id)!.name = cachedNames.get(id) ?? id;
+      }
+    }
+
+    return desired;
+  }
+}
+
+export default new AccessReconcileService();
@@ -0,0 +1,281 @@
+import apsProjectsService from '../aps/projects.service';
+import roleDirectoryService from '../roles/role-directory.service';
+import { Pool, PoolClient } from 'pg';
+import { getDb, transaction } from '../../db';
+import {
+  AccessReviewCampaign,
+  AccessReviewItem,
+  AccessReviewProgress,
+  AccessReviewProject,
+  OperationPair,
+} from '../../types';
+import { getAccessLevel } from '../../utils/helpers';
+
+// Membership of one project as it is now
+interface SnapshotMember {
+  email: string;
+  name: string | null;
+  companyName: string | null;
+  roles: { id: string; name: string }[];
+  accessLevel: string;
+}
+
+// A project to review and the reviewer it is assigned to
+export interface ReviewTarget {
+  id: string;
+  name: string;
+  reviewerEmail: string;
+}
+
+// Progress counts selected alongside campaign and project rows
+function toProgress(row: any): AccessReviewProgress {
+  return {
+    total: Number(row.total ?? 0),
+    decided: Number(row.decided ?? 0),
+    revoked: Number(row.revoked ?? 0),
+  };
+}
+
+/**
+ * Map an access_review_campaigns row, with progress counts, to the API shape
+ */
+export function toAccessReviewCampaign(row: any): AccessReviewCampaign {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    name: row.name,
+    description: row.description,
+    status: row.status,
+    dueDate: row.due_day ?? null,
+    createdBy: row.created_by,
+    closedBy: row.closed_by,
+    closedAt: row.closed_at,
+    removalExecutionId: row.removal_execution_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    progress: toProgress(row),
+  };
+}
+
+/**
+ * Map an access_review_projects row, with progress counts, to the API shape
+ */
+export function toAccessReviewProject(row: any): AccessReviewProject {
+  return {
+    projectId: row.project_id,
+    projectName: row.project_name,
+    reviewerEmail: row.reviewer_email,
+    progress: toProgress(row),
+  };
+}
+
+/**
+ * Map an access_review_items row to the API shape
+ */
+export function toAccessReviewItem(row: any): AccessReviewItem {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    email: row.user_email,
+    name: row.user_name,
+    companyName: row.company_name,
+    roles: row.roles,
+    accessLevel: row.access_level,
+    decision: row.decision,
+    note: row.note,
+    decidedBy: row.decided_by,
+    decidedAt: row.decided_at,
+  };
+}
+
+// Item counts for queries that join access_review_items as i
+const PROGRESS_COLUMNS = `COUNT(i.id) AS total,
+         COUNT(i.decision) AS decided,
+         COUNT(*) FILTER (WHERE i.decision = 'revoke') AS revoked`;
+
+/**
+ * Access Review Service
+ * Snapshots project memberships into review campaigns and reads them back
+ * with reviewer progress
+ */
+export class AccessReviewService {
+  /**
+   * Start a campaign from the current members of each project
+   * Members are read from APS, not the membership cache, so reviewers see
+   * access granted outside this app
+   * @param accessToken - Valid access token
+   * @param accountId - ACC Account ID
+   * @param campaign - Name, description and due date
+   * @param targets - Projects and their reviewers
+   * @param userId - User starting the campaign
+   * @returns The campaign, and projects left out because their members could not be listed
+   */
+  async create(
+    accessToken: string,
+    accountId: string,
+    campaign: { name: string; description: string | null; dueDate: string | null },
+    targets: ReviewTarget[],
+    userId: string
+  ): Promise<{
+    campaign: AccessReviewCampaign | null; // Null when no project could be listed
+    failedProjects: { projectId: string; projectName: string; error: string }[];
+  }> {
+    const snapshots: { target: ReviewTarget; members: SnapshotMember[] }[] = [];
+    const failedProjects: { projectId: string; projectName: string; error: string }[] = [];
+
+    for (const target of targets) {
+      try {
+        snapshots.push({
+          target,
+          members: await this.snapshot(accessToken, accountId, target.id),
+        });
+      } catch (error) {
+        failedProjects.push({
+          projectId: target.id,
+          projectName: target.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (snapshots.length === 0) {
+      return { campaign: null, failedProjects };
+    }
+
+    const campaignId = await transaction(async (client) => {
+      const created = await client.query(
+        `INSERT INTO access_review_campaigns
+         (account_id, name, description, due_date, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [accountId, campaign.name, campaign.description, campaign.dueDate, userId]
+      );
+      const id: string = created.rows[0].id;
+
+      for (const { target, members } of snapshots) {
+        await client.query(
+          `INSERT INTO access_review_projects
+           (campaign_id, project_id, project_name, reviewer_email)
+           VALUES ($1, $2, $3, $4)`,
+          [id, target.id, target.name, target.reviewerEmail]
+        );
+
+        for (const member of members) {
+          await client.query(
+            `INSERT INTO access_review_items
+             (campaign_id, project_id, user_email, user_name, company_name,
+              roles, access_level)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [
+              id,
+              target.id,
+              member.email,
+              member.name,
+              member.companyName,
+              JSON.stringify(member.roles),
+              member.accessLevel,
+            ]
+          );
+        }
+      }
+
+      return id;
+    });
+
+    return { campaign: (await this.getCampaign(accountId, campaignId))!, failedProjects };
+  }
+
+  /**
+   * List an account's campaigns, open ones first
+   */
+  async listCampaigns(accountId: string): Promise<AccessReviewCampaign[]> {
+    const result = await getDb().query(
+      `SELECT c.*, to_char(c.due_date, 'YYYY-MM-DD') AS due_day, ${PROGRESS_COLUMNS}
+       FROM access_review_campaigns c
+       LEFT JOIN access_review_items i ON i.campaign_id = c.id
+       WHERE c.account_id = $1
+       GROUP BY c.id
+       ORDER BY c.status = 'open' DESC, c.created_at DESC`,
+      [accountId]
+    );
+    return result.rows.map(toAccessReviewCampaign);
+  }
+
+  /**
+   * Load a campaign with its progress
+   * @param accountId - ACC Account ID the campaign must belong to
+   * @returns Null if the campaign does not exist in the account
+   */
+  async getCampaign(
+    accountId: string,
+    campaignId: string
+  ): Promise<AccessReviewCampaign | null> {
+    const result = await getDb().query(
+      `SELECT c.*, to_char(c.due_date, 'YYYY-MM-DD') AS due_day, ${PROGRESS_COLUMNS}
+       FROM access_review_campaigns c
+       LEFT JOIN access_review_items i ON i.campaign_id = c.id
+       WHERE c.id = $1 AND c.account_id = $2
+       GROUP BY c.id`,
+      [campaignId, accountId]
+    );
+    return result.rows.length > 0 ? toAccessReviewCampaign(result.rows[0]) : null;
+  }
+
+  /**
+   * List a campaign's projects with each reviewer's progress
+   */
+  async getProjects(campaignId: string): Promise<AccessReviewProject[]> {
+    const result = await getDb().query(
+      `SELECT p.project_id, p.project_name, p.reviewer_email, ${PROGRESS_COLUMNS}
+       FROM access_review_projects p
+       LEFT JOIN access_review_items i
+         ON i.campaign_id = p.campaign_id AND i.project_id = p.project_id
+       WHERE p.campaign_id = $1
+       GROUP BY p.id
+       ORDER BY p.project_name, p.project_id`,
+      [campaignId]
+    );
+    return result.rows.map(toAccessReviewProject);
+  }
+
+  /**
+   * Memberships reviewers chose to revoke
+   * @param db - Pass the transaction's client to read inside it
+   */
+  async getRevoked(
+    campaignId: string,
+    db: Pool | PoolClient = getDb()
+  ): Promise<OperationPair[]> {
+    const result = await db.query(
+      `SELECT user_email, project_id FROM access_review_items
+       WHERE campaign_id = $1 AND decision = 'revoke'
+       ORDER BY project_id, user_email`,
+      [campaignId]
+    );
+    return result.rows.map((r: any) => ({ email: r.user_email, projectId: r.project_id }));
+  }
+
+  // Current members of a project, with role names and access level
+  private async snapshot(
+    accessToken: string,
+    accountId: string,
+    projectId: string
+  ): Promise<SnapshotMember[]> {
+    const users = await apsProjectsService.getProjectUsers(accessToken, accountId, projectId);
+    const members: SnapshotMember[] = [];
+
+    for (const user of users) {
+      members.push({
+        email: user.email.toLowerCase(),
+        name: user.name || null,
+        companyName: user.companyName ?? null,
+        roles: await roleDirectoryService.resolve(accountId, user.roleIds, projectId),
+        accessLevel: getAccessLevel(user.products),
+      });
+    }
+
+    return members;
+  }
+}
+
+export default new AccessReviewService();
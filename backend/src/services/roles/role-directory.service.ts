@@ -0,0 +1,111 @@
+import apsProjectsService from '../aps/projects.service';
+import { APSRole, RoleRef } from '../../types';
+import logger from '../../utils/logger';
+
+interface RoleDirectoryEntry {
+  names: Map<string, string>; // Role ID -> name
+  expiresAt: number;
+}
+
+/**
+ * Role Directory Service
+ * Resolves role IDs to names from account roles, falling back to the
+ * project's roles for IDs the account list does not include
+ * Role endpoints use the app's 2-legged token, so no user token is needed
+ */
+export class RoleDirectoryService {
+  private readonly ttlMs = 10 * 60 * 1000; // 10 minutes
+  private readonly failureTtlMs = 60 * 1000; // Retry failed lookups after 1 minute
+  private accountRoles = new Map<string, Promise<RoleDirectoryEntry>>();
+  private projectRoles = new Map<string, Promise<RoleDirectoryEntry>>();
+
+  /**
+   * Get role names for an account
+   * @param accountId - ACC Account ID
+   * @returns Role names keyed by role ID; empty if roles can't be loaded
+   */
+  async getAccountRoleNames(accountId: string): Promise<Map<string, string>> {
+    const entry = await this.load(this.accountRoles, accountId, () =>
+      apsProjectsService.getAccountRoles('', accountId)
+    );
+    return entry.names;
+  }
+
+  /**
+   * Resolve role IDs to {id, name} pairs
+   * IDs that can't be resolved keep the ID as their name
+   * @param accountId - ACC Account ID
+   * @param roleIds - Role IDs, in the order to return them
+   * @param projectId - Project to check for roles missing from the account list
+   */
+  async resolve(
+    accountId: string,
+    roleIds: string[],
+    projectId?: string
+  ): Promise<RoleRef[]> {
+    let names = await this.getAccountRoleNames(accountId);
+
+    if (projectId && roleIds.some((id) => !names.has(id))) {
+      const project = await this.load(this.projectRoles, projectId, () =>
+        apsProjectsService.getProjectRoles('', accountId, projectId)
+      );
+      names = new Map([...names, ...project.names]);
+    }
+
+    return roleIds.map((id) => ({ id, name: names.get(id) ?? id }));
+  }
+
+  /**
+   * Resolve a single, possibly empty, role ID
+   * @param accountId - ACC Account ID
+   * @param roleId - Role ID
+   * @param projectId - Project to check for roles missing from the account list
+   */
+  async resolveOne(
+    accountId: string,
+    roleId: string | null | undefined,
+    projectId?: string
+  ): Promise<RoleRef | null> {
+    if (!roleId) {
+      return null;
+    }
+
+    const [role] = await this.resolve(accountId, [roleId], projectId);
+    return role;
+  }
+
+  // Cached lookup; concurrent callers share one request
+  private async load(
+    cache: Map<string, Promise<RoleDirectoryEntry>>,
+    key: string,
+    fetchRoles: () => Promise<APSRole[]>
+  ): Promise<RoleDirectoryEntry> {
+    const cached = cache.get(key);
+    if (cached) {
+      const entry = await cached;
+      if (entry.expiresAt > Date.now()) {
+        return entry;
+      }
+    }
+
+    const pending = fetchRoles()
+      .then((roles) => ({
+        names: new Map(roles.map((r) => [r.id, r.name])),
+        expiresAt: Date.now() + this.ttlMs,
+      }))
+      .catch((error) => {
+        logger.warn(`Role names unavailable for ${key}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return {
+          names: new Map<string, string>(),
+          expiresAt: Date.now() + this.failureTtlMs,
+        };
+      });
+
+    cache.set(key, pending);
+    return pending;
+  }
+}
+
+export default new RoleDirectoryService();
@@ -28,12 +28,21 @@ export interface APSAccount {
   accountId: string;
 }
 
+// ACC Admin project classification; only production projects take real work
+export type ProjectClassification = 'production' | 'template' | 'component' | 'sample';
+
+export interface ProjectListOptions {
+  includeTemplates?: boolean; // Also list projects that aren't production projects
+  includeArchived?: boolean;
+}
+
 export interface APSProject {
   id: string;
   name: string;
   accountId: string;
   platform: string;
   status: string;
+  classification?: ProjectClassification; // Missing when the Admin API couldn't classify it
   jobNumber?: string;
   addressLine1?: string;
   addressLine2?: string;
@@ -41,7 +50,8 @@ export interface APSProject {
   stateOrProvince?: string;
   postalCode?: string;
   country?: string;
-  businessUnit?: string;
+  businessUnitId?: string;
+  businessUnit?: string; // Business unit name
   timezone?: string;
   language?: string;
   constructionType?: string;
@@ -70,10 +80,12 @@ export interface APSProjectUser {
   companyId?: string;
   companyName?: string;
   roleIds: string[];
-  products: {
-    key: string;
-    access: string;
-  }[];
+  products: ProductAccess[];
+}
+
+export interface ProductAccess {
+  key: string; // e.g. projectAdministration, docs, build, cost
+  access: string; // administrator | member | none
 }
 
 export interface APSRole {
@@ -83,6 +95,28 @@ export interface APSRole {
   memberGroupId?: string;
 }
 
+export interface RoleRef {
+  id: string;
+  name: string; // Falls back to the ID when the role can't be resolved
+}
+
+export interface CompanyRef {
+  id: string;
+  name: string;
+}
+
+// Where a member's company came from, in order of precedence
+export type CompanySource = 'selected' | 'member' | 'domain' | 'default';
+
+export interface ResolvedCompany extends CompanyRef {
+  source: CompanySource;
+}
+
+export interface CompanyOptions {
+  companies?: Record<string, string>; // Email -> company ID chosen for it
+  allowDefaultCompany?: boolean; // Fall back to the account's first company
+}
+
 // ============================================================================
 // Database Models
 // ============================================================================
@@ -111,6 +145,8 @@ export interface Project {
   status: string | null;
   region: string | null;
   lastSyncedAt: Date;
+  membershipsSyncedAt: Date | null;
+  membershipsSyncError: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -131,6 +167,8 @@ export interface JobExecution {
   targetUserEmails: string[];
   targetProjectIds: string[];
   assignedRole: string;
+  assignedRoles: string[] | null;
+  roleMode: RoleMode | null;
   totalProjects: number;
   completedCount: number;
   successCount: number;
@@ -140,6 +178,20 @@ export interface JobExecution {
   estimatedDurationSeconds: number | null;
   errorMessage: string | null;
   retryCount: number;
+  templateId: string | null;
+  accessLevel: AccessLevel | null;
+  products: ProductAccess[] | null;
+  cancelRequestedAt: Date | null;
+  cancelledBy: string | null;
+  accountId: string | null;
+  parentExecutionId: string | null;
+  scheduledFor: Date | null;
+  expiresAt: Date | null;
+  expiryExecutionId: string | null;
+  inviteToAccount: boolean;
+  invitations: AccountInvitation[] | null;
+  companies: Record<string, string> | null;
+  allowDefaultCompany: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -160,6 +212,12 @@ export interface JobResult {
   status: ResultStatus;
   previousRole: string | null;
   assignedRole: string | null;
+  previousRoles: string[] | null;
+  resultingRoles: string[] | null;
+  previousAccessLevel: AccessLevel | null;
+  accessLevel: AccessLevel | null;
+  products: ProductAccess[] | null;
+  companyId: string | null;
   actionTaken: string | null;
   errorCode: string | null;
   errorMessage: string | null;
@@ -181,10 +239,14 @@ export type AuditAction =
   | 'job_started'
   | 'job_completed'
   | 'job_failed'
+  | 'job_cancelled'
   | 'user_added_to_project'
   | 'user_role_updated'
   | 'api_error'
-  | 'rate_limit_hit';
+  | 'rate_limit_hit'
+  | 'review_campaign_created'
+  | 'review_decision'
+  | 'review_campaign_closed';
 
 export interface AuditLog {
   id: string;
@@ -201,21 +263,64 @@ export interface AuditLog {
   createdAt: Date;
 }
 
+// Audit log row with the user who performed the action, as listed by GET /api/audit
+export interface AuditLogEntry extends AuditLog {
+  userEmail: string | null;
+  userName: string | null;
+}
+
 // ============================================================================
 // Application DTOs
 // ============================================================================
 
+export type AccessLevel = 'admin' | 'user';
+
+// How requested roles combine with a member's current roles
+export type RoleMode = 'replace' | 'add' | 'remove';
+
 export interface BulkUserAssignmentRequest {
   userEmails: string[];
   projectIds: string[];
-  role: string;
+  projectGroupIds?: string[]; // Expanded to their projects when the job is created
+  role?: string; // Single role; same as roles: [role]
+  roles?: string[];
+  roleMode?: RoleMode; // Defaults to 'replace'
   accountId: string;
+  accessLevel?: AccessLevel; // Defaults to 'user'
+  products?: ProductAccess[]; // Per-product overrides
+  scheduledFor?: string; // ISO date; runs immediately when omitted
+  expiresAt?: string; // ISO date; access added by the job is removed then
+  inviteToAccount?: boolean; // Create account users for emails not in the account
+  invitations?: AccountInvitation[]; // Optional details per invited email
+  companies?: Record<string, string>; // Email -> company ID
+  allowDefaultCompany?: boolean;
+}
+
+export interface AccountInvitation {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  companyId?: string; // Defaults to the email's resolved company
+  jobTitle?: string;
+}
+
+export interface ScheduleUpdateRequest {
+  scheduledFor?: string;
+  expiresAt?: string | null; // null clears the expiry
 }
 
 export interface PreviewRequest {
   userEmails: string[];
   projectIds: string[];
+  projectGroupIds?: string[];
   accountId: string;
+  role?: string;
+  roles?: string[];
+  roleMode?: RoleMode;
+  accessLevel?: AccessLevel;
+  products?: ProductAccess[];
+  companies?: Record<string, string>; // Email -> company ID
+  allowDefaultCompany?: boolean;
 }
 
 export interface PreviewResult {
@@ -224,10 +329,391 @@ export interface PreviewResult {
   projectName: string;
   currentAccess: {
     hasAccess: boolean;
-    currentRole?: string;
+    roles: RoleRef[];
+    accessLevel?: AccessLevel;
+    products?: ProductAccess[];
   };
+  resultingRoles: RoleRef[]; // Roles the member will hold afterwards
+  accessLevel: AccessLevel;
+  products: ProductAccess[];
+  company: ResolvedCompany | null; // null when no company could be found
   willBeAdded: boolean;
   willBeUpdated: boolean;
+  conflict?: boolean; // Member copies: the target already has the user with other roles
+}
+
+export interface BulkUserRemovalRequest {
+  userEmails: string[];
+  projectIds: string[];
+  projectGroupIds?: string[];
+  accountId: string;
+}
+
+export interface RemovalPreviewResult {
+  userEmail: string;
+  projectId: string;
+  projectName: string;
+  currentAccess: {
+    hasAccess: boolean;
+    roles: RoleRef[];
+  };
+  willBeRemoved: boolean;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  email: string;
+  project: string;
+  role: string;
+  company?: string;
+  accessLevel?: string;
+  firstName?: string; // Used when inviting the email to the account
+  lastName?: string;
+  jobTitle?: string;
+}
+
+export interface BulkImportRequest {
+  accountId: string;
+  rows: ImportRow[];
+  inviteToAccount?: boolean;
+  allowDefaultCompany?: boolean; // For rows without a company
+}
+
+export interface CloneAccessRequest {
+  accountId: string;
+  sourceEmail: string; // Member whose project access is copied
+  targetEmails: string[];
+  removeSource?: boolean; // Handover: remove the source once targets have the access
+  inviteToAccount?: boolean;
+  companies?: Record<string, string>; // Target email -> company ID or name
+  allowDefaultCompany?: boolean;
+}
+
+export interface MemberCopyFilter {
+  roleIds?: string[]; // Members holding any of these roles
+  companyIds?: string[]; // Members of any of these companies
+}
+
+export interface MemberCopyRequest {
+  accountId: string;
+  targetProjectIds: string[];
+  filter?: MemberCopyFilter;
+  skipConflicts?: boolean; // Leave out users the target has with other roles
+  allowDefaultCompany?: boolean; // For members without a company
+}
+
+export interface ClonePlan {
+  sourceEmail: string;
+  projects: MemberProjectAccess[]; // Projects the source belongs to
+  assignments: CloneAssignment[]; // One per target per source project
+  failedProjects: { projectId: string; projectName: string; error: string }[];
+}
+
+export interface ImportRowValidation {
+  rowNumber: number;
+  email: string;
+  projectId: string | null;
+  projectName: string | null;
+  roleId: string | null;
+  roleName: string | null;
+  companyId: string | null;
+  companyName: string | null;
+  accessLevel: AccessLevel | null;
+  firstName: string | null;
+  lastName: string | null;
+  jobTitle: string | null;
+  errors: string[];
+  valid: boolean;
+}
+
+export interface ImportValidationReport {
+  rows: ImportRowValidation[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+  };
+}
+
+export interface ProjectFilter {
+  projectIds?: string[];
+  nameContains?: string;
+  platform?: string;
+}
+
+export interface RoleTemplate {
+  id: string;
+  accountId: string;
+  name: string;
+  description: string | null;
+  roleId: string;
+  roleName: string | null;
+  products: ProductAccess[];
+  projectFilter: ProjectFilter | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RoleTemplateRequest {
+  accountId: string;
+  name: string;
+  description?: string;
+  roleId: string;
+  products?: ProductAccess[];
+  projectFilter?: ProjectFilter | null;
+}
+
+export interface ApplyTemplateRequest {
+  accountId: string;
+  userEmails: string[];
+  projectIds?: string[]; // Overrides the template's project filter
+}
+
+// Project Group Types
+export type ProjectGroupType = 'static' | 'dynamic';
+
+// Matched against synced project details; all fields that are set must match
+export interface ProjectGroupFilter {
+  nameContains?: string;
+  businessUnit?: string;
+  currentPhase?: string;
+  status?: string;
+  platform?: string;
+  city?: string;
+  activeFrom?: string; // YYYY-MM-DD; projects whose dates overlap the range
+  activeTo?: string; // YYYY-MM-DD
+}
+
+export interface ProjectGroup {
+  id: string;
+  accountId: string;
+  name: string;
+  description: string | null;
+  type: ProjectGroupType;
+  projectIds: string[]; // Static groups only
+  filter: ProjectGroupFilter | null; // Dynamic groups only
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectGroupRequest {
+  accountId: string;
+  name: string;
+  description?: string;
+  type: ProjectGroupType;
+  projectIds?: string[];
+  filter?: ProjectGroupFilter;
+}
+
+// A group as expanded for a job; stored on the execution
+export interface ExpandedProjectGroup {
+  id: string;
+  name: string;
+  type: ProjectGroupType;
+  projectIds: string[];
+}
+
+// Access Manifest Types
+export type ManifestFormat = 'yaml' | 'json';
+
+// A member's desired access; roles, projects, groups and companies by name or ID
+export interface ManifestMember {
+  email: string;
+  roles: string[];
+  accessLevel?: string; // admin or user; defaults to user
+  company?: string; // Company for members the apply adds
+}
+
+export interface ManifestEntry {
+  projects?: string[];
+  groups?: string[]; // Project groups, expanded when the manifest is planned
+  members: ManifestMember[];
+}
+
+// Desired access for every project the entries cover
+export interface AccessManifest {
+  prune?: boolean; // Remove members a covered project has but the manifest doesn't list; defaults to true
+  access: ManifestEntry[];
+}
+
+export interface AccessManifestRecord {
+  id: string;
+  accountId: string;
+  name: string;
+  description: string | null;
+  currentVersion: number;
+  driftCheckHours: number | null;
+  lastCheckedAt: Date | null;
+  lastCheckError: string | null;
+  driftDetectedAt: Date | null;
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AccessManifestVersion {
+  version: number;
+  format: ManifestFormat;
+  content: string;
+  comment: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface AccessManifestRequest {
+  accountId: string;
+  name: string;
+  description?: string;
+  format: ManifestFormat;
+  content: string;
+  comment?: string;
+  driftCheckHours?: number | null; // Omit or null to turn scheduled plans off
+}
+
+// Plans a stored manifest version, or a manifest sent inline
+export interface ReconcileRequest {
+  accountId: string;
+  manifestId?: string;
+  version?: number; // Defaults to the manifest's current version
+  content?: string;
+  format?: ManifestFormat;
+  allowDefaultCompany?: boolean; // Apply only: for added members without a company
+}
+
+export type ReconcileAction = 'add' | 'update' | 'remove';
+
+export interface ReconcileChange {
+  action: ReconcileAction;
+  email: string;
+  projectId: string;
+  projectName: string;
+  currentRoles: RoleRef[]; // Empty for adds
+  desiredRoles: RoleRef[]; // Empty for removals
+  accessLevel: AccessLevel | null; // Desired level; null for removals
+  companyId?: string;
+}
+
+export interface ReconcilePlan {
+  manifestId: string | null;
+  manifestVersion: number | null;
+  prune: boolean;
+  projectCount: number;
+  changes: ReconcileChange[];
+  summary: {
+    adds: number;
+    updates: number;
+    removals: number;
+    unchanged: number;
+  };
+  failedProjects: { projectId: string; projectName: string; error: string }[];
+}
+
+export type AccessReviewStatus = 'open' | 'closed';
+
+export type ReviewDecision = 'keep' | 'revoke';
+
+// Decided and revoked rows out of everything a campaign or project snapshotted
+export interface AccessReviewProgress {
+  total: number;
+  decided: number;
+  revoked: number;
+}
+
+export interface AccessReviewCampaign {
+  id: string;
+  accountId: string;
+  name: string;
+  description: string | null;
+  status: AccessReviewStatus;
+  dueDate: string | null; // YYYY-MM-DD
+  createdBy: string | null;
+  closedBy: string | null;
+  closedAt: Date | null;
+  removalExecutionId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  progress: AccessReviewProgress;
+}
+
+export interface AccessReviewProject {
+  projectId: string;
+  projectName: string | null;
+  reviewerEmail: string;
+  progress: AccessReviewProgress;
+}
+
+// One membership as it was when the campaign started
+export interface AccessReviewItem {
+  id: string;
+  projectId: string;
+  email: string;
+  name: string | null;
+  companyName: string | null;
+  roles: RoleRef[];
+  accessLevel: AccessLevel | null;
+  decision: ReviewDecision | null;
+  note: string | null;
+  decidedBy: string | null;
+  decidedAt: Date | null;
+}
+
+export interface AccessReviewRequest {
+  accountId: string;
+  name: string;
+  description?: string;
+  dueDate?: string; // YYYY-MM-DD
+  projectIds?: string[];
+  projectGroupIds?: string[]; // Expanded to their projects when the campaign starts
+  reviewers?: Record<string, string>; // Project ID -> reviewer email
+  defaultReviewerEmail?: string; // For projects without their own reviewer
+}
+
+export interface ReviewDecisionRequest {
+  accountId: string;
+  decisions: {
+    itemId: string;
+    decision: ReviewDecision;
+    note?: string;
+  }[];
+}
+
+export interface MemberProjectAccess {
+  projectId: string;
+  projectName: string;
+  platform: string;
+  roleIds: string[];
+  roleNames: string[];
+  accessLevel: AccessLevel;
+  products: ProductAccess[];
+}
+
+export interface MemberAccessReport {
+  email: string;
+  totalProjects: number; // Projects checked
+  projects: MemberProjectAccess[]; // Projects the member belongs to
+  failedProjects: { projectId: string; projectName: string; error: string }[];
+}
+
+export interface MembershipSyncResult {
+  accountId: string;
+  totalProjects: number;
+  syncedProjects: number;
+  skippedProjects: number; // Still fresh
+  failedProjects: { projectId: string; error: string }[];
+  detailsSyncedProjects?: number; // Projects whose ACC Admin details were refreshed
+}
+
+export interface MembershipSyncStatus {
+  accountId: string;
+  totalProjects: number;
+  syncedProjects: number; // Synced at least once
+  staleProjects: number; // Never synced or older than the TTL
+  oldestSyncedAt: Date | null;
+  newestSyncedAt: Date | null;
+  syncInProgress: boolean;
 }
 
 export interface JobStatusResponse {
@@ -240,7 +726,8 @@ export interface JobStatusResponse {
     failed: number;
     percentage: number;
   };
-  results: JobResult[];
+  resultCounts: Record<ResultStatus, number>;
+  errorCodes: Array<{ code: string; count: number }>;
   startedAt: Date | null;
   completedAt: Date | null;
   estimatedTimeRemaining: number | null;
@@ -274,9 +761,14 @@ export interface AddUserToProjectParams {
   accountId: string;
   projectId: string;
   email: string;
-  role: string;
+  roleIds: string[]; // Full role set the member should end up with
   accessToken: string;
   adminUserId?: string;
+  companyId?: string;
+  accessLevel?: AccessLevel;
+  products?: ProductAccess[];
+  rolesOnly?: boolean; // Change roles without touching product access
+  existingUser?: APSProjectUser | null; // Membership the caller already looked up
 }
 
 export interface AddUserToProjectResult {
@@ -291,26 +783,178 @@ export interface AddUserToProjectResult {
 // Job Queue Types
 // ============================================================================
 
+export interface OperationPair {
+  email: string;
+  projectId: string;
+}
+
 export interface BulkAssignmentJobData {
   executionId: string;
   userId: string;
   accountId: string;
   userEmails: string[];
   projectIds: string[];
+  roles?: string[];
+  roleMode?: RoleMode; // Defaults to 'replace'
+  role?: string; // Jobs queued before roles/roleMode existed
+  accessToken: string;
+  adminUserId?: string;
+  accessLevel?: AccessLevel;
+  products?: ProductAccess[];
+  pairs?: OperationPair[]; // Limits the job to these user/project pairs (retries)
+  inviteToAccount?: boolean;
+  invitations?: AccountInvitation[];
+  companies?: Record<string, string>;
+  allowDefaultCompany?: boolean;
+}
+
+export interface BulkRemovalJobData {
+  executionId: string;
+  userId: string;
+  accountId: string;
+  userEmails: string[];
+  projectIds: string[];
+  accessToken: string;
+  pairs?: OperationPair[];
+}
+
+export interface ImportAssignment {
+  email: string;
+  projectId: string;
+  projectName: string;
   role: string;
+  companyId?: string;
+  accessLevel: AccessLevel;
+}
+
+// One row of a clone, member copy or reconcile job
+export interface CloneAssignment {
+  email: string; // Target email
+  projectId: string; // Target project
+  projectName: string;
+  roles: string[]; // Role IDs copied from the source
+  accessLevel: AccessLevel;
+  products: ProductAccess[]; // Product access copied from the source
+  companyId?: string;
+}
+
+export interface BulkCloneJobData {
+  executionId: string;
+  userId: string;
+  accountId: string;
+  sourceEmail: string;
+  assignments: CloneAssignment[];
+  accessToken: string;
+  adminUserId?: string;
+  removeSource?: boolean; // Queue removal of the source once the job completes
+  inviteToAccount?: boolean;
+  allowDefaultCompany?: boolean;
+}
+
+export interface BulkMemberCopyJobData {
+  executionId: string;
+  userId: string;
+  accountId: string;
+  sourceProjectId: string;
+  assignments: CloneAssignment[]; // One per copied member per target project
+  accessToken: string;
+  adminUserId?: string;
+  allowDefaultCompany?: boolean;
+}
+
+export interface ReconcileRemoval {
+  email: string;
+  projectId: string;
+  projectName: string;
+}
+
+export interface BulkReconcileJobData {
+  executionId: string;
+  userId: string;
+  accountId: string;
+  manifestId?: string; // Inline manifests have no stored version
+  manifestVersion?: number;
+  assignments: CloneAssignment[]; // Adds and role changes
+  removals: ReconcileRemoval[];
   accessToken: string;
   adminUserId?: string;
+  allowDefaultCompany?: boolean;
 }
 
+export interface BulkImportJobData {
+  executionId: string;
+  userId: string;
+  accountId: string;
+  assignments: ImportAssignment[];
+  accessToken: string;
+  adminUserId?: string;
+  inviteToAccount?: boolean;
+  invitations?: AccountInvitation[];
+  allowDefaultCompany?: boolean;
+}
+
+export type BulkJobData =
+  | BulkAssignmentJobData
+  | BulkRemovalJobData
+  | BulkImportJobData
+  | BulkCloneJobData
+  | BulkMemberCopyJobData
+  | BulkReconcileJobData;
+
+export interface MembershipSyncJobData {
+  accountId: string;
+  userId: string; // Whose token lists the account's projects
+  force?: boolean; // Re-sync projects that are still fresh
+}
+
+export interface ManifestDriftJobData {
+  manifestId: string;
+}
+
+// Reported by the worker each time a task finishes
+export interface JobProgressData {
+  total: number;
+  completed: number;
+  success: number;
+  failed: number;
+  percentage: number;
+  result: OperationPair; // The task that just finished
+}
+
+// Queue events relayed to status streams
+export type JobQueueEvent =
+  | { type: 'progress'; progress: JobProgressData }
+  | { type: 'finished' }; // Completed, failed or removed from the queue
+
 export interface ProjectAssignmentTask {
   executionId: string;
   projectId: string;
   projectName: string;
   userEmail: string;
-  role: string;
+  roles: string[];
+  roleMode: RoleMode;
   accountId: string;
   accessToken: string;
   adminUserId?: string;
+  companyId?: string;
+  accessLevel?: AccessLevel;
+  products?: ProductAccess[];
+  invitation?: InvitationOutcome; // Set when the job invited the email to the account
+}
+
+export interface InvitationOutcome {
+  invited: boolean;
+  companyId?: string;
+  error?: string;
+}
+
+export interface ProjectRemovalTask {
+  executionId: string;
+  projectId: string;
+  projectName: string;
+  userEmail: string;
+  accountId: string;
+  accessToken: string;
 }
 
 // ============================================================================
@@ -340,6 +984,17 @@ export class RateLimitError extends APSError {
   }
 }
 
+// A manifest that can't be parsed or references unknown projects, groups or roles
+export class ManifestError extends Error {
+  constructor(
+    message: string,
+    public details: string[] = []
+  ) {
+    super(message);
+    this.name = 'ManifestError';
+  }
+}
+
 export class AuthenticationError extends Error {
   constructor(message: string) {
     super(message);
@@ -396,5 +1051,13 @@ export interface AppConfig {
     concurrency: number;
     jobTimeoutMs: number;
     maxRetries: number;
+    batchSize: number;
+  };
+  cache: {
+    membershipTtlMinutes: number;
+    projectDetailsTtlMinutes: number;
+  };
+  companies: {
+    domainMap: Record<string, string>; // Email domain -> company name or ID
   };
 }
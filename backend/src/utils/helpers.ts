@@ -3,6 +3,7 @@ import { config } from '../config';
 import { Pool } from 'pg';
 import apsAuthService from '../services/aps/auth.service';
 import logger from './logger';
+import { AccessLevel, ProductAccess, RoleMode } from '../types';
 
 /**
  * Utility helper functions
@@ -71,6 +72,139 @@ export function validateEmails(emails: string[]): {
   return { valid, invalid };
 }
 
+// Product keys and access values accepted by the ACC Admin project users API
+export const ACC_PRODUCT_KEYS = [
+  'projectAdministration',
+  'docs',
+  'build',
+  'cost',
+  'designCollaboration',
+  'modelCoordination',
+  'insight',
+  'takeoff',
+];
+export const PRODUCT_ACCESS_LEVELS = ['administrator', 'member', 'none'];
+
+/**
+ * Validate product access entries
+ * @param products - Array of { key, access } entries
+ * @returns Descriptions of invalid entries (empty if all valid)
+ */
+export function validateProducts(products: ProductAccess[]): string[] {
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  products.forEach((product) => {
+    if (!product || !ACC_PRODUCT_KEYS.includes(product.key)) {
+      invalid.push(`Unknown product "${product?.key}"`);
+    } else if (!PRODUCT_ACCESS_LEVELS.includes(product.access)) {
+      invalid.push(`Invalid access "${product.access}" for ${product.key}`);
+    } else if (seen.has(product.key)) {
+      invalid.push(`Duplicate product "${product.key}"`);
+    } else {
+      seen.add(product.key);
+    }
+  });
+
+  return invalid;
+}
+
+/**
+ * Build the products sent for a project user from an access level and
+ * optional per-product overrides
+ * Admins always get Project Administration; if no product is granted,
+ * Docs access is added so the user can open the project
+ * @param accessLevel - Requested access level
+ * @param products - Per-product overrides
+ * @returns Product access entries
+ */
+export function resolveProductAccess(
+  accessLevel: AccessLevel,
+  products: ProductAccess[] = []
+): ProductAccess[] {
+  const access = new Map(products.map((p) => [p.key, p.access]));
+
+  if (accessLevel === 'admin') {
+    access.set('projectAdministration', 'administrator');
+  } else if (!access.has('projectAdministration')) {
+    access.set('projectAdministration', 'none');
+  }
+
+  const grantsProduct = Array.from(access.entries()).some(
+    ([key, value]) => key !== 'projectAdministration' && value !== 'none'
+  );
+  if (!grantsProduct) {
+    access.set('docs', accessLevel === 'admin' ? 'administrator' : 'member');
+  }
+
+  return Array.from(access.entries()).map(([key, value]) => ({
+    key,
+    access: value,
+  }));
+}
+
+/**
+ * Derive the access level from a user's product access
+ * @param products - Product access entries
+ * @returns 'admin' if the user administers the project
+ */
+export function getAccessLevel(products: ProductAccess[]): AccessLevel {
+  return products.some(
+    (p) => p.key === 'projectAdministration' && p.access === 'administrator'
+  )
+    ? 'admin'
+    : 'user';
+}
+
+/**
+ * Check whether a user already has the requested product access
+ * Products missing from the user's list count as "none"
+ * @param current - User's current product access
+ * @param desired - Requested product access
+ * @returns True if no product needs to change
+ */
+export function hasProductAccess(
+  current: ProductAccess[],
+  desired: ProductAccess[]
+): boolean {
+  return desired.every(
+    (d) => (current.find((c) => c.key === d.key)?.access ?? 'none') === d.access
+  );
+}
+
+export const ROLE_MODES: RoleMode[] = ['replace', 'add', 'remove'];
+
+/**
+ * Work out the roles a member ends up with
+ * @param current - Member's current role IDs
+ * @param roles - Requested role IDs
+ * @param mode - replace: exactly the requested roles; add: current plus
+ *   requested; remove: current minus requested
+ * @returns Resulting role IDs
+ */
+export function applyRoleMode(
+  current: string[],
+  roles: string[],
+  mode: RoleMode
+): string[] {
+  switch (mode) {
+    case 'add':
+      return [...new Set([...current, ...roles])];
+    case 'remove':
+      return current.filter((id) => !roles.includes(id));
+    default:
+      return [...new Set(roles)];
+  }
+}
+
+/**
+ * Check whether two role sets hold the same roles, in any order
+ */
+export function sameRoles(a: string[], b: string[]): boolean {
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every((id) => set.has(id));
+}
+
 /**
  * Chunk array into smaller arrays
  * @param array - Array to chunk
@@ -85,6 +219,34 @@ export function chunkArray<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
+/**
+ * Map over items with at most `limit` calls in flight
+ * @param items - Items to process
+ * @param limit - Maximum concurrent calls
+ * @param fn - Async function applied to each item
+ * @returns Results in the same order as items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, runWorker)
+  );
+  return results;
+}
+
 /**
  * Calculate percentage
  * @param completed - Completed count
@@ -98,23 +260,93 @@ export function calculatePercentage(completed: number, total: number): number {
 
 /**
  * Estimate remaining time based on current progress
- * @param startTime - Start time
+ * @param avgDurationMs - Average time one item has taken
  * @param completed - Completed count
  * @param total - Total count
+ * @param parallelism - Items processed at the same time
  * @returns Estimated seconds remaining
  */
 export function estimateTimeRemaining(
-  startTime: Date,
+  avgDurationMs: number | null,
   completed: number,
-  total: number
+  total: number,
+  parallelism: number = 1
+): number | null {
+  if (avgDurationMs === null || completed === 0 || completed === total) return null;
+
+  const remainingRounds = Math.ceil((total - completed) / parallelism);
+
+  return Math.round((avgDurationMs * remainingRounds) / 1000);
+}
+
+/**
+ * Parse the page size of a paged list
+ * @param value - limit query parameter
+ * @param defaultLimit - Page size when none is given
+ * @param maxLimit - Largest page size allowed
+ * @returns Page size capped at maxLimit, or null unless it is a positive integer
+ */
+export function parsePageLimit(
+  value: unknown,
+  defaultLimit: number,
+  maxLimit: number
 ): number | null {
-  if (completed === 0 || completed === total) return null;
+  if (value === undefined || value === '') return defaultLimit;
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || Number(value) < 1) return null;
+  return Math.min(Number(value), maxLimit);
+}
 
-  const elapsedMs = Date.now() - startTime.getTime();
-  const avgTimePerItem = elapsedMs / completed;
-  const remaining = total - completed;
+// created_at::text of a TIMESTAMP column, e.g. 2026-10-19 10:00:00.123456
+const CURSOR_TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
 
-  return Math.round((avgTimePerItem * remaining) / 1000);
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// True if the text is a real date and time, so the database accepts it as a timestamp
+function isCursorTimestamp(value: string): boolean {
+  const match = CURSOR_TIMESTAMP_PATTERN.exec(value);
+  if (!match) return false;
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    date.getUTCHours() === hour &&
+    date.getUTCMinutes() === minute &&
+    date.getUTCSeconds() === second
+  );
+}
+
+/**
+ * Encode a page cursor for keyset pagination
+ * @param createdAt - created_at of the last row on the page, as text
+ * @param id - ID of the last row on the page
+ * @returns Opaque cursor string
+ */
+export function encodeCursor(createdAt: string, id: string): string {
+  return Buffer.from(JSON.stringify([createdAt, id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor made by encodeCursor
+ * @param cursor - Cursor string from a previous page
+ * @returns [createdAt, id], or null unless it holds a valid timestamp and UUID
+ */
+export function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return Array.isArray(value) &&
+      value.length === 2 &&
+      typeof value[0] === 'string' &&
+      typeof value[1] === 'string' &&
+      isCursorTimestamp(value[0]) &&
+      UUID_PATTERN.test(value[1])
+      ? [value[0], value[1]]
+      : null;
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -1,14 +1,48 @@
 import { Worker, Job } from 'bullmq';
 import { Redis } from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config';
-import { BulkAssignmentJobData, ProjectAssignmentTask } from '../types';
+import {
+  AccountInvitation,
+  APSError,
+  BulkAssignmentJobData,
+  BulkCloneJobData,
+  BulkImportJobData,
+  BulkJobData,
+  BulkMemberCopyJobData,
+  BulkReconcileJobData,
+  BulkRemovalJobData,
+  CloneAssignment,
+  InvitationOutcome,
+  JobProgressData,
+  ManifestDriftJobData,
+  MembershipSyncJobData,
+  OperationPair,
+  ProjectAssignmentTask,
+  ProjectRemovalTask,
+  ResolvedCompany,
+} from '../types';
 import apsProjectsService from '../services/aps/projects.service';
+import membershipCacheService from '../services/cache/membership-cache.service';
+import companyDirectoryService from '../services/companies/company-directory.service';
+import accessReconcileService from '../services/reconcile/access-reconcile.service';
+import queueService from '../services/queue/queue.service';
 import { getDb } from '../db';
 import logger from '../utils/logger';
-import { chunkArray, wait, calculatePercentage } from '../utils/helpers';
+import {
+  chunkArray,
+  wait,
+  calculatePercentage,
+  resolveProductAccess,
+  getAccessLevel,
+  hasProductAccess,
+  applyRoleMode,
+  sameRoles,
+  getValidAccessToken,
+} from '../utils/helpers';
 
 /**
- * BullMQ Worker for processing bulk user assignment jobs
+ * BullMQ Worker for processing bulk user assignment and removal jobs
  * Runs as a separate process from the main API server
  */
 
@@ -17,87 +51,127 @@ const redisConnection = new Redis(config.redis.url, {
   maxRetriesPerRequest: null,
 });
 
-const worker = new Worker<BulkAssignmentJobData>(
+const worker = new Worker<BulkJobData>(
   'bulk-user-assignment',
-  async (job: Job<BulkAssignmentJobData>) => {
+  async (job: Job<BulkJobData>) => {
     logger.info(`Processing job: ${job.id}`, {
       executionId: job.data.executionId,
+      jobName: job.name,
     });
 
     const db = getDb();
-    const { executionId, accountId, userEmails, projectIds, role, accessToken, adminUserId } = job.data;
+    const { executionId } = job.data;
 
     try {
+      // Cancelled while still queued
+      if (await isCancelRequested(executionId, db)) {
+        await finalizeCancellation(executionId, db);
+        return {
+          executionId,
+          status: 'cancelled',
+          totalTasks: 0,
+          successCount: 0,
+          failedCount: 0,
+        };
+      }
+
       // Update job execution status to processing
       await db.query(
         `UPDATE job_executions
-         SET status = 'processing', started_at = NOW()
+         SET status = 'processing', started_at = COALESCE(started_at, NOW())
          WHERE id = $1`,
         [executionId]
       );
 
+      // The token queued with a scheduled job has expired by the time it runs
+      const data: BulkJobData = job.opts.delay
+        ? {
+            ...job.data,
+            accessToken: (await getValidAccessToken(db, job.data.userId))
+              .accessToken,
+          }
+        : job.data;
+
       // Create all job result records upfront
-      const tasks: ProjectAssignmentTask[] = [];
-      for (const projectId of projectIds) {
-        for (const userEmail of userEmails) {
-          // Get project name
-          const project = await apsProjectsService.getProject(
-            accessToken,
-            accountId,
-            projectId
-          );
-
-          // Create job result record
-          await db.query(
-            `INSERT INTO job_results
-             (execution_id, project_id, project_name, user_email, assigned_role, status)
-             VALUES ($1, $2, $3, $4, $5, 'pending')
-             RETURNING id`,
-            [executionId, projectId, project.name, userEmail, role]
-          );
-
-          tasks.push({
-            executionId,
-            projectId,
-            projectName: project.name,
-            userEmail,
-            role,
-            accountId,
-            accessToken,
-            adminUserId,
-          });
-        }
-      }
+      const tasks =
+        job.name === 'bulk-import'
+          ? await createImportTasks(data as BulkImportJobData, db)
+          : job.name === 'bulk-clone' || job.name === 'bulk-member-copy'
+            ? await createRowTasks(
+                data as BulkCloneJobData | BulkMemberCopyJobData,
+                (data as BulkCloneJobData | BulkMemberCopyJobData).assignments,
+                db
+              )
+            : job.name === 'bulk-reconcile'
+              ? await createReconcileTasks(data as BulkReconcileJobData, db)
+              : await createTasks(
+                  data as BulkAssignmentJobData | BulkRemovalJobData,
+                  job.name === 'bulk-removal',
+                  db
+                );
 
       logger.info(`Created ${tasks.length} tasks for execution ${executionId}`);
 
+      // A retried attempt picks up where the last one stopped
+      const finished = await getFinishedResults(executionId, db);
+      const statusOf = (t: { projectId: string; userEmail: string }) =>
+        finished.get(pairKey(t.projectId, t.userEmail));
+      const remaining = tasks.filter((t) => !statusOf(t));
+
       // Process tasks in batches to respect rate limits
-      const batchSize = 5; // Process 5 at a time
-      const batches = chunkArray(tasks, batchSize);
+      const batches = chunkArray(remaining, config.queue.batchSize);
 
-      let completedCount = 0;
-      let successCount = 0;
-      let failedCount = 0;
+      let completedCount = tasks.length - remaining.length;
+      let failedCount = tasks.filter((t) => statusOf(t) === 'failed').length;
+      let successCount = completedCount - failedCount;
+      let cancelled = false;
+
+      if (completedCount > 0) {
+        logger.info(`Resuming execution ${executionId}`, {
+          attempt: job.attemptsMade + 1,
+          completedCount,
+        });
+      }
 
       for (const batch of batches) {
-        // Process batch in parallel
-        const results = await Promise.allSettled(
-          batch.map((task) => processTask(task, db))
-        );
+        // Stop between batches if the user cancelled the execution
+        if (await isCancelRequested(executionId, db)) {
+          cancelled = true;
+          break;
+        }
 
-        // Update counts
-        results.forEach((result) => {
-          completedCount++;
-          if (result.status === 'fulfilled' && result.value.success) {
-            successCount++;
-          } else {
-            failedCount++;
-          }
-        });
+        // Process batch in parallel, reporting each task as it finishes
+        await Promise.all(
+          batch.map(async (task) => {
+            const succeeded = await ('roles' in task
+              ? processTask(task, db)
+              : processRemovalTask(task, db)
+            ).then(
+              (result) => result.success,
+              () => false
+            );
+
+            completedCount++;
+            if (succeeded) {
+              successCount++;
+            } else {
+              failedCount++;
+            }
+
+            // Status streams send the finished result from this event
+            const progressData: JobProgressData = {
+              total: tasks.length,
+              completed: completedCount,
+              success: successCount,
+              failed: failedCount,
+              percentage: calculatePercentage(completedCount, tasks.length),
+              result: { email: task.userEmail, projectId: task.projectId },
+            };
+            await job.updateProgress(progressData);
+          })
+        );
 
-        // Update job progress
         const progress = calculatePercentage(completedCount, tasks.length);
-        await job.updateProgress(progress);
 
         // Update job execution
         await db.query(
@@ -119,6 +193,26 @@ const worker = new Worker<BulkAssignmentJobData>(
         }
       }
 
+      await refreshMemberships(data, tasks);
+
+      if (cancelled) {
+        await finalizeCancellation(executionId, db);
+
+        logger.info(`Job cancelled: ${job.id}`, {
+          executionId,
+          completedCount,
+          remaining: tasks.length - completedCount,
+        });
+
+        return {
+          executionId,
+          status: 'cancelled',
+          totalTasks: tasks.length,
+          successCount,
+          failedCount,
+        };
+      }
+
       // Determine final status
       let finalStatus = 'completed';
       if (failedCount > 0 && successCount > 0) {
@@ -135,6 +229,24 @@ const worker = new Worker<BulkAssignmentJobData>(
         [finalStatus, executionId]
       );
 
+      if (job.name === 'bulk-assignment') {
+        // The assignment itself succeeded; a missing expiry is logged, not retried
+        try {
+          await scheduleExpiry(data as BulkAssignmentJobData, db);
+        } catch (error) {
+          logger.error(`Failed to schedule expiry for ${executionId}`, { error });
+        }
+      }
+
+      if (job.name === 'bulk-clone' && (data as BulkCloneJobData).removeSource) {
+        // Same as expiry: the copied access stays even if the handover can't be queued
+        try {
+          await scheduleHandover(data as BulkCloneJobData, db);
+        } catch (error) {
+          logger.error(`Failed to schedule handover for ${executionId}`, { error });
+        }
+      }
+
       logger.info(`Job completed: ${job.id}`, {
         executionId,
         status: finalStatus,
@@ -152,9 +264,15 @@ const worker = new Worker<BulkAssignmentJobData>(
     } catch (error) {
       logger.error(`Job failed: ${job.id}`, {
         executionId,
+        attempt: job.attemptsMade + 1,
         error,
       });
 
+      // BullMQ runs the job again until its attempts are used up
+      if (job.attemptsMade + 1 < (job.opts.attempts ?? 1)) {
+        throw error;
+      }
+
       // Update job execution to failed
       await db.query(
         `UPDATE job_executions
@@ -178,6 +296,572 @@ const worker = new Worker<BulkAssignmentJobData>(
   }
 );
 
+/**
+ * BullMQ Worker for membership cache syncs
+ * One sync at a time keeps project user listing within APS rate limits
+ */
+const syncWorker = new Worker<MembershipSyncJobData>(
+  'membership-sync',
+  async (job: Job<MembershipSyncJobData>) => {
+    const { accountId, userId, force } = job.data;
+    const { accessToken } = await getValidAccessToken(getDb(), userId);
+
+    return membershipCacheService.syncAccount(accessToken, accountId, force);
+  },
+  {
+    connection: redisConnection,
+    concurrency: 1,
+  }
+);
+
+/**
+ * BullMQ Worker for scheduled manifest plans
+ * Drift is recorded on the manifest; nothing is applied
+ */
+const driftWorker = new Worker<ManifestDriftJobData>(
+  'manifest-drift',
+  async (job: Job<ManifestDriftJobData>) => {
+    const plan = await accessReconcileService.checkDrift(job.data.manifestId);
+    return plan?.summary ?? null;
+  },
+  {
+    connection: redisConnection,
+    concurrency: 1,
+  }
+);
+
+/**
+ * Mark the job's projects stale and queue a sync to re-read them
+ * The job already finished, so a failure here is logged, not thrown
+ */
+async function refreshMemberships(
+  data: BulkJobData,
+  tasks: Array<ProjectAssignmentTask | ProjectRemovalTask>
+): Promise<void> {
+  const projectIds = [...new Set(tasks.map((t) => t.projectId))];
+  if (projectIds.length === 0) {
+    return;
+  }
+
+  try {
+    await membershipCacheService.invalidateProjects(projectIds);
+    await queueService.addMembershipSyncJob({
+      accountId: data.accountId,
+      userId: data.userId,
+    });
+  } catch (error) {
+    logger.error(`Failed to refresh memberships for ${data.executionId}`, {
+      error,
+    });
+  }
+}
+
+/**
+ * Check whether the user asked to cancel this execution
+ */
+async function isCancelRequested(executionId: string, db: any): Promise<boolean> {
+  const result = await db.query(
+    'SELECT cancel_requested_at FROM job_executions WHERE id = $1',
+    [executionId]
+  );
+  return !!result.rows[0]?.cancel_requested_at;
+}
+
+// Key of a job result: one row per project and email
+const pairKey = (projectId: string, email: string): string => `${projectId}|${email}`;
+
+/**
+ * Project/email pairs an earlier attempt of this execution already recorded
+ * A retried attempt reuses those result rows instead of adding more
+ */
+async function getRecordedPairs(executionId: string, db: any): Promise<Set<string>> {
+  const result = await db.query(
+    'SELECT project_id, user_email FROM job_results WHERE execution_id = $1',
+    [executionId]
+  );
+  return new Set(result.rows.map((r: any) => pairKey(r.project_id, r.user_email)));
+}
+
+/**
+ * Results an earlier attempt of this execution finished, keyed by pairKey
+ * @returns Status of each finished result (success, skipped or failed)
+ */
+async function getFinishedResults(executionId: string, db: any): Promise<Map<string, string>> {
+  const result = await db.query(
+    `SELECT project_id, user_email, status FROM job_results
+     WHERE execution_id = $1 AND status IN ('success', 'skipped', 'failed')`,
+    [executionId]
+  );
+  return new Map(
+    result.rows.map((r: any) => [pairKey(r.project_id, r.user_email), r.status] as [string, string])
+  );
+}
+
+/**
+ * Skip all results that never ran and mark the execution cancelled
+ */
+async function finalizeCancellation(executionId: string, db: any): Promise<void> {
+  await db.query(
+    `UPDATE job_results
+     SET status = 'skipped',
+         action_taken = 'cancelled',
+         error_code = 'CANCELLED',
+         error_message = 'Job was cancelled before this operation ran',
+         completed_at = NOW()
+     WHERE execution_id = $1 AND status = 'pending'`,
+    [executionId]
+  );
+
+  await db.query(
+    `UPDATE job_executions
+     SET status = 'cancelled', completed_at = NOW()
+     WHERE id = $1`,
+    [executionId]
+  );
+}
+
+/**
+ * Queue the removal that ends access granted by an expiring assignment
+ * Only users this job added are removed; existing members keep their access
+ */
+async function scheduleExpiry(
+  data: BulkAssignmentJobData,
+  db: any
+): Promise<void> {
+  const { executionId, userId, accountId, accessToken } = data;
+
+  const executionRow = await db.query(
+    'SELECT expires_at FROM job_executions WHERE id = $1',
+    [executionId]
+  );
+  const expiresAt: Date | null = executionRow.rows[0]?.expires_at ?? null;
+
+  if (!expiresAt) {
+    return;
+  }
+
+  const addedRow = await db.query(
+    `SELECT project_id, user_email FROM job_results
+     WHERE execution_id = $1 AND status = 'success'
+       AND action_taken IN ('added', 'invited,added')`,
+    [executionId]
+  );
+
+  if (addedRow.rows.length === 0) {
+    return;
+  }
+
+  const pairs: OperationPair[] = addedRow.rows.map((r: any) => ({
+    email: r.user_email,
+    projectId: r.project_id,
+  }));
+  const userEmails = [...new Set(pairs.map((p) => p.email))];
+  const projectIds = [...new Set(pairs.map((p) => p.projectId))];
+  const removalId = uuidv4();
+
+  await db.query(
+    `INSERT INTO job_executions
+     (id, user_id, job_type, status, target_user_emails, target_project_ids,
+      total_projects, account_id, scheduled_for)
+     VALUES ($1, $2, 'bulk_user_removal', 'pending', $3, $4, $5, $6, $7)`,
+    [removalId, userId, userEmails, projectIds, pairs.length, accountId, expiresAt]
+  );
+
+  await db.query(
+    'UPDATE job_executions SET expiry_execution_id = $1 WHERE id = $2',
+    [removalId, executionId]
+  );
+
+  await queueService.addBulkRemovalJob(
+    {
+      executionId: removalId,
+      userId,
+      accountId,
+      userEmails,
+      projectIds,
+      accessToken,
+      pairs,
+    },
+    expiresAt
+  );
+
+  logger.info(`Expiry scheduled for execution ${executionId}`, {
+    removalExecutionId: removalId,
+    expiresAt,
+    operationCount: pairs.length,
+  });
+}
+
+/**
+ * Queue the removal of a clone's source for a handover
+ * The source only leaves projects where every target now has the access,
+ * so a failed copy never strands a project without the source
+ */
+async function scheduleHandover(
+  data: BulkCloneJobData,
+  db: any
+): Promise<void> {
+  const { executionId, userId, accountId, accessToken, sourceEmail } = data;
+
+  const copiedRow = await db.query(
+    `SELECT project_id FROM job_results
+     WHERE execution_id = $1
+     GROUP BY project_id
+     HAVING bool_and(status IN ('success', 'skipped'))`,
+    [executionId]
+  );
+
+  if (copiedRow.rows.length === 0) {
+    return;
+  }
+
+  const projectIds: string[] = copiedRow.rows.map((r: any) => r.project_id);
+  const pairs: OperationPair[] = projectIds.map((projectId) => ({
+    email: sourceEmail,
+    projectId,
+  }));
+  const removalId = uuidv4();
+
+  await db.query(
+    `INSERT INTO job_executions
+     (id, user_id, job_type, status, target_user_emails, target_project_ids,
+      total_projects, account_id)
+     VALUES ($1, $2, 'bulk_user_removal', 'pending', $3, $4, $5, $6)`,
+    [removalId, userId, [sourceEmail], projectIds, pairs.length, accountId]
+  );
+
+  await db.query(
+    'UPDATE job_executions SET handover_execution_id = $1 WHERE id = $2',
+    [removalId, executionId]
+  );
+
+  await queueService.addBulkRemovalJob({
+    executionId: removalId,
+    userId,
+    accountId,
+    userEmails: [sourceEmail],
+    projectIds,
+    accessToken,
+    pairs,
+  });
+
+  logger.info(`Handover queued for execution ${executionId}`, {
+    removalExecutionId: removalId,
+    sourceEmail,
+    projectCount: projectIds.length,
+  });
+}
+
+/**
+ * Invite emails that are not account members yet, once per email
+ * If account members can't be listed, nobody is invited and adds proceed as before
+ * Invitations without a company use the email's resolved company
+ * @returns Outcome per invited email; account members are left out
+ */
+async function inviteMissingMembers(
+  accountId: string,
+  emails: string[],
+  companies: Map<string, ResolvedCompany | null>,
+  invitations: AccountInvitation[] = []
+): Promise<Map<string, InvitationOutcome>> {
+  const outcomes = new Map<string, InvitationOutcome>();
+
+  let members: Set<string>;
+  try {
+    const users = await apsProjectsService.getAccountUsers('', accountId);
+    members = new Set(users.map((u) => u.email.toLowerCase()));
+  } catch (error) {
+    logger.warn(`Account members unavailable for ${accountId}, skipping invitations`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return outcomes;
+  }
+
+  for (const email of emails) {
+    if (members.has(email.toLowerCase())) {
+      continue;
+    }
+
+    const details = invitations.find(
+      (i) => i.email.toLowerCase() === email.toLowerCase()
+    );
+
+    try {
+      const { companyId } = await apsProjectsService.inviteAccountUser(
+        accountId,
+        {
+          ...details,
+          email,
+          companyId: details?.companyId ?? companies.get(email)?.id,
+        }
+      );
+      outcomes.set(email, { invited: true, companyId });
+    } catch (error) {
+      logger.error(`Failed to invite ${email} to account ${accountId}`, { error });
+      outcomes.set(email, {
+        invited: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Create job result records and tasks for a user x project job
+ * Removal jobs carry no roles; assignment jobs add roles, role mode and admin context
+ */
+async function createTasks(
+  data: BulkAssignmentJobData | BulkRemovalJobData,
+  isRemoval: boolean,
+  db: any
+): Promise<Array<ProjectAssignmentTask | ProjectRemovalTask>> {
+  const { executionId, accountId, userEmails, projectIds, accessToken, pairs } = data;
+  const assignment = isRemoval ? null : (data as BulkAssignmentJobData);
+  const roles = assignment
+    ? assignment.roles ?? (assignment.role ? [assignment.role] : [])
+    : null;
+  const roleMode = assignment?.roleMode || 'replace';
+  const accessLevel = assignment ? assignment.accessLevel || 'user' : null;
+  const products = assignment
+    ? resolveProductAccess(accessLevel!, assignment.products)
+    : null;
+  // Removing roles leaves product access as it is, so none is recorded
+  const recordsAccess = !!assignment && roleMode !== 'remove';
+  const tasks: Array<ProjectAssignmentTask | ProjectRemovalTask> = [];
+  const recorded = await getRecordedPairs(executionId, db);
+
+  // Refresh stale memberships once up front instead of once per task
+  await membershipCacheService.syncProjects(
+    accessToken,
+    accountId,
+    projectIds.map((id) => ({ id }))
+  );
+
+  // Removing roles adds nobody, so there is no one to invite or place in a company
+  const companies = recordsAccess
+    ? await companyDirectoryService.resolve(accountId, userEmails, {
+        companies: assignment!.companies,
+        allowDefaultCompany: assignment!.allowDefaultCompany,
+      })
+    : new Map<string, ResolvedCompany | null>();
+
+  const invitations =
+    assignment?.inviteToAccount && recordsAccess
+      ? await inviteMissingMembers(
+          accountId,
+          userEmails,
+          companies,
+          assignment.invitations
+        )
+      : new Map<string, InvitationOutcome>();
+
+  for (const projectId of projectIds) {
+    // Get project name
+    const project = await apsProjectsService.getProject(
+      accessToken,
+      accountId,
+      projectId
+    );
+
+    for (const userEmail of userEmails) {
+      // Retries only re-run the pairs that failed
+      if (
+        pairs &&
+        !pairs.some((p) => p.email === userEmail && p.projectId === projectId)
+      ) {
+        continue;
+      }
+
+      const companyId = companies.get(userEmail)?.id;
+
+      // Create job result record
+      if (!recorded.has(pairKey(projectId, userEmail))) {
+        await db.query(
+          `INSERT INTO job_results
+           (execution_id, project_id, project_name, user_email, assigned_role,
+            access_level, products, company_id, status)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending')`,
+          [
+            executionId,
+            projectId,
+            project.name,
+            userEmail,
+            roles?.[0] ?? null,
+            recordsAccess ? accessLevel : null,
+            recordsAccess ? JSON.stringify(products) : null,
+            companyId ?? null,
+          ]
+        );
+      }
+
+      const task: ProjectRemovalTask = {
+        executionId,
+        projectId,
+        projectName: project.name,
+        userEmail,
+        accountId,
+        accessToken,
+      };
+
+      tasks.push(
+        assignment
+          ? {
+              ...task,
+              roles: roles!,
+              roleMode,
+              adminUserId: assignment.adminUserId,
+              companyId,
+              invitation: invitations.get(userEmail),
+              accessLevel: accessLevel!,
+              products: products!,
+            }
+          : task
+      );
+    }
+  }
+
+  return tasks;
+}
+
+/**
+ * Create job result records and tasks for a spreadsheet import job
+ * Each row carries its own role, company and access level
+ */
+async function createImportTasks(
+  data: BulkImportJobData,
+  db: any
+): Promise<ProjectAssignmentTask[]> {
+  return createRowTasks(
+    data,
+    data.assignments.map((a) => ({
+      ...a,
+      roles: [a.role],
+      products: resolveProductAccess(a.accessLevel),
+    })),
+    db
+  );
+}
+
+/**
+ * Create job result records and tasks for a reconcile job
+ * Adds and role changes run as row assignments; removals record no roles
+ */
+async function createReconcileTasks(
+  data: BulkReconcileJobData,
+  db: any
+): Promise<Array<ProjectAssignmentTask | ProjectRemovalTask>> {
+  const { executionId, accountId, accessToken } = data;
+  const tasks: Array<ProjectAssignmentTask | ProjectRemovalTask> =
+    await createRowTasks(data, data.assignments, db);
+  const recorded = await getRecordedPairs(executionId, db);
+
+  for (const removal of data.removals) {
+    if (!recorded.has(pairKey(removal.projectId, removal.email))) {
+      await db.query(
+        `INSERT INTO job_results
+         (execution_id, project_id, project_name, user_email, status)
+         VALUES ($1, $2, $3, $4, 'pending')`,
+        [executionId, removal.projectId, removal.projectName, removal.email]
+      );
+    }
+
+    tasks.push({
+      executionId,
+      projectId: removal.projectId,
+      projectName: removal.projectName,
+      userEmail: removal.email,
+      accountId,
+      accessToken,
+    });
+  }
+
+  return tasks;
+}
+
+/**
+ * Create job result records and tasks for jobs whose rows differ
+ * Import, clone, member copy and reconcile rows each carry their own roles, products and company
+ */
+async function createRowTasks(
+  data: BulkImportJobData | BulkCloneJobData | BulkMemberCopyJobData | BulkReconcileJobData,
+  rows: CloneAssignment[],
+  db: any
+): Promise<ProjectAssignmentTask[]> {
+  const { executionId, accountId, accessToken, adminUserId } = data;
+  const tasks: ProjectAssignmentTask[] = [];
+  const recorded = await getRecordedPairs(executionId, db);
+
+  // Refresh stale memberships once up front instead of once per task
+  const projects = new Map(
+    rows.map((r) => [r.projectId, { id: r.projectId, name: r.projectName }])
+  );
+  await membershipCacheService.syncProjects(accessToken, accountId, [
+    ...projects.values(),
+  ]);
+
+  // Rows without a company resolve one like other assignments do
+  const companies = await companyDirectoryService.resolve(
+    accountId,
+    [...new Set(rows.filter((r) => !r.companyId).map((r) => r.email))],
+    { allowDefaultCompany: data.allowDefaultCompany }
+  );
+
+  // Copied members already belong to the account
+  const invitations =
+    'inviteToAccount' in data && data.inviteToAccount
+      ? await inviteMissingMembers(
+          accountId,
+          [...new Set(rows.map((r) => r.email))],
+          companies,
+          'invitations' in data ? data.invitations : undefined
+        )
+      : new Map<string, InvitationOutcome>();
+
+  for (const row of rows) {
+    const companyId = row.companyId ?? companies.get(row.email)?.id;
+
+    if (!recorded.has(pairKey(row.projectId, row.email))) {
+      await db.query(
+        `INSERT INTO job_results
+         (execution_id, project_id, project_name, user_email, assigned_role,
+          assigned_roles, access_level, products, company_id, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending')`,
+        [
+          executionId,
+          row.projectId,
+          row.projectName,
+          row.email,
+          row.roles[0] ?? null,
+          row.roles,
+          row.accessLevel,
+          JSON.stringify(row.products),
+          companyId ?? null,
+        ]
+      );
+    }
+
+    tasks.push({
+      executionId,
+      projectId: row.projectId,
+      projectName: row.projectName,
+      userEmail: row.email,
+      roles: row.roles,
+      roleMode: 'replace',
+      accountId,
+      accessToken,
+      adminUserId,
+      companyId,
+      accessLevel: row.accessLevel,
+      products: row.products,
+      invitation: invitations.get(row.email),
+    });
+  }
+
+  return tasks;
+}
+
 /**
  * Process a single project assignment task
  */
@@ -185,7 +869,12 @@ async function processTask(
   task: ProjectAssignmentTask,
   db: any
 ): Promise<{ success: boolean }> {
-  const { executionId, projectId, userEmail, role, accountId, accessToken, adminUserId } = task;
+  const { executionId, projectId, userEmail, roles, roleMode, accountId, accessToken, adminUserId, companyId } = task;
+  const accessLevel = task.accessLevel || 'user';
+  const products = resolveProductAccess(accessLevel, task.products);
+  // An account invitation made by this job is recorded ahead of the project step
+  const invited = !!task.invitation?.invited;
+  const withInvite = (step: string) => (invited ? `invited,${step}` : step);
 
   // Find the job result record
   const resultRow = await db.query(
@@ -205,42 +894,81 @@ async function processTask(
       [resultId]
     );
 
+    if (task.invitation?.error) {
+      await db.query(
+        `UPDATE job_results
+         SET status = 'failed',
+             error_code = 'INVITE_FAILED',
+             error_message = $1,
+             completed_at = NOW(),
+             duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
+         WHERE id = $2`,
+        [`Account invitation failed: ${task.invitation.error}`, resultId]
+      );
+
+      return { success: false };
+    }
+
     // Check if user already has access
-    const existingUser = await apsProjectsService.checkUserInProject(
+    const existingUser = await membershipCacheService.findMember(
       accessToken,
       accountId,
       projectId,
       userEmail
     );
 
-    if (existingUser) {
-      const hasRole = existingUser.roleIds.includes(role);
+    const previousAccessLevel = existingUser
+      ? getAccessLevel(existingUser.products)
+      : null;
+    const previousRoles = existingUser ? existingUser.roleIds : null;
+    // Removing roles never adds anyone or changes their product access
+    const rolesOnly = roleMode === 'remove';
+    const resultingRoles = applyRoleMode(previousRoles ?? [], roles, roleMode);
 
-      if (hasRole) {
-        // User already has the role, skip
-        await db.query(
-          `UPDATE job_results
-           SET status = 'skipped',
-               previous_role = $1,
-               action_taken = 'skipped',
-               completed_at = NOW(),
-               duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
-           WHERE id = $2`,
-          [role, resultId]
-        );
+    if (
+      (!existingUser && rolesOnly) ||
+      (existingUser &&
+        sameRoles(existingUser.roleIds, resultingRoles) &&
+        (rolesOnly || hasProductAccess(existingUser.products, products)))
+    ) {
+      // Nothing to change (or no roles to remove from a non-member), skip
+      await db.query(
+        `UPDATE job_results
+         SET status = 'skipped',
+             previous_role = $1,
+             previous_roles = $2,
+             resulting_roles = $3,
+             previous_access_level = $4,
+             action_taken = $5,
+             completed_at = NOW(),
+             duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
+         WHERE id = $6`,
+        [
+          previousRoles?.[0] ?? null,
+          previousRoles,
+          existingUser ? resultingRoles : null,
+          previousAccessLevel,
+          existingUser ? 'skipped' : 'not_a_member',
+          resultId,
+        ]
+      );
 
-        return { success: true };
-      }
+      return { success: true };
     }
 
-    // Add user to project
+    // Add user to project, or update their roles and product access
     const result = await apsProjectsService.addUserToProject({
       accountId,
       projectId,
       email: userEmail,
-      role,
+      roleIds: resultingRoles,
       accessToken,
       adminUserId,
+      companyId: companyId ?? task.invitation?.companyId,
+      accessLevel,
+      products,
+      rolesOnly,
+      existingUser,
     });
 
     if (result.success) {
@@ -248,14 +976,20 @@ async function processTask(
         `UPDATE job_results
          SET status = 'success',
              previous_role = $1,
-             action_taken = $2,
-             api_request_id = $3,
+             previous_roles = $2,
+             resulting_roles = $3,
+             previous_access_level = $4,
+             action_taken = $5,
+             api_request_id = $6,
              completed_at = NOW(),
              duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
-         WHERE id = $4`,
+         WHERE id = $7`,
         [
-          existingUser ? existingUser.roleIds[0] : null,
-          existingUser ? 'updated' : 'added',
+          previousRoles?.[0] ?? null,
+          previousRoles,
+          resultingRoles,
+          previousAccessLevel,
+          withInvite(existingUser ? 'updated' : 'added'),
           result.apiRequestId,
           resultId,
         ]
@@ -270,10 +1004,17 @@ async function processTask(
              error_code = $1,
              error_message = $2,
              api_request_id = $3,
+             action_taken = $4,
              completed_at = NOW(),
              duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
-         WHERE id = $4`,
-        [result.errorCode, result.errorMessage, result.apiRequestId, resultId]
+         WHERE id = $5`,
+        [
+          result.errorCode,
+          result.errorMessage,
+          result.apiRequestId,
+          invited ? 'invited' : null,
+          resultId,
+        ]
       );
 
       return { success: false };
@@ -290,10 +1031,117 @@ async function processTask(
       `UPDATE job_results
        SET status = 'failed',
            error_message = $1,
+           action_taken = $2,
+           completed_at = NOW(),
+           duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
+       WHERE id = $3`,
+      [
+        error instanceof Error ? error.message : 'Unknown error',
+        invited ? 'invited' : null,
+        resultId,
+      ]
+    );
+
+    return { success: false };
+  }
+}
+
+/**
+ * Process a single project removal task
+ */
+async function processRemovalTask(
+  task: ProjectRemovalTask,
+  db: any
+): Promise<{ success: boolean }> {
+  const { executionId, projectId, userEmail, accountId, accessToken } = task;
+
+  // Find the job result record
+  const resultRow = await db.query(
+    `SELECT id FROM job_results
+     WHERE execution_id = $1 AND project_id = $2 AND user_email = $3`,
+    [executionId, projectId, userEmail]
+  );
+
+  const resultId = resultRow.rows[0].id;
+
+  try {
+    // Update status to processing
+    await db.query(
+      `UPDATE job_results
+       SET status = 'processing', started_at = NOW()
+       WHERE id = $1`,
+      [resultId]
+    );
+
+    // A failed lookup throws rather than being mistaken for "not a member"
+    const projectUsers = await membershipCacheService.getProjectMembers(
+      accessToken,
+      accountId,
+      projectId
+    );
+    const existingUser = projectUsers.find(
+      (u) => u.email.toLowerCase() === userEmail.toLowerCase()
+    );
+
+    if (!existingUser) {
+      // User is not in the project, nothing to remove
+      await db.query(
+        `UPDATE job_results
+         SET status = 'skipped',
+             action_taken = 'not_a_member',
+             completed_at = NOW(),
+             duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
+         WHERE id = $1`,
+        [resultId]
+      );
+
+      return { success: true };
+    }
+
+    await apsProjectsService.removeUserFromProject(
+      accessToken,
+      accountId,
+      projectId,
+      existingUser.id
+    );
+
+    await db.query(
+      `UPDATE job_results
+       SET status = 'success',
+           previous_role = $1,
+           previous_roles = $2,
+           resulting_roles = '{}',
+           action_taken = 'removed',
+           completed_at = NOW(),
+           duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
+       WHERE id = $3`,
+      [existingUser.roleIds[0] || null, existingUser.roleIds, resultId]
+    );
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Removal task processing failed', {
+      executionId,
+      projectId,
+      userEmail,
+      error,
+    });
+
+    await db.query(
+      `UPDATE job_results
+       SET status = 'failed',
+           error_code = $1,
+           error_message = $2,
+           api_request_id = $3,
            completed_at = NOW(),
            duration_ms = EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
-       WHERE id = $2`,
-      [error instanceof Error ? error.message : 'Unknown error', resultId]
+       WHERE id = $4`,
+      [
+        error instanceof APSError ? error.errorCode : null,
+        error instanceof Error ? error.message : 'Unknown error',
+        error instanceof APSError ? error.requestId : null,
+        resultId,
+      ]
     );
 
     return { success: false };
@@ -313,10 +1161,28 @@ worker.on('error', (err) => {
   logger.error('Worker error', { error: err });
 });
 
+syncWorker.on('failed', (job, err) => {
+  logger.error(`Membership sync failed: ${job?.id}`, { error: err });
+});
+
+syncWorker.on('error', (err) => {
+  logger.error('Membership sync worker error', { error: err });
+});
+
+driftWorker.on('failed', (job, err) => {
+  logger.error(`Drift check failed: ${job?.id}`, { error: err });
+});
+
+driftWorker.on('error', (err) => {
+  logger.error('Drift check worker error', { error: err });
+});
+
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down worker...');
   await worker.close();
+  await syncWorker.close();
+  await driftWorker.close();
   await redisConnection.quit();
   process.exit(0);
 });
@@ -324,6 +1190,8 @@ process.on('SIGTERM', async () => {
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down worker...');
   await worker.close();
+  await syncWorker.close();
+  await driftWorker.close();
   await redisConnection.quit();
   process.exit(0);
 });
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Grid3x3, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useAccounts,
+  useAccountMembers,
+  useMemberAccess,
+  useMembershipSync,
+} from '@/hooks/useProjects';
+import Button from '@/components/ui/Button';
+import Spinner from '@/components/ui/Spinner';
+import AccountSelector from '@/components/AccountSelector';
+import MemberSelector from '@/components/MemberSelector';
+import AccessMatrix from '@/components/AccessMatrix';
+import { formatDate, validateEmail } from '@/lib/utils';
+
+export default function AccessPage() {
+  const router = useRouter();
+  const { user, isLoading: authLoading } = useAuth();
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+  const [manualEmails, setManualEmails] = useState('');
+  // Emails the matrix is showing; only updated on "Show Access" since each
+  // email may refresh stale projects from APS
+  const [requestedEmails, setRequestedEmails] = useState<string[]>([]);
+
+  const { accounts, isLoading: accountsLoading } = useAccounts();
+  const {
+    members,
+    isLoading: membersLoading,
+    error: membersError,
+  } = useAccountMembers(selectedAccountId);
+  const { reports, loadingEmails, errors } = useMemberAccess(
+    selectedAccountId,
+    requestedEmails
+  );
+  const {
+    status: syncStatus,
+    sync,
+    isSyncing,
+  } = useMembershipSync(selectedAccountId);
+
+  // Auto-select first account when accounts load
+  useEffect(() => {
+    if (accounts.length > 0 && !selectedAccountId) {
+      setSelectedAccountId(accounts[0].id);
+    }
+  }, [accounts, selectedAccountId]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [authLoading, user, router]);
+
+  const selectedEmails = useMemo(() => {
+    const memberEmails = members
+      .filter((m) => selectedMembers.includes(m.id))
+      .map((m) => m.email);
+    const typedEmails = manualEmails
+      .split(/[,\n]/)
+      .map((e) => e.trim())
+      .filter((e) => validateEmail(e));
+
+    return [...new Set([...memberEmails, ...typedEmails])];
+  }, [members, selectedMembers, manualEmails]);
+
+  const handleAccountChange = (accountId: string) => {
+    setSelectedAccountId(accountId);
+    setSelectedMembers([]);
+    setRequestedEmails([]);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                Access Matrix
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Compare member access across every project in the account
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => router.push('/dashboard')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Account Selector */}
+      <AccountSelector
+        accounts={accounts}
+        selectedAccountId={selectedAccountId}
+        onAccountChange={handleAccountChange}
+        isLoading={accountsLoading}
+      />
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            <MemberSelector
+              members={members}
+              selectedMembers={selectedMembers}
+              onSelectionChange={setSelectedMembers}
+              isLoading={membersLoading}
+              error={membersError as Error | null}
+              manualEmails={manualEmails}
+              onManualEmailsChange={setManualEmails}
+            />
+            <Button
+              variant="primary"
+              className="w-full"
+              onClick={() => setRequestedEmails(selectedEmails)}
+              disabled={selectedEmails.length === 0 || !selectedAccountId}
+            >
+              <Grid3x3 className="h-4 w-4 mr-2" />
+              Show Access ({selectedEmails.length})
+            </Button>
+
+            {syncStatus && (
+              <div className="flex items-start justify-between gap-2 text-xs text-muted-foreground">
+                <p>
+                  {isSyncing
+                    ? 'Refreshing project members...'
+                    : syncStatus.oldestSyncedAt
+                      ? `Members cached since ${formatDate(syncStatus.oldestSyncedAt)}`
+                      : 'Project members not cached yet'}
+                  {syncStatus.staleProjects > 0 &&
+                    !isSyncing &&
+                    ` (${syncStatus.staleProjects} of ${syncStatus.totalProjects} projects out of date)`}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => sync(true)}
+                  disabled={isSyncing}
+                >
+                  <RefreshCw
+                    className={`h-3 w-3 ${isSyncing ? 'animate-spin' : ''}`}
+                  />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="lg:col-span-2">
+            <AccessMatrix
+              reports={reports}
+              loadingEmails={loadingEmails}
+              errors={errors}
+            />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function GET(request: NextRequest) {
+  return proxyRequest(request, '/api/account/companies', 'GET');
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ email: string }> }
+) {
+  const { email } = await params;
+  return proxyRequest(
+    request,
+    `/api/account/members/${encodeURIComponent(email)}/access`,
+    'GET'
+  );
+}
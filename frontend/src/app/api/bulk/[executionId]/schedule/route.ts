@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ executionId: string }> }
+) {
+  const { executionId } = await params;
+  return proxyRequest(request, `/api/bulk/${executionId}/schedule`, 'PATCH');
+}
@@ -0,0 +1,6 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function POST(request: NextRequest) {
+  return proxyRequest(request, '/api/bulk/clone-access/preview', 'POST');
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { proxyStream } from '@/lib/api-proxy';
+
+// Streams must not be cached or pre-rendered
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ executionId: string }> }
+) {
+  const { executionId } = await params;
+  return proxyStream(request, `/api/bulk/status/${executionId}/stream`);
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ manifestId: string }> }
+) {
+  const { manifestId } = await params;
+  return proxyRequest(request, `/api/manifests/${manifestId}`, 'GET');
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ manifestId: string }> }
+) {
+  const { manifestId } = await params;
+  return proxyRequest(request, `/api/manifests/${manifestId}`, 'PUT');
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ manifestId: string }> }
+) {
+  const { manifestId } = await params;
+  return proxyRequest(request, `/api/manifests/${manifestId}`, 'DELETE');
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ manifestId: string; version: string }> }
+) {
+  const { manifestId, version } = await params;
+  return proxyRequest(request, `/api/manifests/${manifestId}/versions/${version}`, 'GET');
+}
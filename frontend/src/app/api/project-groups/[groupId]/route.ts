@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const { groupId } = await params;
+  return proxyRequest(request, `/api/project-groups/${groupId}`, 'GET');
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const { groupId } = await params;
+  return proxyRequest(request, `/api/project-groups/${groupId}`, 'PUT');
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const { groupId } = await params;
+  return proxyRequest(request, `/api/project-groups/${groupId}`, 'DELETE');
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  const { campaignId } = await params;
+  return proxyRequest(request, `/api/reviews/${campaignId}/decisions`, 'POST');
+}
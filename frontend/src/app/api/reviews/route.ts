@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function GET(request: NextRequest) {
+  return proxyRequest(request, '/api/reviews', 'GET');
+}
+
+export async function POST(request: NextRequest) {
+  return proxyRequest(request, '/api/reviews', 'POST');
+}
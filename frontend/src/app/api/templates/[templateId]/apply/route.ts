@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const { templateId } = await params;
+  return proxyRequest(request, `/api/templates/${templateId}/apply`, 'POST');
+}
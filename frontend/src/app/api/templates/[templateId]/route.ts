@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { proxyRequest } from '@/lib/api-proxy';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const { templateId } = await params;
+  return proxyRequest(request, `/api/templates/${templateId}`, 'GET');
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const { templateId } = await params;
+  return proxyRequest(request, `/api/templates/${templateId}`, 'PUT');
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const { templateId } = await params;
+  return proxyRequest(request, `/api/templates/${templateId}`, 'DELETE');
+}
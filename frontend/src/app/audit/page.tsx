@@ -0,0 +1,411 @@
+'use client';
+
+import { Fragment, useState, useEffect, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Download, Search, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useAuditLogs } from '@/hooks/useAudit';
+import apiClient, { MAX_AUDIT_EXPORT_ENTRIES } from '@/lib/api-client';
+import Button from '@/components/ui/Button';
+import Spinner from '@/components/ui/Spinner';
+import Badge from '@/components/ui/Badge';
+import Input from '@/components/ui/Input';
+import { Alert, AlertDescription } from '@/components/ui/Alert';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { AuditAction, AuditLogFilters } from '@/types';
+import { downloadCSV, formatDate } from '@/lib/utils';
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  'user_login',
+  'user_logout',
+  'projects_fetched',
+  'user_preview',
+  'job_created',
+  'job_started',
+  'job_completed',
+  'job_failed',
+  'job_cancelled',
+  'user_added_to_project',
+  'user_role_updated',
+  'api_error',
+  'rate_limit_hit',
+  'review_campaign_created',
+  'review_decision',
+  'review_campaign_closed',
+];
+
+// Wait for typing to pause before querying
+const SEARCH_DELAY_MS = 300;
+
+const EMPTY_TEXT_FILTERS = { executionId: '', resourceId: '', search: '' };
+
+const actionLabel = (action: AuditAction) => action.replace(/_/g, ' ');
+
+export default function AuditPage() {
+  const router = useRouter();
+  const { user, isLoading: authLoading } = useAuth();
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [outcome, setOutcome] = useState<'all' | 'success' | 'failed'>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [textInput, setTextInput] = useState(EMPTY_TEXT_FILTERS);
+  const [text, setText] = useState(textInput);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportTruncated, setExportTruncated] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [authLoading, user, router]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setText(textInput), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [textInput]);
+
+  const filters = useMemo<AuditLogFilters>(
+    () => ({
+      action: action || undefined,
+      executionId: text.executionId.trim() || undefined,
+      resourceId: text.resourceId.trim() || undefined,
+      search: text.search.trim() || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      success: outcome === 'all' ? undefined : outcome === 'success',
+    }),
+    [text, action, outcome, from, to]
+  );
+
+  const {
+    entries,
+    isLoading,
+    error: loadError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useAuditLogs(filters, !!user);
+
+  // Load the next page when the end of the table scrolls into view
+  const scrollRoot = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { root: scrollRoot.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const hasFilters =
+    !!action || outcome !== 'all' || !!from || !!to || Object.values(textInput).some(Boolean);
+
+  const clearFilters = () => {
+    setAction('');
+    setOutcome('all');
+    setFrom('');
+    setTo('');
+    setTextInput(EMPTY_TEXT_FILTERS);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setExportTruncated(false);
+    let exported;
+    try {
+      exported = await apiClient.getAllAuditLogs(filters);
+    } catch (err) {
+      setError((err as any)?.response?.data?.error || 'Failed to export audit log');
+      return;
+    } finally {
+      setIsExporting(false);
+    }
+
+    setExportTruncated(exported.truncated);
+    const csvData = exported.entries.map((e) => ({
+      Time: e.createdAt,
+      User: e.userEmail || e.userId || 'N/A',
+      Action: e.action,
+      Success: e.success ? 'Yes' : 'No',
+      Execution: e.executionId || '',
+      'Resource Type': e.resourceType || '',
+      'Resource ID': e.resourceId || '',
+      Error: e.errorMessage || '',
+      'IP Address': e.ipAddress || '',
+      Details: e.details ? JSON.stringify(e.details) : '',
+    }));
+
+    downloadCSV(csvData, `audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const selectClassName =
+    'h-10 rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+              <p className="text-sm text-muted-foreground">
+                Sign-ins, previews, jobs and review decisions
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => router.push('/dashboard')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {(error || loadError) && (
+          <Alert variant="error" onClose={error ? () => setError(null) : undefined}>
+            <AlertDescription>
+              {error ||
+                (loadError as any)?.response?.data?.error ||
+                'Failed to load audit log'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {exportTruncated && (
+          <Alert variant="warning" onClose={() => setExportTruncated(false)}>
+            <AlertDescription>
+              The export holds the newest {MAX_AUDIT_EXPORT_ENTRIES.toLocaleString()} matching
+              entries only. Narrow the filters or date range to export the rest.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Entries</CardTitle>
+              <div className="flex items-center gap-2">
+                {hasFilters && (
+                  <Button variant="ghost" size="sm" onClick={clearFilters}>
+                    <X className="h-4 w-4 mr-1" />
+                    Clear Filters
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExport}
+                  isLoading={isExporting}
+                  disabled={entries.length === 0}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="relative flex-1 min-w-[220px]">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search details..."
+                  value={textInput.search}
+                  onChange={(e) => setTextInput({ ...textInput, search: e.target.value })}
+                  className="pl-9"
+                />
+              </div>
+              <select
+                value={action}
+                onChange={(e) => setAction(e.target.value as AuditAction | '')}
+                className={selectClassName}
+              >
+                <option value="">All actions</option>
+                {AUDIT_ACTIONS.map((a) => (
+                  <option key={a} value={a}>
+                    {actionLabel(a)}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={outcome}
+                onChange={(e) => setOutcome(e.target.value as typeof outcome)}
+                className={selectClassName}
+              >
+                <option value="all">Any outcome</option>
+                <option value="success">Succeeded</option>
+                <option value="failed">Failed</option>
+              </select>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-[220px]">
+                <Input
+                  placeholder="Execution ID"
+                  value={textInput.executionId}
+                  onChange={(e) =>
+                    setTextInput({ ...textInput, executionId: e.target.value })
+                  }
+                />
+              </div>
+              <div className="flex-1 min-w-[180px]">
+                <Input
+                  placeholder="Resource ID"
+                  value={textInput.resourceId}
+                  onChange={(e) => setTextInput({ ...textInput, resourceId: e.target.value })}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                From
+                <div className="w-40">
+                  <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                To
+                <div className="w-40">
+                  <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                </div>
+              </label>
+            </div>
+
+            {/* Entries Table */}
+            <div className="border rounded-lg overflow-hidden">
+              <div ref={scrollRoot} className="max-h-[36rem] overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="w-8 p-3" />
+                      <th className="text-left p-3 font-medium">Time</th>
+                      <th className="text-left p-3 font-medium">User</th>
+                      <th className="text-left p-3 font-medium">Action</th>
+                      <th className="text-left p-3 font-medium">Resource</th>
+                      <th className="text-left p-3 font-medium">Execution</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {entries.map((entry) => {
+                      const isExpanded = expandedId === entry.id;
+                      return (
+                        <Fragment key={entry.id}>
+                          <tr
+                            onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                            className="hover:bg-muted/50 transition-colors cursor-pointer"
+                          >
+                            <td className="p-3 text-muted-foreground">
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" />
+                              )}
+                            </td>
+                            <td className="p-3 whitespace-nowrap">
+                              {formatDate(entry.createdAt)}
+                            </td>
+                            <td className="p-3">
+                              {entry.userEmail || (
+                                <span className="text-muted-foreground">
+                                  {entry.userId || 'System'}
+                                </span>
+                              )}
+                            </td>
+                            <td className="p-3">
+                              <Badge
+                                variant={entry.success ? 'secondary' : 'error'}
+                                className="text-xs capitalize"
+                              >
+                                {actionLabel(entry.action)}
+                              </Badge>
+                            </td>
+                            <td className="p-3 text-muted-foreground">
+                              {entry.resourceType
+                                ? `${entry.resourceType}${entry.resourceId ? ` ${entry.resourceId}` : ''}`
+                                : '-'}
+                            </td>
+                            <td className="p-3">
+                              {entry.executionId ? (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setTextInput({
+                                      ...textInput,
+                                      executionId: entry.executionId!,
+                                    });
+                                  }}
+                                  className="font-mono text-xs text-primary hover:underline"
+                                  title="Show this execution's entries"
+                                >
+                                  {entry.executionId.slice(0, 8)}
+                                </button>
+                              ) : (
+                                <span className="text-muted-foreground">-</span>
+                              )}
+                            </td>
+                          </tr>
+                          {isExpanded && (
+                            <tr className="bg-muted/30">
+                              <td />
+                              <td colSpan={5} className="p-3 space-y-2">
+                                {entry.errorMessage && (
+                                  <p className="text-xs text-red-600">{entry.errorMessage}</p>
+                                )}
+                                <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+                                  {entry.details ? JSON.stringify(entry.details, null, 2) : 'No details'}
+                                </pre>
+                                {(entry.ipAddress || entry.userAgent) && (
+                                  <p className="text-xs text-muted-foreground">
+                                    {[entry.ipAddress, entry.userAgent].filter(Boolean).join(' · ')}
+                                  </p>
+                                )}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {!isLoading && entries.length === 0 && (
+                  <p className="p-6 text-center text-sm text-muted-foreground">
+                    {hasFilters ? 'No entries match these filters' : 'Nothing has been logged yet'}
+                  </p>
+                )}
+                <div ref={loadMoreRef} />
+                {(isLoading || isFetchingNextPage) && (
+                  <div className="flex justify-center p-3">
+                    <Spinner size="sm" />
+                  </div>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
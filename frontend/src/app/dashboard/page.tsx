@@ -2,28 +2,97 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import { LogOut, History, Plus } from 'lucide-react';
+import {
+  LogOut,
+  History,
+  Plus,
+  UserMinus,
+  FileSpreadsheet,
+  Copy,
+  Users,
+  Grid3x3,
+  FileCode,
+  ClipboardCheck,
+  ScrollText,
+} from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { useAccounts, useProjects, useAccountMembers, useAccountRoles } from '@/hooks/useProjects';
+import {
+  useAccounts,
+  useProjects,
+  useAccountMembers,
+  useAccountRoles,
+  useAccountCompanies,
+} from '@/hooks/useProjects';
 import {
   useBulkPreview,
   useBulkAssignment,
+  useBulkRemovalPreview,
+  useBulkRemoval,
+  useImportValidation,
+  useBulkImport,
+  useClonePreview,
+  useCloneAccess,
+  useMemberCopyPreview,
+  useMemberCopy,
   useJobStatus,
+  useCancelJob,
+  useRetryJob,
 } from '@/hooks/useBulkOperations';
+import {
+  useRoleTemplates,
+  useCreateTemplate,
+  useDeleteTemplate,
+  useApplyTemplate,
+} from '@/hooks/useTemplates';
+import {
+  useProjectGroups,
+  useCreateProjectGroup,
+  useDeleteProjectGroup,
+} from '@/hooks/useProjectGroups';
 import Button from '@/components/ui/Button';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/Alert';
 import Spinner from '@/components/ui/Spinner';
 import AccountSelector from '@/components/AccountSelector';
 import ProjectSelector from '@/components/ProjectSelector';
 import MemberSelector from '@/components/MemberSelector';
+import InviteSelector from '@/components/InviteSelector';
+import CompanySelector from '@/components/CompanySelector';
 import RoleSelector from '@/components/RoleSelector';
 import AccessLevelSelector from '@/components/AccessLevelSelector';
+import ScheduleSelector from '@/components/ScheduleSelector';
 import PreviewResults from '@/components/PreviewResults';
+import RemovalPreviewResults from '@/components/RemovalPreviewResults';
+import SpreadsheetImport from '@/components/SpreadsheetImport';
+import CloneAccess, { CloneOptions } from '@/components/CloneAccess';
+import CopyMembers, { MemberCopyOptions } from '@/components/CopyMembers';
+import TemplateSelector, { TemplateDraft } from '@/components/TemplateSelector';
 import ExecutionStatus from '@/components/ExecutionStatus';
-import type { BulkAssignmentFormData } from '@/types';
+import { cn, fromDateTimeLocal } from '@/lib/utils';
+import type {
+  AccountInvitation,
+  BulkAssignmentFormData,
+  ProjectGroupRequest,
+  ProjectListOptions,
+  BulkOperationMode,
+  ImportRow,
+  RoleTemplate,
+} from '@/types';
 
 type Step = 'form' | 'preview' | 'executing';
 
+// Drop blank invitation fields so the API applies its defaults
+function toInvitation(
+  email: string,
+  details?: AccountInvitation
+): AccountInvitation {
+  return {
+    email,
+    firstName: details?.firstName?.trim() || undefined,
+    lastName: details?.lastName?.trim() || undefined,
+    jobTitle: details?.jobTitle?.trim() || undefined,
+  };
+}
+
 export default function DashboardPage() {
   const router = useRouter();
   const { user, isLoading: authLoading, logout } = useAuth();
@@ -35,21 +104,44 @@ export default function DashboardPage() {
   const { accounts, isLoading: accountsLoading } = useAccounts();
 
   // Fetch data based on selected account
+  // Templates and archived projects are only listed on request
+  const [projectListOptions, setProjectListOptions] = useState<ProjectListOptions>({});
   const { projects, isLoading: projectsLoading, error: projectsError } =
-    useProjects(selectedAccountId);
+    useProjects(selectedAccountId, projectListOptions);
   const { members, isLoading: membersLoading, error: membersError } =
     useAccountMembers(selectedAccountId);
   const { roles, isLoading: rolesLoading, error: rolesError } = useAccountRoles(selectedAccountId);
+  const { templates, isLoading: templatesLoading } = useRoleTemplates(selectedAccountId);
+  const { companies, isLoading: companiesLoading } =
+    useAccountCompanies(selectedAccountId);
+  const { groups: projectGroups } = useProjectGroups(selectedAccountId);
 
+  const [mode, setMode] = useState<BulkOperationMode>('assign');
   const [step, setStep] = useState<Step>('form');
   const [formData, setFormData] = useState<BulkAssignmentFormData>({
     selectedProjects: [],
+    selectedGroups: [],
     userEmails: '',
     selectedMembers: [],
-    selectedRole: '',
+    selectedRoles: [],
+    roleMode: 'add',
     accessLevel: 'user',
+    products: [],
+    scheduledFor: '',
+    expiresAt: '',
+    inviteToAccount: false,
+    invitations: {},
+    companies: {},
+    allowDefaultCompany: false,
   });
   const [executionId, setExecutionId] = useState<string | null>(null);
+  // Clone request behind the current clone preview
+  const [cloneOptions, setCloneOptions] = useState<CloneOptions | null>(null);
+  // Member copy request behind the current member copy preview
+  const [memberCopy, setMemberCopy] = useState<{
+    sourceProjectId: string;
+    options: MemberCopyOptions;
+  } | null>(null);
 
   // Auto-select first account when accounts load
   useEffect(() => {
@@ -63,10 +155,19 @@ export default function DashboardPage() {
     setSelectedAccountId(accountId);
     setFormData({
       selectedProjects: [],
+      selectedGroups: [],
       userEmails: '',
       selectedMembers: [],
-      selectedRole: '',
+      selectedRoles: [],
+      roleMode: 'add',
       accessLevel: 'user',
+      products: [],
+      scheduledFor: '',
+      expiresAt: '',
+      inviteToAccount: false,
+      invitations: {},
+      companies: {},
+      allowDefaultCompany: false,
     });
   };
 
@@ -84,7 +185,82 @@ export default function DashboardPage() {
     error: executeError,
   } = useBulkAssignment();
 
-  const { jobExecution, refetch: refetchJob } = useJobStatus(executionId);
+  const {
+    preview: removalPreviewMutation,
+    data: removalPreviewData,
+    isLoading: isRemovalPreviewLoading,
+    error: removalPreviewError,
+    reset: resetRemovalPreview,
+  } = useBulkRemovalPreview();
+
+  const {
+    executeAsync: executeRemovalMutation,
+    isLoading: isExecutingRemoval,
+    error: executeRemovalError,
+  } = useBulkRemoval();
+
+  const {
+    validate: validateImport,
+    data: importReport,
+    isLoading: isValidatingImport,
+    error: importValidationError,
+    reset: resetImportValidation,
+  } = useImportValidation();
+
+  const {
+    executeAsync: executeImportMutation,
+    isLoading: isExecutingImport,
+    error: executeImportError,
+  } = useBulkImport();
+
+  const {
+    preview: clonePreviewMutation,
+    data: clonePreviewData,
+    isLoading: isClonePreviewLoading,
+    error: clonePreviewError,
+    reset: resetClonePreview,
+  } = useClonePreview();
+
+  const {
+    executeAsync: executeCloneMutation,
+    isLoading: isExecutingClone,
+    error: executeCloneError,
+  } = useCloneAccess();
+
+  const {
+    preview: memberCopyPreviewMutation,
+    data: memberCopyPreviewData,
+    isLoading: isMemberCopyPreviewLoading,
+    error: memberCopyPreviewError,
+    reset: resetMemberCopyPreview,
+  } = useMemberCopyPreview();
+
+  const {
+    executeAsync: executeMemberCopyMutation,
+    isLoading: isExecutingMemberCopy,
+    error: executeMemberCopyError,
+  } = useMemberCopy();
+
+  const {
+    createAsync: createTemplateMutation,
+    isLoading: isSavingTemplate,
+    error: createTemplateError,
+  } = useCreateTemplate();
+
+  const { remove: deleteTemplate } = useDeleteTemplate();
+
+  const { createAsync: createProjectGroup } = useCreateProjectGroup();
+  const { remove: deleteProjectGroup } = useDeleteProjectGroup();
+
+  const {
+    applyAsync: applyTemplateMutation,
+    isLoading: isApplyingTemplate,
+    error: applyTemplateError,
+  } = useApplyTemplate();
+
+  const { jobExecution, isStreaming, refetch: refetchJob } = useJobStatus(executionId);
+  const { cancel: cancelJob, isLoading: isCancelling } = useCancelJob();
+  const { retryAsync: retryJob, isLoading: isRetrying } = useRetryJob();
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -111,9 +287,36 @@ export default function DashboardPage() {
     return memberEmails;
   }, [members, formData.selectedMembers, formData.userEmails]);
 
+  // Manually entered emails that can be invited to the account
+  const nonMemberEmails = useMemo(() => {
+    const memberEmails = new Set(members.map((m) => m.email.toLowerCase()));
+    return selectedMemberEmails.filter(
+      (email) => !memberEmails.has(email.toLowerCase())
+    );
+  }, [members, selectedMemberEmails]);
+
+  const inviteToAccount =
+    formData.inviteToAccount &&
+    formData.roleMode !== 'remove' &&
+    nonMemberEmails.length > 0;
+
+  // Only send companies chosen for emails still selected
+  const chosenCompanies = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(formData.companies).filter(([email]) =>
+          selectedMemberEmails.includes(email)
+        )
+      ),
+    [formData.companies, selectedMemberEmails]
+  );
+
+  const hasProjectTargets =
+    formData.selectedProjects.length > 0 || formData.selectedGroups.length > 0;
+
   const handlePreview = async () => {
-    if (formData.selectedProjects.length === 0) {
-      alert('Please select at least one project');
+    if (!hasProjectTargets) {
+      alert('Please select at least one project or project group');
       return;
     }
 
@@ -122,8 +325,8 @@ export default function DashboardPage() {
       return;
     }
 
-    if (!formData.selectedRole) {
-      alert('Please select a role');
+    if (mode === 'assign' && formData.selectedRoles.length === 0) {
+      alert('Please select at least one role');
       return;
     }
 
@@ -132,11 +335,33 @@ export default function DashboardPage() {
       return;
     }
 
+    if (mode === 'remove') {
+      try {
+        await removalPreviewMutation({
+          userEmails: selectedMemberEmails,
+          projectIds: formData.selectedProjects,
+          projectGroupIds: formData.selectedGroups,
+          accountId: selectedAccountId,
+        });
+        setStep('preview');
+      } catch (error) {
+        console.error('Removal preview failed:', error);
+      }
+      return;
+    }
+
     try {
       await previewMutation({
         userEmails: selectedMemberEmails,
         projectIds: formData.selectedProjects,
+        projectGroupIds: formData.selectedGroups,
         accountId: selectedAccountId,
+        roles: formData.selectedRoles,
+        roleMode: formData.roleMode,
+        accessLevel: formData.accessLevel,
+        products: formData.products,
+        companies: chosenCompanies,
+        allowDefaultCompany: formData.allowDefaultCompany,
       });
       setStep('preview');
     } catch (error) {
@@ -144,6 +369,38 @@ export default function DashboardPage() {
     }
   };
 
+  const handlePreviewClone = (options: CloneOptions) => {
+    if (!selectedAccountId) {
+      alert('Please select an account');
+      return;
+    }
+
+    setCloneOptions(options);
+    clonePreviewMutation(
+      { ...options, accountId: selectedAccountId },
+      { onSuccess: () => setStep('preview') }
+    );
+  };
+
+  const handlePreviewMemberCopy = (
+    sourceProjectId: string,
+    options: MemberCopyOptions
+  ) => {
+    if (!selectedAccountId) {
+      alert('Please select an account');
+      return;
+    }
+
+    setMemberCopy({ sourceProjectId, options });
+    memberCopyPreviewMutation(
+      {
+        projectId: sourceProjectId,
+        data: { ...options, accountId: selectedAccountId },
+      },
+      { onSuccess: () => setStep('preview') }
+    );
+  };
+
   const handleConfirmExecution = async () => {
     if (!selectedAccountId) {
       alert('Please select an account');
@@ -151,36 +408,199 @@ export default function DashboardPage() {
     }
 
     try {
-      const response = await executeMutation({
-        userEmails: selectedMemberEmails,
-        projectIds: formData.selectedProjects,
-        role: formData.selectedRole,
+      const response =
+        mode === 'copy-members' && memberCopy
+          ? await executeMemberCopyMutation({
+              projectId: memberCopy.sourceProjectId,
+              data: { ...memberCopy.options, accountId: selectedAccountId },
+            })
+          : mode === 'clone' && cloneOptions
+          ? await executeCloneMutation({
+              ...cloneOptions,
+              accountId: selectedAccountId,
+            })
+          : mode === 'remove'
+          ? await executeRemovalMutation({
+              userEmails: selectedMemberEmails,
+              projectIds: formData.selectedProjects,
+              projectGroupIds: formData.selectedGroups,
+              accountId: selectedAccountId,
+            })
+          : await executeMutation({
+              userEmails: selectedMemberEmails,
+              projectIds: formData.selectedProjects,
+              projectGroupIds: formData.selectedGroups,
+              roles: formData.selectedRoles,
+              roleMode: formData.roleMode,
+              accountId: selectedAccountId,
+              accessLevel: formData.accessLevel,
+              products: formData.products,
+              scheduledFor: fromDateTimeLocal(formData.scheduledFor),
+              expiresAt:
+                formData.roleMode === 'remove'
+                  ? undefined
+                  : fromDateTimeLocal(formData.expiresAt),
+              inviteToAccount,
+              invitations: inviteToAccount
+                ? nonMemberEmails.map((email) =>
+                    toInvitation(email, formData.invitations[email])
+                  )
+                : undefined,
+              companies: chosenCompanies,
+              allowDefaultCompany: formData.allowDefaultCompany,
+            });
+
+      setExecutionId(response.executionId);
+      setStep('executing');
+    } catch (error) {
+      console.error('Execution failed:', error);
+    }
+  };
+
+  const handleValidateImport = (rows: ImportRow[]) => {
+    if (!selectedAccountId) {
+      alert('Please select an account');
+      return;
+    }
+
+    validateImport({ accountId: selectedAccountId, rows });
+  };
+
+  const handleExecuteImport = async (
+    rows: ImportRow[],
+    options: { inviteToAccount: boolean; allowDefaultCompany: boolean }
+  ) => {
+    if (!selectedAccountId) {
+      alert('Please select an account');
+      return;
+    }
+
+    try {
+      const response = await executeImportMutation({
         accountId: selectedAccountId,
+        rows,
+        ...options,
       });
 
       setExecutionId(response.executionId);
       setStep('executing');
     } catch (error) {
-      console.error('Execution failed:', error);
+      console.error('Import failed:', error);
+    }
+  };
+
+  const handleSaveTemplate = async (draft: TemplateDraft) => {
+    if (!selectedAccountId) {
+      alert('Please select an account');
+      return;
+    }
+
+    await createTemplateMutation({ ...draft, accountId: selectedAccountId });
+  };
+
+  const handleSaveProjectGroup = async (
+    group: Omit<ProjectGroupRequest, 'accountId'>
+  ) => {
+    if (!selectedAccountId) {
+      alert('Please select an account');
+      return;
+    }
+
+    try {
+      await createProjectGroup({ ...group, accountId: selectedAccountId });
+    } catch (error) {
+      console.error('Save project group failed:', error);
+      alert('Failed to save project group');
+    }
+  };
+
+  const handleDeleteProjectGroup = (groupId: string) => {
+    if (!selectedAccountId) return;
+    setFormData({
+      ...formData,
+      selectedGroups: formData.selectedGroups.filter((id) => id !== groupId),
+    });
+    deleteProjectGroup({ groupId, accountId: selectedAccountId });
+  };
+
+  const handleApplyTemplate = async (template: RoleTemplate) => {
+    if (!selectedAccountId) {
+      alert('Please select an account');
+      return;
+    }
+
+    try {
+      // Templates with a project filter resolve their own projects
+      const response = await applyTemplateMutation({
+        templateId: template.id,
+        data: {
+          accountId: selectedAccountId,
+          userEmails: selectedMemberEmails,
+          projectIds: template.projectFilter
+            ? undefined
+            : formData.selectedProjects,
+        },
+      });
+
+      setExecutionId(response.executionId);
+      setStep('executing');
+    } catch (error) {
+      console.error('Apply template failed:', error);
+    }
+  };
+
+  const handleRetry = async (failedExecutionId: string) => {
+    try {
+      const response = await retryJob(failedExecutionId);
+      setExecutionId(response.executionId);
+    } catch (error) {
+      console.error('Retry failed:', error);
     }
   };
 
   const handleCancelPreview = () => {
     resetPreview();
+    resetRemovalPreview();
+    resetClonePreview();
+    resetMemberCopyPreview();
     setStep('form');
   };
 
+  const handleModeChange = (newMode: BulkOperationMode) => {
+    setMode(newMode);
+    resetPreview();
+    resetRemovalPreview();
+    resetImportValidation();
+    resetClonePreview();
+    resetMemberCopyPreview();
+  };
+
   const handleReset = () => {
     setStep('form');
     setExecutionId(null);
     setFormData({
       selectedProjects: [],
+      selectedGroups: [],
       userEmails: '',
       selectedMembers: [],
-      selectedRole: '',
+      selectedRoles: [],
+      roleMode: 'add',
       accessLevel: 'user',
+      products: [],
+      scheduledFor: '',
+      expiresAt: '',
+      inviteToAccount: false,
+      invitations: {},
+      companies: {},
+      allowDefaultCompany: false,
     });
     resetPreview();
+    resetRemovalPreview();
+    resetImportValidation();
+    resetClonePreview();
+    setCloneOptions(null);
+    resetMemberCopyPreview();
+    setMemberCopy(null);
   };
 
   const handleViewHistory = () => {
@@ -222,6 +642,38 @@ export default function DashboardPage() {
                 <History className="h-4 w-4 mr-2" />
                 History
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push('/access')}
+              >
+                <Grid3x3 className="h-4 w-4 mr-2" />
+                Access Matrix
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push('/manifests')}
+              >
+                <FileCode className="h-4 w-4 mr-2" />
+                Access as Code
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push('/reviews')}
+              >
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Access Reviews
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push('/audit')}
+              >
+                <ScrollText className="h-4 w-4 mr-2" />
+                Audit Log
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -282,86 +734,351 @@ export default function DashboardPage() {
           </Alert>
         )}
 
+        {removalPreviewError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Removal Preview Failed</AlertTitle>
+            <AlertDescription>
+              {(removalPreviewError as any)?.message || 'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {importValidationError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Import Validation Failed</AlertTitle>
+            <AlertDescription>
+              {(importValidationError as any)?.message || 'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {executeImportError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Import Failed</AlertTitle>
+            <AlertDescription>
+              {(executeImportError as any)?.message || 'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {clonePreviewError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Clone Preview Failed</AlertTitle>
+            <AlertDescription>
+              {(clonePreviewError as any)?.response?.data?.error ||
+                (clonePreviewError as any)?.message ||
+                'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {executeCloneError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Copying Access Failed</AlertTitle>
+            <AlertDescription>
+              {(executeCloneError as any)?.response?.data?.error ||
+                (executeCloneError as any)?.message ||
+                'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {memberCopyPreviewError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Member Copy Preview Failed</AlertTitle>
+            <AlertDescription>
+              {(memberCopyPreviewError as any)?.response?.data?.error ||
+                (memberCopyPreviewError as any)?.message ||
+                'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {executeMemberCopyError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Copying Members Failed</AlertTitle>
+            <AlertDescription>
+              {(executeMemberCopyError as any)?.response?.data?.error ||
+                (executeMemberCopyError as any)?.message ||
+                'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {createTemplateError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Failed to Save Template</AlertTitle>
+            <AlertDescription>
+              {(createTemplateError as any)?.response?.data?.error ||
+                (createTemplateError as any)?.message ||
+                'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {applyTemplateError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Failed to Apply Template</AlertTitle>
+            <AlertDescription>
+              {(applyTemplateError as any)?.response?.data?.error ||
+                (applyTemplateError as any)?.message ||
+                'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {executeRemovalError && (
+          <Alert variant="error" className="mb-6">
+            <AlertTitle>Removal Failed</AlertTitle>
+            <AlertDescription>
+              {(executeRemovalError as any)?.message || 'Please try again'}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Step: Form */}
         {step === 'form' && (
           <div className="space-y-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <h2 className="text-xl font-semibold">
-                  Add Members to Projects
-                </h2>
-                <p className="text-sm text-muted-foreground mt-1">
-                  Select projects, choose members, assign a role and access level
-                </p>
-              </div>
-              <Button
-                variant="primary"
-                onClick={handlePreview}
-                disabled={
-                  formData.selectedProjects.length === 0 ||
-                  formData.selectedMembers.length === 0 ||
-                  !formData.selectedRole ||
-                  isPreviewLoading
-                }
-                isLoading={isPreviewLoading}
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Preview Assignment
-              </Button>
+            {/* Mode Toggle */}
+            <div className="inline-flex rounded-lg border p-1 bg-muted">
+              {[
+                { value: 'assign' as const, label: 'Add access', Icon: Plus },
+                { value: 'remove' as const, label: 'Remove access', Icon: UserMinus },
+                { value: 'import' as const, label: 'Upload spreadsheet', Icon: FileSpreadsheet },
+                { value: 'clone' as const, label: 'Copy access', Icon: Copy },
+                { value: 'copy-members' as const, label: 'Copy members', Icon: Users },
+              ].map(({ value, label, Icon }) => (
+                <button
+                  key={value}
+                  onClick={() => handleModeChange(value)}
+                  className={cn(
+                    'flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-colors',
+                    mode === value
+                      ? 'bg-background shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </button>
+              ))}
             </div>
 
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Left Column */}
-              <div className="space-y-6">
-                <ProjectSelector
-                  projects={projects}
-                  selectedProjects={formData.selectedProjects}
-                  onSelectionChange={(selected) =>
-                    setFormData({ ...formData, selectedProjects: selected })
-                  }
-                  isLoading={projectsLoading}
-                />
-              </div>
-
-              {/* Right Column */}
-              <div className="space-y-6">
-                <MemberSelector
-                  members={members}
-                  selectedMembers={formData.selectedMembers}
-                  onSelectionChange={(selected) =>
-                    setFormData({ ...formData, selectedMembers: selected })
-                  }
-                  isLoading={membersLoading}
-                  error={membersError as Error | null}
-                  manualEmails={formData.userEmails}
-                  onManualEmailsChange={(emails) =>
-                    setFormData({ ...formData, userEmails: emails })
-                  }
-                />
-
-                <RoleSelector
-                  roles={roles}
-                  selectedRole={formData.selectedRole}
-                  onRoleChange={(roleId) =>
-                    setFormData({ ...formData, selectedRole: roleId })
-                  }
-                  isLoading={rolesLoading}
-                  error={rolesError as Error | null}
-                />
-
-                <AccessLevelSelector
-                  selectedLevel={formData.accessLevel}
-                  onLevelChange={(level) =>
-                    setFormData({ ...formData, accessLevel: level })
-                  }
-                />
-              </div>
-            </div>
+            {mode === 'import' ? (
+              <SpreadsheetImport
+                onValidate={handleValidateImport}
+                onExecute={handleExecuteImport}
+                report={importReport}
+                isValidating={isValidatingImport}
+                isExecuting={isExecutingImport}
+              />
+            ) : mode === 'copy-members' ? (
+              <CopyMembers
+                projects={projects}
+                roles={roles}
+                companies={companies}
+                onPreview={handlePreviewMemberCopy}
+                isPreviewing={isMemberCopyPreviewLoading}
+              />
+            ) : mode === 'clone' ? (
+              <CloneAccess
+                members={members}
+                onPreview={handlePreviewClone}
+                isPreviewing={isClonePreviewLoading}
+              />
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-xl font-semibold">
+                      {mode === 'remove'
+                        ? 'Remove Members from Projects'
+                        : 'Add Members to Projects'}
+                    </h2>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {mode === 'remove'
+                        ? 'Select projects and the members who should lose access'
+                        : 'Select projects, choose members, assign a role and access level'}
+                    </p>
+                  </div>
+                  {mode === 'remove' ? (
+                    <Button
+                      variant="danger"
+                      onClick={handlePreview}
+                      disabled={
+                        !hasProjectTargets ||
+                        selectedMemberEmails.length === 0 ||
+                        isRemovalPreviewLoading
+                      }
+                      isLoading={isRemovalPreviewLoading}
+                    >
+                      <UserMinus className="h-4 w-4 mr-2" />
+                      Preview Removal
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="primary"
+                      onClick={handlePreview}
+                      disabled={
+                        !hasProjectTargets ||
+                        selectedMemberEmails.length === 0 ||
+                        formData.selectedRoles.length === 0 ||
+                        isPreviewLoading
+                      }
+                      isLoading={isPreviewLoading}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Preview Assignment
+                    </Button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {/* Left Column */}
+                  <div className="space-y-6">
+                    <ProjectSelector
+                      projects={projects}
+                      selectedProjects={formData.selectedProjects}
+                      onSelectionChange={(selected) =>
+                        setFormData({ ...formData, selectedProjects: selected })
+                      }
+                      isLoading={projectsLoading}
+                      groups={projectGroups}
+                      selectedGroups={formData.selectedGroups}
+                      onSelectedGroupsChange={(selected) =>
+                        setFormData({ ...formData, selectedGroups: selected })
+                      }
+                      onSaveGroup={handleSaveProjectGroup}
+                      onDeleteGroup={handleDeleteProjectGroup}
+                      listOptions={projectListOptions}
+                      onListOptionsChange={setProjectListOptions}
+                    />
+                  </div>
+
+                  {/* Right Column */}
+                  <div className="space-y-6">
+                    <MemberSelector
+                      members={members}
+                      selectedMembers={formData.selectedMembers}
+                      onSelectionChange={(selected) =>
+                        setFormData({ ...formData, selectedMembers: selected })
+                      }
+                      isLoading={membersLoading}
+                      error={membersError as Error | null}
+                      manualEmails={formData.userEmails}
+                      onManualEmailsChange={(emails) =>
+                        setFormData({ ...formData, userEmails: emails })
+                      }
+                    />
+
+                    {mode === 'assign' &&
+                      formData.roleMode !== 'remove' &&
+                      nonMemberEmails.length > 0 && (
+                        <InviteSelector
+                          emails={nonMemberEmails}
+                          enabled={formData.inviteToAccount}
+                          onEnabledChange={(enabled) =>
+                            setFormData({ ...formData, inviteToAccount: enabled })
+                          }
+                          invitations={formData.invitations}
+                          onInvitationsChange={(invitations) =>
+                            setFormData({ ...formData, invitations })
+                          }
+                        />
+                      )}
+
+                    {mode === 'assign' &&
+                      formData.roleMode !== 'remove' &&
+                      selectedMemberEmails.length > 0 && (
+                        <CompanySelector
+                          emails={selectedMemberEmails}
+                          companies={companies}
+                          selectedCompanies={formData.companies}
+                          onSelectedCompaniesChange={(selected) =>
+                            setFormData({ ...formData, companies: selected })
+                          }
+                          allowDefaultCompany={formData.allowDefaultCompany}
+                          onAllowDefaultCompanyChange={(allow) =>
+                            setFormData({ ...formData, allowDefaultCompany: allow })
+                          }
+                          isLoading={companiesLoading}
+                        />
+                      )}
+
+                    {mode === 'assign' && (
+                      <>
+                        <TemplateSelector
+                          templates={templates}
+                          roles={roles}
+                          selectedRole={
+                            // Templates grant a single role
+                            formData.selectedRoles.length === 1
+                              ? formData.selectedRoles[0]
+                              : ''
+                          }
+                          selectedProjects={formData.selectedProjects}
+                          memberCount={selectedMemberEmails.length}
+                          onApply={handleApplyTemplate}
+                          onSave={handleSaveTemplate}
+                          onDelete={(templateId) =>
+                            selectedAccountId &&
+                            deleteTemplate({ templateId, accountId: selectedAccountId })
+                          }
+                          isLoading={templatesLoading}
+                          isApplying={isApplyingTemplate}
+                          isSaving={isSavingTemplate}
+                        />
+
+                        <RoleSelector
+                          roles={roles}
+                          selectedRoles={formData.selectedRoles}
+                          onRolesChange={(roleIds) =>
+                            setFormData({ ...formData, selectedRoles: roleIds })
+                          }
+                          roleMode={formData.roleMode}
+                          onRoleModeChange={(roleMode) =>
+                            setFormData({ ...formData, roleMode })
+                          }
+                          isLoading={rolesLoading}
+                          error={rolesError as Error | null}
+                        />
+
+                        {/* Removing roles leaves product access unchanged */}
+                        {formData.roleMode !== 'remove' && (
+                          <AccessLevelSelector
+                            selectedLevel={formData.accessLevel}
+                            onLevelChange={(level) =>
+                              setFormData({ ...formData, accessLevel: level })
+                            }
+                            products={formData.products}
+                            onProductsChange={(products) =>
+                              setFormData({ ...formData, products })
+                            }
+                          />
+                        )}
+
+                        <ScheduleSelector
+                          scheduledFor={formData.scheduledFor}
+                          expiresAt={formData.expiresAt}
+                          onScheduledForChange={(scheduledFor) =>
+                            setFormData({ ...formData, scheduledFor })
+                          }
+                          onExpiresAtChange={(expiresAt) =>
+                            setFormData({ ...formData, expiresAt })
+                          }
+                          showExpiry={formData.roleMode !== 'remove'}
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
           </div>
         )}
 
         {/* Step: Preview */}
-        {step === 'preview' && previewData && (
+        {step === 'preview' && mode === 'assign' && previewData && (
           <div>
             <div className="mb-6">
               <Button variant="outline" onClick={handleCancelPreview}>
@@ -371,6 +1088,7 @@ export default function DashboardPage() {
             <PreviewResults
               results={previewData.preview}
               summary={previewData.summary}
+              projectGroups={previewData.projectGroups}
               onConfirm={handleConfirmExecution}
               onCancel={handleCancelPreview}
               isExecuting={isExecuting}
@@ -378,19 +1096,111 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {step === 'preview' && mode === 'remove' && removalPreviewData && (
+          <div>
+            <div className="mb-6">
+              <Button variant="outline" onClick={handleCancelPreview}>
+                ← Back to Form
+              </Button>
+            </div>
+            <RemovalPreviewResults
+              results={removalPreviewData.preview}
+              summary={removalPreviewData.summary}
+              projectGroups={removalPreviewData.projectGroups}
+              onConfirm={handleConfirmExecution}
+              onCancel={handleCancelPreview}
+              isExecuting={isExecutingRemoval}
+            />
+          </div>
+        )}
+
+        {step === 'preview' && mode === 'clone' && clonePreviewData && (
+          <div>
+            <div className="mb-6">
+              <Button variant="outline" onClick={handleCancelPreview}>
+                ← Back to Form
+              </Button>
+            </div>
+            {clonePreviewData.failedProjects.length > 0 && (
+              <Alert variant="warning" className="mb-6">
+                <AlertTitle>Some projects could not be checked</AlertTitle>
+                <AlertDescription>
+                  Access in {clonePreviewData.failedProjects.map((p) => p.projectName).join(', ')}{' '}
+                  won&apos;t be copied because their members couldn&apos;t be read
+                </AlertDescription>
+              </Alert>
+            )}
+            {cloneOptions?.removeSource && (
+              <Alert variant="info" className="mb-6">
+                <AlertDescription>
+                  {clonePreviewData.sourceEmail} will be removed from each project once
+                  every target has the access there
+                </AlertDescription>
+              </Alert>
+            )}
+            <PreviewResults
+              results={clonePreviewData.preview}
+              summary={clonePreviewData.summary}
+              onConfirm={handleConfirmExecution}
+              onCancel={handleCancelPreview}
+              isExecuting={isExecutingClone}
+            />
+          </div>
+        )}
+
+        {step === 'preview' && mode === 'copy-members' && memberCopyPreviewData && (
+          <div>
+            <div className="mb-6">
+              <Button variant="outline" onClick={handleCancelPreview}>
+                ← Back to Form
+              </Button>
+            </div>
+            {memberCopyPreviewData.memberCount === 0 && (
+              <Alert variant="warning" className="mb-6">
+                <AlertDescription>
+                  No members of the source project match the filter
+                </AlertDescription>
+              </Alert>
+            )}
+            {memberCopy?.options.skipConflicts &&
+              !!memberCopyPreviewData.summary.conflicts && (
+                <Alert variant="info" className="mb-6">
+                  <AlertDescription>
+                    {memberCopyPreviewData.summary.conflicts} conflicting user
+                    {memberCopyPreviewData.summary.conflicts !== 1 ? 's' : ''} will be
+                    left unchanged
+                  </AlertDescription>
+                </Alert>
+              )}
+            <PreviewResults
+              results={memberCopyPreviewData.preview}
+              summary={memberCopyPreviewData.summary}
+              onConfirm={handleConfirmExecution}
+              onCancel={handleCancelPreview}
+              isExecuting={isExecutingMemberCopy}
+            />
+          </div>
+        )}
+
         {/* Step: Executing */}
         {step === 'executing' && jobExecution && (
           <div>
             <div className="mb-6 flex items-center justify-between">
               <h2 className="text-xl font-semibold">Execution in Progress</h2>
               <Button variant="outline" onClick={handleReset}>
-                New Assignment
+                {mode === 'remove' ? 'New Removal' : 'New Assignment'}
               </Button>
             </div>
             <ExecutionStatus
               execution={jobExecution}
+              isLive={isStreaming}
               onRefresh={refetchJob}
               onClose={handleReset}
+              onCancel={() => cancelJob(jobExecution.id)}
+              isCancelling={isCancelling}
+              onRetry={() => handleRetry(jobExecution.id)}
+              isRetrying={isRetrying}
+              onSelectExecution={setExecutionId}
             />
           </div>
         )}
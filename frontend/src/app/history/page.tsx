@@ -2,15 +2,33 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Eye, RefreshCw } from 'lucide-react';
+import {
+  ArrowLeft,
+  CalendarClock,
+  CornerDownRight,
+  Eye,
+  History,
+  RefreshCw,
+} from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { useJobHistory, useJobStatus } from '@/hooks/useBulkOperations';
+import {
+  useJobHistory,
+  useJobStatus,
+  useCancelJob,
+  useRetryJob,
+  useScheduledJobs,
+  useUpdateSchedule,
+} from '@/hooks/useBulkOperations';
 import Button from '@/components/ui/Button';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import Badge from '@/components/ui/Badge';
 import Spinner from '@/components/ui/Spinner';
 import ExecutionStatus from '@/components/ExecutionStatus';
-import { formatDate, getStatusColor } from '@/lib/utils';
+import ScheduledJobs from '@/components/ScheduledJobs';
+import { cn, formatDate, getStatusColor } from '@/lib/utils';
+import type { ScheduleUpdateRequest } from '@/types';
+
+type Tab = 'history' | 'scheduled';
 
 export default function HistoryPage() {
   const router = useRouter();
@@ -18,12 +36,38 @@ export default function HistoryPage() {
   const [selectedExecutionId, setSelectedExecutionId] = useState<string | null>(
     null
   );
+  const [tab, setTab] = useState<Tab>('history');
 
   const { executions, isLoading, error, refetch } = useJobHistory(50, 0);
   const { jobExecution } = useJobStatus(selectedExecutionId, {
     enabled: !!selectedExecutionId,
     refetchInterval: 0,
   });
+  const { cancel: cancelJob, isLoading: isCancelling } = useCancelJob();
+  const { retryAsync: retryJob, isLoading: isRetrying } = useRetryJob();
+  const {
+    executions: scheduledExecutions,
+    isLoading: scheduledLoading,
+    refetch: refetchScheduled,
+  } = useScheduledJobs();
+  const { updateAsync: updateSchedule, isLoading: isUpdatingSchedule } =
+    useUpdateSchedule();
+
+  const handleUpdateSchedule = async (
+    executionId: string,
+    data: ScheduleUpdateRequest
+  ) => {
+    await updateSchedule({ executionId, data });
+  };
+
+  const handleRetry = async (executionId: string) => {
+    try {
+      const response = await retryJob(executionId);
+      setSelectedExecutionId(response.executionId);
+    } catch (err) {
+      console.error('Retry failed:', err);
+    }
+  };
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -83,113 +127,183 @@ export default function HistoryPage() {
           <ExecutionStatus
             execution={jobExecution}
             onClose={() => setSelectedExecutionId(null)}
+            onCancel={() => cancelJob(jobExecution.id)}
+            isCancelling={isCancelling}
+            onRetry={() => handleRetry(jobExecution.id)}
+            isRetrying={isRetrying}
+            onSelectExecution={setSelectedExecutionId}
           />
         ) : (
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle>Recent Executions</CardTitle>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => refetch()}
-                  disabled={isLoading}
+          <div className="space-y-6">
+            <div className="inline-flex rounded-lg border p-1 bg-muted">
+              {[
+                { value: 'history' as const, label: 'History', Icon: History },
+                {
+                  value: 'scheduled' as const,
+                  label: `Scheduled (${scheduledExecutions.length})`,
+                  Icon: CalendarClock,
+                },
+              ].map(({ value, label, Icon }) => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  className={cn(
+                    'flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-colors',
+                    tab === value
+                      ? 'bg-background shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
                 >
-                  <RefreshCw
-                    className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`}
-                  />
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {error && (
-                <div className="text-center py-8 text-destructive">
-                  Failed to load history. Please try again.
-                </div>
-              )}
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
 
-              {isLoading ? (
-                <div className="text-center py-12">
-                  <Spinner size="lg" />
-                  <p className="text-muted-foreground mt-4">
-                    Loading execution history...
-                  </p>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>
+                    {tab === 'scheduled' ? 'Upcoming Jobs' : 'Recent Executions'}
+                  </CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      tab === 'scheduled' ? refetchScheduled() : refetch()
+                    }
+                    disabled={isLoading}
+                  >
+                    <RefreshCw
+                      className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`}
+                    />
+                  </Button>
                 </div>
-              ) : executions.length === 0 ? (
-                <div className="text-center py-12 text-muted-foreground">
-                  <p className="text-lg mb-2">No execution history yet</p>
-                  <p className="text-sm">
-                    Execute your first bulk assignment to see history here.
-                  </p>
-                </div>
-              ) : (
-                <div className="overflow-x-auto">
-                  <table className="w-full text-sm">
-                    <thead className="bg-muted">
-                      <tr>
-                        <th className="text-left p-3 font-medium">Status</th>
-                        <th className="text-left p-3 font-medium">Started</th>
-                        <th className="text-left p-3 font-medium">
-                          Completed
-                        </th>
-                        <th className="text-left p-3 font-medium">
-                          Total Projects
-                        </th>
-                        <th className="text-left p-3 font-medium">Success</th>
-                        <th className="text-left p-3 font-medium">Failed</th>
-                        <th className="text-left p-3 font-medium">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y">
-                      {executions.map((execution) => (
-                        <tr
-                          key={execution.id}
-                          className="hover:bg-muted/50 transition-colors"
-                        >
-                          <td className="p-3">
-                            <Badge variant={getStatusColor(execution.status)}>
-                              {execution.status.replace('_', ' ')}
-                            </Badge>
-                          </td>
-                          <td className="p-3">
-                            {execution.startedAt
-                              ? formatDate(execution.startedAt)
-                              : 'Not started'}
-                          </td>
-                          <td className="p-3">
-                            {execution.completedAt
-                              ? formatDate(execution.completedAt)
-                              : 'In progress'}
-                          </td>
-                          <td className="p-3">{execution.totalProjects}</td>
-                          <td className="p-3">
-                            <span className="text-green-600 font-medium">
-                              {execution.successCount}
-                            </span>
-                          </td>
-                          <td className="p-3">
-                            <span className="text-red-600 font-medium">
-                              {execution.failedCount}
-                            </span>
-                          </td>
-                          <td className="p-3">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleViewDetails(execution.id)}
-                            >
-                              <Eye className="h-4 w-4 mr-1" />
-                              View
-                            </Button>
-                          </td>
+              </CardHeader>
+              <CardContent>
+                {error && tab === 'history' && (
+                  <div className="text-center py-8 text-destructive">
+                    Failed to load history. Please try again.
+                  </div>
+                )}
+
+                {tab === 'scheduled' ? (
+                  <ScheduledJobs
+                    executions={scheduledExecutions}
+                    isLoading={scheduledLoading}
+                    onUpdate={handleUpdateSchedule}
+                    onCancel={cancelJob}
+                    isUpdating={isUpdatingSchedule}
+                  />
+                ) : isLoading ? (
+                  <div className="text-center py-12">
+                    <Spinner size="lg" />
+                    <p className="text-muted-foreground mt-4">
+                      Loading execution history...
+                    </p>
+                  </div>
+                ) : executions.length === 0 ? (
+                  <div className="text-center py-12 text-muted-foreground">
+                    <p className="text-lg mb-2">No execution history yet</p>
+                    <p className="text-sm">
+                      Execute your first bulk assignment to see history here.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted">
+                        <tr>
+                          <th className="text-left p-3 font-medium">Status</th>
+                          <th className="text-left p-3 font-medium">Role</th>
+                          <th className="text-left p-3 font-medium">Started</th>
+                          <th className="text-left p-3 font-medium">
+                            Completed
+                          </th>
+                          <th className="text-left p-3 font-medium">
+                            Total Projects
+                          </th>
+                          <th className="text-left p-3 font-medium">Success</th>
+                          <th className="text-left p-3 font-medium">Failed</th>
+                          <th className="text-left p-3 font-medium">Actions</th>
                         </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                      </thead>
+                      <tbody className="divide-y">
+                        {executions.map((execution) => (
+                          <tr
+                            key={execution.id}
+                            className="hover:bg-muted/50 transition-colors"
+                          >
+                            <td className="p-3">
+                              <Badge variant={getStatusColor(execution.status)}>
+                                {execution.status.replace('_', ' ')}
+                              </Badge>
+                              {execution.parentExecutionId && (
+                                <button
+                                  onClick={() =>
+                                    handleViewDetails(execution.parentExecutionId!)
+                                  }
+                                  className="flex items-center gap-1 mt-1 text-xs text-muted-foreground hover:text-primary"
+                                >
+                                  <CornerDownRight className="h-3 w-3" />
+                                  Retry of{' '}
+                                  {execution.parentExecutionId.substring(0, 8)}
+                                </button>
+                              )}
+                            </td>
+                            <td className="p-3">
+                              {execution.assignedRoles?.length ? (
+                                <>
+                                  {execution.roleMode === 'add' && '+ '}
+                                  {execution.roleMode === 'remove' && '− '}
+                                  {execution.assignedRoles
+                                    .map((role) => role.name)
+                                    .join(', ')}
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">-</span>
+                              )}
+                            </td>
+                            <td className="p-3">
+                              {execution.startedAt
+                                ? formatDate(execution.startedAt)
+                                : 'Not started'}
+                            </td>
+                            <td className="p-3">
+                              {execution.completedAt
+                                ? formatDate(execution.completedAt)
+                                : 'In progress'}
+                            </td>
+                            <td className="p-3">{execution.totalProjects}</td>
+                            <td className="p-3">
+                              <span className="text-green-600 font-medium">
+                                {execution.successCount}
+                              </span>
+                            </td>
+                            <td className="p-3">
+                              <span className="text-red-600 font-medium">
+                                {execution.failedCount}
+                              </span>
+                            </td>
+                            <td className="p-3">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleViewDetails(execution.id)}
+                              >
+                                <Eye className="h-4 w-4 mr-1" />
+                                View
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
         )}
       </main>
     </div>
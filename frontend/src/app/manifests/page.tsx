@@ -0,0 +1,476 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Plus, History, AlertTriangle } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useAccounts } from '@/hooks/useProjects';
+import { useJobStatus } from '@/hooks/useBulkOperations';
+import {
+  useManifests,
+  useManifest,
+  useManifestVersions,
+  useManifestVersion,
+  useDriftReports,
+  useSaveManifest,
+  useDeleteManifest,
+  useReconcilePlan,
+  useReconcileApply,
+} from '@/hooks/useManifests';
+import Button from '@/components/ui/Button';
+import Spinner from '@/components/ui/Spinner';
+import Badge from '@/components/ui/Badge';
+import { Alert, AlertDescription } from '@/components/ui/Alert';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import AccountSelector from '@/components/AccountSelector';
+import ManifestEditor, { ManifestDraft } from '@/components/ManifestEditor';
+import ReconcilePlanResults from '@/components/ReconcilePlanResults';
+import ExecutionStatus from '@/components/ExecutionStatus';
+import { ManifestFormat, ReconcileRequest } from '@/types';
+import { cn, formatDate } from '@/lib/utils';
+
+const EMPTY_DRAFT: ManifestDraft = {
+  name: '',
+  format: 'yaml',
+  content: '',
+  driftCheckHours: null,
+};
+
+export default function ManifestsPage() {
+  const router = useRouter();
+  const { user, isLoading: authLoading } = useAuth();
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  // null with isCreating set opens an empty editor
+  const [selectedManifestId, setSelectedManifestId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [viewVersion, setViewVersion] = useState<number | null>(null);
+  // The request the shown plan came from, reused by apply
+  const [planRequest, setPlanRequest] = useState<ReconcileRequest | null>(null);
+  const [executionId, setExecutionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { accounts, isLoading: accountsLoading } = useAccounts();
+  const { manifests, isLoading: manifestsLoading } = useManifests(selectedAccountId);
+  const { manifest, isLoading: manifestLoading } = useManifest(
+    selectedAccountId,
+    selectedManifestId
+  );
+  const { versions } = useManifestVersions(selectedAccountId, selectedManifestId);
+  const { manifestVersion, isLoading: versionLoading } = useManifestVersion(
+    selectedAccountId,
+    selectedManifestId,
+    viewVersion
+  );
+  const { reports } = useDriftReports(selectedAccountId, selectedManifestId);
+  const { saveAsync, isLoading: isSaving } = useSaveManifest();
+  const { removeAsync, isLoading: isDeleting } = useDeleteManifest();
+  const {
+    planAsync,
+    data: plan,
+    isLoading: isPlanning,
+    reset: resetPlan,
+  } = useReconcilePlan();
+  const { applyAsync, isLoading: isApplying } = useReconcileApply();
+  const { jobExecution, isStreaming, refetch: refetchJob } = useJobStatus(executionId);
+
+  // Auto-select first account when accounts load
+  useEffect(() => {
+    if (accounts.length > 0 && !selectedAccountId) {
+      setSelectedAccountId(accounts[0].id);
+    }
+  }, [accounts, selectedAccountId]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [authLoading, user, router]);
+
+  const clearResults = () => {
+    resetPlan();
+    setPlanRequest(null);
+    setExecutionId(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleAccountChange = (accountId: string) => {
+    setSelectedAccountId(accountId);
+    setSelectedManifestId(null);
+    setIsCreating(false);
+    setViewVersion(null);
+    clearResults();
+  };
+
+  const handleSelectManifest = (manifestId: string | null) => {
+    setSelectedManifestId(manifestId);
+    setIsCreating(manifestId === null);
+    setViewVersion(null);
+    clearResults();
+  };
+
+  const handleSave = async (draft: ManifestDraft) => {
+    if (!selectedAccountId) return;
+    setError(null);
+    setMessage(null);
+
+    try {
+      const saved = await saveAsync({
+        manifestId: selectedManifestId,
+        data: { ...draft, accountId: selectedAccountId },
+      });
+      setSelectedManifestId(saved.id);
+      setIsCreating(false);
+      setViewVersion(null);
+      resetPlan();
+      setPlanRequest(null);
+      setMessage(`Saved "${saved.name}" as version ${saved.currentVersion}`);
+    } catch (err) {
+      setError(formatError(err, 'Failed to save manifest'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!manifest || !selectedAccountId) return;
+    if (!confirm(`Delete "${manifest.name}" and its version history?`)) return;
+
+    try {
+      await removeAsync({ manifestId: manifest.id, accountId: selectedAccountId });
+      handleSelectManifest(null);
+      setIsCreating(false);
+    } catch (err) {
+      setError(formatError(err, 'Failed to delete manifest'));
+    }
+  };
+
+  const handlePlan = async (
+    inline: { format: ManifestFormat; content: string } | null
+  ) => {
+    if (!selectedAccountId) return;
+    setError(null);
+    setMessage(null);
+    setExecutionId(null);
+
+    const request: ReconcileRequest = inline
+      ? { accountId: selectedAccountId, ...inline }
+      : {
+          accountId: selectedAccountId,
+          manifestId: selectedManifestId!,
+          version: viewVersion ?? undefined,
+        };
+
+    try {
+      await planAsync(request);
+      setPlanRequest(request);
+    } catch (err) {
+      resetPlan();
+      setPlanRequest(null);
+      setError(formatError(err, 'Failed to plan manifest'));
+    }
+  };
+
+  const handleApply = async () => {
+    if (!planRequest) return;
+    setError(null);
+
+    try {
+      const result = await applyAsync(planRequest);
+      resetPlan();
+      setPlanRequest(null);
+      setExecutionId(result.executionId);
+    } catch (err) {
+      setError(formatError(err, 'Failed to apply manifest'));
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const editorReady =
+    isCreating ||
+    (manifest && manifest.id === selectedManifestId && (!viewVersion || manifestVersion));
+  const initialDraft: ManifestDraft = manifest && !isCreating
+    ? {
+        name: manifest.name,
+        description: manifest.description || undefined,
+        format: manifestVersion?.format ?? manifest.format,
+        content: manifestVersion?.content ?? manifest.content,
+        driftCheckHours: manifest.driftCheckHours,
+      }
+    : EMPTY_DRAFT;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                Access as Code
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Declare who should have access, then plan and apply the difference
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => router.push('/dashboard')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Account Selector */}
+      <AccountSelector
+        accounts={accounts}
+        selectedAccountId={selectedAccountId}
+        onAccountChange={handleAccountChange}
+        isLoading={accountsLoading}
+      />
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-4">
+            {/* Manifest List */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Manifests</CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSelectManifest(null)}
+                    disabled={!selectedAccountId}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    New
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {manifestsLoading ? (
+                  <div className="flex justify-center py-6">
+                    <Spinner />
+                  </div>
+                ) : manifests.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No manifests for this account yet
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {manifests.map((m) => (
+                      <button
+                        key={m.id}
+                        onClick={() => handleSelectManifest(m.id)}
+                        className={cn(
+                          'w-full text-left rounded-lg border p-3 transition-colors',
+                          m.id === selectedManifestId
+                            ? 'border-primary bg-primary/5'
+                            : 'hover:bg-muted/50'
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-sm">{m.name}</span>
+                          <Badge variant="secondary" className="text-xs">
+                            v{m.currentVersion}
+                          </Badge>
+                        </div>
+                        <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                          {m.driftDetectedAt ? (
+                            <Badge variant="warning" className="text-xs">
+                              Drift since {formatDate(m.driftDetectedAt)}
+                            </Badge>
+                          ) : m.lastCheckError ? (
+                            <Badge variant="error" className="text-xs">
+                              Check failed
+                            </Badge>
+                          ) : m.lastCheckedAt ? (
+                            <span>In sync as of {formatDate(m.lastCheckedAt)}</span>
+                          ) : (
+                            <span>
+                              {m.driftCheckHours ? 'Not checked yet' : 'Drift checks off'}
+                            </span>
+                          )}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Version History */}
+            {manifest && !isCreating && versions.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Versions
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {versions.map((v) => {
+                      const isCurrent = v.version === manifest.currentVersion;
+                      const isShown = isCurrent ? !viewVersion : viewVersion === v.version;
+                      return (
+                        <button
+                          key={v.version}
+                          onClick={() => {
+                            setViewVersion(isCurrent ? null : v.version);
+                            clearResults();
+                          }}
+                          className={cn(
+                            'w-full text-left rounded-md p-2 text-sm transition-colors',
+                            isShown ? 'bg-primary/5' : 'hover:bg-muted/50'
+                          )}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium">
+                              Version {v.version}
+                              {isCurrent && ' (current)'}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {formatDate(v.createdAt)}
+                            </span>
+                          </div>
+                          {v.comment && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {v.comment}
+                            </p>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Drift Reports */}
+            {manifest && !isCreating && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5" />
+                    Drift
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {manifest.lastCheckError && (
+                    <p className="text-xs text-red-600">
+                      Last check failed: {manifest.lastCheckError}
+                    </p>
+                  )}
+                  {reports.length === 0 ? (
+                    <p className="text-muted-foreground">
+                      {manifest.driftCheckHours
+                        ? 'No drift found by scheduled plans'
+                        : 'Turn on drift checks to plan this manifest on a schedule'}
+                    </p>
+                  ) : (
+                    reports.map((report) => (
+                      <div key={report.id} className="rounded-md border p-2">
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                          <span>{formatDate(report.checkedAt)}</span>
+                          <span>Version {report.manifestVersion}</span>
+                        </div>
+                        <p className="mt-1">
+                          {report.summary.adds} to add, {report.summary.updates}{' '}
+                          role change{report.summary.updates !== 1 ? 's' : ''},{' '}
+                          {report.summary.removals} to remove
+                        </p>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {error && (
+              <Alert variant="error" onClose={() => setError(null)}>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {message && (
+              <Alert variant="success" onClose={() => setMessage(null)}>
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            )}
+
+            {!isCreating && !selectedManifestId ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  Select a manifest or create a new one
+                </CardContent>
+              </Card>
+            ) : !editorReady || manifestLoading || versionLoading ? (
+              <div className="flex justify-center py-12">
+                <Spinner size="lg" />
+              </div>
+            ) : (
+              <ManifestEditor
+                key={
+                  isCreating
+                    ? 'new'
+                    : `${selectedManifestId}-${viewVersion ?? manifest?.currentVersion}`
+                }
+                initial={initialDraft}
+                isNew={isCreating}
+                viewingVersion={viewVersion}
+                onSave={handleSave}
+                onPlan={handlePlan}
+                onDelete={isCreating ? undefined : handleDelete}
+                isSaving={isSaving}
+                isPlanning={isPlanning}
+                isDeleting={isDeleting}
+              />
+            )}
+
+            {plan && planRequest && (
+              <ReconcilePlanResults
+                plan={plan}
+                onApply={handleApply}
+                onCancel={clearResults}
+                isApplying={isApplying}
+              />
+            )}
+
+            {jobExecution && (
+              <ExecutionStatus
+                execution={jobExecution}
+                isLive={isStreaming}
+                onRefresh={refetchJob}
+                onClose={() => setExecutionId(null)}
+                onSelectExecution={setExecutionId}
+              />
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function formatError(err: unknown, fallback: string): string {
+  const data = (err as any)?.response?.data;
+  if (!data?.error) return fallback;
+  // Manifest validation lists each problem
+  return data.details?.length
+    ? `${data.error}: ${data.details.join('; ')}`
+    : data.error;
+}
@@ -0,0 +1,409 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Plus, ClipboardCheck, Lock } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useAccounts, useProjects } from '@/hooks/useProjects';
+import { useJobStatus } from '@/hooks/useBulkOperations';
+import {
+  useReviewCampaigns,
+  useReviewCampaign,
+  useReviewItems,
+  useCreateReviewCampaign,
+  useReviewDecisions,
+  useCloseReviewCampaign,
+} from '@/hooks/useReviews';
+import Button from '@/components/ui/Button';
+import Spinner from '@/components/ui/Spinner';
+import Badge from '@/components/ui/Badge';
+import { Alert, AlertDescription } from '@/components/ui/Alert';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import AccountSelector from '@/components/AccountSelector';
+import ReviewCampaignForm, {
+  ReviewCampaignOptions,
+} from '@/components/ReviewCampaignForm';
+import ReviewItems from '@/components/ReviewItems';
+import ExecutionStatus from '@/components/ExecutionStatus';
+import { AccessReviewProgress, ReviewDecisionInput } from '@/types';
+import { cn, formatDate } from '@/lib/utils';
+
+function progressLabel(progress: AccessReviewProgress): string {
+  return `${progress.decided} of ${progress.total} reviewed`;
+}
+
+export default function ReviewsPage() {
+  const router = useRouter();
+  const { user, isLoading: authLoading } = useAuth();
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [executionId, setExecutionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { accounts, isLoading: accountsLoading } = useAccounts();
+  const { projects } = useProjects(isCreating ? selectedAccountId : null);
+  const { campaigns, isLoading: campaignsLoading } = useReviewCampaigns(selectedAccountId);
+  const { campaign, isLoading: campaignLoading } = useReviewCampaign(
+    selectedAccountId,
+    selectedCampaignId
+  );
+  const { items, isLoading: itemsLoading } = useReviewItems(
+    selectedAccountId,
+    selectedCampaignId,
+    selectedProjectId
+  );
+  const { createAsync, isLoading: isCreatingCampaign } = useCreateReviewCampaign();
+  const { decideAsync, isLoading: isDeciding } = useReviewDecisions();
+  const { closeAsync, isLoading: isClosing } = useCloseReviewCampaign();
+  const { jobExecution, isStreaming, refetch: refetchJob } = useJobStatus(executionId);
+
+  // Auto-select first account when accounts load
+  useEffect(() => {
+    if (accounts.length > 0 && !selectedAccountId) {
+      setSelectedAccountId(accounts[0].id);
+    }
+  }, [accounts, selectedAccountId]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [authLoading, user, router]);
+
+  const isMine = useCallback(
+    (reviewerEmail: string) =>
+      !!user && reviewerEmail.toLowerCase() === user.email.toLowerCase(),
+    [user]
+  );
+
+  // Open the first project the signed-in user reviews
+  useEffect(() => {
+    if (campaign && campaign.id === selectedCampaignId && !selectedProjectId) {
+      const first =
+        campaign.projects.find((p) => isMine(p.reviewerEmail)) ?? campaign.projects[0];
+      setSelectedProjectId(first?.projectId ?? null);
+    }
+  }, [campaign, selectedCampaignId, selectedProjectId, isMine]);
+
+  const selectCampaign = (campaignId: string | null) => {
+    setSelectedCampaignId(campaignId);
+    setSelectedProjectId(null);
+    setIsCreating(false);
+    setExecutionId(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleAccountChange = (accountId: string) => {
+    setSelectedAccountId(accountId);
+    selectCampaign(null);
+  };
+
+  const handleCreate = async (options: ReviewCampaignOptions) => {
+    if (!selectedAccountId) return;
+    setError(null);
+
+    try {
+      const created = await createAsync({ ...options, accountId: selectedAccountId });
+      selectCampaign(created.id);
+      if (created.failedProjects.length > 0) {
+        setError(
+          `Left out projects whose members could not be listed: ${created.failedProjects
+            .map((p) => p.projectName)
+            .join(', ')}`
+        );
+      }
+    } catch (err) {
+      setError((err as any)?.response?.data?.error || 'Failed to start review');
+    }
+  };
+
+  const handleDecide = async (decisions: ReviewDecisionInput[]) => {
+    if (!selectedCampaignId || !selectedAccountId) return;
+    setError(null);
+
+    try {
+      await decideAsync({
+        campaignId: selectedCampaignId,
+        accountId: selectedAccountId,
+        decisions,
+      });
+    } catch (err) {
+      setError((err as any)?.response?.data?.error || 'Failed to save decision');
+    }
+  };
+
+  const handleClose = async () => {
+    if (!campaign || !selectedAccountId) return;
+    const { total, decided, revoked } = campaign.progress;
+    const undecided = total - decided;
+    if (
+      !confirm(
+        `Close "${campaign.name}"? ${revoked} revoked membership${revoked !== 1 ? 's' : ''} will be removed` +
+          (undecided > 0 ? ` and ${undecided} not reviewed will be kept.` : '.')
+      )
+    ) {
+      return;
+    }
+    setError(null);
+
+    try {
+      const result = await closeAsync({ campaignId: campaign.id, accountId: selectedAccountId });
+      setExecutionId(result.executionId);
+      setMessage(
+        result.executionId
+          ? `Closed. Removing ${result.revoked} revoked membership${result.revoked !== 1 ? 's' : ''}`
+          : 'Closed. Nothing was revoked'
+      );
+    } catch (err) {
+      setError((err as any)?.response?.data?.error || 'Failed to close review');
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const selectedProject = campaign?.projects.find((p) => p.projectId === selectedProjectId);
+  const isOpen = campaign?.status === 'open';
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Access Reviews</h1>
+              <p className="text-sm text-muted-foreground">
+                Reviewers confirm who should keep project access
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => router.push('/dashboard')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Account Selector */}
+      <AccountSelector
+        accounts={accounts}
+        selectedAccountId={selectedAccountId}
+        onAccountChange={handleAccountChange}
+        isLoading={accountsLoading}
+      />
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Campaign List */}
+          <div>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Campaigns</CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      selectCampaign(null);
+                      setIsCreating(true);
+                    }}
+                    disabled={!selectedAccountId}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    New
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {campaignsLoading ? (
+                  <div className="flex justify-center py-6">
+                    <Spinner />
+                  </div>
+                ) : campaigns.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No access reviews for this account yet
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {campaigns.map((c) => (
+                      <button
+                        key={c.id}
+                        onClick={() => selectCampaign(c.id)}
+                        className={cn(
+                          'w-full text-left rounded-lg border p-3 transition-colors',
+                          c.id === selectedCampaignId
+                            ? 'border-primary bg-primary/5'
+                            : 'hover:bg-muted/50'
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-sm">{c.name}</span>
+                          <Badge
+                            variant={c.status === 'open' ? 'info' : 'secondary'}
+                            className="text-xs"
+                          >
+                            {c.status === 'open' ? 'Open' : 'Closed'}
+                          </Badge>
+                        </div>
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          {progressLabel(c.progress)}
+                          {c.dueDate && c.status === 'open' && ` · Due ${c.dueDate}`}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {error && (
+              <Alert variant="error" onClose={() => setError(null)}>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {message && (
+              <Alert variant="success" onClose={() => setMessage(null)}>
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            )}
+
+            {isCreating ? (
+              <ReviewCampaignForm
+                projects={projects}
+                defaultReviewerEmail={user.email}
+                onSubmit={handleCreate}
+                onCancel={() => setIsCreating(false)}
+                isSubmitting={isCreatingCampaign}
+              />
+            ) : !selectedCampaignId ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  Select a campaign or start a new review
+                </CardContent>
+              </Card>
+            ) : campaignLoading || !campaign ? (
+              <div className="flex justify-center py-12">
+                <Spinner size="lg" />
+              </div>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        <ClipboardCheck className="h-5 w-5" />
+                        {campaign.name}
+                      </CardTitle>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {campaign.description && `${campaign.description}. `}
+                        Started {formatDate(campaign.createdAt)}
+                        {campaign.dueDate && `, due ${campaign.dueDate}`}
+                        {campaign.closedAt && `, closed ${formatDate(campaign.closedAt)}`}
+                      </p>
+                      <p className="text-sm mt-1">
+                        {progressLabel(campaign.progress)}, {campaign.progress.revoked}{' '}
+                        to revoke
+                      </p>
+                    </div>
+                    {isOpen && (
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        onClick={handleClose}
+                        isLoading={isClosing}
+                      >
+                        <Lock className="h-4 w-4 mr-2" />
+                        Close Review
+                      </Button>
+                    )}
+                    {!isOpen && campaign.removalExecutionId && !executionId && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setExecutionId(campaign.removalExecutionId)}
+                      >
+                        View Removals
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {/* Projects */}
+                  <div className="flex flex-wrap gap-2">
+                    {campaign.projects.map((p) => (
+                      <button
+                        key={p.projectId}
+                        onClick={() => setSelectedProjectId(p.projectId)}
+                        className={cn(
+                          'rounded-md border px-3 py-2 text-left text-sm transition-colors',
+                          p.projectId === selectedProjectId
+                            ? 'border-primary bg-primary/5'
+                            : 'hover:bg-muted/50'
+                        )}
+                      >
+                        <div className="font-medium">{p.projectName || p.projectId}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {isMine(p.reviewerEmail) ? 'You' : p.reviewerEmail} ·{' '}
+                          {p.progress.decided}/{p.progress.total}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+
+                  {selectedProject &&
+                    (itemsLoading ? (
+                      <div className="flex justify-center py-6">
+                        <Spinner />
+                      </div>
+                    ) : (
+                      <>
+                        {isOpen && !isMine(selectedProject.reviewerEmail) && (
+                          <p className="text-xs text-muted-foreground">
+                            {selectedProject.reviewerEmail} reviews this project
+                          </p>
+                        )}
+                        <ReviewItems
+                          key={selectedProject.projectId}
+                          items={items}
+                          canDecide={isOpen && isMine(selectedProject.reviewerEmail)}
+                          onDecide={handleDecide}
+                          isSaving={isDeciding}
+                        />
+                      </>
+                    ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {jobExecution && (
+              <ExecutionStatus
+                execution={jobExecution}
+                isLive={isStreaming}
+                onRefresh={refetchJob}
+                onClose={() => setExecutionId(null)}
+                onSelectExecution={setExecutionId}
+              />
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 'use client';
 
-import React from 'react';
-import { Shield, ShieldCheck } from 'lucide-react';
-import { AccessLevel, AccessLevelOption } from '@/types';
+import React, { useState } from 'react';
+import { Shield, ShieldCheck, ChevronDown, ChevronRight } from 'lucide-react';
+import { AccessLevel, AccessLevelOption, ProductAccess } from '@/types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import ProductAccessEditor from './ProductAccessEditor';
 import { cn } from '@/lib/utils';
 
 // ACC Access Level options
@@ -23,12 +24,18 @@ const ACCESS_LEVELS: AccessLevelOption[] = [
 interface AccessLevelSelectorProps {
   selectedLevel: AccessLevel;
   onLevelChange: (level: AccessLevel) => void;
+  products?: ProductAccess[];
+  onProductsChange?: (products: ProductAccess[]) => void;
 }
 
 export default function AccessLevelSelector({
   selectedLevel,
   onLevelChange,
+  products = [],
+  onProductsChange,
 }: AccessLevelSelectorProps) {
+  const [showProducts, setShowProducts] = useState(products.length > 0);
+
   return (
     <Card>
       <CardHeader>
@@ -89,6 +96,41 @@ export default function AccessLevelSelector({
             );
           })}
         </div>
+
+        {onProductsChange && (
+          <div className="mt-4 pt-4 border-t">
+            <button
+              type="button"
+              onClick={() => setShowProducts(!showProducts)}
+              className="flex items-center gap-1 text-sm font-medium"
+            >
+              {showProducts ? (
+                <ChevronDown className="h-4 w-4" />
+              ) : (
+                <ChevronRight className="h-4 w-4" />
+              )}
+              Product access
+              {products.length > 0 && (
+                <span className="text-muted-foreground font-normal">
+                  ({products.length} set)
+                </span>
+              )}
+            </button>
+            {showProducts && (
+              <div className="mt-3 space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Project Administration follows the access level. Members
+                  without any product get Docs access.
+                </p>
+                <ProductAccessEditor
+                  products={products}
+                  onChange={onProductsChange}
+                  omit={['projectAdministration']}
+                />
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
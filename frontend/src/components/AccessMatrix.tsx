@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Download, Grid3x3, Search } from 'lucide-react';
+import { MemberAccessReport, MemberProjectAccess } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Badge from './ui/Badge';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Spinner from './ui/Spinner';
+import { downloadCSV } from '@/lib/utils';
+
+interface AccessMatrixProps {
+  reports: MemberAccessReport[];
+  loadingEmails?: string[];
+  errors?: { email: string; error: Error }[];
+}
+
+interface MatrixRow {
+  projectId: string;
+  projectName: string;
+  platform: string;
+  access: Record<string, MemberProjectAccess>; // Keyed by email
+}
+
+export default function AccessMatrix({
+  reports,
+  loadingEmails = [],
+  errors = [],
+}: AccessMatrixProps) {
+  const [projectQuery, setProjectQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState('');
+  const [adminsOnly, setAdminsOnly] = useState(false);
+
+  const emails = reports.map((r) => r.email);
+
+  // Only projects where at least one member has access
+  const rows = useMemo(() => {
+    const byProject = new Map<string, MatrixRow>();
+    for (const report of reports) {
+      for (const access of report.projects) {
+        const row = byProject.get(access.projectId) || {
+          projectId: access.projectId,
+          projectName: access.projectName,
+          platform: access.platform,
+          access: {},
+        };
+        row.access[report.email] = access;
+        byProject.set(access.projectId, row);
+      }
+    }
+    return [...byProject.values()].sort((a, b) =>
+      a.projectName.localeCompare(b.projectName)
+    );
+  }, [reports]);
+
+  const roleNames = useMemo(
+    () =>
+      [
+        ...new Set(
+          reports.flatMap((r) => r.projects.flatMap((p) => p.roleNames))
+        ),
+      ].sort(),
+    [reports]
+  );
+
+  const matchesFilters = (access: MemberProjectAccess | undefined) =>
+    !!access &&
+    (!roleFilter || access.roleNames.includes(roleFilter)) &&
+    (!adminsOnly || access.accessLevel === 'admin');
+
+  const filteredRows = rows.filter(
+    (row) =>
+      row.projectName.toLowerCase().includes(projectQuery.toLowerCase()) &&
+      (!roleFilter && !adminsOnly
+        ? true
+        : emails.some((email) => matchesFilters(row.access[email])))
+  );
+
+  const failedCount = reports.reduce(
+    (sum, r) => sum + r.failedProjects.length,
+    0
+  );
+
+  const handleExport = () => {
+    const csvData = filteredRows.flatMap((row) =>
+      emails
+        .filter((email) => row.access[email])
+        .map((email) => {
+          const access = row.access[email];
+          return {
+            Project: row.projectName,
+            Platform: row.platform,
+            User: email,
+            Roles: access.roleNames.join('; ') || 'N/A',
+            'Access Level': access.accessLevel,
+            Products: access.products
+              .filter((p) => p.access !== 'none')
+              .map((p) => `${p.key}:${p.access}`)
+              .join('; '),
+          };
+        })
+    );
+
+    downloadCSV(csvData, 'access-matrix.csv');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Grid3x3 className="h-5 w-5" />
+              Access Matrix
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {rows.length} project{rows.length !== 1 ? 's' : ''} across{' '}
+              {emails.length} member{emails.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={filteredRows.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Filter projects..."
+              value={projectQuery}
+              onChange={(e) => setProjectQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <select
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value)}
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <option value="">All roles</option>
+            {roleNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={adminsOnly}
+              onChange={(e) => setAdminsOnly(e.target.checked)}
+            />
+            Admins only
+          </label>
+        </div>
+
+        {loadingEmails.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Spinner size="sm" />
+            Checking every project for {loadingEmails.join(', ')}...
+          </div>
+        )}
+
+        {errors.map(({ email, error }) => (
+          <div key={email} className="text-sm text-red-600">
+            Failed to load access for {email}: {error.message}
+          </div>
+        ))}
+
+        {failedCount > 0 && (
+          <div className="text-sm text-amber-700">
+            {failedCount} project lookup{failedCount !== 1 ? 's' : ''} failed;
+            those projects are missing from the matrix.
+          </div>
+        )}
+
+        {emails.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            Select members to see their access across projects
+          </div>
+        ) : filteredRows.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No matching project access
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-auto max-h-[600px]">
+            <table className="w-full text-sm">
+              <thead className="bg-muted sticky top-0">
+                <tr>
+                  <th className="text-left p-3 font-medium">Project</th>
+                  {emails.map((email) => (
+                    <th key={email} className="text-left p-3 font-medium">
+                      {email}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {filteredRows.map((row) => (
+                  <tr
+                    key={row.projectId}
+                    className="hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="p-3">
+                      <div className="font-medium">{row.projectName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {row.platform}
+                      </div>
+                    </td>
+                    {emails.map((email) => {
+                      const access = row.access[email];
+                      const dimmed =
+                        (roleFilter || adminsOnly) && !matchesFilters(access);
+
+                      return (
+                        <td
+                          key={email}
+                          className={dimmed ? 'p-3 opacity-40' : 'p-3'}
+                        >
+                          {access ? (
+                            <div className="flex flex-wrap gap-1">
+                              {access.accessLevel === 'admin' && (
+                                <Badge variant="warning" className="text-xs">
+                                  Admin
+                                </Badge>
+                              )}
+                              {access.roleNames.map((name) => (
+                                <Badge
+                                  key={name}
+                                  variant="info"
+                                  className="text-xs"
+                                >
+                                  {name}
+                                </Badge>
+                              ))}
+                              {access.roleNames.length === 0 &&
+                                access.accessLevel !== 'admin' && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    Member
+                                  </Badge>
+                                )}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Copy, CheckSquare, Square } from 'lucide-react';
+import { AccountMember, CloneAccessRequest } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Input from './ui/Input';
+import Textarea from './ui/Textarea';
+import Button from './ui/Button';
+
+export type CloneOptions = Omit<CloneAccessRequest, 'accountId'>;
+
+interface CloneAccessProps {
+  members: AccountMember[];
+  onPreview: (options: CloneOptions) => void;
+  isPreviewing?: boolean;
+}
+
+export default function CloneAccess({
+  members,
+  onPreview,
+  isPreviewing = false,
+}: CloneAccessProps) {
+  const [sourceEmail, setSourceEmail] = useState('');
+  const [targetEmails, setTargetEmails] = useState('');
+  const [removeSource, setRemoveSource] = useState(false);
+  const [inviteToAccount, setInviteToAccount] = useState(false);
+  const [allowDefaultCompany, setAllowDefaultCompany] = useState(false);
+
+  const targets = targetEmails
+    .split(/[,\n]/)
+    .map((e) => e.trim())
+    .filter((e) => e.length > 0 && e.includes('@'));
+
+  const handlePreview = () => {
+    onPreview({
+      sourceEmail: sourceEmail.trim(),
+      targetEmails: targets,
+      removeSource,
+      inviteToAccount,
+      allowDefaultCompany,
+    });
+  };
+
+  const options = [
+    {
+      checked: removeSource,
+      toggle: () => setRemoveSource(!removeSource),
+      label: 'Hand over: remove the source from projects once every target has the access',
+    },
+    {
+      checked: inviteToAccount,
+      toggle: () => setInviteToAccount(!inviteToAccount),
+      label: "Invite targets that aren't account members",
+    },
+    {
+      checked: allowDefaultCompany,
+      toggle: () => setAllowDefaultCompany(!allowDefaultCompany),
+      label: "Use the account's default company for targets without one",
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          Copy Access
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Give other people the same roles and products as an existing member,
+          in every project that member belongs to
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <label htmlFor="clone-source" className="text-sm font-medium">
+            Copy access from
+          </label>
+          <Input
+            id="clone-source"
+            list="clone-source-members"
+            placeholder="member@company.com"
+            value={sourceEmail}
+            onChange={(e) => setSourceEmail(e.target.value)}
+          />
+          <datalist id="clone-source-members">
+            {members.map((m) => (
+              <option key={m.id} value={m.email}>
+                {m.name}
+              </option>
+            ))}
+          </datalist>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="clone-targets" className="text-sm font-medium">
+            Copy access to
+          </label>
+          <Textarea
+            id="clone-targets"
+            placeholder="One email per line, or separated by commas"
+            value={targetEmails}
+            onChange={(e) => setTargetEmails(e.target.value)}
+          />
+          {targets.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {targets.length} email{targets.length !== 1 ? 's' : ''}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 pt-4 border-t">
+          <div className="space-y-2">
+            {options.map(({ checked, toggle, label }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={toggle}
+                className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors"
+              >
+                {checked ? (
+                  <CheckSquare className="h-5 w-5 text-primary" />
+                ) : (
+                  <Square className="h-5 w-5 text-muted-foreground" />
+                )}
+                {label}
+              </button>
+            ))}
+          </div>
+          <Button
+            variant="primary"
+            onClick={handlePreview}
+            isLoading={isPreviewing}
+            disabled={!sourceEmail.trim() || targets.length === 0}
+          >
+            Preview
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
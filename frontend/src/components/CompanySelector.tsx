@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import { Building2, CheckSquare, Square } from 'lucide-react';
+import { Company } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Spinner from './ui/Spinner';
+
+interface CompanySelectorProps {
+  emails: string[];
+  companies: Company[];
+  selectedCompanies: Record<string, string>; // Email -> company ID
+  onSelectedCompaniesChange: (companies: Record<string, string>) => void;
+  allowDefaultCompany: boolean;
+  onAllowDefaultCompanyChange: (allow: boolean) => void;
+  isLoading?: boolean;
+}
+
+export default function CompanySelector({
+  emails,
+  companies,
+  selectedCompanies,
+  onSelectedCompaniesChange,
+  allowDefaultCompany,
+  onAllowDefaultCompanyChange,
+  isLoading = false,
+}: CompanySelectorProps) {
+  const handleChange = (email: string, companyId: string) => {
+    const next = { ...selectedCompanies };
+    if (companyId) {
+      next[email] = companyId;
+    } else {
+      delete next[email];
+    }
+    onSelectedCompaniesChange(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Companies
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Members keep their account company and other emails are matched by
+          domain. Choose a company to override either.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spinner />
+          </div>
+        ) : (
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {emails.map((email) => (
+              <div key={email} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0 text-sm truncate">{email}</div>
+                <select
+                  value={selectedCompanies[email] || ''}
+                  onChange={(e) => handleChange(email, e.target.value)}
+                  className="h-8 w-48 rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  <option value="">Automatic</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => onAllowDefaultCompanyChange(!allowDefaultCompany)}
+          className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors"
+        >
+          {allowDefaultCompany ? (
+            <CheckSquare className="h-5 w-5 text-primary" />
+          ) : (
+            <Square className="h-5 w-5 text-muted-foreground" />
+          )}
+          Use the account&apos;s default company when none is found
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
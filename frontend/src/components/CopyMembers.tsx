@@ -0,0 +1,217 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Users, Search, CheckSquare, Square } from 'lucide-react';
+import { Company, MemberCopyRequest, Project, Role } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Input from './ui/Input';
+import Button from './ui/Button';
+import { cn } from '@/lib/utils';
+
+export type MemberCopyOptions = Omit<MemberCopyRequest, 'accountId'>;
+
+interface CopyMembersProps {
+  projects: Project[];
+  roles: Role[];
+  companies: Company[];
+  onPreview: (sourceProjectId: string, options: MemberCopyOptions) => void;
+  isPreviewing?: boolean;
+}
+
+// Toggle an ID in a selection list
+function toggle(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+}
+
+export default function CopyMembers({
+  projects,
+  roles,
+  companies,
+  onPreview,
+  isPreviewing = false,
+}: CopyMembersProps) {
+  const [sourceProjectId, setSourceProjectId] = useState('');
+  const [targetProjectIds, setTargetProjectIds] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [roleIds, setRoleIds] = useState<string[]>([]);
+  const [companyIds, setCompanyIds] = useState<string[]>([]);
+  const [skipConflicts, setSkipConflicts] = useState(false);
+  const [allowDefaultCompany, setAllowDefaultCompany] = useState(false);
+
+  const targetProjects = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return projects.filter(
+      (p) => p.id !== sourceProjectId && p.name.toLowerCase().includes(query)
+    );
+  }, [projects, sourceProjectId, searchQuery]);
+
+  const handleSourceChange = (projectId: string) => {
+    setSourceProjectId(projectId);
+    setTargetProjectIds(targetProjectIds.filter((id) => id !== projectId));
+  };
+
+  const handlePreview = () => {
+    onPreview(sourceProjectId, {
+      targetProjectIds,
+      filter: { roleIds, companyIds },
+      skipConflicts,
+      allowDefaultCompany,
+    });
+  };
+
+  const chipClass = (selected: boolean) =>
+    cn(
+      'px-3 py-1 rounded-md text-sm font-medium transition-colors',
+      selected
+        ? 'bg-primary text-primary-foreground'
+        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Copy Project Members
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Give new projects the same team as an existing one. Each member keeps
+          their roles and products from the source project
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <label htmlFor="copy-source" className="text-sm font-medium">
+            Copy members from
+          </label>
+          <select
+            id="copy-source"
+            value={sourceProjectId}
+            onChange={(e) => handleSourceChange(e.target.value)}
+            className="w-full bg-white border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            <option value="">Select a project</option>
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">
+            Copy members to
+            {targetProjectIds.length > 0 && (
+              <span className="text-muted-foreground font-normal">
+                {' '}
+                ({targetProjectIds.length} selected)
+              </span>
+            )}
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search projects..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <div className="border rounded-lg max-h-64 overflow-y-auto divide-y">
+            {targetProjects.map((p) => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => setTargetProjectIds(toggle(targetProjectIds, p.id))}
+                className="w-full flex items-center gap-2 p-2 text-sm text-left hover:bg-muted/50 transition-colors"
+              >
+                {targetProjectIds.includes(p.id) ? (
+                  <CheckSquare className="h-4 w-4 text-primary" />
+                ) : (
+                  <Square className="h-4 w-4 text-muted-foreground" />
+                )}
+                {p.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">
+            Only members with these roles{' '}
+            <span className="text-muted-foreground font-normal">(optional)</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {roles.map((r) => (
+              <button
+                key={r.id}
+                type="button"
+                onClick={() => setRoleIds(toggle(roleIds, r.id))}
+                className={chipClass(roleIds.includes(r.id))}
+              >
+                {r.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">
+            Only members of these companies{' '}
+            <span className="text-muted-foreground font-normal">(optional)</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {companies.map((c) => (
+              <button
+                key={c.id}
+                type="button"
+                onClick={() => setCompanyIds(toggle(companyIds, c.id))}
+                className={chipClass(companyIds.includes(c.id))}
+              >
+                {c.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 pt-4 border-t">
+          <div className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setSkipConflicts(!skipConflicts)}
+              className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors"
+            >
+              {skipConflicts ? (
+                <CheckSquare className="h-5 w-5 text-primary" />
+              ) : (
+                <Square className="h-5 w-5 text-muted-foreground" />
+              )}
+              Leave users who already have other roles in a target unchanged
+            </button>
+            <button
+              type="button"
+              onClick={() => setAllowDefaultCompany(!allowDefaultCompany)}
+              className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors"
+            >
+              {allowDefaultCompany ? (
+                <CheckSquare className="h-5 w-5 text-primary" />
+              ) : (
+                <Square className="h-5 w-5 text-muted-foreground" />
+              )}
+              Use the account&apos;s default company for members without one
+            </button>
+          </div>
+          <Button
+            variant="primary"
+            onClick={handlePreview}
+            isLoading={isPreviewing}
+            disabled={!sourceProjectId || targetProjectIds.length === 0}
+          >
+            Preview
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Clock,
   CheckCircle,
@@ -8,12 +8,19 @@ import {
   AlertTriangle,
   Download,
   RefreshCw,
+  Ban,
+  RotateCcw,
+  Search,
 } from 'lucide-react';
-import { JobExecution, JobResult } from '@/types';
+import { JobExecution, JobResultFilters, ResultStatus, RoleRef } from '@/types';
+import apiClient from '@/lib/api-client';
+import { useJobResults } from '@/hooks/useBulkOperations';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import Progress from './ui/Progress';
 import Badge from './ui/Badge';
 import Button from './ui/Button';
+import Input from './ui/Input';
+import Spinner from './ui/Spinner';
 import {
   formatDate,
   formatDuration,
@@ -21,20 +28,128 @@ import {
   downloadCSV,
 } from '@/lib/utils';
 
+const roleNames = (roles: RoleRef[] | null) =>
+  roles && roles.length > 0 ? roles.map((r) => r.name).join(', ') : 'none';
+
+const sameRoles = (a: RoleRef[], b: RoleRef[]) =>
+  a.length === b.length && a.every((r) => b.some((o) => o.id === r.id));
+
+// Multi-step actions are comma-separated, e.g. "invited,added"
+const actionSteps = (action: string) => action.split(',');
+
+const actionVariant = (action: string) => {
+  const last = actionSteps(action).pop();
+  if (last === 'added') return 'success';
+  if (last === 'updated') return 'warning';
+  if (last === 'removed' || last === 'cancelled') return 'error';
+  return 'secondary';
+};
+
+const actionLabel = (action: string) =>
+  actionSteps(action)
+    .map((step) => step.replace(/_/g, ' '))
+    .join(' + ');
+
 interface ExecutionStatusProps {
   execution: JobExecution;
+  isLive?: boolean; // Updates arrive over the status stream
   onRefresh?: () => void;
   onClose?: () => void;
+  onCancel?: () => void;
+  isCancelling?: boolean;
+  onRetry?: () => void;
+  isRetrying?: boolean;
+  onSelectExecution?: (executionId: string) => void;
 }
 
+// Matches the backend retry limit
+const MAX_RETRIES = 3;
+
+const STATUS_TABS: Array<{ value: ResultStatus | 'all'; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'success', label: 'Success' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'skipped', label: 'Skipped' },
+];
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
 export default function ExecutionStatus({
   execution,
+  isLive = false,
   onRefresh,
   onClose,
+  onCancel,
+  isCancelling = false,
+  onRetry,
+  isRetrying = false,
+  onSelectExecution,
 }: ExecutionStatusProps) {
-  const [filterStatus, setFilterStatus] = useState<
-    'all' | 'success' | 'failed' | 'skipped'
-  >('all');
+  const [filterStatus, setFilterStatus] = useState<ResultStatus | 'all'>('all');
+  const [errorCode, setErrorCode] = useState('');
+  const [searchInput, setSearchInput] = useState({ email: '', project: '' });
+  const [search, setSearch] = useState(searchInput);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const filters = useMemo<JobResultFilters>(
+    () => ({
+      status: filterStatus === 'all' ? undefined : filterStatus,
+      email: search.email.trim() || undefined,
+      project: search.project.trim() || undefined,
+      errorCode: errorCode || undefined,
+    }),
+    [filterStatus, search, errorCode]
+  );
+
+  const {
+    results,
+    isLoading: resultsLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch: refetchResults,
+  } = useJobResults(execution.id, filters);
+
+  // Streamed results arrive on their own; polled status only has counts, so
+  // the loaded pages are re-read when more tasks finish
+  const completedCount = useRef(execution.progress.completed);
+  useEffect(() => {
+    if (completedCount.current === execution.progress.completed) return;
+    completedCount.current = execution.progress.completed;
+    if (!isLive) {
+      refetchResults();
+    }
+  }, [execution.progress.completed, isLive, refetchResults]);
+
+  // Load the next page when the end of the table scrolls into view
+  const scrollRoot = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { root: scrollRoot.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const totalResults = Object.values(execution.resultCounts).reduce(
+    (sum, count) => sum + count,
+    0
+  );
 
   const isComplete =
     execution.status === 'completed' ||
@@ -42,18 +157,30 @@ export default function ExecutionStatus({
     execution.status === 'partial_success' ||
     execution.status === 'cancelled';
 
-  const filteredResults = execution.results.filter((result) => {
-    if (filterStatus === 'all') return true;
-    return result.status === filterStatus;
-  });
+  const canRetry =
+    isComplete &&
+    execution.progress.failed > 0 &&
+    execution.retryCount < MAX_RETRIES;
+
+  const handleDownloadResults = async () => {
+    setIsExporting(true);
+    let allResults;
+    try {
+      allResults = await apiClient.getAllJobResults(execution.id);
+    } finally {
+      setIsExporting(false);
+    }
 
-  const handleDownloadResults = () => {
-    const csvData = execution.results.map((r) => ({
+    const csvData = allResults.map((r) => ({
       Project: r.projectName || r.projectId,
       User: r.userEmail,
       Status: r.status,
-      'Previous Role': r.previousRole || 'N/A',
-      'Assigned Role': r.assignedRole || 'N/A',
+      'Previous Roles':
+        r.previousRoles?.map((role) => role.name).join('; ') || 'N/A',
+      'Resulting Roles':
+        r.resultingRoles?.map((role) => role.name).join('; ') || 'N/A',
+      'Previous Access Level': r.previousAccessLevel || 'N/A',
+      'Access Level': r.accessLevel || 'N/A',
       Action: r.actionTaken || 'N/A',
       Error: r.errorMessage || 'N/A',
       'Completed At': r.completedAt
@@ -84,9 +211,21 @@ export default function ExecutionStatus({
     if (execution.status === 'completed') return 'success';
     if (execution.status === 'failed') return 'error';
     if (execution.status === 'partial_success') return 'warning';
+    if (execution.status === 'cancelled') return 'warning';
     return 'default';
   };
 
+  const handleCancel = () => {
+    if (
+      onCancel &&
+      confirm(
+        'Cancel this job? Operations already applied stay in place; the rest will be skipped.'
+      )
+    ) {
+      onCancel();
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -97,6 +236,17 @@ export default function ExecutionStatus({
               <Badge variant={getStatusColor(execution.status)}>
                 {execution.status.replace('_', ' ').toUpperCase()}
               </Badge>
+              {execution.jobType === 'bulk_user_removal' && (
+                <Badge variant="error">REMOVAL</Badge>
+              )}
+              {(execution.jobType === 'bulk_user_clone' ||
+                execution.jobType === 'bulk_member_copy') && (
+                <Badge variant="info">COPY</Badge>
+              )}
+              {execution.jobType === 'bulk_access_reconcile' && (
+                <Badge variant="info">RECONCILE</Badge>
+              )}
+              {isLive && !isComplete && <Badge variant="info">LIVE</Badge>}
             </CardTitle>
             <p className="text-sm text-muted-foreground mt-1">
               ID: {execution.id.substring(0, 8)}...
@@ -108,11 +258,35 @@ export default function ExecutionStatus({
                 <RefreshCw className="h-4 w-4" />
               </Button>
             )}
+            {onCancel && !isComplete && (
+              <Button
+                variant="danger"
+                size="sm"
+                onClick={handleCancel}
+                isLoading={isCancelling}
+                disabled={execution.cancelRequested}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                {execution.cancelRequested ? 'Cancelling...' : 'Cancel'}
+              </Button>
+            )}
+            {onRetry && canRetry && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onRetry}
+                isLoading={isRetrying}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry Failed ({execution.progress.failed})
+              </Button>
+            )}
             {isComplete && (
               <Button
                 variant="outline"
                 size="sm"
                 onClick={handleDownloadResults}
+                isLoading={isExporting}
               >
                 <Download className="h-4 w-4 mr-2" />
                 Export
@@ -168,6 +342,63 @@ export default function ExecutionStatus({
 
         {/* Timing Info */}
         <div className="space-y-2 text-sm">
+          {execution.sourceEmail && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {execution.removeSource ? 'Handing over from:' : 'Copying access from:'}
+              </span>
+              <span>{execution.sourceEmail}</span>
+            </div>
+          )}
+          {execution.jobType === 'bulk_access_reconcile' && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Manifest:</span>
+              <span>
+                {execution.manifestVersion
+                  ? `Version ${execution.manifestVersion}`
+                  : 'Not saved'}
+              </span>
+            </div>
+          )}
+          {execution.reviewCampaignId && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Removes:</span>
+              <span>Memberships revoked in an access review</span>
+            </div>
+          )}
+          {execution.handoverExecutionId && (
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Source removal:</span>
+              <ExecutionLink
+                id={execution.handoverExecutionId}
+                onSelect={onSelectExecution}
+              />
+            </div>
+          )}
+          {execution.assignedRoles && execution.assignedRoles.length > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {execution.roleMode === 'add'
+                  ? 'Adding roles:'
+                  : execution.roleMode === 'remove'
+                    ? 'Removing roles:'
+                    : 'Roles:'}
+              </span>
+              <span>{roleNames(execution.assignedRoles)}</span>
+            </div>
+          )}
+          {execution.scheduledFor && !execution.startedAt && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Scheduled for:</span>
+              <span>{formatDate(execution.scheduledFor)}</span>
+            </div>
+          )}
+          {execution.expiresAt && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Access expires:</span>
+              <span>{formatDate(execution.expiresAt)}</span>
+            </div>
+          )}
           {execution.startedAt && (
             <div className="flex justify-between">
               <span className="text-muted-foreground">Started:</span>
@@ -188,54 +419,103 @@ export default function ExecutionStatus({
           )}
         </div>
 
+        {/* Retry Chain */}
+        {(execution.parentExecutionId || execution.retries.length > 0) && (
+          <div className="space-y-2 pt-4 border-t text-sm">
+            <div className="font-medium">Retry chain</div>
+            {execution.parentExecutionId && (
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Retry of:</span>
+                <ExecutionLink
+                  id={execution.parentExecutionId}
+                  onSelect={onSelectExecution}
+                />
+              </div>
+            )}
+            {execution.retries.map((retry) => (
+              <div key={retry.id} className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <ExecutionLink id={retry.id} onSelect={onSelectExecution} />
+                  <Badge variant={getStatusColor(retry.status)}>
+                    {retry.status.replace('_', ' ')}
+                  </Badge>
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {retry.successCount} succeeded, {retry.failedCount} failed ·{' '}
+                  {formatDate(retry.createdAt)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Filters */}
-        {execution.results.length > 0 && (
+        {totalResults > 0 && (
           <>
-            <div className="flex items-center gap-2 pt-4 border-t">
-              <span className="text-sm text-muted-foreground">Filter:</span>
-              <div className="flex gap-2 flex-wrap">
-                {[
-                  { value: 'all', label: 'All' },
-                  {
-                    value: 'success',
-                    label: `Success (${
-                      execution.results.filter((r) => r.status === 'success')
-                        .length
-                    })`,
-                  },
-                  {
-                    value: 'failed',
-                    label: `Failed (${
-                      execution.results.filter((r) => r.status === 'failed')
-                        .length
-                    })`,
-                  },
-                  {
-                    value: 'skipped',
-                    label: `Skipped (${
-                      execution.results.filter((r) => r.status === 'skipped')
-                        .length
-                    })`,
-                  },
-                ].map((filter) => (
-                  <button
-                    key={filter.value}
-                    onClick={() => setFilterStatus(filter.value as any)}
-                    className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
-                      filterStatus === filter.value
-                        ? 'bg-primary text-primary-foreground'
-                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
-                    }`}
+            <div className="space-y-3 pt-4 border-t">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Filter:</span>
+                <div className="flex gap-2 flex-wrap">
+                  {STATUS_TABS.map((tab) => (
+                    <button
+                      key={tab.value}
+                      onClick={() => setFilterStatus(tab.value)}
+                      className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                        filterStatus === tab.value
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                      }`}
+                    >
+                      {`${tab.label} (${
+                        tab.value === 'all' ? totalResults : execution.resultCounts[tab.value]
+                      })`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="relative flex-1 min-w-[180px]">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Filter emails..."
+                    value={searchInput.email}
+                    onChange={(e) =>
+                      setSearchInput({ ...searchInput, email: e.target.value })
+                    }
+                    className="pl-9"
+                  />
+                </div>
+                <div className="relative flex-1 min-w-[180px]">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Filter projects..."
+                    value={searchInput.project}
+                    onChange={(e) =>
+                      setSearchInput({ ...searchInput, project: e.target.value })
+                    }
+                    className="pl-9"
+                  />
+                </div>
+                {execution.errorCodes.length > 0 && (
+                  <select
+                    value={errorCode}
+                    onChange={(e) => setErrorCode(e.target.value)}
+                    className="h-10 rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
                   >
-                    {filter.label}
-                  </button>
-                ))}
+                    <option value="">All error codes</option>
+                    {execution.errorCodes.map(({ code, count }) => (
+                      <option key={code} value={code}>
+                        {code} ({count})
+                      </option>
+                    ))}
+                  </select>
+                )}
               </div>
             </div>
 
             {/* Results Table */}
             <div className="border rounded-lg overflow-hidden">
-              <div className="max-h-96 overflow-y-auto">
+              <div ref={scrollRoot} className="max-h-96 overflow-y-auto">
                 <table className="w-full text-sm">
                   <thead className="bg-muted sticky top-0">
                     <tr>
@@ -247,7 +527,7 @@ export default function ExecutionStatus({
                     </tr>
                   </thead>
                   <tbody className="divide-y">
-                    {filteredResults.map((result) => (
+                    {results.map((result) => (
                       <tr
                         key={result.id}
                         className="hover:bg-muted/50 transition-colors"
@@ -263,16 +543,10 @@ export default function ExecutionStatus({
                         <td className="p-3">
                           {result.actionTaken ? (
                             <Badge
-                              variant={
-                                result.actionTaken === 'added'
-                                  ? 'success'
-                                  : result.actionTaken === 'updated'
-                                  ? 'warning'
-                                  : 'secondary'
-                              }
+                              variant={actionVariant(result.actionTaken)}
                               className="text-xs"
                             >
-                              {result.actionTaken}
+                              {actionLabel(result.actionTaken)}
                             </Badge>
                           ) : (
                             <span className="text-muted-foreground">-</span>
@@ -283,9 +557,30 @@ export default function ExecutionStatus({
                             <span className="text-xs text-red-600">
                               {result.errorMessage}
                             </span>
-                          ) : result.assignedRole ? (
+                          ) : result.resultingRoles &&
+                            execution.jobType !== 'bulk_user_removal' ? (
+                            <div className="text-xs text-muted-foreground">
+                              <div>
+                                Roles:{' '}
+                                {result.previousRoles &&
+                                !sameRoles(result.previousRoles, result.resultingRoles)
+                                  ? `${roleNames(result.previousRoles)} → ${roleNames(result.resultingRoles)}`
+                                  : roleNames(result.resultingRoles)}
+                              </div>
+                              {result.accessLevel && (
+                                <div className="capitalize">
+                                  Access:{' '}
+                                  {result.previousAccessLevel &&
+                                  result.previousAccessLevel !== result.accessLevel
+                                    ? `${result.previousAccessLevel} → ${result.accessLevel}`
+                                    : result.accessLevel}
+                                </div>
+                              )}
+                            </div>
+                          ) : result.previousRoles &&
+                            result.previousRoles.length > 0 ? (
                             <span className="text-xs text-muted-foreground">
-                              Role: {result.assignedRole}
+                              Previous roles: {roleNames(result.previousRoles)}
                             </span>
                           ) : (
                             <span className="text-muted-foreground">-</span>
@@ -295,6 +590,17 @@ export default function ExecutionStatus({
                     ))}
                   </tbody>
                 </table>
+                {!resultsLoading && results.length === 0 && (
+                  <p className="p-6 text-center text-sm text-muted-foreground">
+                    No results match these filters
+                  </p>
+                )}
+                <div ref={loadMoreRef} />
+                {(resultsLoading || isFetchingNextPage) && (
+                  <div className="flex justify-center p-3">
+                    <Spinner size="sm" />
+                  </div>
+                )}
               </div>
             </div>
           </>
@@ -310,3 +616,26 @@ export default function ExecutionStatus({
     </Card>
   );
 }
+
+function ExecutionLink({
+  id,
+  onSelect,
+}: {
+  id: string;
+  onSelect?: (executionId: string) => void;
+}) {
+  const label = `${id.substring(0, 8)}...`;
+
+  if (!onSelect) {
+    return <span className="font-mono text-xs">{label}</span>;
+  }
+
+  return (
+    <button
+      onClick={() => onSelect(id)}
+      className="font-mono text-xs text-primary hover:underline"
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { UserPlus, CheckSquare, Square } from 'lucide-react';
+import { AccountInvitation } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Input from './ui/Input';
+
+interface InviteSelectorProps {
+  emails: string[]; // Selected emails that aren't account members
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  invitations: Record<string, AccountInvitation>; // Keyed by email
+  onInvitationsChange: (invitations: Record<string, AccountInvitation>) => void;
+}
+
+type InvitationField = 'firstName' | 'lastName' | 'jobTitle';
+
+const FIELDS: { key: InvitationField; placeholder: string }[] = [
+  { key: 'firstName', placeholder: 'First name' },
+  { key: 'lastName', placeholder: 'Last name' },
+  { key: 'jobTitle', placeholder: 'Job title' },
+];
+
+export default function InviteSelector({
+  emails,
+  enabled,
+  onEnabledChange,
+  invitations,
+  onInvitationsChange,
+}: InviteSelectorProps) {
+  const updateField = (email: string, field: InvitationField, value: string) => {
+    onInvitationsChange({
+      ...invitations,
+      [email]: { ...invitations[email], email, [field]: value },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          Account Invitations
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          {emails.length} email{emails.length !== 1 ? 's are' : ' is'} not a
+          member of this account
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <button
+          type="button"
+          onClick={() => onEnabledChange(!enabled)}
+          className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors"
+        >
+          {enabled ? (
+            <CheckSquare className="h-5 w-5 text-primary" />
+          ) : (
+            <Square className="h-5 w-5 text-muted-foreground" />
+          )}
+          Invite them to the account before assigning
+        </button>
+
+        {enabled && (
+          <div className="space-y-3">
+            {emails.map((email) => (
+              <div key={email} className="space-y-1">
+                <div className="text-sm font-medium truncate">{email}</div>
+                <div className="grid grid-cols-3 gap-2">
+                  {FIELDS.map(({ key, placeholder }) => (
+                    <Input
+                      key={key}
+                      placeholder={placeholder}
+                      value={invitations[email]?.[key] ?? ''}
+                      onChange={(e) => updateField(email, key, e.target.value)}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Invited users join the company shown under Companies. Details
+              are optional.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FileCode, Save, GitCompare, Trash2 } from 'lucide-react';
+import { AccessManifestRequest, ManifestFormat } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Input from './ui/Input';
+import Textarea from './ui/Textarea';
+import Button from './ui/Button';
+import { cn } from '@/lib/utils';
+
+export type ManifestDraft = Omit<AccessManifestRequest, 'accountId'>;
+
+interface ManifestEditorProps {
+  initial: ManifestDraft;
+  isNew: boolean;
+  viewingVersion?: number | null; // Set when an older version is loaded
+  onSave: (draft: ManifestDraft) => void;
+  // Inline content when the editor holds unsaved changes, otherwise null
+  onPlan: (inline: { format: ManifestFormat; content: string } | null) => void;
+  onDelete?: () => void;
+  isSaving?: boolean;
+  isPlanning?: boolean;
+  isDeleting?: boolean;
+}
+
+const DRIFT_CHECK_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Off' },
+  { value: 6, label: 'Every 6 hours' },
+  { value: 24, label: 'Daily' },
+  { value: 168, label: 'Weekly' },
+];
+
+export const MANIFEST_EXAMPLE = `# Members not listed are removed unless prune is false
+prune: true
+access:
+  - projects: ["Tower A", "Tower B"]
+    members:
+      - email: pm@example.com
+        roles: [Project Manager]
+        accessLevel: admin
+      - email: engineer@example.com
+        roles: [Engineer]
+        company: Acme Engineering
+`;
+
+export default function ManifestEditor({
+  initial,
+  isNew,
+  viewingVersion = null,
+  onSave,
+  onPlan,
+  onDelete,
+  isSaving = false,
+  isPlanning = false,
+  isDeleting = false,
+}: ManifestEditorProps) {
+  const [name, setName] = useState(initial.name);
+  const [description, setDescription] = useState(initial.description || '');
+  const [format, setFormat] = useState<ManifestFormat>(initial.format);
+  const [content, setContent] = useState(initial.content);
+  const [comment, setComment] = useState('');
+  const [driftCheckHours, setDriftCheckHours] = useState<number | null>(
+    initial.driftCheckHours ?? null
+  );
+
+  const contentChanged =
+    content !== initial.content || format !== initial.format;
+  // Plans run against the stored version unless the body was edited
+  const planInline = isNew || contentChanged;
+
+  const handleSave = () => {
+    onSave({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      format,
+      content,
+      comment: comment.trim() || undefined,
+      driftCheckHours,
+    });
+  };
+
+  const chipClass = (selected: boolean) =>
+    cn(
+      'px-3 py-1 rounded-md text-sm font-medium transition-colors',
+      selected
+        ? 'bg-primary text-primary-foreground'
+        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode className="h-5 w-5" />
+          {isNew ? 'New Manifest' : 'Manifest'}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          {viewingVersion
+            ? `Showing version ${viewingVersion}. Saving it makes it the current version again`
+            : 'List the members and roles each project should have'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="manifest-name" className="text-sm font-medium">
+              Name
+            </label>
+            <Input
+              id="manifest-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Downtown Towers"
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="manifest-description" className="text-sm font-medium">
+              Description
+            </label>
+            <Input
+              id="manifest-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex gap-2">
+            {(['yaml', 'json'] as ManifestFormat[]).map((f) => (
+              <button
+                key={f}
+                type="button"
+                onClick={() => setFormat(f)}
+                className={chipClass(format === f)}
+              >
+                {f.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          {isNew && !content && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFormat('yaml');
+                setContent(MANIFEST_EXAMPLE);
+              }}
+            >
+              Insert example
+            </Button>
+          )}
+        </div>
+
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={18}
+          spellCheck={false}
+          className="font-mono text-xs"
+          aria-label="Manifest content"
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="manifest-comment" className="text-sm font-medium">
+              Version comment
+            </label>
+            <Input
+              id="manifest-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="What changed"
+              disabled={!isNew && !contentChanged}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="manifest-drift" className="text-sm font-medium">
+              Check for drift
+            </label>
+            <select
+              id="manifest-drift"
+              value={driftCheckHours ?? ''}
+              onChange={(e) =>
+                setDriftCheckHours(e.target.value ? Number(e.target.value) : null)
+              }
+              className="w-full bg-white border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+            >
+              {DRIFT_CHECK_OPTIONS.map((option) => (
+                <option key={option.label} value={option.value ?? ''}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-between gap-3 pt-4 border-t">
+          <div>
+            {onDelete && (
+              <Button
+                variant="ghost"
+                onClick={onDelete}
+                isLoading={isDeleting}
+                disabled={isSaving}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={() => onPlan(planInline ? { format, content } : null)}
+              isLoading={isPlanning}
+              disabled={!content.trim()}
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              Plan{planInline && !isNew ? ' Unsaved Changes' : ''}
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleSave}
+              isLoading={isSaving}
+              disabled={!name.trim() || !content.trim()}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {isNew ? 'Save Manifest' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,18 +2,26 @@
 
 import React, { useState } from 'react';
 import { Eye, Download, AlertCircle } from 'lucide-react';
-import { PreviewResult, PreviewSummary } from '@/types';
+import { CompanySource, PreviewResult, PreviewSummary, ExpandedProjectGroup } from '@/types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import Badge from './ui/Badge';
 import Button from './ui/Button';
 import { downloadCSV } from '@/lib/utils';
 
+const COMPANY_SOURCES: Record<CompanySource, string> = {
+  selected: 'chosen',
+  member: 'account company',
+  domain: 'email domain',
+  default: 'account default',
+};
+
 interface PreviewResultsProps {
   results: PreviewResult[];
   summary: PreviewSummary;
   onConfirm: () => void;
   onCancel: () => void;
   isExecuting?: boolean;
+  projectGroups?: ExpandedProjectGroup[];
 }
 
 export default function PreviewResults({
@@ -22,24 +30,48 @@ export default function PreviewResults({
   onConfirm,
   onCancel,
   isExecuting = false,
+  projectGroups = [],
 }: PreviewResultsProps) {
-  const [filterStatus, setFilterStatus] = useState<'all' | 'new' | 'update'>(
-    'all'
-  );
+  const [filterStatus, setFilterStatus] = useState<
+    'all' | 'new' | 'update' | 'unchanged' | 'conflict'
+  >('all');
 
   const filteredResults = results.filter((result) => {
     if (filterStatus === 'new') return result.willBeAdded;
+    if (filterStatus === 'conflict') return !!result.conflict;
     if (filterStatus === 'update') return result.willBeUpdated;
+    if (filterStatus === 'unchanged')
+      return !result.willBeAdded && !result.willBeUpdated;
     return true;
   });
 
+  const describeAction = (result: PreviewResult) => {
+    if (result.willBeAdded) return 'Add New';
+    if (result.conflict) return 'Update (role conflict)';
+    if (result.willBeUpdated) return 'Update';
+    return 'No Change';
+  };
+
+  const formatProducts = (result: PreviewResult) =>
+    result.products
+      .filter((p) => p.access !== 'none')
+      .map((p) => `${p.key}: ${p.access}`)
+      .join('; ');
+
   const handleDownloadCSV = () => {
     const csvData = results.map((r) => ({
       User: r.userEmail,
       Project: r.projectName,
       'Current Access': r.currentAccess.hasAccess ? 'Yes' : 'No',
-      'Current Role': r.currentAccess.currentRole || 'N/A',
-      Action: r.willBeAdded ? 'Add New' : 'Update',
+      'Current Roles':
+        r.currentAccess.roles.map((role) => role.name).join('; ') || 'N/A',
+      'New Roles':
+        r.resultingRoles.map((role) => role.name).join('; ') || 'N/A',
+      'Current Access Level': r.currentAccess.accessLevel || 'N/A',
+      'New Access Level': r.accessLevel,
+      Products: formatProducts(r),
+      Company: r.company?.name || 'N/A',
+      Action: describeAction(r),
     }));
 
     downloadCSV(csvData, 'preview-results.csv');
@@ -57,6 +89,17 @@ export default function PreviewResults({
             <p className="text-sm text-muted-foreground mt-1">
               Review changes before executing
             </p>
+            {projectGroups.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Includes{' '}
+                {projectGroups
+                  .map(
+                    (g) =>
+                      `${g.name} (${g.projectIds.length} project${g.projectIds.length !== 1 ? 's' : ''})`
+                  )
+                  .join(', ')}
+              </p>
+            )}
           </div>
           <Button
             variant="outline"
@@ -70,7 +113,7 @@ export default function PreviewResults({
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Summary */}
-        <div className="grid grid-cols-3 gap-4">
+        <div className="grid grid-cols-4 gap-4">
           <div className="bg-blue-50 rounded-lg p-4">
             <div className="text-2xl font-bold text-blue-900">
               {summary.totalOperations}
@@ -87,7 +130,11 @@ export default function PreviewResults({
             <div className="text-2xl font-bold text-yellow-900">
               {summary.updates}
             </div>
-            <div className="text-sm text-yellow-700">Role Updates</div>
+            <div className="text-sm text-yellow-700">Updates</div>
+          </div>
+          <div className="bg-muted rounded-lg p-4">
+            <div className="text-2xl font-bold">{summary.unchanged}</div>
+            <div className="text-sm text-muted-foreground">No Change</div>
           </div>
         </div>
 
@@ -99,6 +146,10 @@ export default function PreviewResults({
               { value: 'all', label: 'All' },
               { value: 'new', label: 'New Users' },
               { value: 'update', label: 'Updates' },
+              { value: 'unchanged', label: 'No Change' },
+              ...(summary.conflicts
+                ? [{ value: 'conflict', label: 'Conflicts' }]
+                : []),
             ].map((filter) => (
               <button
                 key={filter.value}
@@ -124,6 +175,7 @@ export default function PreviewResults({
                   <th className="text-left p-3 font-medium">User</th>
                   <th className="text-left p-3 font-medium">Project</th>
                   <th className="text-left p-3 font-medium">Current Access</th>
+                  <th className="text-left p-3 font-medium">New Access</th>
                   <th className="text-left p-3 font-medium">Action</th>
                 </tr>
               </thead>
@@ -141,9 +193,20 @@ export default function PreviewResults({
                           <Badge variant="info" className="text-xs">
                             Has Access
                           </Badge>
-                          {result.currentAccess.currentRole && (
+                          {result.currentAccess.roles.length > 0 && (
                             <div className="text-xs text-muted-foreground">
-                              Role: {result.currentAccess.currentRole}
+                              {result.currentAccess.roles.length > 1
+                                ? 'Roles'
+                                : 'Role'}
+                              :{' '}
+                              {result.currentAccess.roles
+                                .map((role) => role.name)
+                                .join(', ')}
+                            </div>
+                          )}
+                          {result.currentAccess.accessLevel && (
+                            <div className="text-xs text-muted-foreground capitalize">
+                              Level: {result.currentAccess.accessLevel}
                             </div>
                           )}
                         </div>
@@ -153,14 +216,61 @@ export default function PreviewResults({
                         </Badge>
                       )}
                     </td>
+                    <td className="p-3">
+                      <div className="space-y-1">
+                        <Badge
+                          variant={result.accessLevel === 'admin' ? 'warning' : 'info'}
+                          className="text-xs capitalize"
+                        >
+                          {result.accessLevel}
+                        </Badge>
+                        {result.resultingRoles.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {result.resultingRoles.length > 1 ? 'Roles' : 'Role'}
+                            :{' '}
+                            {result.resultingRoles
+                              .map((role) => role.name)
+                              .join(', ')}
+                          </div>
+                        )}
+                        {result.currentAccess.hasAccess && (
+                          <RoleChanges result={result} />
+                        )}
+                        <div className="text-xs text-muted-foreground">
+                          {formatProducts(result)}
+                        </div>
+                        {result.willBeAdded && (
+                          <div
+                            className={
+                              result.company
+                                ? 'text-xs text-muted-foreground'
+                                : 'text-xs text-red-600'
+                            }
+                          >
+                            Company:{' '}
+                            {result.company
+                              ? `${result.company.name} (${COMPANY_SOURCES[result.company.source]})`
+                              : 'none found'}
+                          </div>
+                        )}
+                      </div>
+                    </td>
                     <td className="p-3">
                       {result.willBeAdded ? (
                         <Badge variant="success" className="text-xs">
                           Add New User
                         </Badge>
-                      ) : (
+                      ) : result.conflict ? (
+                        <Badge variant="error" className="text-xs">
+                          Role Conflict
+                        </Badge>
+                      ) : result.willBeUpdated ? (
                         <Badge variant="warning" className="text-xs">
-                          Update Role
+                          Update Access
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary" className="text-xs">
+                          No Change
                         </Badge>
                       )}
                     </td>
@@ -172,12 +282,37 @@ export default function PreviewResults({
         </div>
 
         {/* Warning */}
+        {summary.withoutCompany > 0 && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-red-900">
+              <strong>No company:</strong> {summary.withoutCompany} new member
+              {summary.withoutCompany !== 1 ? 's have' : ' has'} no company.
+              BIM 360 projects will reject them. Choose a company for them or
+              allow the account&apos;s default company.
+            </div>
+          </div>
+        )}
+
+        {!!summary.conflicts && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-red-900">
+              <strong>Role conflicts:</strong> {summary.conflicts} user
+              {summary.conflicts !== 1 ? 's are' : ' is'} already in the target
+              project with other roles. Copying replaces their roles with the
+              copied ones.
+            </div>
+          </div>
+        )}
+
         {summary.updates > 0 && (
           <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
             <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5 flex-shrink-0" />
             <div className="text-sm text-yellow-900">
               <strong>Note:</strong> {summary.updates} user
-              {summary.updates !== 1 ? 's' : ''} will have their role updated.
+              {summary.updates !== 1 ? 's' : ''} will have their role or access
+              level updated.
               Existing permissions will be modified.
             </div>
           </div>
@@ -204,3 +339,28 @@ export default function PreviewResults({
     </Card>
   );
 }
+
+// Roles an existing member gains and loses
+function RoleChanges({ result }: { result: PreviewResult }) {
+  const currentIds = result.currentAccess.roles.map((r) => r.id);
+  const resultingIds = result.resultingRoles.map((r) => r.id);
+  const added = result.resultingRoles.filter((r) => !currentIds.includes(r.id));
+  const removed = result.currentAccess.roles.filter(
+    (r) => !resultingIds.includes(r.id)
+  );
+
+  return (
+    <>
+      {added.length > 0 && (
+        <div className="text-xs text-green-700">
+          + {added.map((role) => role.name).join(', ')}
+        </div>
+      )}
+      {removed.length > 0 && (
+        <div className="text-xs text-red-600">
+          − {removed.map((role) => role.name).join(', ')}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { ProductAccess } from '@/types';
+
+// ACC products that accept per-project access levels
+export const ACC_PRODUCTS: { key: string; label: string }[] = [
+  { key: 'projectAdministration', label: 'Project Administration' },
+  { key: 'docs', label: 'Docs' },
+  { key: 'build', label: 'Build' },
+  { key: 'cost', label: 'Cost Management' },
+  { key: 'designCollaboration', label: 'Design Collaboration' },
+  { key: 'modelCoordination', label: 'Model Coordination' },
+  { key: 'insight', label: 'Insight' },
+  { key: 'takeoff', label: 'Takeoff' },
+];
+
+const ACCESS_OPTIONS: { value: ProductAccess['access']; label: string }[] = [
+  { value: 'none', label: 'No access' },
+  { value: 'member', label: 'Member' },
+  { value: 'administrator', label: 'Administrator' },
+];
+
+interface ProductAccessEditorProps {
+  products: ProductAccess[];
+  onChange: (products: ProductAccess[]) => void;
+  omit?: string[]; // Product keys controlled elsewhere
+  disabled?: boolean;
+}
+
+export default function ProductAccessEditor({
+  products,
+  onChange,
+  omit = [],
+  disabled = false,
+}: ProductAccessEditorProps) {
+  const accessFor = (key: string) =>
+    products.find((p) => p.key === key)?.access ?? 'none';
+
+  const handleChange = (key: string, access: ProductAccess['access']) => {
+    // Only products with access are sent; everything else stays at "none"
+    const others = products.filter((p) => p.key !== key);
+    onChange(access === 'none' ? others : [...others, { key, access }]);
+  };
+
+  const visibleProducts = ACC_PRODUCTS.filter((p) => !omit.includes(p.key));
+
+  return (
+    <div className="space-y-2">
+      {visibleProducts.map((product) => (
+        <div
+          key={product.key}
+          className="flex items-center justify-between gap-3 text-sm"
+        >
+          <span>{product.label}</span>
+          <select
+            value={accessFor(product.key)}
+            onChange={(e) =>
+              handleChange(product.key, e.target.value as ProductAccess['access'])
+            }
+            disabled={disabled}
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {ACCESS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,11 +1,18 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { Search, CheckSquare, Square } from 'lucide-react';
-import { Project } from '@/types';
+import { Search, CheckSquare, Square, X, Layers, Save } from 'lucide-react';
+import {
+  Project,
+  ProjectGroup,
+  ProjectGroupFilter,
+  ProjectGroupRequest,
+  ProjectListOptions,
+} from '@/types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import Input from './ui/Input';
 import Badge from './ui/Badge';
+import Button from './ui/Button';
 import { cn } from '@/lib/utils';
 
 // ACC (Autodesk Construction Cloud) Icon - Blue globe with network grid
@@ -66,24 +73,99 @@ interface ProjectSelectorProps {
   selectedProjects: string[];
   onSelectionChange: (projectIds: string[]) => void;
   isLoading?: boolean;
+  groups?: ProjectGroup[];
+  selectedGroups?: string[];
+  onSelectedGroupsChange?: (groupIds: string[]) => void;
+  onSaveGroup?: (group: Omit<ProjectGroupRequest, 'accountId'>) => Promise<void>;
+  onDeleteGroup?: (groupId: string) => void;
+  listOptions?: ProjectListOptions;
+  onListOptionsChange?: (options: ProjectListOptions) => void;
 }
 
+type FilterKey = 'businessUnit' | 'currentPhase' | 'status' | 'platform' | 'city';
+
+const FILTERS: { key: FilterKey; label: string }[] = [
+  { key: 'businessUnit', label: 'Business unit' },
+  { key: 'currentPhase', label: 'Phase' },
+  { key: 'status', label: 'Status' },
+  { key: 'platform', label: 'Platform' },
+  { key: 'city', label: 'City' },
+];
+
+const EMPTY_FILTERS: Record<FilterKey, string> = {
+  businessUnit: '',
+  currentPhase: '',
+  status: '',
+  platform: '',
+  city: '',
+};
+
+const LIST_OPTIONS: { key: keyof ProjectListOptions; label: string }[] = [
+  { key: 'includeTemplates', label: 'Show templates' },
+  { key: 'includeArchived', label: 'Show archived' },
+];
+
+const selectClassName =
+  'h-8 w-full rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+// Whether the project's start-end range overlaps [from, to]; open ends match anything
+const overlapsRange = (project: Project, from: string, to: string) => {
+  if (!from && !to) return true;
+  if (!project.startDate && !project.endDate) return false;
+  // YYYY-MM-DD strings compare correctly as text
+  if (to && project.startDate && project.startDate > to) return false;
+  if (from && project.endDate && project.endDate < from) return false;
+  return true;
+};
+
 export default function ProjectSelector({
   projects,
   selectedProjects,
   onSelectionChange,
   isLoading = false,
+  groups = [],
+  selectedGroups = [],
+  onSelectedGroupsChange,
+  onSaveGroup,
+  onDeleteGroup,
+  listOptions = {},
+  onListOptionsChange,
 }: ProjectSelectorProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<Record<FilterKey, string>>(EMPTY_FILTERS);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [groupName, setGroupName] = useState('');
+  const [isSavingGroup, setIsSavingGroup] = useState(false);
 
-  const filteredProjects = useMemo(() => {
-    if (!searchQuery) return projects;
+  // Only offer filters that have values in this account
+  const filterOptions = useMemo(() => {
+    const options = {} as Record<FilterKey, string[]>;
+    for (const { key } of FILTERS) {
+      const values = new Set<string>();
+      for (const project of projects) {
+        if (project[key]) values.add(project[key] as string);
+      }
+      options[key] = Array.from(values).sort((a, b) => a.localeCompare(b));
+    }
+    return options;
+  }, [projects]);
 
+  const hasDates = projects.some((p) => p.startDate || p.endDate);
+  const hasFilters =
+    Object.values(filters).some(Boolean) || Boolean(dateFrom || dateTo);
+
+  const filteredProjects = useMemo(() => {
     const query = searchQuery.toLowerCase();
-    return projects.filter((project) =>
-      project.name.toLowerCase().includes(query)
+    return projects.filter(
+      (project) =>
+        (!query ||
+          project.name.toLowerCase().includes(query) ||
+          project.jobNumber?.toLowerCase().includes(query)) &&
+        FILTERS.every(({ key }) => !filters[key] || project[key] === filters[key]) &&
+        overlapsRange(project, dateFrom, dateTo)
     );
-  }, [projects, searchQuery]);
+  }, [projects, searchQuery, filters, dateFrom, dateTo]);
 
   const handleToggleProject = (projectId: string) => {
     if (selectedProjects.includes(projectId)) {
@@ -93,17 +175,64 @@ export default function ProjectSelector({
     }
   };
 
+  const allSelected =
+    filteredProjects.length > 0 &&
+    filteredProjects.every((p) => selectedProjects.includes(p.id));
+
+  // Select All / Deselect All only touch the projects that are shown
   const handleSelectAll = () => {
-    if (selectedProjects.length === filteredProjects.length) {
-      onSelectionChange([]);
+    const shown = new Set(filteredProjects.map((p) => p.id));
+    if (allSelected) {
+      onSelectionChange(selectedProjects.filter((id) => !shown.has(id)));
     } else {
-      onSelectionChange(filteredProjects.map((p) => p.id));
+      const kept = selectedProjects.filter((id) => !shown.has(id));
+      onSelectionChange([...kept, ...filteredProjects.map((p) => p.id)]);
     }
   };
 
-  const allSelected =
-    filteredProjects.length > 0 &&
-    selectedProjects.length === filteredProjects.length;
+  const handleToggleGroup = (groupId: string) => {
+    if (!onSelectedGroupsChange) return;
+    if (selectedGroups.includes(groupId)) {
+      onSelectedGroupsChange(selectedGroups.filter((id) => id !== groupId));
+    } else {
+      onSelectedGroupsChange([...selectedGroups, groupId]);
+    }
+  };
+
+  // Filters save as a dynamic group; otherwise the selection saves as a static one
+  const groupFilter: ProjectGroupFilter | null =
+    hasFilters || searchQuery
+      ? {
+          ...Object.fromEntries(
+            FILTERS.filter(({ key }) => filters[key]).map(({ key }) => [key, filters[key]])
+          ),
+          nameContains: searchQuery || undefined,
+          activeFrom: dateFrom || undefined,
+          activeTo: dateTo || undefined,
+        }
+      : null;
+
+  const handleSaveGroup = async () => {
+    if (!onSaveGroup || !groupName.trim()) return;
+
+    setIsSavingGroup(true);
+    try {
+      await onSaveGroup(
+        groupFilter
+          ? { name: groupName.trim(), type: 'dynamic', filter: groupFilter }
+          : { name: groupName.trim(), type: 'static', projectIds: selectedProjects }
+      );
+      setGroupName('');
+    } finally {
+      setIsSavingGroup(false);
+    }
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setDateFrom('');
+    setDateTo('');
+  };
 
   return (
     <Card>
@@ -115,27 +244,172 @@ export default function ProjectSelector({
               Choose projects to add users to
             </p>
           </div>
-          {selectedProjects.length > 0 && (
+          {(selectedProjects.length > 0 || selectedGroups.length > 0) && (
             <Badge variant="info">
               {selectedProjects.length} selected
+              {selectedGroups.length > 0 &&
+                ` + ${selectedGroups.length} group${selectedGroups.length !== 1 ? 's' : ''}`}
             </Badge>
           )}
         </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
+          {/* Groups; their projects are looked up when previewing */}
+          {groups.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {groups.map((group) => {
+                const isSelected = selectedGroups.includes(group.id);
+                return (
+                  <span
+                    key={group.id}
+                    className={cn(
+                      'inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs transition-colors',
+                      isSelected
+                        ? 'bg-primary/10 border-primary text-primary'
+                        : 'bg-background border-border hover:border-primary'
+                    )}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => handleToggleGroup(group.id)}
+                      title={group.type === 'dynamic' ? 'Matches saved filters' : 'Saved projects'}
+                      className="inline-flex items-center gap-1 font-medium"
+                    >
+                      <Layers className="h-3 w-3" />
+                      {group.name}
+                      {group.projectCount !== undefined && (
+                        <span className="text-muted-foreground">
+                          ({group.projectCount})
+                        </span>
+                      )}
+                    </button>
+                    {onDeleteGroup && (
+                      <button
+                        type="button"
+                        onClick={() => onDeleteGroup(group.id)}
+                        aria-label={`Delete ${group.name}`}
+                        className="text-muted-foreground hover:text-destructive"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+
           {/* Search */}
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
               type="text"
-              placeholder="Search projects..."
+              placeholder="Search projects or job numbers..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
             />
           </div>
 
+          {/* Filters */}
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {FILTERS.filter(({ key }) => filterOptions[key].length > 0).map(
+              ({ key, label }) => (
+                <select
+                  key={key}
+                  aria-label={label}
+                  value={filters[key]}
+                  onChange={(e) => setFilters({ ...filters, [key]: e.target.value })}
+                  className={selectClassName}
+                >
+                  <option value="">{`Any ${label.toLowerCase()}`}</option>
+                  {filterOptions[key].map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              )
+            )}
+          </div>
+          {hasDates && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Active between</span>
+              <input
+                type="date"
+                aria-label="From"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className={cn(selectClassName, 'w-auto')}
+              />
+              <span className="text-muted-foreground">and</span>
+              <input
+                type="date"
+                aria-label="To"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                className={cn(selectClassName, 'w-auto')}
+              />
+            </div>
+          )}
+          {onListOptionsChange && (
+            <div className="flex items-center gap-4">
+              {LIST_OPTIONS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() =>
+                    onListOptionsChange({ ...listOptions, [key]: !listOptions[key] })
+                  }
+                  className="flex items-center gap-2 text-sm hover:text-primary transition-colors"
+                >
+                  {listOptions[key] ? (
+                    <CheckSquare className="h-4 w-4 text-primary" />
+                  ) : (
+                    <Square className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+            >
+              <X className="h-3 w-3" />
+              Clear filters
+            </button>
+          )}
+
+          {/* Save as group */}
+          {onSaveGroup && (groupFilter || selectedProjects.length > 0) && (
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder={
+                  groupFilter ? 'Save these filters as a group' : 'Save the selection as a group'
+                }
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                className="h-8"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleSaveGroup}
+                disabled={!groupName.trim()}
+                isLoading={isSavingGroup}
+              >
+                <Save className="h-4 w-4 mr-1" />
+                Save
+              </Button>
+            </div>
+          )}
+
           {/* Select All */}
           {filteredProjects.length > 0 && (
             <div className="flex items-center justify-between border-b pb-3">
@@ -164,13 +438,16 @@ export default function ProjectSelector({
               </div>
             ) : filteredProjects.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
-                {searchQuery
+                {searchQuery || hasFilters
                   ? 'No projects found matching your search'
                   : 'No projects available'}
               </div>
             ) : (
               filteredProjects.map((project) => {
                 const isSelected = selectedProjects.includes(project.id);
+                const details = [project.businessUnit, project.currentPhase, project.city]
+                  .filter(Boolean)
+                  .join(' · ');
 
                 return (
                   <div
@@ -192,8 +469,26 @@ export default function ProjectSelector({
                     </div>
                     <div className="flex-1 min-w-0 flex items-center gap-3">
                       <PlatformIcon platform={project.platform} />
-                      <div className="font-medium truncate">
-                        {project.name}
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <div className="font-medium truncate">
+                            {project.name}
+                          </div>
+                          {project.classification &&
+                            project.classification !== 'production' && (
+                              <Badge variant="secondary" className="capitalize">
+                                {project.classification}
+                              </Badge>
+                            )}
+                          {project.status === 'archived' && (
+                            <Badge variant="warning">Archived</Badge>
+                          )}
+                        </div>
+                        {details && (
+                          <div className="text-xs text-muted-foreground truncate">
+                            {details}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useState } from 'react';
+import { GitCompare, Download, AlertCircle } from 'lucide-react';
+import { ReconcileAction, ReconcileChange, ReconcilePlan } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Badge from './ui/Badge';
+import Button from './ui/Button';
+import { downloadCSV } from '@/lib/utils';
+
+interface ReconcilePlanResultsProps {
+  plan: ReconcilePlan;
+  onApply: () => void;
+  onCancel: () => void;
+  isApplying?: boolean;
+}
+
+const ACTION_BADGES: Record<
+  ReconcileAction,
+  { label: string; variant: 'success' | 'warning' | 'error' }
+> = {
+  add: { label: 'Add', variant: 'success' },
+  update: { label: 'Change Roles', variant: 'warning' },
+  remove: { label: 'Remove', variant: 'error' },
+};
+
+function roleNames(change: ReconcileChange, key: 'currentRoles' | 'desiredRoles') {
+  return change[key].map((role) => role.name).join(', ') || '-';
+}
+
+export default function ReconcilePlanResults({
+  plan,
+  onApply,
+  onCancel,
+  isApplying = false,
+}: ReconcilePlanResultsProps) {
+  const [filterAction, setFilterAction] = useState<'all' | ReconcileAction>('all');
+
+  const filteredChanges = plan.changes.filter(
+    (change) => filterAction === 'all' || change.action === filterAction
+  );
+  const { summary } = plan;
+
+  const handleDownloadCSV = () => {
+    const csvData = plan.changes.map((c) => ({
+      Action: ACTION_BADGES[c.action].label,
+      User: c.email,
+      Project: c.projectName,
+      'Current Roles': roleNames(c, 'currentRoles'),
+      'Desired Roles': roleNames(c, 'desiredRoles'),
+      'Access Level': c.accessLevel || 'N/A',
+    }));
+
+    downloadCSV(csvData, 'reconcile-plan.csv');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Reconcile Plan
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {plan.manifestVersion
+                ? `Version ${plan.manifestVersion}`
+                : 'Unsaved manifest'}{' '}
+              compared with live access on {plan.projectCount} project
+              {plan.projectCount !== 1 ? 's' : ''}
+              {!plan.prune && '. Unlisted members are left alone'}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownloadCSV}
+            disabled={plan.changes.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-4 gap-4">
+          <div className="bg-green-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-green-900">
+              {summary.adds}
+            </div>
+            <div className="text-sm text-green-700">To Add</div>
+          </div>
+          <div className="bg-yellow-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-yellow-900">
+              {summary.updates}
+            </div>
+            <div className="text-sm text-yellow-700">Role Changes</div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-red-900">
+              {summary.removals}
+            </div>
+            <div className="text-sm text-red-700">To Remove</div>
+          </div>
+          <div className="bg-muted rounded-lg p-4">
+            <div className="text-2xl font-bold">{summary.unchanged ?? 0}</div>
+            <div className="text-sm text-muted-foreground">Unchanged</div>
+          </div>
+        </div>
+
+        {plan.failedProjects.length > 0 && (
+          <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-yellow-900">
+              <strong>Not compared:</strong>{' '}
+              {plan.failedProjects
+                .map((p) => `${p.projectName} (${p.error})`)
+                .join(', ')}
+            </div>
+          </div>
+        )}
+
+        {plan.changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Access already matches the manifest
+          </p>
+        ) : (
+          <>
+            {/* Filters */}
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Filter:</span>
+              <div className="flex gap-2">
+                {[
+                  { value: 'all', label: 'All' },
+                  { value: 'add', label: 'Adds' },
+                  { value: 'update', label: 'Role Changes' },
+                  { value: 'remove', label: 'Removals' },
+                ].map((filter) => (
+                  <button
+                    key={filter.value}
+                    onClick={() => setFilterAction(filter.value as any)}
+                    className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                      filterAction === filter.value
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {filter.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Changes Table */}
+            <div className="border rounded-lg overflow-hidden">
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Action</th>
+                      <th className="text-left p-3 font-medium">User</th>
+                      <th className="text-left p-3 font-medium">Project</th>
+                      <th className="text-left p-3 font-medium">Current Roles</th>
+                      <th className="text-left p-3 font-medium">Desired Roles</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {filteredChanges.map((change, index) => (
+                      <tr
+                        key={index}
+                        className="hover:bg-muted/50 transition-colors"
+                      >
+                        <td className="p-3">
+                          <Badge
+                            variant={ACTION_BADGES[change.action].variant}
+                            className="text-xs"
+                          >
+                            {ACTION_BADGES[change.action].label}
+                          </Badge>
+                        </td>
+                        <td className="p-3">{change.email}</td>
+                        <td className="p-3">{change.projectName}</td>
+                        <td className="p-3 text-muted-foreground">
+                          {roleNames(change, 'currentRoles')}
+                        </td>
+                        <td className="p-3">
+                          {roleNames(change, 'desiredRoles')}
+                          {change.accessLevel === 'admin' && (
+                            <div className="text-xs text-muted-foreground">
+                              Project admin
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Warning */}
+        {summary.removals > 0 && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-red-900">
+              <strong>Note:</strong> {summary.removals} member
+              {summary.removals !== 1 ? 's are' : ' is'} not in the manifest
+              and will lose project access.
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={onCancel} disabled={isApplying}>
+            Close
+          </Button>
+          <Button
+            variant={summary.removals > 0 ? 'danger' : 'primary'}
+            onClick={onApply}
+            isLoading={isApplying}
+            disabled={plan.changes.length === 0}
+          >
+            Apply {plan.changes.length} Change
+            {plan.changes.length !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
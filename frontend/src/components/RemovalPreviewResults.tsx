@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useState } from 'react';
+import { UserMinus, Download, AlertCircle } from 'lucide-react';
+import { RemovalPreviewResult, RemovalPreviewSummary, ExpandedProjectGroup } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Badge from './ui/Badge';
+import Button from './ui/Button';
+import { downloadCSV } from '@/lib/utils';
+
+interface RemovalPreviewResultsProps {
+  results: RemovalPreviewResult[];
+  summary: RemovalPreviewSummary;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isExecuting?: boolean;
+  projectGroups?: ExpandedProjectGroup[];
+}
+
+export default function RemovalPreviewResults({
+  results,
+  summary,
+  onConfirm,
+  onCancel,
+  isExecuting = false,
+  projectGroups = [],
+}: RemovalPreviewResultsProps) {
+  const [filterStatus, setFilterStatus] = useState<
+    'all' | 'remove' | 'not_member'
+  >('all');
+
+  const filteredResults = results.filter((result) => {
+    if (filterStatus === 'remove') return result.willBeRemoved;
+    if (filterStatus === 'not_member') return !result.willBeRemoved;
+    return true;
+  });
+
+  const handleDownloadCSV = () => {
+    const csvData = results.map((r) => ({
+      User: r.userEmail,
+      Project: r.projectName,
+      'Current Access': r.currentAccess.hasAccess ? 'Yes' : 'No',
+      'Current Roles':
+        r.currentAccess.roles.map((role) => role.name).join('; ') || 'N/A',
+      Action: r.willBeRemoved ? 'Remove' : 'Skip (not a member)',
+    }));
+
+    downloadCSV(csvData, 'removal-preview-results.csv');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <UserMinus className="h-5 w-5" />
+              Removal Preview
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Review who will lose access before executing
+            </p>
+            {projectGroups.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Includes{' '}
+                {projectGroups
+                  .map(
+                    (g) =>
+                      `${g.name} (${g.projectIds.length} project${g.projectIds.length !== 1 ? 's' : ''})`
+                  )
+                  .join(', ')}
+              </p>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownloadCSV}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-blue-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-blue-900">
+              {summary.totalOperations}
+            </div>
+            <div className="text-sm text-blue-700">Total Operations</div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-red-900">
+              {summary.removals}
+            </div>
+            <div className="text-sm text-red-700">Will Be Removed</div>
+          </div>
+          <div className="bg-muted rounded-lg p-4">
+            <div className="text-2xl font-bold">{summary.notMembers}</div>
+            <div className="text-sm text-muted-foreground">Not Members</div>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Filter:</span>
+          <div className="flex gap-2">
+            {[
+              { value: 'all', label: 'All' },
+              { value: 'remove', label: 'Removals' },
+              { value: 'not_member', label: 'Not Members' },
+            ].map((filter) => (
+              <button
+                key={filter.value}
+                onClick={() => setFilterStatus(filter.value as any)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  filterStatus === filter.value
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Results Table */}
+        <div className="border rounded-lg overflow-hidden">
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted sticky top-0">
+                <tr>
+                  <th className="text-left p-3 font-medium">User</th>
+                  <th className="text-left p-3 font-medium">Project</th>
+                  <th className="text-left p-3 font-medium">Current Access</th>
+                  <th className="text-left p-3 font-medium">Action</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {filteredResults.map((result, index) => (
+                  <tr
+                    key={index}
+                    className="hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="p-3">{result.userEmail}</td>
+                    <td className="p-3">{result.projectName}</td>
+                    <td className="p-3">
+                      {result.currentAccess.hasAccess ? (
+                        <div className="space-y-1">
+                          <Badge variant="info" className="text-xs">
+                            Has Access
+                          </Badge>
+                          {result.currentAccess.roles.length > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              {result.currentAccess.roles.length > 1
+                                ? 'Roles'
+                                : 'Role'}
+                              :{' '}
+                              {result.currentAccess.roles
+                                .map((role) => role.name)
+                                .join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <Badge variant="secondary" className="text-xs">
+                          No Access
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      {result.willBeRemoved ? (
+                        <Badge variant="error" className="text-xs">
+                          Remove
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary" className="text-xs">
+                          Skip
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Warning */}
+        {summary.removals > 0 && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-red-900">
+              <strong>Note:</strong> {summary.removals} project membership
+              {summary.removals !== 1 ? 's' : ''} will be removed. Affected
+              users lose access to these projects immediately.
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 pt-4 border-t">
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            disabled={isExecuting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={onConfirm}
+            isLoading={isExecuting}
+            disabled={summary.removals === 0}
+          >
+            Confirm & Remove
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ClipboardCheck, Search, CheckSquare, Square } from 'lucide-react';
+import { AccessReviewRequest, Project } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Input from './ui/Input';
+import Button from './ui/Button';
+import { validateEmail } from '@/lib/utils';
+
+export type ReviewCampaignOptions = Omit<AccessReviewRequest, 'accountId'>;
+
+interface ReviewCampaignFormProps {
+  projects: Project[];
+  defaultReviewerEmail: string;
+  onSubmit: (options: ReviewCampaignOptions) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+// Toggle an ID in a selection list
+function toggle(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+}
+
+export default function ReviewCampaignForm({
+  projects,
+  defaultReviewerEmail,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+}: ReviewCampaignFormProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [projectIds, setProjectIds] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [reviewerEmail, setReviewerEmail] = useState(defaultReviewerEmail);
+  // Project ID -> reviewer, for projects someone else reviews
+  const [reviewers, setReviewers] = useState<Record<string, string>>({});
+
+  const filteredProjects = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return projects.filter((p) => p.name.toLowerCase().includes(query));
+  }, [projects, searchQuery]);
+
+  const overrides = Object.fromEntries(
+    Object.entries(reviewers).filter(
+      ([id, email]) => projectIds.includes(id) && email.trim()
+    )
+  );
+  const invalidReviewer = [reviewerEmail, ...Object.values(overrides)].find(
+    (email) => email.trim() && !validateEmail(email.trim())
+  );
+
+  const handleSubmit = () => {
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      dueDate: dueDate || undefined,
+      projectIds,
+      reviewers: overrides,
+      defaultReviewerEmail: reviewerEmail.trim() || undefined,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          New Access Review
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Current members of each project are snapshotted for its reviewer to
+          keep or revoke
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="review-name" className="text-sm font-medium">
+              Name
+            </label>
+            <Input
+              id="review-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Q4 2026 attestation"
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="review-due" className="text-sm font-medium">
+              Due date
+            </label>
+            <Input
+              id="review-due"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="review-description" className="text-sm font-medium">
+            Description
+          </label>
+          <Input
+            id="review-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Optional"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="review-reviewer" className="text-sm font-medium">
+            Reviewer
+          </label>
+          <Input
+            id="review-reviewer"
+            value={reviewerEmail}
+            onChange={(e) => setReviewerEmail(e.target.value)}
+            placeholder="reviewer@example.com"
+          />
+          <p className="text-xs text-muted-foreground">
+            Reviews every project that has no reviewer of its own below
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">
+            Projects
+            {projectIds.length > 0 && (
+              <span className="text-muted-foreground font-normal">
+                {' '}
+                ({projectIds.length} selected)
+              </span>
+            )}
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search projects..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <div className="border rounded-lg max-h-80 overflow-y-auto divide-y">
+            {filteredProjects.map((p) => {
+              const selected = projectIds.includes(p.id);
+              return (
+                <div key={p.id} className="flex items-center gap-2 p-2 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setProjectIds(toggle(projectIds, p.id))}
+                    className="flex-1 flex items-center gap-2 text-left"
+                  >
+                    {selected ? (
+                      <CheckSquare className="h-4 w-4 text-primary" />
+                    ) : (
+                      <Square className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    {p.name}
+                  </button>
+                  {selected && (
+                    <div className="w-56 flex-shrink-0">
+                      <Input
+                        value={reviewers[p.id] || ''}
+                        onChange={(e) =>
+                          setReviewers({ ...reviewers, [p.id]: e.target.value })
+                        }
+                        placeholder={reviewerEmail || 'Reviewer email'}
+                        aria-label={`Reviewer for ${p.name}`}
+                        className="h-8"
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {invalidReviewer && (
+          <p className="text-sm text-destructive">
+            Invalid reviewer email {invalidReviewer}
+          </p>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSubmit}
+            isLoading={isSubmitting}
+            disabled={
+              !name.trim() ||
+              projectIds.length === 0 ||
+              !!invalidReviewer ||
+              (!reviewerEmail.trim() &&
+                projectIds.some((id) => !overrides[id]))
+            }
+          >
+            Start Review
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { AccessReviewItem, ReviewDecision, ReviewDecisionInput } from '@/types';
+import Badge from './ui/Badge';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import { cn } from '@/lib/utils';
+
+interface ReviewItemsProps {
+  items: AccessReviewItem[];
+  canDecide: boolean; // Only the project's reviewer decides, while the campaign is open
+  onDecide: (decisions: ReviewDecisionInput[]) => void;
+  isSaving?: boolean;
+}
+
+export default function ReviewItems({
+  items,
+  canDecide,
+  onDecide,
+  isSaving = false,
+}: ReviewItemsProps) {
+  // Item ID -> note typed but not yet saved with a decision
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const undecided = items.filter((item) => !item.decision);
+
+  const decide = (item: AccessReviewItem, decision: ReviewDecision) => {
+    onDecide([
+      { itemId: item.id, decision, note: notes[item.id] ?? item.note ?? undefined },
+    ]);
+  };
+
+  const decisionButton = (
+    item: AccessReviewItem,
+    decision: ReviewDecision
+  ) => {
+    const selected = item.decision === decision;
+    return (
+      <button
+        type="button"
+        onClick={() => decide(item, decision)}
+        disabled={!canDecide || isSaving}
+        className={cn(
+          'inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-60',
+          selected && decision === 'keep' && 'bg-green-100 text-green-800',
+          selected && decision === 'revoke' && 'bg-red-100 text-red-800',
+          !selected && 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+        )}
+      >
+        {decision === 'keep' ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+        {decision === 'keep' ? 'Keep' : 'Revoke'}
+      </button>
+    );
+  };
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        This project had no members when the review started
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {canDecide && undecided.length > 0 && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {undecided.length} of {items.length} not reviewed yet
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onDecide(undecided.map((item) => ({ itemId: item.id, decision: 'keep' })))
+            }
+            disabled={isSaving}
+          >
+            Keep All Remaining
+          </Button>
+        </div>
+      )}
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="max-h-[32rem] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted sticky top-0">
+              <tr>
+                <th className="text-left p-3 font-medium">Member</th>
+                <th className="text-left p-3 font-medium">Roles</th>
+                <th className="text-left p-3 font-medium">Note</th>
+                <th className="text-left p-3 font-medium">Decision</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {items.map((item) => (
+                <tr key={item.id} className="hover:bg-muted/50 transition-colors">
+                  <td className="p-3">
+                    <div className="font-medium">{item.name || item.email}</div>
+                    {item.name && (
+                      <div className="text-xs text-muted-foreground">{item.email}</div>
+                    )}
+                    {item.companyName && (
+                      <div className="text-xs text-muted-foreground">
+                        {item.companyName}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-3">
+                    {item.roles.map((role) => role.name).join(', ') || '-'}
+                    {item.accessLevel === 'admin' && (
+                      <div className="mt-1">
+                        <Badge variant="info" className="text-xs">
+                          Project admin
+                        </Badge>
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-3">
+                    {canDecide ? (
+                      <Input
+                        value={notes[item.id] ?? item.note ?? ''}
+                        onChange={(e) =>
+                          setNotes({ ...notes, [item.id]: e.target.value })
+                        }
+                        placeholder="Optional"
+                        aria-label={`Note for ${item.email}`}
+                        className="h-8"
+                      />
+                    ) : (
+                      <span className="text-muted-foreground">{item.note || '-'}</span>
+                    )}
+                  </td>
+                  <td className="p-3">
+                    <div className="flex gap-2">
+                      {decisionButton(item, 'keep')}
+                      {decisionButton(item, 'revoke')}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
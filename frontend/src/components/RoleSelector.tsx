@@ -1,23 +1,45 @@
 'use client';
 
 import React from 'react';
-import { UserCog } from 'lucide-react';
-import { Role } from '@/types';
+import { CheckSquare, Square, UserCog } from 'lucide-react';
+import { Role, RoleMode } from '@/types';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
 import { cn } from '@/lib/utils';
 
+const ROLE_MODES: { value: RoleMode; label: string; description: string }[] = [
+  {
+    value: 'add',
+    label: 'Add',
+    description: 'Members keep their current roles and gain the selected ones',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Members end up with exactly the selected roles',
+  },
+  {
+    value: 'remove',
+    label: 'Remove',
+    description: 'The selected roles are taken away; access is otherwise unchanged',
+  },
+];
+
 interface RoleSelectorProps {
   roles: Role[];
-  selectedRole: string;
-  onRoleChange: (roleId: string) => void;
+  selectedRoles: string[];
+  onRolesChange: (roleIds: string[]) => void;
+  roleMode: RoleMode;
+  onRoleModeChange: (mode: RoleMode) => void;
   isLoading?: boolean;
   error?: Error | null;
 }
 
 export default function RoleSelector({
   roles,
-  selectedRole,
-  onRoleChange,
+  selectedRoles,
+  onRolesChange,
+  roleMode,
+  onRoleModeChange,
   isLoading = false,
   error,
 }: RoleSelectorProps) {
@@ -42,18 +64,43 @@ export default function RoleSelector({
 
   const availableRoles = roles.length > 0 ? roles : defaultRoles;
 
+  const toggleRole = (roleId: string) => {
+    onRolesChange(
+      selectedRoles.includes(roleId)
+        ? selectedRoles.filter((id) => id !== roleId)
+        : [...selectedRoles, roleId]
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <UserCog className="h-5 w-5" />
-          Assign Role
+          Roles
         </CardTitle>
         <p className="text-sm text-muted-foreground">
-          Select the role to assign to users
+          {ROLE_MODES.find((m) => m.value === roleMode)?.description}
         </p>
       </CardHeader>
       <CardContent>
+        <div className="inline-flex rounded-lg border p-1 bg-muted mb-4">
+          {ROLE_MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onRoleModeChange(value)}
+              className={cn(
+                'px-4 py-1.5 rounded-md text-sm font-medium transition-colors',
+                roleMode === value
+                  ? 'bg-background shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         {error && roles.length === 0 && (
           <div className="mb-4 p-3 text-sm bg-amber-50 border border-amber-200 rounded-lg">
             <p className="text-amber-700">
@@ -74,12 +121,12 @@ export default function RoleSelector({
         ) : (
           <div className="space-y-2">
             {availableRoles.map((role) => {
-              const isSelected = selectedRole === role.id;
+              const isSelected = selectedRoles.includes(role.id);
 
               return (
                 <div
                   key={role.id}
-                  onClick={() => onRoleChange(role.id)}
+                  onClick={() => toggleRole(role.id)}
                   className={cn(
                     'p-4 rounded-lg border cursor-pointer transition-all hover:border-primary',
                     isSelected
@@ -88,16 +135,11 @@ export default function RoleSelector({
                   )}
                 >
                   <div className="flex items-start gap-3">
-                    <div
-                      className={cn(
-                        'mt-0.5 h-4 w-4 rounded-full border-2 flex items-center justify-center transition-colors',
-                        isSelected
-                          ? 'border-primary bg-primary'
-                          : 'border-muted-foreground'
-                      )}
-                    >
-                      {isSelected && (
-                        <div className="h-2 w-2 rounded-full bg-white" />
+                    <div className="pt-0.5">
+                      {isSelected ? (
+                        <CheckSquare className="h-5 w-5 text-primary" />
+                      ) : (
+                        <Square className="h-5 w-5 text-muted-foreground" />
                       )}
                     </div>
                     <div className="flex-1">
@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { CalendarClock } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Input from './ui/Input';
+
+interface ScheduleSelectorProps {
+  scheduledFor: string; // datetime-local value
+  expiresAt: string; // datetime-local value
+  onScheduledForChange: (value: string) => void;
+  onExpiresAtChange: (value: string) => void;
+  showExpiry?: boolean; // Hidden for jobs that add no one
+}
+
+export default function ScheduleSelector({
+  scheduledFor,
+  expiresAt,
+  onScheduledForChange,
+  onExpiresAtChange,
+  showExpiry = true,
+}: ScheduleSelectorProps) {
+  const expiryError =
+    expiresAt &&
+    new Date(expiresAt) <= (scheduledFor ? new Date(scheduledFor) : new Date())
+      ? 'End must be after the start'
+      : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Schedule
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Optionally start access later and remove it automatically
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Start</label>
+          <Input
+            type="datetime-local"
+            value={scheduledFor}
+            onChange={(e) => onScheduledForChange(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Leave empty to run as soon as you confirm
+          </p>
+        </div>
+        {showExpiry && (
+          <div className="space-y-1">
+            <label className="text-sm font-medium">End</label>
+            <Input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => onExpiresAtChange(e.target.value)}
+              error={expiryError}
+            />
+            <p className="text-xs text-muted-foreground">
+              Members added by this job are removed at this time. Existing
+              members keep their access.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
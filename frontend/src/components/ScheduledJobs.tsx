@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Ban, Pencil } from 'lucide-react';
+import { ScheduledExecution, ScheduleUpdateRequest } from '@/types';
+import Badge from './ui/Badge';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Spinner from './ui/Spinner';
+import { formatDate, fromDateTimeLocal, toDateTimeLocal } from '@/lib/utils';
+
+interface ScheduledJobsProps {
+  executions: ScheduledExecution[];
+  isLoading?: boolean;
+  onUpdate: (executionId: string, data: ScheduleUpdateRequest) => Promise<void>;
+  onCancel: (executionId: string) => void;
+  isUpdating?: boolean;
+}
+
+export default function ScheduledJobs({
+  executions,
+  isLoading = false,
+  onUpdate,
+  onCancel,
+  isUpdating = false,
+}: ScheduledJobsProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const startEditing = (execution: ScheduledExecution) => {
+    setEditingId(execution.id);
+    setScheduledFor(toDateTimeLocal(execution.scheduledFor));
+    setExpiresAt(toDateTimeLocal(execution.expiresAt));
+    setEditError(null);
+  };
+
+  const handleSave = async (execution: ScheduledExecution) => {
+    try {
+      await onUpdate(execution.id, {
+        scheduledFor: fromDateTimeLocal(scheduledFor),
+        // Expiry removals have no expiry of their own
+        ...(execution.jobType === 'bulk_user_assignment' && {
+          expiresAt: fromDateTimeLocal(expiresAt) ?? null,
+        }),
+      });
+      setEditingId(null);
+    } catch (error) {
+      setEditError(
+        (error as any)?.response?.data?.error || 'Failed to update schedule'
+      );
+    }
+  };
+
+  const handleCancel = (execution: ScheduledExecution) => {
+    const what =
+      execution.jobType === 'bulk_user_removal'
+        ? 'this removal? Access will not expire'
+        : 'this scheduled job';
+    if (confirm(`Cancel ${what}?`)) {
+      onCancel(execution.id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <Spinner size="lg" />
+        <p className="text-muted-foreground mt-4">Loading scheduled jobs...</p>
+      </div>
+    );
+  }
+
+  if (executions.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <p className="text-lg mb-2">Nothing scheduled</p>
+        <p className="text-sm">
+          Set a start or end date when assigning members to schedule a job.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-muted">
+          <tr>
+            <th className="text-left p-3 font-medium">Type</th>
+            <th className="text-left p-3 font-medium">Runs At</th>
+            <th className="text-left p-3 font-medium">Access Expires</th>
+            <th className="text-left p-3 font-medium">Members</th>
+            <th className="text-left p-3 font-medium">Operations</th>
+            <th className="text-left p-3 font-medium">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {executions.map((execution) => {
+            const isEditing = editingId === execution.id;
+            const isRemoval = execution.jobType === 'bulk_user_removal';
+
+            return (
+              <tr
+                key={execution.id}
+                className="hover:bg-muted/50 transition-colors align-top"
+              >
+                <td className="p-3">
+                  <Badge variant={isRemoval ? 'error' : 'info'}>
+                    {isRemoval
+                      ? execution.expiryOf
+                        ? 'expiry'
+                        : 'removal'
+                      : 'assignment'}
+                  </Badge>
+                </td>
+                <td className="p-3">
+                  {isEditing ? (
+                    <Input
+                      type="datetime-local"
+                      value={scheduledFor}
+                      onChange={(e) => setScheduledFor(e.target.value)}
+                    />
+                  ) : (
+                    formatDate(execution.scheduledFor)
+                  )}
+                </td>
+                <td className="p-3">
+                  {isEditing && !isRemoval ? (
+                    <Input
+                      type="datetime-local"
+                      value={expiresAt}
+                      onChange={(e) => setExpiresAt(e.target.value)}
+                    />
+                  ) : execution.expiresAt ? (
+                    formatDate(execution.expiresAt)
+                  ) : (
+                    <span className="text-muted-foreground">-</span>
+                  )}
+                </td>
+                <td className="p-3">
+                  <div
+                    className="max-w-xs truncate"
+                    title={execution.userEmails.join(', ')}
+                  >
+                    {execution.userEmails.join(', ')}
+                  </div>
+                </td>
+                <td className="p-3">{execution.totalProjects}</td>
+                <td className="p-3">
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <div className="flex gap-2">
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          onClick={() => handleSave(execution)}
+                          isLoading={isUpdating}
+                          disabled={!scheduledFor}
+                        >
+                          Save
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingId(null)}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                      {editError && (
+                        <p className="text-xs text-red-600">{editError}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => startEditing(execution)}
+                      >
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCancel(execution)}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
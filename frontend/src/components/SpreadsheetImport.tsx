@@ -0,0 +1,325 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import {
+  FileSpreadsheet,
+  Upload,
+  CheckCircle,
+  XCircle,
+  CheckSquare,
+  Square,
+} from 'lucide-react';
+import { ImportRow, ImportValidationReport } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Alert, AlertDescription } from './ui/Alert';
+import Badge from './ui/Badge';
+import Button from './ui/Button';
+import { parseAssignmentSpreadsheet } from '@/lib/spreadsheet';
+import { downloadCSV } from '@/lib/utils';
+
+interface SpreadsheetImportProps {
+  onValidate: (rows: ImportRow[]) => void;
+  onExecute: (
+    rows: ImportRow[],
+    options: { inviteToAccount: boolean; allowDefaultCompany: boolean }
+  ) => void;
+  report?: ImportValidationReport;
+  isValidating?: boolean;
+  isExecuting?: boolean;
+}
+
+export default function SpreadsheetImport({
+  onValidate,
+  onExecute,
+  report,
+  isValidating = false,
+  isExecuting = false,
+}: SpreadsheetImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [inviteToAccount, setInviteToAccount] = useState(false);
+  const [allowDefaultCompany, setAllowDefaultCompany] = useState(false);
+  const [filterStatus, setFilterStatus] = useState<'all' | 'valid' | 'invalid'>(
+    'all'
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+
+    try {
+      const parsed = await parseAssignmentSpreadsheet(file);
+      setRows(parsed);
+      onValidate(parsed);
+    } catch (error) {
+      setRows([]);
+      setParseError(
+        error instanceof Error ? error.message : 'Failed to read spreadsheet'
+      );
+    }
+
+    // Allow re-selecting the same file after edits
+    e.target.value = '';
+  };
+
+  const validRowNumbers = new Set(
+    report?.rows.filter((r) => r.valid).map((r) => r.rowNumber) ?? []
+  );
+
+  const handleExecute = () => {
+    onExecute(
+      rows.filter((r) => validRowNumbers.has(r.rowNumber)),
+      { inviteToAccount, allowDefaultCompany }
+    );
+  };
+
+  const handleDownloadReport = () => {
+    if (!report) return;
+
+    const csvData = report.rows.map((r) => ({
+      Row: r.rowNumber,
+      Email: r.email,
+      Project: r.projectName || 'N/A',
+      Role: r.roleName || 'N/A',
+      Company: r.companyName || 'N/A',
+      'Access Level': r.accessLevel || 'N/A',
+      Status: r.valid ? 'Valid' : 'Invalid',
+      Errors: r.errors.join('; '),
+    }));
+
+    downloadCSV(csvData, 'import-validation-report.csv');
+  };
+
+  const filteredRows = (report?.rows ?? []).filter((r) => {
+    if (filterStatus === 'valid') return r.valid;
+    if (filterStatus === 'invalid') return !r.valid;
+    return true;
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Upload Spreadsheet
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              CSV or XLSX with columns: email, project (name or ID), role,
+              company, access level, and optionally first name, last name and
+              job title for invitations
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {report && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownloadReport}
+              >
+                Export Report
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              isLoading={isValidating}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {fileName ? 'Choose Another File' : 'Choose File'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {fileName && (
+          <div className="text-sm text-muted-foreground">
+            File: <span className="font-medium">{fileName}</span>
+            {rows.length > 0 && ` (${rows.length} rows)`}
+          </div>
+        )}
+
+        {parseError && (
+          <Alert variant="error">
+            <AlertDescription>{parseError}</AlertDescription>
+          </Alert>
+        )}
+
+        {report && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-blue-50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-blue-900">
+                  {report.summary.total}
+                </div>
+                <div className="text-sm text-blue-700">Rows</div>
+              </div>
+              <div className="bg-green-50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-green-900">
+                  {report.summary.valid}
+                </div>
+                <div className="text-sm text-green-700">Valid</div>
+              </div>
+              <div className="bg-red-50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-red-900">
+                  {report.summary.invalid}
+                </div>
+                <div className="text-sm text-red-700">Invalid</div>
+              </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Filter:</span>
+              <div className="flex gap-2">
+                {[
+                  { value: 'all', label: 'All' },
+                  { value: 'valid', label: 'Valid' },
+                  { value: 'invalid', label: 'Invalid' },
+                ].map((filter) => (
+                  <button
+                    key={filter.value}
+                    onClick={() => setFilterStatus(filter.value as any)}
+                    className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                      filterStatus === filter.value
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {filter.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Validation Report */}
+            <div className="border rounded-lg overflow-hidden">
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Row</th>
+                      <th className="text-left p-3 font-medium">Email</th>
+                      <th className="text-left p-3 font-medium">Project</th>
+                      <th className="text-left p-3 font-medium">Role</th>
+                      <th className="text-left p-3 font-medium">Company</th>
+                      <th className="text-left p-3 font-medium">Access</th>
+                      <th className="text-left p-3 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {filteredRows.map((row) => (
+                      <tr
+                        key={row.rowNumber}
+                        className="hover:bg-muted/50 transition-colors"
+                      >
+                        <td className="p-3 text-muted-foreground">
+                          {row.rowNumber}
+                        </td>
+                        <td className="p-3">{row.email || '-'}</td>
+                        <td className="p-3">{row.projectName || '-'}</td>
+                        <td className="p-3">{row.roleName || '-'}</td>
+                        <td className="p-3">{row.companyName || '-'}</td>
+                        <td className="p-3 capitalize">
+                          {row.accessLevel || '-'}
+                        </td>
+                        <td className="p-3">
+                          {row.valid ? (
+                            <Badge variant="success" className="text-xs">
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Valid
+                            </Badge>
+                          ) : (
+                            <div className="space-y-1">
+                              <Badge variant="error" className="text-xs">
+                                <XCircle className="h-3 w-3 mr-1" />
+                                Invalid
+                              </Badge>
+                              {row.errors.map((err, index) => (
+                                <div
+                                  key={index}
+                                  className="text-xs text-red-600"
+                                >
+                                  {err}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {report.summary.invalid > 0 && (
+              <Alert variant="warning">
+                <AlertDescription>
+                  {report.summary.invalid} row
+                  {report.summary.invalid !== 1 ? 's' : ''} will not be
+                  imported. Fix the spreadsheet and upload it again, or queue
+                  only the valid rows.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Actions */}
+            <div className="flex items-center justify-between gap-3 pt-4 border-t">
+              <div className="space-y-2">
+                <button
+                  type="button"
+                  onClick={() => setInviteToAccount(!inviteToAccount)}
+                  className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors"
+                >
+                  {inviteToAccount ? (
+                    <CheckSquare className="h-5 w-5 text-primary" />
+                  ) : (
+                    <Square className="h-5 w-5 text-muted-foreground" />
+                  )}
+                  Invite emails that aren&apos;t account members
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setAllowDefaultCompany(!allowDefaultCompany)}
+                  className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors"
+                >
+                  {allowDefaultCompany ? (
+                    <CheckSquare className="h-5 w-5 text-primary" />
+                  ) : (
+                    <Square className="h-5 w-5 text-muted-foreground" />
+                  )}
+                  Use the account&apos;s default company for rows without one
+                </button>
+              </div>
+              <Button
+                variant="primary"
+                onClick={handleExecute}
+                isLoading={isExecuting}
+                disabled={report.summary.valid === 0}
+              >
+                Queue {report.summary.valid} Valid Row
+                {report.summary.valid !== 1 ? 's' : ''}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Bookmark, Play, Plus, Trash2 } from 'lucide-react';
+import { ProductAccess, ProjectFilter, Role, RoleTemplate } from '@/types';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import Badge from './ui/Badge';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import ProductAccessEditor, { ACC_PRODUCTS } from './ProductAccessEditor';
+import { cn } from '@/lib/utils';
+
+export interface TemplateDraft {
+  name: string;
+  description?: string;
+  roleId: string;
+  products: ProductAccess[];
+  projectFilter: ProjectFilter | null;
+}
+
+interface TemplateSelectorProps {
+  templates: RoleTemplate[];
+  roles: Role[];
+  selectedRole: string;
+  selectedProjects: string[];
+  memberCount: number;
+  onApply: (template: RoleTemplate) => void;
+  onSave: (draft: TemplateDraft) => Promise<void>;
+  onDelete: (templateId: string) => void;
+  isLoading?: boolean;
+  isApplying?: boolean;
+  isSaving?: boolean;
+}
+
+function describeFilter(filter: ProjectFilter | null): string {
+  if (!filter) return 'Selected projects';
+
+  const parts: string[] = [];
+  if (filter.projectIds?.length) {
+    parts.push(
+      `${filter.projectIds.length} project${filter.projectIds.length !== 1 ? 's' : ''}`
+    );
+  }
+  if (filter.nameContains) parts.push(`name contains "${filter.nameContains}"`);
+  if (filter.platform) parts.push(`${filter.platform} only`);
+  return parts.join(', ');
+}
+
+function productLabel(key: string): string {
+  return ACC_PRODUCTS.find((p) => p.key === key)?.label || key;
+}
+
+export default function TemplateSelector({
+  templates,
+  roles,
+  selectedRole,
+  selectedProjects,
+  memberCount,
+  onApply,
+  onSave,
+  onDelete,
+  isLoading = false,
+  isApplying = false,
+  isSaving = false,
+}: TemplateSelectorProps) {
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(
+    null
+  );
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [products, setProducts] = useState<ProductAccess[]>([]);
+  const [useSelectedProjects, setUseSelectedProjects] = useState(true);
+  const [nameContains, setNameContains] = useState('');
+
+  const selectedTemplate = templates.find((t) => t.id === selectedTemplateId);
+  const roleName = (roleId: string) =>
+    roles.find((r) => r.id === roleId)?.name || roleId;
+
+  const buildProjectFilter = (): ProjectFilter | null => {
+    const filter: ProjectFilter = {};
+    if (useSelectedProjects && selectedProjects.length > 0) {
+      filter.projectIds = selectedProjects;
+    }
+    if (nameContains.trim()) filter.nameContains = nameContains.trim();
+    return Object.keys(filter).length > 0 ? filter : null;
+  };
+
+  const handleSave = async () => {
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        roleId: selectedRole,
+        products,
+        projectFilter: buildProjectFilter(),
+      });
+      setIsCreating(false);
+      setName('');
+      setDescription('');
+      setProducts([]);
+      setNameContains('');
+    } catch {
+      // Error is surfaced by the parent
+    }
+  };
+
+  // Without a project filter the template applies to the current selection
+  const canApply =
+    !!selectedTemplate &&
+    memberCount > 0 &&
+    (!!selectedTemplate.projectFilter || selectedProjects.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bookmark className="h-5 w-5" />
+              Role Templates
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Apply a saved role, product access and project set in one step
+            </p>
+          </div>
+          {!isCreating && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsCreating(true)}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isCreating ? (
+          <div className="space-y-4">
+            <Input
+              placeholder="Template name (e.g. Site Engineer)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              placeholder="Description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+
+            <div className="text-sm">
+              <span className="text-muted-foreground">Role: </span>
+              {selectedRole ? (
+                <span className="font-medium">{roleName(selectedRole)}</span>
+              ) : (
+                <span className="text-amber-700">
+                  Select exactly one role below first
+                </span>
+              )}
+            </div>
+
+            <div>
+              <div className="text-sm font-medium mb-2">Product access</div>
+              <ProductAccessEditor products={products} onChange={setProducts} />
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Projects</div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={useSelectedProjects}
+                  onChange={(e) => setUseSelectedProjects(e.target.checked)}
+                  disabled={selectedProjects.length === 0}
+                />
+                Limit to the {selectedProjects.length} selected project
+                {selectedProjects.length !== 1 ? 's' : ''}
+              </label>
+              <Input
+                placeholder="Project name contains (optional)"
+                value={nameContains}
+                onChange={(e) => setNameContains(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave both empty to use whichever projects are selected when
+                the template is applied.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsCreating(false)}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleSave}
+                isLoading={isSaving}
+                disabled={!name.trim() || !selectedRole}
+              >
+                Save Template
+              </Button>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Loading templates...
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No templates yet. Save the current role and projects as one.
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {templates.map((template) => {
+                const isSelected = selectedTemplateId === template.id;
+
+                return (
+                  <div
+                    key={template.id}
+                    onClick={() =>
+                      setSelectedTemplateId(isSelected ? null : template.id)
+                    }
+                    className={cn(
+                      'p-3 rounded-lg border cursor-pointer transition-all hover:border-primary',
+                      isSelected
+                        ? 'bg-primary/5 border-primary ring-2 ring-primary/20'
+                        : 'bg-background border-border'
+                    )}
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium">{template.name}</div>
+                        {template.description && (
+                          <div className="text-sm text-muted-foreground">
+                            {template.description}
+                          </div>
+                        )}
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {template.roleName || template.roleId} ·{' '}
+                          {describeFilter(template.projectFilter)}
+                        </div>
+                        {template.products.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {template.products.map((p) => (
+                              <Badge
+                                key={p.key}
+                                variant="secondary"
+                                className="text-xs"
+                              >
+                                {productLabel(p.key)}: {p.access}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (confirm(`Delete template "${template.name}"?`)) {
+                            onDelete(template.id);
+                            if (isSelected) setSelectedTemplateId(null);
+                          }
+                        }}
+                        className="text-muted-foreground hover:text-red-600 transition-colors"
+                        aria-label={`Delete ${template.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {selectedTemplate && (
+              <div className="flex items-center justify-between gap-3 pt-4 border-t">
+                <p className="text-sm text-muted-foreground">
+                  {memberCount === 0
+                    ? 'Select members to apply this template'
+                    : `Applies to ${memberCount} member${memberCount !== 1 ? 's' : ''}`}
+                </p>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => onApply(selectedTemplate)}
+                  isLoading={isApplying}
+                  disabled={!canApply}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Apply Template
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import apiClient from '@/lib/api-client';
+import { AuditLogFilters } from '@/types';
+
+export function useAuditLogs(filters: AuditLogFilters = {}, enabled = true) {
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ['auditLogs', filters],
+    queryFn: ({ pageParam }) => apiClient.getAuditLogs(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled,
+  });
+
+  return {
+    entries: data?.pages.flatMap((page) => page.entries) ?? [],
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  };
+}
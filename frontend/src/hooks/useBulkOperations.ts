@@ -1,9 +1,27 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import {
+  InfiniteData,
+  QueryClient,
+  useInfiniteQuery,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query';
 import apiClient from '@/lib/api-client';
 import {
   PreviewRequest,
   BulkAssignmentRequest,
+  BulkRemovalRequest,
+  BulkImportRequest,
+  CloneAccessRequest,
+  MemberCopyRequest,
   JobExecution,
+  JobProgress,
+  JobResult,
+  JobResultFilters,
+  JobResultsPage,
+  JobStatus,
+  ScheduleUpdateRequest,
 } from '@/types';
 
 export function useBulkPreview() {
@@ -27,6 +45,165 @@ export function useBulkAssignment() {
   const mutation = useMutation({
     mutationFn: (data: BulkAssignmentRequest) =>
       apiClient.executeBulkAssignment(data),
+    onSuccess: () => {
+      // Invalidate job history
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['scheduledJobs'] });
+    },
+  });
+
+  return {
+    execute: mutation.mutate,
+    executeAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useBulkRemovalPreview() {
+  const mutation = useMutation({
+    mutationFn: (data: BulkRemovalRequest) =>
+      apiClient.previewBulkRemoval(data),
+  });
+
+  return {
+    preview: mutation.mutate,
+    previewAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useBulkRemoval() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (data: BulkRemovalRequest) =>
+      apiClient.executeBulkRemoval(data),
+    onSuccess: () => {
+      // Invalidate job history
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+    },
+  });
+
+  return {
+    execute: mutation.mutate,
+    executeAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useImportValidation() {
+  const mutation = useMutation({
+    mutationFn: (data: BulkImportRequest) => apiClient.validateImport(data),
+  });
+
+  return {
+    validate: mutation.mutate,
+    validateAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useBulkImport() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (data: BulkImportRequest) => apiClient.executeImport(data),
+    onSuccess: () => {
+      // Invalidate job history
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+    },
+  });
+
+  return {
+    execute: mutation.mutate,
+    executeAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useClonePreview() {
+  const mutation = useMutation({
+    mutationFn: (data: CloneAccessRequest) => apiClient.previewCloneAccess(data),
+  });
+
+  return {
+    preview: mutation.mutate,
+    previewAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useCloneAccess() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (data: CloneAccessRequest) => apiClient.executeCloneAccess(data),
+    onSuccess: () => {
+      // Invalidate job history
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+    },
+  });
+
+  return {
+    execute: mutation.mutate,
+    executeAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useMemberCopyPreview() {
+  const mutation = useMutation({
+    mutationFn: ({
+      projectId,
+      data,
+    }: {
+      projectId: string;
+      data: MemberCopyRequest;
+    }) => apiClient.previewMemberCopy(projectId, data),
+  });
+
+  return {
+    preview: mutation.mutate,
+    previewAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useMemberCopy() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({
+      projectId,
+      data,
+    }: {
+      projectId: string;
+      data: MemberCopyRequest;
+    }) => apiClient.executeMemberCopy(projectId, data),
     onSuccess: () => {
       // Invalidate job history
       queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
@@ -43,6 +220,46 @@ export function useBulkAssignment() {
   };
 }
 
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'partial_success', 'cancelled'];
+
+/**
+ * Apply streamed results to the result pages loaded for an execution
+ * Loaded rows are replaced in place. A fully loaded list that is missing an
+ * updated row (e.g. a newly failed result on the Failed tab) is re-read
+ */
+function applyResultUpdates(
+  queryClient: QueryClient,
+  executionId: string,
+  updates: JobResult[]
+) {
+  queryClient
+    .getQueriesData<InfiniteData<JobResultsPage>>({ queryKey: ['jobResults', executionId] })
+    .forEach(([queryKey, data]) => {
+      if (!data) return;
+
+      const unseen = new Map(updates.map((r) => [r.id, r]));
+      const pages = data.pages.map((page) => ({
+        ...page,
+        results: page.results.map((r) => {
+          const update = unseen.get(r.id);
+          unseen.delete(r.id);
+          return update ?? r;
+        }),
+      }));
+
+      if (unseen.size > 0 && data.pages[data.pages.length - 1]?.nextCursor === null) {
+        queryClient.invalidateQueries({ queryKey, exact: true });
+      } else {
+        queryClient.setQueryData(queryKey, { ...data, pages });
+      }
+    });
+}
+
+/**
+ * Live status of a job execution
+ * Running jobs are followed over the status stream; polling takes over if the
+ * stream cannot be opened or drops
+ */
 export function useJobStatus(
   executionId: string | null,
   options?: {
@@ -50,33 +267,217 @@ export function useJobStatus(
     enabled?: boolean;
   }
 ) {
+  const queryClient = useQueryClient();
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamFailedFor, setStreamFailedFor] = useState<string | null>(null);
+  const enabled = !!executionId && (options?.enabled ?? true);
+
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['jobStatus', executionId],
     queryFn: () => apiClient.getJobStatus(executionId!),
-    enabled: !!executionId && (options?.enabled ?? true),
+    enabled,
     refetchInterval: (query) => {
       const data = query.state.data as JobExecution | undefined;
-      // Stop polling if job is complete
-      if (
-        data?.status === 'completed' ||
-        data?.status === 'failed' ||
-        data?.status === 'partial_success' ||
-        data?.status === 'cancelled'
-      ) {
+      // Stop polling if job is complete or streaming
+      if ((data && FINISHED_STATUSES.includes(data.status)) || isStreaming) {
         return false;
       }
+      // Scheduled jobs sit in pending until they are due
+      if (data?.scheduledFor && new Date(data.scheduledFor) > new Date()) {
+        return options?.refetchInterval ?? 60000;
+      }
       return options?.refetchInterval ?? 2000; // Poll every 2 seconds
     },
   });
 
+  // Callers that turned polling off get no live updates either
+  const shouldStream =
+    enabled &&
+    options?.refetchInterval !== 0 &&
+    !!data &&
+    !FINISHED_STATUSES.includes(data.status) &&
+    !(data.scheduledFor && new Date(data.scheduledFor) > new Date()) &&
+    streamFailedFor !== executionId &&
+    typeof EventSource !== 'undefined';
+
+  useEffect(() => {
+    if (!shouldStream || !executionId) return;
+
+    const queryKey = ['jobStatus', executionId];
+    const update = (apply: (current: JobExecution) => JobExecution) =>
+      queryClient.setQueryData<JobExecution>(queryKey, (current) =>
+        current ? apply(current) : current
+      );
+
+    const source = new EventSource(apiClient.getJobStatusStreamUrl(executionId));
+
+    source.addEventListener('open', () => setIsStreaming(true));
+    source.addEventListener('snapshot', (event) => {
+      queryClient.setQueryData(queryKey, JSON.parse(event.data));
+    });
+    source.addEventListener('results', (event) => {
+      applyResultUpdates(queryClient, executionId, JSON.parse(event.data));
+    });
+    source.addEventListener('counts', (event) => {
+      const { resultCounts, errorCodes } = JSON.parse(event.data);
+      update((current) => ({ ...current, resultCounts, errorCodes }));
+    });
+    source.addEventListener('progress', (event) => {
+      const progress: JobProgress = JSON.parse(event.data);
+      update((current) => ({
+        ...current,
+        status: current.status === 'pending' ? 'processing' : current.status,
+        progress,
+      }));
+    });
+    source.addEventListener('done', (event) => {
+      const { status, progress, completedAt } = JSON.parse(event.data);
+      source.close();
+      setIsStreaming(false);
+      update((current) => ({ ...current, status, progress, completedAt }));
+      // Retries and expiry links are only in the full status
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['jobResults', executionId] });
+    });
+    source.onerror = () => {
+      source.close();
+      setIsStreaming(false);
+      setStreamFailedFor(executionId);
+    };
+
+    return () => {
+      source.close();
+      setIsStreaming(false);
+    };
+  }, [shouldStream, executionId, queryClient]);
+
   return {
     jobExecution: data || null,
     isLoading,
     error,
+    isStreaming,
+    refetch,
+  };
+}
+
+/**
+ * An execution's results, loaded a page at a time
+ * Changing the filters starts again from the first page
+ */
+export function useJobResults(
+  executionId: string | null,
+  filters: JobResultFilters = {}
+) {
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ['jobResults', executionId, filters],
+    queryFn: ({ pageParam }) =>
+      apiClient.getJobResults(executionId!, filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!executionId,
+  });
+
+  return {
+    results: data?.pages.flatMap((page) => page.results) ?? [],
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  };
+}
+
+export function useCancelJob() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (executionId: string) => apiClient.cancelJob(executionId),
+    onSuccess: (_data, executionId) => {
+      queryClient.invalidateQueries({ queryKey: ['jobStatus', executionId] });
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['scheduledJobs'] });
+    },
+  });
+
+  return {
+    cancel: mutation.mutate,
+    cancelAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useRetryJob() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (executionId: string) => apiClient.retryJob(executionId),
+    onSuccess: (_data, executionId) => {
+      queryClient.invalidateQueries({ queryKey: ['jobStatus', executionId] });
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+    },
+  });
+
+  return {
+    retry: mutation.mutate,
+    retryAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useScheduledJobs() {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['scheduledJobs'],
+    queryFn: () => apiClient.getScheduledJobs(),
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+
+  return {
+    executions: data?.executions || [],
+    isLoading,
+    error,
     refetch,
   };
 }
 
+export function useUpdateSchedule() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({
+      executionId,
+      data,
+    }: {
+      executionId: string;
+      data: ScheduleUpdateRequest;
+    }) => apiClient.updateSchedule(executionId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scheduledJobs'] });
+    },
+  });
+
+  return {
+    update: mutation.mutate,
+    updateAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
 export function useJobHistory(limit = 20, offset = 0) {
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['jobHistory', limit, offset],
@@ -0,0 +1,164 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '@/lib/api-client';
+import { AccessManifestRequest, ReconcileRequest } from '@/types';
+
+export function useManifests(accountId: string | null) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['manifests', accountId],
+    queryFn: () => apiClient.getManifests(accountId!),
+    enabled: !!accountId,
+  });
+
+  return {
+    manifests: data?.manifests || [],
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+export function useManifest(accountId: string | null, manifestId: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['manifest', manifestId, accountId],
+    queryFn: () => apiClient.getManifest(manifestId!, accountId!),
+    enabled: !!accountId && !!manifestId,
+  });
+
+  return {
+    manifest: data,
+    isLoading,
+    error,
+  };
+}
+
+export function useManifestVersions(accountId: string | null, manifestId: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['manifestVersions', manifestId, accountId],
+    queryFn: () => apiClient.getManifestVersions(manifestId!, accountId!),
+    enabled: !!accountId && !!manifestId,
+  });
+
+  return {
+    versions: data?.versions || [],
+    isLoading,
+    error,
+  };
+}
+
+export function useManifestVersion(
+  accountId: string | null,
+  manifestId: string | null,
+  version: number | null
+) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['manifestVersion', manifestId, version, accountId],
+    queryFn: () => apiClient.getManifestVersion(manifestId!, accountId!, version!),
+    enabled: !!accountId && !!manifestId && version !== null,
+  });
+
+  return {
+    manifestVersion: data,
+    isLoading,
+    error,
+  };
+}
+
+export function useDriftReports(accountId: string | null, manifestId: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['driftReports', manifestId, accountId],
+    queryFn: () => apiClient.getDriftReports(manifestId!, accountId!),
+    enabled: !!accountId && !!manifestId,
+  });
+
+  return {
+    reports: data?.reports || [],
+    isLoading,
+    error,
+  };
+}
+
+export function useSaveManifest() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    // Without a manifest ID a new manifest is created
+    mutationFn: ({
+      manifestId,
+      data,
+    }: {
+      manifestId: string | null;
+      data: AccessManifestRequest;
+    }) =>
+      manifestId
+        ? apiClient.updateManifest(manifestId, data)
+        : apiClient.createManifest(data),
+    onSuccess: (manifest) => {
+      queryClient.invalidateQueries({ queryKey: ['manifests'] });
+      queryClient.invalidateQueries({ queryKey: ['manifest', manifest.id] });
+      queryClient.invalidateQueries({ queryKey: ['manifestVersions', manifest.id] });
+    },
+  });
+
+  return {
+    save: mutation.mutate,
+    saveAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useDeleteManifest() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({ manifestId, accountId }: { manifestId: string; accountId: string }) =>
+      apiClient.deleteManifest(manifestId, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['manifests'] });
+    },
+  });
+
+  return {
+    remove: mutation.mutate,
+    removeAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+  };
+}
+
+export function useReconcilePlan() {
+  const mutation = useMutation({
+    mutationFn: (data: ReconcileRequest) => apiClient.planReconcile(data),
+  });
+
+  return {
+    plan: mutation.mutate,
+    planAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useReconcileApply() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (data: ReconcileRequest) => apiClient.applyReconcile(data),
+    onSuccess: () => {
+      // Invalidate job history
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+    },
+  });
+
+  return {
+    apply: mutation.mutate,
+    applyAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
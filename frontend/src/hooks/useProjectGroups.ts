@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '@/lib/api-client';
+import { ProjectGroupRequest } from '@/types';
+
+export function useProjectGroups(accountId: string | null) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['projectGroups', accountId],
+    queryFn: () => apiClient.getProjectGroups(accountId!),
+    enabled: !!accountId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    groups: data?.groups || [],
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+export function useCreateProjectGroup() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (data: ProjectGroupRequest) => apiClient.createProjectGroup(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectGroups'] });
+    },
+  });
+
+  return {
+    create: mutation.mutate,
+    createAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useDeleteProjectGroup() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({ groupId, accountId }: { groupId: string; accountId: string }) =>
+      apiClient.deleteProjectGroup(groupId, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectGroups'] });
+    },
+  });
+
+  return {
+    remove: mutation.mutate,
+    removeAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+  };
+}
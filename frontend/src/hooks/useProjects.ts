@@ -1,5 +1,12 @@
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import {
+  useQuery,
+  useQueries,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query';
 import apiClient from '@/lib/api-client';
+import { ProjectListOptions } from '@/types';
 
 export function useAccounts() {
   const { data, isLoading, error, refetch } = useQuery({
@@ -16,10 +23,13 @@ export function useAccounts() {
   };
 }
 
-export function useProjects(accountId: string | null) {
+export function useProjects(
+  accountId: string | null,
+  options: ProjectListOptions = {}
+) {
   const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ['projects', accountId],
-    queryFn: () => apiClient.getProjects(accountId || undefined),
+    queryKey: ['projects', accountId, options],
+    queryFn: () => apiClient.getProjects(accountId || undefined, options),
     enabled: !!accountId,
     staleTime: 2 * 60 * 1000, // 2 minutes
   });
@@ -92,3 +102,76 @@ export function useAccountRoles(accountId: string | null) {
     refetch,
   };
 }
+
+export function useAccountCompanies(accountId: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['accountCompanies', accountId],
+    queryFn: () => apiClient.getAccountCompanies(accountId || undefined),
+    enabled: !!accountId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  return {
+    companies: data?.companies || [],
+    isLoading,
+    error,
+  };
+}
+
+// One request per member; each checks every project in the account
+export function useMemberAccess(accountId: string | null, emails: string[]) {
+  const queries = useQueries({
+    queries: emails.map((email) => ({
+      queryKey: ['memberAccess', accountId, email],
+      queryFn: () => apiClient.getMemberAccess(email, accountId || undefined),
+      enabled: !!accountId,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    })),
+  });
+
+  return {
+    reports: queries.flatMap((q) => (q.data ? [q.data] : [])),
+    loadingEmails: emails.filter((_, i) => queries[i].isLoading),
+    errors: emails.flatMap((email, i) =>
+      queries[i].error ? [{ email, error: queries[i].error as Error }] : []
+    ),
+  };
+}
+
+export function useMembershipSync(accountId: string | null) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['membershipSync', accountId],
+    queryFn: () => apiClient.getSyncStatus(accountId || undefined),
+    enabled: !!accountId,
+    // Poll while a sync is queued or running
+    refetchInterval: (query) =>
+      query.state.data?.syncInProgress ? 5000 : false,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (force: boolean) => apiClient.syncMemberships(accountId!, force),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['membershipSync', accountId] });
+    },
+  });
+
+  // Access reports read the cache, so reload them once a sync finishes
+  const wasSyncing = useRef(false);
+  useEffect(() => {
+    const syncing = !!data?.syncInProgress;
+    if (wasSyncing.current && !syncing) {
+      queryClient.invalidateQueries({ queryKey: ['memberAccess', accountId] });
+    }
+    wasSyncing.current = syncing;
+  }, [data?.syncInProgress, accountId, queryClient]);
+
+  return {
+    status: data || null,
+    isLoading,
+    error,
+    sync: mutation.mutate,
+    isSyncing: mutation.isPending || !!data?.syncInProgress,
+  };
+}
@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '@/lib/api-client';
+import { AccessReviewRequest, ReviewDecisionInput } from '@/types';
+
+export function useReviewCampaigns(accountId: string | null) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['reviewCampaigns', accountId],
+    queryFn: () => apiClient.getReviewCampaigns(accountId!),
+    enabled: !!accountId,
+  });
+
+  return {
+    campaigns: data?.campaigns || [],
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+export function useReviewCampaign(accountId: string | null, campaignId: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['reviewCampaign', campaignId, accountId],
+    queryFn: () => apiClient.getReviewCampaign(campaignId!, accountId!),
+    enabled: !!accountId && !!campaignId,
+  });
+
+  return {
+    campaign: data,
+    isLoading,
+    error,
+  };
+}
+
+export function useReviewItems(
+  accountId: string | null,
+  campaignId: string | null,
+  projectId: string | null
+) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['reviewItems', campaignId, projectId, accountId],
+    queryFn: () => apiClient.getReviewItems(campaignId!, accountId!, projectId!),
+    enabled: !!accountId && !!campaignId && !!projectId,
+  });
+
+  return {
+    items: data?.items || [],
+    isLoading,
+    error,
+  };
+}
+
+export function useCreateReviewCampaign() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (data: AccessReviewRequest) => apiClient.createReviewCampaign(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reviewCampaigns'] });
+    },
+  });
+
+  return {
+    create: mutation.mutate,
+    createAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useReviewDecisions() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({
+      campaignId,
+      accountId,
+      decisions,
+    }: {
+      campaignId: string;
+      accountId: string;
+      decisions: ReviewDecisionInput[];
+    }) => apiClient.submitReviewDecisions(campaignId, accountId, decisions),
+    onSuccess: (_data, { campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ['reviewItems', campaignId] });
+      queryClient.invalidateQueries({ queryKey: ['reviewCampaign', campaignId] });
+      queryClient.invalidateQueries({ queryKey: ['reviewCampaigns'] });
+    },
+  });
+
+  return {
+    decide: mutation.mutate,
+    decideAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+  };
+}
+
+export function useCloseReviewCampaign() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({ campaignId, accountId }: { campaignId: string; accountId: string }) =>
+      apiClient.closeReviewCampaign(campaignId, accountId),
+    onSuccess: (_data, { campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ['reviewCampaign', campaignId] });
+      queryClient.invalidateQueries({ queryKey: ['reviewCampaigns'] });
+      // Invalidate job history
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+    },
+  });
+
+  return {
+    close: mutation.mutate,
+    closeAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+  };
+}
@@ -0,0 +1,111 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '@/lib/api-client';
+import { RoleTemplateRequest, ApplyTemplateRequest } from '@/types';
+
+export function useRoleTemplates(accountId: string | null) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['roleTemplates', accountId],
+    queryFn: () => apiClient.getTemplates(accountId!),
+    enabled: !!accountId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    templates: data?.templates || [],
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+export function useCreateTemplate() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (data: RoleTemplateRequest) => apiClient.createTemplate(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roleTemplates'] });
+    },
+  });
+
+  return {
+    create: mutation.mutate,
+    createAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useUpdateTemplate() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({
+      templateId,
+      data,
+    }: {
+      templateId: string;
+      data: RoleTemplateRequest;
+    }) => apiClient.updateTemplate(templateId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roleTemplates'] });
+    },
+  });
+
+  return {
+    update: mutation.mutate,
+    updateAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
+
+export function useDeleteTemplate() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({ templateId, accountId }: { templateId: string; accountId: string }) =>
+      apiClient.deleteTemplate(templateId, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roleTemplates'] });
+    },
+  });
+
+  return {
+    remove: mutation.mutate,
+    removeAsync: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+  };
+}
+
+export function useApplyTemplate() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({
+      templateId,
+      data,
+    }: {
+      templateId: string;
+      data: ApplyTemplateRequest;
+    }) => apiClient.applyTemplate(templateId, data),
+    onSuccess: () => {
+      // Invalidate job history
+      queryClient.invalidateQueries({ queryKey: ['jobHistory'] });
+    },
+  });
+
+  return {
+    apply: mutation.mutate,
+    applyAsync: mutation.mutateAsync,
+    data: mutation.data,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
@@ -4,19 +4,64 @@ import {
   Account,
   Project,
   Role,
+  Company,
   AccountMember,
+  MemberAccessReport,
+  MembershipSyncStatus,
   PreviewRequest,
   PreviewResponse,
   BulkAssignmentRequest,
   BulkAssignmentResponse,
+  CancelJobResponse,
+  RetryJobResponse,
+  ScheduledExecution,
+  ScheduleUpdateRequest,
+  BulkRemovalRequest,
+  RemovalPreviewResponse,
+  BulkImportRequest,
+  ImportValidationReport,
+  CloneAccessRequest,
+  ClonePreviewResponse,
+  MemberCopyRequest,
+  MemberCopyPreviewResponse,
   JobExecution,
   JobHistoryItem,
+  JobResult,
+  JobResultFilters,
+  JobResultsPage,
+  AuditLogEntry,
+  AuditLogExport,
+  AuditLogFilters,
+  AuditLogPage,
+  RoleTemplate,
+  RoleTemplateRequest,
+  ApplyTemplateRequest,
+  ProjectGroup,
+  ProjectGroupRequest,
+  ProjectListOptions,
+  AccessManifest,
+  AccessManifestDetail,
+  AccessManifestRequest,
+  ManifestVersion,
+  DriftReport,
+  ReconcileRequest,
+  ReconcilePlan,
+  ReconcileApplyResponse,
+  AccessReviewCampaign,
+  AccessReviewCampaignDetail,
+  AccessReviewItem,
+  AccessReviewRequest,
+  ReviewDecisionInput,
+  CloseReviewResponse,
 } from '@/types';
 
 // Use relative URL to go through Next.js proxy (configured in next.config.js)
 // This ensures cookies work properly (same-origin requests)
 const API_BASE_URL = '';
 
+// Most audit log entries one export downloads
+export const MAX_AUDIT_EXPORT_ENTRIES = 10000;
+
 class ApiClient {
   private client: AxiosInstance;
 
@@ -75,9 +120,12 @@ class ApiClient {
   // Projects
   // ============================================================================
 
-  async getProjects(accountId?: string): Promise<{ projects: Project[] }> {
+  async getProjects(
+    accountId?: string,
+    options: ProjectListOptions = {}
+  ): Promise<{ projects: Project[] }> {
     const response = await this.client.get('/api/projects', {
-      params: accountId ? { accountId } : undefined,
+      params: { accountId, ...options },
     });
     return response.data;
   }
@@ -108,6 +156,35 @@ class ApiClient {
     return response.data;
   }
 
+  async getMemberAccess(
+    email: string,
+    accountId?: string
+  ): Promise<MemberAccessReport> {
+    const response = await this.client.get(
+      `/api/account/members/${encodeURIComponent(email)}/access`,
+      { params: accountId ? { accountId } : undefined }
+    );
+    return response.data;
+  }
+
+  async getSyncStatus(accountId?: string): Promise<MembershipSyncStatus> {
+    const response = await this.client.get('/api/account/sync', {
+      params: accountId ? { accountId } : undefined,
+    });
+    return response.data;
+  }
+
+  async syncMemberships(
+    accountId: string,
+    force = false
+  ): Promise<{ jobId: string; message: string }> {
+    const response = await this.client.post('/api/account/sync', {
+      accountId,
+      force,
+    });
+    return response.data;
+  }
+
   async getAccountRoles(accountId?: string): Promise<{ roles: Role[] }> {
     const response = await this.client.get('/api/account/roles', {
       params: accountId ? { accountId } : undefined,
@@ -115,6 +192,15 @@ class ApiClient {
     return response.data;
   }
 
+  async getAccountCompanies(
+    accountId?: string
+  ): Promise<{ companies: Company[] }> {
+    const response = await this.client.get('/api/account/companies', {
+      params: accountId ? { accountId } : undefined,
+    });
+    return response.data;
+  }
+
   // ============================================================================
   // Bulk Operations
   // ============================================================================
@@ -133,11 +219,372 @@ class ApiClient {
     return response.data;
   }
 
+  async previewBulkRemoval(
+    data: BulkRemovalRequest
+  ): Promise<RemovalPreviewResponse> {
+    const response = await this.client.post('/api/bulk/remove/preview', data);
+    return response.data;
+  }
+
+  async executeBulkRemoval(
+    data: BulkRemovalRequest
+  ): Promise<BulkAssignmentResponse> {
+    const response = await this.client.post('/api/bulk/remove', data);
+    return response.data;
+  }
+
+  async validateImport(
+    data: BulkImportRequest
+  ): Promise<ImportValidationReport> {
+    const response = await this.client.post('/api/bulk/import/validate', data);
+    return response.data;
+  }
+
+  async executeImport(
+    data: BulkImportRequest
+  ): Promise<BulkAssignmentResponse> {
+    const response = await this.client.post('/api/bulk/import', data);
+    return response.data;
+  }
+
+  async previewCloneAccess(
+    data: CloneAccessRequest
+  ): Promise<ClonePreviewResponse> {
+    const response = await this.client.post('/api/bulk/clone-access/preview', data);
+    return response.data;
+  }
+
+  async executeCloneAccess(
+    data: CloneAccessRequest
+  ): Promise<BulkAssignmentResponse> {
+    const response = await this.client.post('/api/bulk/clone-access', data);
+    return response.data;
+  }
+
+  async previewMemberCopy(
+    projectId: string,
+    data: MemberCopyRequest
+  ): Promise<MemberCopyPreviewResponse> {
+    const response = await this.client.post(
+      `/api/projects/${projectId}/copy-members/preview`,
+      data
+    );
+    return response.data;
+  }
+
+  async executeMemberCopy(
+    projectId: string,
+    data: MemberCopyRequest
+  ): Promise<BulkAssignmentResponse> {
+    const response = await this.client.post(
+      `/api/projects/${projectId}/copy-members`,
+      data
+    );
+    return response.data;
+  }
+
+  // ============================================================================
+  // Role Templates
+  // ============================================================================
+
+  async getTemplates(accountId: string): Promise<{ templates: RoleTemplate[] }> {
+    const response = await this.client.get('/api/templates', {
+      params: { accountId },
+    });
+    return response.data;
+  }
+
+  async createTemplate(data: RoleTemplateRequest): Promise<RoleTemplate> {
+    const response = await this.client.post('/api/templates', data);
+    return response.data;
+  }
+
+  async updateTemplate(
+    templateId: string,
+    data: RoleTemplateRequest
+  ): Promise<RoleTemplate> {
+    const response = await this.client.put(`/api/templates/${templateId}`, data);
+    return response.data;
+  }
+
+  async deleteTemplate(templateId: string, accountId: string): Promise<void> {
+    await this.client.delete(`/api/templates/${templateId}`, {
+      params: { accountId },
+    });
+  }
+
+  async applyTemplate(
+    templateId: string,
+    data: ApplyTemplateRequest
+  ): Promise<BulkAssignmentResponse> {
+    const response = await this.client.post(
+      `/api/templates/${templateId}/apply`,
+      data
+    );
+    return response.data;
+  }
+
+  // ============================================================================
+  // Project Groups
+  // ============================================================================
+
+  async getProjectGroups(accountId: string): Promise<{ groups: ProjectGroup[] }> {
+    const response = await this.client.get('/api/project-groups', {
+      params: { accountId },
+    });
+    return response.data;
+  }
+
+  async createProjectGroup(data: ProjectGroupRequest): Promise<ProjectGroup> {
+    const response = await this.client.post('/api/project-groups', data);
+    return response.data;
+  }
+
+  async deleteProjectGroup(groupId: string, accountId: string): Promise<void> {
+    await this.client.delete(`/api/project-groups/${groupId}`, {
+      params: { accountId },
+    });
+  }
+
+  // ============================================================================
+  // Access Manifests
+  // ============================================================================
+
+  async getManifests(accountId: string): Promise<{ manifests: AccessManifest[] }> {
+    const response = await this.client.get('/api/manifests', {
+      params: { accountId },
+    });
+    return response.data;
+  }
+
+  async getManifest(manifestId: string, accountId: string): Promise<AccessManifestDetail> {
+    const response = await this.client.get(`/api/manifests/${manifestId}`, {
+      params: { accountId },
+    });
+    return response.data;
+  }
+
+  async createManifest(data: AccessManifestRequest): Promise<AccessManifest> {
+    const response = await this.client.post('/api/manifests', data);
+    return response.data;
+  }
+
+  async updateManifest(
+    manifestId: string,
+    data: AccessManifestRequest
+  ): Promise<AccessManifest> {
+    const response = await this.client.put(`/api/manifests/${manifestId}`, data);
+    return response.data;
+  }
+
+  async deleteManifest(manifestId: string, accountId: string): Promise<void> {
+    await this.client.delete(`/api/manifests/${manifestId}`, {
+      params: { accountId },
+    });
+  }
+
+  async getManifestVersions(
+    manifestId: string,
+    accountId: string
+  ): Promise<{ manifestId: string; versions: ManifestVersion[] }> {
+    const response = await this.client.get(`/api/manifests/${manifestId}/versions`, {
+      params: { accountId },
+    });
+    return response.data;
+  }
+
+  async getManifestVersion(
+    manifestId: string,
+    accountId: string,
+    version: number
+  ): Promise<ManifestVersion> {
+    const response = await this.client.get(
+      `/api/manifests/${manifestId}/versions/${version}`,
+      { params: { accountId } }
+    );
+    return response.data;
+  }
+
+  async getDriftReports(
+    manifestId: string,
+    accountId: string
+  ): Promise<{ manifestId: string; reports: DriftReport[] }> {
+    const response = await this.client.get(`/api/manifests/${manifestId}/drift`, {
+      params: { accountId },
+    });
+    return response.data;
+  }
+
+  async planReconcile(data: ReconcileRequest): Promise<ReconcilePlan> {
+    const response = await this.client.post('/api/reconcile/plan', data);
+    return response.data;
+  }
+
+  async applyReconcile(data: ReconcileRequest): Promise<ReconcileApplyResponse> {
+    const response = await this.client.post('/api/reconcile/apply', data);
+    return response.data;
+  }
+
+  // ============================================================================
+  // Access Reviews
+  // ============================================================================
+
+  async getReviewCampaigns(
+    accountId: string
+  ): Promise<{ campaigns: AccessReviewCampaign[] }> {
+    const response = await this.client.get('/api/reviews', {
+      params: { accountId },
+    });
+    return response.data;
+  }
+
+  async getReviewCampaign(
+    campaignId: string,
+    accountId: string
+  ): Promise<AccessReviewCampaignDetail> {
+    const response = await this.client.get(`/api/reviews/${campaignId}`, {
+      params: { accountId },
+    });
+    return response.data;
+  }
+
+  async createReviewCampaign(
+    data: AccessReviewRequest
+  ): Promise<
+    AccessReviewCampaign & {
+      failedProjects: { projectId: string; projectName: string; error: string }[];
+    }
+  > {
+    const response = await this.client.post('/api/reviews', data);
+    return response.data;
+  }
+
+  async getReviewItems(
+    campaignId: string,
+    accountId: string,
+    projectId?: string
+  ): Promise<{ campaignId: string; items: AccessReviewItem[] }> {
+    const response = await this.client.get(`/api/reviews/${campaignId}/items`, {
+      params: { accountId, projectId },
+    });
+    return response.data;
+  }
+
+  async submitReviewDecisions(
+    campaignId: string,
+    accountId: string,
+    decisions: ReviewDecisionInput[]
+  ): Promise<{ updated: number; campaign: AccessReviewCampaign }> {
+    const response = await this.client.post(`/api/reviews/${campaignId}/decisions`, {
+      accountId,
+      decisions,
+    });
+    return response.data;
+  }
+
+  async closeReviewCampaign(
+    campaignId: string,
+    accountId: string
+  ): Promise<CloseReviewResponse> {
+    const response = await this.client.post(`/api/reviews/${campaignId}/close`, {
+      accountId,
+    });
+    return response.data;
+  }
+
+  // ============================================================================
+  // Audit Log
+  // ============================================================================
+
+  async getAuditLogs(
+    filters: AuditLogFilters = {},
+    cursor?: string,
+    limit = 50
+  ): Promise<AuditLogPage> {
+    const response = await this.client.get('/api/audit', {
+      params: { ...filters, cursor, limit },
+    });
+    return response.data;
+  }
+
+  // Entries matching the filters for export, newest first, up to MAX_AUDIT_EXPORT_ENTRIES
+  async getAllAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogExport> {
+    const entries: AuditLogEntry[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getAuditLogs(filters, cursor, 200);
+      entries.push(...page.entries);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor && entries.length < MAX_AUDIT_EXPORT_ENTRIES);
+    return {
+      entries: entries.slice(0, MAX_AUDIT_EXPORT_ENTRIES),
+      truncated: !!cursor || entries.length > MAX_AUDIT_EXPORT_ENTRIES,
+    };
+  }
+
   async getJobStatus(executionId: string): Promise<JobExecution> {
     const response = await this.client.get(`/api/bulk/status/${executionId}`);
     return response.data;
   }
 
+  async getJobResults(
+    executionId: string,
+    filters: JobResultFilters = {},
+    cursor?: string,
+    limit = 50
+  ): Promise<JobResultsPage> {
+    const response = await this.client.get(`/api/bulk/${executionId}/results`, {
+      params: { ...filters, cursor, limit },
+    });
+    return response.data;
+  }
+
+  // Every result matching the filters, e.g. for export
+  async getAllJobResults(
+    executionId: string,
+    filters: JobResultFilters = {}
+  ): Promise<JobResult[]> {
+    const results: JobResult[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getJobResults(executionId, filters, cursor, 200);
+      results.push(...page.results);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return results;
+  }
+
+  // EventSource URL for live status; events are snapshot, results, progress and done
+  getJobStatusStreamUrl(executionId: string): string {
+    return `${API_BASE_URL}/api/bulk/status/${executionId}/stream`;
+  }
+
+  async cancelJob(executionId: string): Promise<CancelJobResponse> {
+    const response = await this.client.post(`/api/bulk/${executionId}/cancel`);
+    return response.data;
+  }
+
+  async retryJob(executionId: string): Promise<RetryJobResponse> {
+    const response = await this.client.post(`/api/bulk/${executionId}/retry`);
+    return response.data;
+  }
+
+  async getScheduledJobs(): Promise<{ executions: ScheduledExecution[] }> {
+    const response = await this.client.get('/api/bulk/scheduled');
+    return response.data;
+  }
+
+  async updateSchedule(
+    executionId: string,
+    data: ScheduleUpdateRequest
+  ): Promise<{ executionId: string; scheduledFor: Date; expiresAt: Date | null }> {
+    const response = await this.client.patch(
+      `/api/bulk/${executionId}/schedule`,
+      data
+    );
+    return response.data;
+  }
+
   async getJobHistory(
     limit = 20,
     offset = 0
@@ -64,3 +64,52 @@ export async function proxyRequest(
     );
   }
 }
+
+/**
+ * Proxy a Server-Sent Events stream without buffering it
+ * Error responses are passed through as-is
+ */
+export async function proxyStream(
+  request: NextRequest,
+  path: string
+): Promise<Response> {
+  try {
+    const sessionCookie = request.cookies.get('connect.sid');
+
+    const headers: HeadersInit = {
+      Accept: 'text/event-stream',
+    };
+
+    if (sessionCookie) {
+      headers['Cookie'] = `connect.sid=${sessionCookie.value}`;
+    }
+
+    const response = await fetch(`${BACKEND_URL}${path}`, {
+      headers,
+      // Closing the browser's connection closes the backend stream
+      signal: request.signal,
+      cache: 'no-store',
+    });
+
+    if (!response.ok || !response.body) {
+      return new NextResponse(await response.text(), {
+        status: response.status,
+        headers: { 'Content-Type': response.headers.get('content-type') || 'text/plain' },
+      });
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error(`Stream proxy error for ${path}:`, error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import * as XLSX from 'xlsx';
+import { ImportRow } from '@/types';
+
+type ImportField = Exclude<keyof ImportRow, 'rowNumber'>;
+
+// Accepted column headers (compared lower-cased and trimmed)
+const HEADER_ALIASES: Record<string, ImportField> = {
+  email: 'email',
+  'e-mail': 'email',
+  'user email': 'email',
+  project: 'project',
+  'project name': 'project',
+  'project id': 'project',
+  'project name or id': 'project',
+  role: 'role',
+  'role name': 'role',
+  company: 'company',
+  'company name': 'company',
+  'access level': 'accessLevel',
+  access: 'accessLevel',
+  accesslevel: 'accessLevel',
+  'first name': 'firstName',
+  firstname: 'firstName',
+  'last name': 'lastName',
+  lastname: 'lastName',
+  'job title': 'jobTitle',
+  title: 'jobTitle',
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['email', 'project', 'role'];
+
+/**
+ * Parse a CSV or XLSX assignment sheet into import rows.
+ * Reads the first worksheet; row numbers match the spreadsheet (header = row 1).
+ */
+export async function parseAssignmentSpreadsheet(
+  file: File
+): Promise<ImportRow[]> {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+
+  if (!sheet) {
+    throw new Error('The file does not contain any worksheets');
+  }
+
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+    defval: '',
+    raw: false,
+  });
+
+  if (records.length === 0) {
+    throw new Error('The file does not contain any rows');
+  }
+
+  // Map the sheet's headers onto import fields
+  const columns = new Map<string, ImportField>();
+  Object.keys(records[0]).forEach((header) => {
+    const field = HEADER_ALIASES[header.trim().toLowerCase()];
+    if (field) columns.set(header, field);
+  });
+
+  const mappedFields = new Set(columns.values());
+  const missing = REQUIRED_FIELDS.filter((f) => !mappedFields.has(f));
+  if (missing.length > 0) {
+    throw new Error(`Missing required column(s): ${missing.join(', ')}`);
+  }
+
+  return records.map((record) => {
+    const row: ImportRow = {
+      // sheet_to_json attaches the zero-based sheet row index
+      rowNumber: ((record as any).__rowNum__ ?? 0) + 1,
+      email: '',
+      project: '',
+      role: '',
+    };
+
+    columns.forEach((field, header) => {
+      const value = String(record[header] ?? '').trim();
+      if (value) row[field] = value;
+    });
+
+    return row;
+  });
+}
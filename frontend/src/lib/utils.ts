@@ -17,6 +17,19 @@ export function formatDate(date: Date | string | null): string {
   }).format(d);
 }
 
+// Value for a datetime-local input, in the browser's time zone
+export function toDateTimeLocal(date: Date | string | null): string {
+  if (!date) return '';
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const offsetMs = d.getTimezoneOffset() * 60 * 1000;
+  return new Date(d.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+// ISO string for a datetime-local input value; undefined when empty
+export function fromDateTimeLocal(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
 export function formatDuration(seconds: number | null): string {
   if (seconds === null || seconds === undefined) return 'N/A';
 
@@ -81,6 +94,7 @@ export function getStatusColor(
       return 'info';
     case 'partial_success':
     case 'skipped':
+    case 'cancelled':
       return 'warning';
     default:
       return 'default';
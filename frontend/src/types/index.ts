@@ -15,11 +15,29 @@ export interface Account {
   region: string;
 }
 
+export type ProjectClassification = 'production' | 'template' | 'component' | 'sample';
+
+export interface ProjectListOptions {
+  includeTemplates?: boolean;
+  includeArchived?: boolean;
+}
+
 export interface Project {
   id: string;
   name: string;
   status: string;
   platform: string;
+  classification?: ProjectClassification; // Missing when ACC Admin couldn't classify it
+  // From ACC Admin; missing until the account's project details are synced
+  jobNumber?: string;
+  city?: string;
+  stateOrProvince?: string;
+  country?: string;
+  businessUnit?: string;
+  currentPhase?: string;
+  constructionType?: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
 }
 
 export interface ProjectUser {
@@ -36,6 +54,24 @@ export interface Role {
   description?: string;
 }
 
+export interface RoleRef {
+  id: string;
+  name: string; // Falls back to the ID when the role can't be resolved
+}
+
+export interface Company {
+  id: string;
+  name: string;
+}
+
+// Where a member's company came from: chosen, their account company,
+// the email domain map, or the account's first company
+export type CompanySource = 'selected' | 'member' | 'domain' | 'default';
+
+export interface ResolvedCompany extends Company {
+  source: CompanySource;
+}
+
 export interface AccountMember {
   id: string;
   email: string;
@@ -45,6 +81,33 @@ export interface AccountMember {
   companyName?: string;
 }
 
+export interface MemberProjectAccess {
+  projectId: string;
+  projectName: string;
+  platform: string;
+  roleIds: string[];
+  roleNames: string[];
+  accessLevel: AccessLevel;
+  products: ProductAccess[];
+}
+
+export interface MemberAccessReport {
+  email: string;
+  totalProjects: number; // Projects checked
+  projects: MemberProjectAccess[]; // Projects the member belongs to
+  failedProjects: { projectId: string; projectName: string; error: string }[];
+}
+
+export interface MembershipSyncStatus {
+  accountId: string;
+  totalProjects: number;
+  syncedProjects: number; // Synced at least once
+  staleProjects: number; // Never synced or past the cache TTL
+  oldestSyncedAt: string | null;
+  newestSyncedAt: string | null;
+  syncInProgress: boolean;
+}
+
 // Access levels for ACC project users
 export type AccessLevel = 'admin' | 'user';
 
@@ -54,22 +117,237 @@ export interface AccessLevelOption {
   description: string;
 }
 
+// How selected roles combine with a member's current roles
+export type RoleMode = 'replace' | 'add' | 'remove';
+
+// Per-product access sent to the ACC Admin API
+export interface ProductAccess {
+  key: string;
+  access: 'administrator' | 'member' | 'none';
+}
+
+export interface ProjectFilter {
+  projectIds?: string[];
+  nameContains?: string;
+  platform?: string;
+}
+
+export type ProjectGroupType = 'static' | 'dynamic';
+
+export interface ProjectGroupFilter {
+  nameContains?: string;
+  businessUnit?: string;
+  currentPhase?: string;
+  status?: string;
+  platform?: string;
+  city?: string;
+  activeFrom?: string; // YYYY-MM-DD
+  activeTo?: string; // YYYY-MM-DD
+}
+
+export interface ProjectGroup {
+  id: string;
+  accountId: string;
+  name: string;
+  description: string | null;
+  type: ProjectGroupType;
+  projectIds: string[]; // Static groups only
+  filter: ProjectGroupFilter | null; // Dynamic groups only
+  projectCount?: number; // Current projects; included when listing
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ManifestFormat = 'yaml' | 'json';
+
+export interface AccessManifest {
+  id: string;
+  accountId: string;
+  name: string;
+  description: string | null;
+  currentVersion: number;
+  driftCheckHours: number | null; // null when scheduled plans are off
+  lastCheckedAt: Date | null;
+  lastCheckError: string | null;
+  driftDetectedAt: Date | null; // Set while the last scheduled plan found differences
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A manifest with its current version
+export interface AccessManifestDetail extends AccessManifest {
+  format: ManifestFormat;
+  content: string;
+  comment: string | null;
+}
+
+export interface ManifestVersion {
+  version: number;
+  format: ManifestFormat;
+  content?: string; // Left out when listing versions
+  comment: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export type ReconcileAction = 'add' | 'update' | 'remove';
+
+export interface ReconcileChange {
+  action: ReconcileAction;
+  email: string;
+  projectId: string;
+  projectName: string;
+  currentRoles: RoleRef[];
+  desiredRoles: RoleRef[];
+  accessLevel: AccessLevel | null; // null for removals
+  companyId?: string;
+}
+
+export interface ReconcileSummary {
+  adds: number;
+  updates: number;
+  removals: number;
+  unchanged?: number; // Not recorded on drift reports
+}
+
+export interface ReconcilePlan {
+  manifestId: string | null;
+  manifestVersion: number | null;
+  prune: boolean;
+  projectCount: number;
+  changes: ReconcileChange[];
+  summary: ReconcileSummary;
+  failedProjects: { projectId: string; projectName: string; error: string }[];
+}
+
+export interface DriftReport {
+  id: string;
+  manifestVersion: number;
+  summary: ReconcileSummary;
+  changes: ReconcileChange[];
+  checkedAt: Date;
+}
+
+export type AccessReviewStatus = 'open' | 'closed';
+
+export type ReviewDecision = 'keep' | 'revoke';
+
+export interface AccessReviewProgress {
+  total: number;
+  decided: number;
+  revoked: number;
+}
+
+export interface AccessReviewCampaign {
+  id: string;
+  accountId: string;
+  name: string;
+  description: string | null;
+  status: AccessReviewStatus;
+  dueDate: string | null; // YYYY-MM-DD
+  createdBy: string | null;
+  closedBy: string | null;
+  closedAt: Date | null;
+  removalExecutionId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  progress: AccessReviewProgress;
+}
+
+export interface AccessReviewProject {
+  projectId: string;
+  projectName: string | null;
+  reviewerEmail: string;
+  progress: AccessReviewProgress;
+}
+
+export interface AccessReviewCampaignDetail extends AccessReviewCampaign {
+  projects: AccessReviewProject[];
+}
+
+// One membership as it was when the campaign started
+export interface AccessReviewItem {
+  id: string;
+  projectId: string;
+  email: string;
+  name: string | null;
+  companyName: string | null;
+  roles: RoleRef[];
+  accessLevel: AccessLevel | null;
+  decision: ReviewDecision | null;
+  note: string | null;
+  decidedBy: string | null;
+  decidedAt: Date | null;
+}
+
+// A group as expanded for a preview or job
+export interface ExpandedProjectGroup {
+  id: string;
+  name: string;
+  type: ProjectGroupType;
+  projectIds: string[];
+}
+
+export interface RoleTemplate {
+  id: string;
+  accountId: string;
+  name: string;
+  description: string | null;
+  roleId: string;
+  roleName: string | null;
+  products: ProductAccess[];
+  projectFilter: ProjectFilter | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface PreviewResult {
   userEmail: string;
   projectId: string;
   projectName: string;
   currentAccess: {
     hasAccess: boolean;
-    currentRole?: string;
+    roles: RoleRef[];
+    accessLevel?: AccessLevel;
+    products?: ProductAccess[];
   };
+  resultingRoles: RoleRef[]; // Roles the member will hold afterwards
+  accessLevel: AccessLevel;
+  products: ProductAccess[];
+  company: ResolvedCompany | null; // null when no company could be found
   willBeAdded: boolean;
   willBeUpdated: boolean;
+  conflict?: boolean; // Member copies: the target already has the user with other roles
 }
 
 export interface PreviewSummary {
   totalOperations: number;
   newUsers: number;
   updates: number;
+  unchanged: number;
+  withoutCompany: number; // New members with no company
+  conflicts?: number; // Member copies only
+}
+
+export interface RemovalPreviewResult {
+  userEmail: string;
+  projectId: string;
+  projectName: string;
+  currentAccess: {
+    hasAccess: boolean;
+    roles: RoleRef[];
+  };
+  willBeRemoved: boolean;
+}
+
+export interface RemovalPreviewSummary {
+  totalOperations: number;
+  removals: number;
+  notMembers: number;
 }
 
 export type JobStatus =
@@ -101,29 +379,152 @@ export interface JobResult {
   projectName: string | null;
   userEmail: string;
   status: ResultStatus;
-  previousRole: string | null;
-  assignedRole: string | null;
+  previousRoles: RoleRef[] | null;
+  resultingRoles: RoleRef[] | null; // Set once the operation completes
+  previousAccessLevel: AccessLevel | null;
+  accessLevel: AccessLevel | null;
+  products: ProductAccess[] | null;
   actionTaken: string | null;
   errorMessage: string | null;
   completedAt: Date | null;
 }
 
+export interface ErrorCodeCount {
+  code: string;
+  count: number;
+}
+
+// Filters for GET /api/bulk/:executionId/results; text filters match partially
+export interface JobResultFilters {
+  status?: ResultStatus;
+  email?: string;
+  project?: string;
+  errorCode?: string;
+}
+
+export interface JobResultsPage {
+  results: JobResult[];
+  nextCursor: string | null; // null on the last page
+}
+
+export type AuditAction =
+  | 'user_login'
+  | 'user_logout'
+  | 'projects_fetched'
+  | 'user_preview'
+  | 'job_created'
+  | 'job_started'
+  | 'job_completed'
+  | 'job_failed'
+  | 'job_cancelled'
+  | 'user_added_to_project'
+  | 'user_role_updated'
+  | 'api_error'
+  | 'rate_limit_hit'
+  | 'review_campaign_created'
+  | 'review_decision'
+  | 'review_campaign_closed';
+
+export interface AuditLogEntry {
+  id: string;
+  userId: string | null;
+  userEmail: string | null;
+  userName: string | null;
+  executionId: string | null;
+  action: AuditAction;
+  resourceType: string | null;
+  resourceId: string | null;
+  details: Record<string, any> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  success: boolean;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+// Filters for GET /api/audit, which lists the caller's own entries;
+// search matches details and error messages; from/to are dates or timestamps
+export interface AuditLogFilters {
+  action?: AuditAction;
+  executionId?: string;
+  resourceType?: string;
+  resourceId?: string;
+  from?: string;
+  to?: string;
+  success?: boolean;
+  search?: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: string | null; // null on the last page
+}
+
+export interface AuditLogExport {
+  entries: AuditLogEntry[];
+  truncated: boolean; // More entries matched than the export limit
+}
+
+export type JobType =
+  | 'bulk_user_assignment'
+  | 'bulk_user_removal'
+  | 'bulk_user_import'
+  | 'bulk_user_clone'
+  | 'bulk_member_copy'
+  | 'bulk_access_reconcile';
+
 export interface JobExecution {
   id: string;
+  jobType: JobType;
+  assignedRoles: RoleRef[] | null;
+  roleMode: RoleMode | null;
+  accessLevel: AccessLevel | null;
+  inviteToAccount: boolean;
+  projectGroups: ExpandedProjectGroup[] | null;
   status: JobStatus;
   progress: JobProgress;
-  results: JobResult[];
+  resultCounts: Record<ResultStatus, number>;
+  errorCodes: ErrorCodeCount[]; // Most frequent first
   startedAt: Date | null;
   completedAt: Date | null;
   estimatedTimeRemaining: number | null;
+  cancelRequested: boolean;
+  parentExecutionId: string | null;
+  retryCount: number;
+  retries: RetryExecution[];
+  scheduledFor: Date | null;
+  expiresAt: Date | null;
+  expiryExecutionId: string | null;
+  sourceEmail: string | null; // Member whose access a clone copied
+  removeSource: boolean | null;
+  handoverExecutionId: string | null; // Removal of the source after a handover
+  sourceProjectId: string | null; // Project whose members a member copy read
+  memberFilter: MemberCopyFilter | null;
+  manifestId: string | null; // Manifest a reconcile applied
+  manifestVersion: number | null;
+  reviewCampaignId: string | null; // Review campaign whose revoked memberships this removes
+}
+
+export interface RetryExecution {
+  id: string;
+  status: JobStatus;
+  successCount: number;
+  failedCount: number;
+  createdAt: Date;
 }
 
 export interface JobHistoryItem {
   id: string;
+  jobType: JobType;
   status: JobStatus;
+  assignedRoles: RoleRef[] | null;
+  roleMode: RoleMode | null;
   totalProjects: number;
+  projectGroups: ExpandedProjectGroup[] | null;
   successCount: number;
   failedCount: number;
+  retryCount: number;
+  parentExecutionId: string | null;
   startedAt: Date | null;
   completedAt: Date | null;
   createdAt: Date;
@@ -134,8 +535,27 @@ export interface JobHistoryItem {
 export interface BulkAssignmentRequest {
   userEmails: string[];
   projectIds: string[];
-  role: string;
+  projectGroupIds?: string[]; // Expanded to their current projects by the API
+  roles: string[];
+  roleMode: RoleMode;
   accountId: string;
+  accessLevel: AccessLevel;
+  products?: ProductAccess[];
+  scheduledFor?: string; // ISO date; runs immediately when omitted
+  expiresAt?: string; // ISO date; added access is removed then
+  inviteToAccount?: boolean; // Invite emails that aren't account members first
+  invitations?: AccountInvitation[];
+  companies?: Record<string, string>; // Email -> company ID
+  allowDefaultCompany?: boolean; // Fall back to the account's first company
+}
+
+// Details for creating an account user before assigning them
+export interface AccountInvitation {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  companyId?: string; // Defaults to the email's resolved company
+  jobTitle?: string;
 }
 
 export interface BulkAssignmentResponse {
@@ -143,27 +563,248 @@ export interface BulkAssignmentResponse {
   status: string;
   totalProjects: number;
   message: string;
+  scheduledFor?: Date | null;
+  expiresAt?: Date | null;
+}
+
+export interface ScheduledExecution {
+  id: string;
+  jobType: JobType;
+  status: JobStatus;
+  userEmails: string[];
+  projectIds: string[];
+  assignedRoles: RoleRef[] | null;
+  roleMode: RoleMode | null;
+  accessLevel: AccessLevel | null;
+  totalProjects: number;
+  scheduledFor: Date;
+  expiresAt: Date | null;
+  expiryOf: string | null; // Assignment this removal expires
+  createdAt: Date;
+}
+
+export interface ScheduleUpdateRequest {
+  scheduledFor?: string;
+  expiresAt?: string | null; // null clears the expiry
+}
+
+export interface RetryJobResponse extends BulkAssignmentResponse {
+  parentExecutionId: string;
+  retryCount: number;
+}
+
+export interface CancelJobResponse {
+  executionId: string;
+  status: JobStatus;
+  cancelRequested: boolean;
+  message: string;
+}
+
+export interface BulkRemovalRequest {
+  userEmails: string[];
+  projectIds: string[];
+  projectGroupIds?: string[];
+  accountId: string;
+}
+
+export interface RemovalPreviewResponse {
+  preview: RemovalPreviewResult[];
+  projectGroups: ExpandedProjectGroup[];
+  summary: RemovalPreviewSummary;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  email: string;
+  project: string;
+  role: string;
+  company?: string;
+  accessLevel?: string;
+  firstName?: string; // Used when inviting the email to the account
+  lastName?: string;
+  jobTitle?: string;
+}
+
+export interface BulkImportRequest {
+  accountId: string;
+  rows: ImportRow[];
+  inviteToAccount?: boolean;
+  allowDefaultCompany?: boolean; // For rows without a company
+}
+
+export interface CloneAccessRequest {
+  accountId: string;
+  sourceEmail: string;
+  targetEmails: string[];
+  removeSource?: boolean; // Handover: remove the source once targets have the access
+  inviteToAccount?: boolean;
+  companies?: Record<string, string>;
+  allowDefaultCompany?: boolean;
+}
+
+export interface MemberCopyFilter {
+  roleIds?: string[];
+  companyIds?: string[];
+}
+
+export interface MemberCopyRequest {
+  accountId: string;
+  targetProjectIds: string[];
+  filter?: MemberCopyFilter;
+  skipConflicts?: boolean; // Leave out users the target has with other roles
+  allowDefaultCompany?: boolean;
+}
+
+export interface MemberCopyPreviewResponse {
+  sourceProjectId: string;
+  memberCount: number; // Source members matching the filter
+  preview: PreviewResult[];
+  summary: PreviewSummary;
+}
+
+export interface ClonePreviewResponse {
+  sourceEmail: string;
+  preview: PreviewResult[];
+  failedProjects: { projectId: string; projectName: string; error: string }[];
+  summary: PreviewSummary;
+}
+
+export interface ImportRowValidation {
+  rowNumber: number;
+  email: string;
+  projectId: string | null;
+  projectName: string | null;
+  roleId: string | null;
+  roleName: string | null;
+  companyId: string | null;
+  companyName: string | null;
+  accessLevel: AccessLevel | null;
+  firstName: string | null;
+  lastName: string | null;
+  jobTitle: string | null;
+  errors: string[];
+  valid: boolean;
+}
+
+export interface ImportValidationReport {
+  rows: ImportRowValidation[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+  };
+}
+
+export interface RoleTemplateRequest {
+  accountId: string;
+  name: string;
+  description?: string;
+  roleId: string;
+  products?: ProductAccess[];
+  projectFilter?: ProjectFilter | null;
+}
+
+export interface ApplyTemplateRequest {
+  accountId: string;
+  userEmails: string[];
+  projectIds?: string[];
+}
+
+export interface ProjectGroupRequest {
+  accountId: string;
+  name: string;
+  description?: string;
+  type: ProjectGroupType;
+  projectIds?: string[];
+  filter?: ProjectGroupFilter;
+}
+
+export interface AccessManifestRequest {
+  accountId: string;
+  name: string;
+  description?: string;
+  format: ManifestFormat;
+  content: string;
+  comment?: string; // Saved with a new version
+  driftCheckHours?: number | null;
+}
+
+export interface ReconcileRequest {
+  accountId: string;
+  manifestId?: string;
+  version?: number; // Defaults to the current version
+  content?: string; // Inline manifest, instead of a stored one
+  format?: ManifestFormat;
+  allowDefaultCompany?: boolean;
+}
+
+export interface ReconcileApplyResponse extends BulkAssignmentResponse {
+  summary: ReconcileSummary;
+  failedProjects: { projectId: string; projectName: string; error: string }[];
+}
+
+export interface AccessReviewRequest {
+  accountId: string;
+  name: string;
+  description?: string;
+  dueDate?: string; // YYYY-MM-DD
+  projectIds?: string[];
+  projectGroupIds?: string[];
+  reviewers?: Record<string, string>; // Project ID -> reviewer email
+  defaultReviewerEmail?: string;
+}
+
+export interface ReviewDecisionInput {
+  itemId: string;
+  decision: ReviewDecision;
+  note?: string;
+}
+
+export interface CloseReviewResponse {
+  campaign: AccessReviewCampaign;
+  executionId: string | null; // Null when nothing was revoked
+  revoked: number;
+  undecided: number;
 }
 
 export interface PreviewRequest {
   userEmails: string[];
   projectIds: string[];
+  projectGroupIds?: string[];
   accountId: string;
+  roles?: string[];
+  roleMode?: RoleMode;
+  accessLevel?: AccessLevel;
+  products?: ProductAccess[];
+  companies?: Record<string, string>;
+  allowDefaultCompany?: boolean;
 }
 
 export interface PreviewResponse {
   preview: PreviewResult[];
+  projectGroups: ExpandedProjectGroup[];
   summary: PreviewSummary;
 }
 
 // UI State types
 
+export type BulkOperationMode = 'assign' | 'remove' | 'import' | 'clone' | 'copy-members';
+
 export interface BulkAssignmentFormData {
   selectedProjects: string[];
+  selectedGroups: string[]; // Project group IDs; expanded at preview time
   userEmails: string;
   selectedMembers: string[]; // Member IDs from ACC
-  selectedRole: string;
+  selectedRoles: string[];
+  roleMode: RoleMode;
   accessLevel: AccessLevel;
+  products: ProductAccess[]; // Per-product overrides
+  scheduledFor: string; // datetime-local value; empty runs immediately
+  expiresAt: string; // datetime-local value; empty never expires
+  inviteToAccount: boolean;
+  invitations: Record<string, AccountInvitation>; // Keyed by email
+  companies: Record<string, string>; // Email -> company ID; unset resolves automatically
+  allowDefaultCompany: boolean;
 }
 
 export interface AlertMessage {